@@ -10,6 +10,7 @@ import { Loading } from "@/components/ui/loading";
 import { useAuth } from "@/hooks/useAuth";
 import Dashboard from "./pages/Dashboard";
 import Documents from "./pages/Documents";
+import DocumentViewer from "./pages/DocumentViewer";
 import Projects from "./pages/Projects";
 import Profile from "./pages/Profile";
 import Teams from "./pages/Teams";
@@ -18,6 +19,8 @@ import Chat from "./pages/Chat";
 import Auth from "./pages/Auth";
 import Landing from "./pages/Landing";
 import Analytics from "./pages/Analytics";
+import AISettings from "./pages/AISettings";
+import RAGEvaluation from "./pages/RAGEvaluation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -77,6 +80,20 @@ const App = () => (
             </ProtectedRoute>
           } />
           
+          <Route path="/documents/:id" element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-background">
+                <Header />
+                <div className="flex">
+                  <Sidebar />
+                  <main className="flex-1 p-6 min-w-0">
+                    <DocumentViewer />
+                  </main>
+                </div>
+              </div>
+            </ProtectedRoute>
+          } />
+          
           <Route path="/projects" element={
             <ProtectedRoute>
               <div className="min-h-screen bg-background">
@@ -161,6 +178,34 @@ const App = () => (
             </ProtectedRoute>
           } />
           
+          <Route path="/ai-settings" element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-background">
+                <Header />
+                <div className="flex">
+                  <Sidebar />
+                  <main className="flex-1 p-6">
+                    <AISettings />
+                  </main>
+                </div>
+              </div>
+            </ProtectedRoute>
+          } />
+          
+          <Route path="/rag-evaluation" element={
+            <ProtectedRoute>
+              <div className="min-h-screen bg-background">
+                <Header />
+                <div className="flex">
+                  <Sidebar />
+                  <main className="flex-1 p-6">
+                    <RAGEvaluation />
+                  </main>
+                </div>
+              </div>
+            </ProtectedRoute>
+          } />
+          
           {/* Catch-all route */}
           <Route path="*" element={<NotFound />} />
         </Routes>
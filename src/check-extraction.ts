@@ -0,0 +1,116 @@
+/**
+ * Extraction checks without the app: builds workbooks in memory, large and
+ * hostile ones included, runs them through the spreadsheet extractor and
+ * exits non-zero if any check fails.
+ * Run it with `npm run check:extraction`, e.g. in CI.
+ */
+import { strToU8, Zip, ZipDeflate, zipSync } from 'fflate';
+import { DOMParser } from '@xmldom/xmldom';
+
+// The extractors parse Office XML with the browser's DOMParser
+const globals = globalThis as unknown as Record<string, unknown>;
+globals.DOMParser ??= DOMParser;
+
+const { extractSpreadsheet, XLSX_CONTENT_TYPE } = await import('./lib/spreadsheet-extraction');
+const { DocumentExtractionError } = await import('./lib/document-extraction');
+
+interface ExtractionCheck {
+  name: string;
+  run: () => Promise<string>;
+}
+
+/**
+ * A minimal XLSX with one sheet of inline strings and numbers
+ */
+const buildXlsx = (rows: (string | number)[][]): ArrayBuffer => {
+  const cell = (value: string | number) =>
+    typeof value === 'number' ? `<c><v>${value}</v></c>` : `<c t="inlineStr"><is><t>${value}</t></is></c>`;
+  const sheetData = rows.map((row, index) => `<row r="${index + 1}">${row.map(cell).join('')}</row>`).join('');
+  const zip = zipSync({
+    '_rels/.rels': strToU8(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(
+      `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`
+    ),
+  });
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer;
+};
+
+/**
+ * A small XLSX whose sheet part inflates to `megabytes` of zeros. It is
+ * deflated as it is generated, so the zeros are never held in memory.
+ */
+const buildZipBomb = (megabytes: number): ArrayBuffer => {
+  const chunks: Uint8Array[] = [];
+  const zip = new Zip((error, chunk) => {
+    if (error) throw error;
+    chunks.push(chunk);
+  });
+  const sheet = new ZipDeflate('xl/worksheets/sheet1.xml', { level: 9 });
+  zip.add(sheet);
+  const zeros = new Uint8Array(1024 * 1024).fill(0x30);
+  for (let i = 0; i < megabytes; i++) sheet.push(zeros, i === megabytes - 1);
+  zip.end();
+
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes.buffer;
+};
+
+const CHECKS: ExtractionCheck[] = [
+  {
+    // Data dumps have more filled cells than a function call takes arguments
+    name: 'Large sheet (20,000 rows x 10 columns)',
+    run: async () => {
+      const header = Array.from({ length: 10 }, (_, column) => `Field ${column + 1}`);
+      const rows = Array.from({ length: 20000 }, (_, row) => Array.from({ length: 10 }, (_, column) => row * 10 + column));
+      const { tables } = await extractSpreadsheet(buildXlsx([header, ...rows]), XLSX_CONTENT_TYPE);
+      const [table] = tables ?? [];
+      if (table?.rowCount !== 20000 || table.columns.length !== 10) {
+        throw new Error(`expected 20000 rows and 10 columns, got ${table?.rowCount} and ${table?.columns.length}`);
+      }
+      return `${table.rowCount} rows, ${table.columns.length} columns`;
+    },
+  },
+  {
+    name: 'Zip bomb (600MB sheet part) is rejected',
+    run: async () => {
+      try {
+        await extractSpreadsheet(buildZipBomb(600), XLSX_CONTENT_TYPE);
+      } catch (error) {
+        if (error instanceof DocumentExtractionError && error.reason === 'invalid') return error.message;
+        throw error;
+      }
+      throw new Error('the workbook was extracted');
+    },
+  },
+];
+
+let failures = 0;
+for (const check of CHECKS) {
+  try {
+    console.log(`PASS ${check.name}: ${await check.run()}`);
+  } catch (error) {
+    failures++;
+    console.log(`FAIL ${check.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+console.log(`\n${CHECKS.length - failures} of ${CHECKS.length} checks passed`);
+
+if (failures > 0) process.exit(1);
@@ -0,0 +1,16 @@
+/**
+ * Prompt-injection checks without the app: runs the adversarial fixtures
+ * through the detector and the document fences, and exits non-zero if any
+ * check fails. Run it with `npm run check:injection`, e.g. in CI.
+ */
+import { runInjectionChecks } from './lib/prompt-injection-fixtures';
+
+const results = runInjectionChecks();
+const failed = results.filter(result => !result.passed);
+
+for (const result of results) {
+  console.log(`${result.passed ? 'PASS' : 'FAIL'} [${result.kind}] ${result.name}: ${result.detail}`);
+}
+console.log(`\n${results.length - failed.length} of ${results.length} checks passed`);
+
+if (failed.length > 0) process.exit(1);
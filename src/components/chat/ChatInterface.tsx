@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
-import { Send, Paperclip, Mic, Bot, User, FileText, Check, AlertTriangle, ExternalLink } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Send, Paperclip, Mic, Bot, User, FileText, Check, AlertTriangle, ExternalLink, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -7,8 +8,14 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { RAGSystem, SearchResult } from "@/lib/rag";
+import { FlaggedSource } from "@/lib/prompt-injection";
+import { pageReference } from "@/lib/document-extraction";
+import { documentViewerPath } from "@/lib/document-viewer";
+import { isAIConfigured } from '@/lib/ai-providers';
 import { useToast } from "@/components/ui/use-toast";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { MarkdownMessage } from "./MarkdownMessage";
+import { InjectionWarning } from "./InjectionWarning";
 
 interface Message {
   id: string;
@@ -18,13 +25,17 @@ interface Message {
   sources?: SearchResult[];
   error?: boolean;
   thinking?: boolean;
+  streaming?: boolean;
+  stopped?: boolean;
+  model?: string;
+  flaggedSources?: FlaggedSource[];
 }
 
 interface ChatInterfaceProps {
-  geminiApiKey?: string;
+  aiEnabled?: boolean;
 }
 
-export function ChatInterface({ geminiApiKey }: ChatInterfaceProps) {
+export function ChatInterface({ aiEnabled = isAIConfigured() }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: "1",
@@ -36,6 +47,7 @@ export function ChatInterface({ geminiApiKey }: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   const scrollToBottom = () => {
@@ -75,7 +87,8 @@ export function ChatInterface({ geminiApiKey }: ChatInterfaceProps) {
       formattedResponse += '\n\n## Sources\n';
       sources.forEach((source, index) => {
         const relevance = Math.round(source.similarity * 100);
-        formattedResponse += `${index + 1}. **${source.title}** (${relevance}% relevant)\n`;
+        const page = source.page_number ? `, ${pageReference(source.page_number, source.page_unit)}` : '';
+        formattedResponse += `${index + 1}. **${source.title}** (${relevance}% relevant${page})\n`;
       });
     }
     
@@ -95,6 +108,8 @@ export function ChatInterface({ geminiApiKey }: ChatInterfaceProps) {
     setMessages(prev => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     // Add thinking message
     const thinkingId = (Date.now() + 1).toString();
@@ -108,14 +123,19 @@ export function ChatInterface({ geminiApiKey }: ChatInterfaceProps) {
 
     try {
       // Use RAG system for real AI response
-      if (geminiApiKey) {
+      if (aiEnabled) {
         try {
-          const ragSystem = RAGSystem.getInstance(geminiApiKey);
-          const context = await ragSystem.getRAGContext(input);
+          const ragSystem = RAGSystem.getInstance();
+          const context = await ragSystem.getRAGContext(input, controller.signal);
           
           // Remove thinking message
           setMessages(prev => prev.filter(m => m.id !== thinkingId));
           
+          if (controller.signal.aborted) {
+            setIsLoading(false);
+            return;
+          }
+          
           if (context.relevantDocuments.length === 0) {
             // No relevant documents found
             const noResultsMessage: Message = {
@@ -130,18 +150,30 @@ export function ChatInterface({ geminiApiKey }: ChatInterfaceProps) {
             return;
           }
           
-          const response = await ragSystem.generateResponse(input, context);
-          const formattedResponse = formatAIResponse(response, context.relevantDocuments);
-          
+          // Show the sources right away and stream the answer into the message
+          const assistantId = (Date.now() + 2).toString();
           const assistantMessage: Message = {
-            id: (Date.now() + 2).toString(),
-            content: formattedResponse,
+            id: assistantId,
+            content: "",
             role: "assistant",
             timestamp: new Date(),
-            sources: context.relevantDocuments
+            sources: context.relevantDocuments,
+            streaming: true
           };
           setMessages(prev => [...prev, assistantMessage]);
           
+          const response = await ragSystem.streamResponse(input, context, (token) => {
+            setMessages(prev => prev.map(m => 
+              m.id === assistantId ? { ...m, content: m.content + token } : m
+            ));
+          }, controller.signal);
+          
+          const stopped = controller.signal.aborted;
+          const formattedResponse = stopped ? response.content : formatAIResponse(response.content, context.relevantDocuments);
+          setMessages(prev => prev.map(m => 
+            m.id === assistantId ? { ...m, content: formattedResponse, streaming: false, stopped, model: response.model, flaggedSources: response.flaggedSources } : m
+          ));
+          
         } catch (error) {
           console.error("Error generating AI response:", error);
           
@@ -200,11 +232,13 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
         setMessages(prev => [...prev, assistantMessage]);
       }
       setIsLoading(false);
+      abortControllerRef.current = null;
     } catch (error) {
       // Remove thinking message
       setMessages(prev => prev.filter(m => m.id !== thinkingId));
       
       setIsLoading(false);
+      abortControllerRef.current = null;
       console.error("Error sending message:", error);
       
       const errorMessage: Message = {
@@ -224,6 +258,10 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -231,35 +269,6 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
     }
   };
 
-  // Function to render message content with proper formatting
-  const renderMessageContent = (content: string) => {
-    // Split content by section headers
-    const sections = content.split(/^##\s+/m).filter(Boolean);
-    
-    if (sections.length <= 1) {
-      // No section headers, render as plain text with paragraph breaks
-      return content.split('\n\n').map((paragraph, i) => (
-        <p key={i} className={`${i > 0 ? 'mt-2' : ''}`}>{paragraph}</p>
-      ));
-    }
-    
-    // Render with section headers
-    return sections.map((section, idx) => {
-      const lines = section.split('\n');
-      const title = idx > 0 ? lines[0] : null;
-      const content = idx > 0 ? lines.slice(1).join('\n') : section;
-      
-      return (
-        <div key={idx} className={`${idx > 0 ? 'mt-4' : ''}`}>
-          {title && <h3 className="text-sm font-semibold mb-2">{title}</h3>}
-          {content.split('\n\n').map((paragraph, i) => (
-            <p key={i} className={`${i > 0 ? 'mt-2' : ''} text-sm`}>{paragraph}</p>
-          ))}
-        </div>
-      );
-    });
-  };
-
   return (
     <div className="flex flex-col h-full bg-card rounded-lg border shadow-research">
       {/* Chat Header */}
@@ -271,7 +280,7 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
           <div>
             <h3 className="font-semibold">AI Research Assistant</h3>
             <p className="text-sm text-muted-foreground">
-              {geminiApiKey ? "Connected to Gemini AI" : "Demo Mode - Connect API Key"}
+              {aiEnabled ? "Connected to AI" : "Demo Mode - AI Not Configured"}
             </p>
           </div>
         </div>
@@ -322,12 +331,12 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
                       <span className="text-sm text-muted-foreground">{message.content}</span>
                     </div>
                   ) : (
-                    <div className="text-sm leading-relaxed">
-                      {renderMessageContent(message.content)}
-                    </div>
+                    <MarkdownMessage content={message.content} streaming={message.streaming} />
                   )}
                 </Card>
 
+                <InjectionWarning flaggedSources={message.flaggedSources} />
+
                 {message.sources && message.sources.length > 0 && (
                   <div className="space-y-2 max-w-full">
                     <div className="flex items-center gap-1 text-xs text-muted-foreground">
@@ -339,23 +348,26 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
                         <TooltipProvider key={index}>
                           <Tooltip>
                             <TooltipTrigger asChild>
-                              <Card className="p-2 bg-accent/50 hover:bg-accent transition-colors cursor-pointer">
-                                <div className="flex items-center justify-between gap-2 text-xs">
-                                  <div className="flex items-center gap-2 overflow-hidden">
-                                    <FileText className="h-3 w-3 text-accent-foreground flex-shrink-0" />
-                                    <span className="font-medium truncate">{source.title}</span>
+                              <Link to={documentViewerPath(source)} className="block">
+                                <Card className="p-2 bg-accent/50 hover:bg-accent transition-colors cursor-pointer">
+                                  <div className="flex items-center justify-between gap-2 text-xs">
+                                    <div className="flex items-center gap-2 overflow-hidden">
+                                      <FileText className="h-3 w-3 text-accent-foreground flex-shrink-0" />
+                                      <span className="font-medium truncate">{source.title}</span>
+                                      {source.page_number && <span className="text-muted-foreground flex-shrink-0">{pageReference(source.page_number, source.page_unit)}</span>}
+                                    </div>
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                      <Badge variant="secondary" className="text-xs">
+                                        {Math.round(source.similarity * 100)}%
+                                      </Badge>
+                                      <ExternalLink className="h-3 w-3" />
+                                    </div>
                                   </div>
-                                  <div className="flex items-center gap-1 flex-shrink-0">
-                                    <Badge variant="secondary" className="text-xs">
-                                      {Math.round(source.similarity * 100)}%
-                                    </Badge>
-                                    <ExternalLink className="h-3 w-3" />
-                                  </div>
-                                </div>
-                              </Card>
+                                </Card>
+                              </Link>
                             </TooltipTrigger>
                             <TooltipContent>
-                              <p className="font-medium">{source.title}</p>
+                              <p className="font-medium">{source.title}{source.page_number && `, ${pageReference(source.page_number, source.page_unit, 'long')}`}</p>
                               <p className="text-xs mt-1 max-w-xs">{source.content.substring(0, 100)}...</p>
                             </TooltipContent>
                           </Tooltip>
@@ -365,6 +377,13 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
                   </div>
                 )}
 
+                {message.stopped && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Square className="h-3 w-3" />
+                    <span>Response stopped</span>
+                  </div>
+                )}
+
                 {message.error && (
                   <div className="flex items-center gap-1 text-xs text-destructive">
                     <AlertTriangle className="h-3 w-3" />
@@ -374,6 +393,7 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
 
                 <p className="text-xs text-muted-foreground">
                   {message.timestamp.toLocaleTimeString()}
+                  {message.model && ` · ${message.model}`}
                 </p>
               </div>
 
@@ -385,7 +405,7 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
             </div>
           ))}
 
-          {isLoading && !messages.some(m => m.thinking) && (
+          {isLoading && !messages.some(m => m.thinking || m.streaming) && (
             <div className="flex gap-3 animate-fade-in">
               <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center flex-shrink-0 mt-1">
                 <Bot className="h-4 w-4 text-primary-foreground" />
@@ -428,13 +448,23 @@ Consider reviewing the Term Sheet Analysis for specific investment parameters th
             <Button variant="ghost" size="sm" disabled={isLoading}>
               <Mic className="h-4 w-4" />
             </Button>
-            <Button 
-              onClick={handleSendMessage}
-              disabled={!input.trim() || isLoading}
-              className="gradient-primary"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading ? (
+              <Button 
+                onClick={handleStop}
+                variant="outline"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button 
+                onClick={handleSendMessage}
+                disabled={!input.trim()}
+                className="gradient-primary"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -1,19 +1,32 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, FileText, X, ArrowLeft } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Send, Bot, User, FileText, X, ArrowLeft, Square, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
-import { RAGSystem, SearchResult } from '@/lib/rag';
+import { chunkingProfileFor, RAGSystem, SearchResult } from '@/lib/rag';
+import { FlaggedSource } from '@/lib/prompt-injection';
+import { PageUnit, pageReference } from '@/lib/document-extraction';
+import { documentViewerPath } from '@/lib/document-viewer';
+import { pageUnitOf } from '@/lib/pptx-extraction';
+import { isAIConfigured } from '@/lib/ai-providers';
+import { DocumentVersion, listDocumentVersions } from '@/lib/document-versions';
+import { annotationsForChat, listAnnotations, listTeamMembers, TeamMember } from '@/lib/annotations';
 import { supabase } from '@/lib/supabase';
+import { MarkdownMessage } from './MarkdownMessage';
+import { InjectionWarning } from './InjectionWarning';
 
 interface DocumentChatProps {
   documentId: string;
   documentTitle: string;
   onClose: () => void;
-  geminiApiKey?: string;
+  aiEnabled?: boolean;
 }
 
 interface Message {
@@ -22,22 +35,38 @@ interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   sources?: SearchResult[];
+  streaming?: boolean;
+  stopped?: boolean;
+  model?: string;
+  flaggedSources?: FlaggedSource[];
+  // Earlier version the question was asked of; unset for the current one
+  version?: number;
+  // Annotations sent along with the sources
+  annotationCount?: number;
 }
 
-export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey }: DocumentChatProps) {
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export function DocumentChat({ documentId, documentTitle, onClose, aiEnabled = isAIConfigured() }: DocumentChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingChecked, setProcessingChecked] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [ragSystem, setRagSystem] = useState<RAGSystem | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState('current');
+  const [includeAnnotations, setIncludeAnnotations] = useState(false);
+  // Comment authors and the page unit, loaded when annotations are first included
+  const annotationContextRef = useRef<{ members: TeamMember[]; pageUnit: PageUnit } | null>(null);
 
   useEffect(() => {
-    if (geminiApiKey) {
-      setRagSystem(RAGSystem.getInstance(geminiApiKey));
+    if (aiEnabled) {
+      setRagSystem(RAGSystem.getInstance());
     }
-  }, [geminiApiKey]);
+  }, [aiEnabled]);
 
   useEffect(() => {
     // Check if document is processed when component mounts
@@ -60,13 +89,15 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
           console.log('Document not processed, fetching content...');
           const { data: documentData } = await supabase
             .from('research_documents')
-            .select('content, title')
+            .select('content, title, content_type')
             .eq('id', documentId)
             .single();
             
           if (documentData?.content) {
             console.log('Processing document...');
-            await ragSystem.processDocument(documentId, documentData.content, documentData.title);
+            await ragSystem.processDocument(documentId, documentData.content, documentData.title, pageUnitOf(documentData.content_type), {
+              chunking: chunkingProfileFor(documentData.content_type),
+            });
             
             // Check if processing succeeded
             const { data: newChunks } = await supabase
@@ -88,6 +119,12 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
     }
   }, [documentId, ragSystem]);
 
+  useEffect(() => {
+    listDocumentVersions(documentId)
+      .then(setVersions)
+      .catch(error => console.error('Error loading document versions:', error));
+  }, [documentId]);
+
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
     if (scrollAreaRef.current) {
@@ -95,6 +132,19 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
     }
   }, [messages]);
 
+  const getAnnotationNotes = async (version: number) => {
+    if (!annotationContextRef.current) {
+      const [members, { data }] = await Promise.all([
+        listTeamMembers(),
+        supabase.from('research_documents').select('content_type').eq('id', documentId).single(),
+      ]);
+      annotationContextRef.current = { members, pageUnit: pageUnitOf(data?.content_type ?? '') };
+    }
+    // Fetched per question, so replies made since the last one are included
+    const annotations = await listAnnotations(documentId, version);
+    return annotationsForChat(annotations, annotationContextRef.current.members, annotationContextRef.current.pageUnit);
+  };
+
   const handleSendMessage = async () => {
     if (!input.trim() || !ragSystem) return;
 
@@ -108,24 +158,44 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const version = selectedVersion === 'current' ? undefined : Number(selectedVersion);
 
     try {
       // Use RAG system to get context from this specific document
-      const context = await ragSystem.getDocumentContext(documentId, input);
-      
-      // Generate AI response with document context
-      const response = await ragSystem.generateResponse(input, context);
+      const context = await ragSystem.getDocumentContext(documentId, input, 3, controller.signal, version);
+      if (includeAnnotations) {
+        const notes = await getAnnotationNotes(version ?? versions[0]?.version_number ?? 1);
+        if (notes.length > 0) context.annotations = { documentId, notes };
+      }
+      if (controller.signal.aborted) return;
       
+      // Show sources as soon as retrieval finishes, then stream the answer in
+      const assistantId = (Date.now() + 1).toString();
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: response,
+        id: assistantId,
+        content: '',
         role: 'assistant',
         timestamp: new Date(),
         sources: context.relevantDocuments,
+        streaming: true,
+        version,
+        annotationCount: context.annotations?.notes.length,
       };
 
       setMessages(prev => [...prev, assistantMessage]);
       
+      const response = await ragSystem.streamResponse(input, context, (token) => {
+        setMessages(prev => prev.map(m =>
+          m.id === assistantId ? { ...m, content: m.content + token } : m
+        ));
+      }, controller.signal);
+      
+      setMessages(prev => prev.map(m =>
+        m.id === assistantId ? { ...m, streaming: false, stopped: controller.signal.aborted, model: response.model, flaggedSources: response.flaggedSources } : m
+      ));
+      
       // Update processing state based on context
       setIsProcessing(context.relevantDocuments.length === 0);
     } catch (error) {
@@ -139,9 +209,14 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
+      abortControllerRef.current = null;
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -181,9 +256,32 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
                 </p>
               </div>
             </div>
-            <Button variant="ghost" size="sm" onClick={onClose}>
-              <X className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center gap-2 mr-2">
+                <Switch id="include-annotations" checked={includeAnnotations} onCheckedChange={setIncludeAnnotations} />
+                <Label htmlFor="include-annotations" className="text-xs text-gray-600">
+                  Include annotations
+                </Label>
+              </div>
+              {versions.length > 1 && (
+                <Select value={selectedVersion} onValueChange={setSelectedVersion}>
+                  <SelectTrigger className="h-8 w-44 text-xs" aria-label="Document version">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Latest (version {versions[0].version_number})</SelectItem>
+                    {versions.slice(1).map(version => (
+                      <SelectItem key={version.id} value={String(version.version_number)}>
+                        Version {version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </CardHeader>
 
@@ -254,24 +352,46 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
                           : "bg-gray-100 text-gray-900"
                       )}
                     >
-                      <div className="text-sm whitespace-pre-wrap prose prose-sm max-w-none">
-                        {message.content}
-                      </div>
+                      <MarkdownMessage content={message.content} streaming={message.streaming} />
+                      
+                      {message.stopped && (
+                        <p className="mt-2 text-xs text-gray-500">Response stopped</p>
+                      )}
+
+                      {message.model && !message.streaming && (
+                        <p className="mt-2 text-xs text-gray-500">Answered by {message.model}</p>
+                      )}
+
+                      {message.annotationCount && !message.streaming && (
+                        <p className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+                          <MessageSquare className="h-3 w-3" />
+                          {message.annotationCount} annotation{message.annotationCount === 1 ? '' : 's'} included as context
+                        </p>
+                      )}
+
+                      {!message.streaming && message.flaggedSources && message.flaggedSources.length > 0 && (
+                        <div className="mt-2">
+                          <InjectionWarning flaggedSources={message.flaggedSources} />
+                        </div>
+                      )}
                       
                       {/* Sources */}
                       {message.sources && message.sources.length > 0 && (
                         <div className="mt-3 pt-3 border-t border-gray-200">
-                          <p className="text-xs text-gray-500 mb-2">Sources from this document:</p>
+                          <p className="text-xs text-gray-500 mb-2">
+                            {message.version ? `Sources from version ${message.version} of this document:` : 'Sources from this document:'}
+                          </p>
                           <div className="space-y-1">
                             {message.sources.slice(0, 3).map((source, index) => (
-                              <div key={index} className="flex items-center justify-between text-xs">
+                              <Link key={index} to={documentViewerPath(source)} className="flex items-center justify-between text-xs hover:underline">
                                 <span className="text-gray-600 truncate max-w-[80%]">
-                                  {source.title}
+                                  {source.page_number ? capitalize(pageReference(source.page_number, source.page_unit, 'long', source.page_end)) : source.title}
+                                  {source.section_path?.length > 0 && ` · ${source.section_path.join(' › ')}`}
                                 </span>
                                 <Badge variant="secondary" className="text-xs">
                                   {Math.round(source.similarity * 100)}%
                                 </Badge>
-                              </div>
+                              </Link>
                             ))}
                           </div>
                         </div>
@@ -286,7 +406,7 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
                   </div>
                 ))}
                 
-                {isLoading && (
+                {isLoading && !messages.some(m => m.streaming) && (
                   <div className="flex gap-3 justify-start">
                     <div className="flex-shrink-0 w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
                       <Bot className="h-4 w-4 text-blue-600" />
@@ -314,17 +434,28 @@ export function DocumentChat({ documentId, documentTitle, onClose, geminiApiKey
                 disabled={isLoading || !ragSystem}
                 className="flex-1"
               />
-              <Button 
-                onClick={handleSendMessage}
-                disabled={!input.trim() || isLoading || !ragSystem}
-                size="sm"
-              >
-                <Send className="h-4 w-4" />
-              </Button>
+              {isLoading ? (
+                <Button 
+                  onClick={handleStop}
+                  variant="outline"
+                  size="sm"
+                  title="Stop generating"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button 
+                  onClick={handleSendMessage}
+                  disabled={!input.trim() || !ragSystem}
+                  size="sm"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
             </div>
             {!ragSystem && (
               <p className="text-xs text-red-600 mt-2">
-                API key not configured. Please check your environment variables.
+                AI proxy not configured. Please check your environment variables.
               </p>
             )}
             {isProcessing && processingChecked && (
@@ -0,0 +1,44 @@
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { FlaggedSource } from "@/lib/prompt-injection";
+
+interface InjectionWarningProps {
+  flaggedSources?: FlaggedSource[];
+}
+
+// Marks an answer written from sources that contain text aimed at the model
+export function InjectionWarning({ flaggedSources }: InjectionWarningProps) {
+  if (!flaggedSources || flaggedSources.length === 0) return null;
+
+  const documents = new Set(flaggedSources.map(source => source.title)).size;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className="gap-1 border-amber-300 bg-amber-50 text-amber-800 cursor-help">
+            <ShieldAlert className="h-3 w-3" />
+            Possible prompt injection in {documents} source{documents === 1 ? '' : 's'}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-sm space-y-2">
+          <p className="text-xs">
+            These sources contain text that reads like instructions to an AI. The model was told to treat it as
+            document content, but check this answer against the originals.
+          </p>
+          {flaggedSources.map((source, index) => (
+            <div key={index} className="text-xs">
+              <p className="font-medium">{source.title} (chunk {source.chunkIndex + 1})</p>
+              {source.matches.map(match => (
+                <p key={match.rule} className="text-muted-foreground">
+                  {match.label}: "{match.excerpt}"
+                </p>
+              ))}
+            </div>
+          ))}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
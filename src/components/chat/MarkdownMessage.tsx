@@ -0,0 +1,106 @@
+import { Fragment, ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+interface MarkdownMessageProps {
+  content: string;
+  streaming?: boolean;
+  className?: string;
+}
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "paragraph"; text: string };
+
+// Split markdown into blocks. Works on partial text, so a response can be
+// rendered while it is still streaming in.
+const parseBlocks = (content: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join("\n") });
+      paragraph = [];
+    }
+  };
+
+  for (const line of content.split("\n")) {
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*•]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = Boolean(numbered);
+      const item = (bullet || numbered)![1];
+      const last = blocks[blocks.length - 1];
+      if (last && last.type === "list" && last.ordered === ordered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item] });
+      }
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+};
+
+// Render **bold**, *italic* and `code` spans
+const renderInline = (text: string): ReactNode[] =>
+  text.split(/(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`)/g).filter(Boolean).map((part, i) => {
+    if (part.startsWith("**") && part.endsWith("**")) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("`") && part.endsWith("`")) {
+      return <code key={i} className="px-1 rounded bg-background/60 text-xs">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    return <Fragment key={i}>{part}</Fragment>;
+  });
+
+export function MarkdownMessage({ content, streaming, className }: MarkdownMessageProps) {
+  const blocks = parseBlocks(content);
+
+  return (
+    <div className={cn("text-sm leading-relaxed space-y-2", className)}>
+      {blocks.map((block, idx) => {
+        if (block.type === "heading") {
+          return (
+            <h3 key={idx} className={cn("font-semibold", idx > 0 && "pt-2", block.level <= 2 ? "text-sm" : "text-xs")}>
+              {renderInline(block.text)}
+            </h3>
+          );
+        }
+        if (block.type === "list") {
+          const ListTag = block.ordered ? "ol" : "ul";
+          return (
+            <ListTag key={idx} className={cn("pl-5 space-y-1", block.ordered ? "list-decimal" : "list-disc")}>
+              {block.items.map((item, i) => (
+                <li key={i}>{renderInline(item)}</li>
+              ))}
+            </ListTag>
+          );
+        }
+        return (
+          <p key={idx} className="whitespace-pre-wrap">
+            {renderInline(block.text)}
+          </p>
+        );
+      })}
+      {streaming && (
+        <span className="inline-block w-2 h-4 align-text-bottom bg-muted-foreground animate-pulse" />
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
-import { Send, Bot, User, FileText, FolderOpen } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Send, Bot, User, FileText, FolderOpen, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -8,7 +9,13 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
 import { RAGSystem, SearchResult } from "@/lib/rag";
+import { FlaggedSource } from "@/lib/prompt-injection";
+import { pageReference } from "@/lib/document-extraction";
+import { documentViewerPath } from "@/lib/document-viewer";
+import { isAIConfigured } from '@/lib/ai-providers';
 import { supabase } from "@/lib/supabase";
+import { MarkdownMessage } from "./MarkdownMessage";
+import { InjectionWarning } from "./InjectionWarning";
 
 interface Message {
   id: string;
@@ -16,6 +23,10 @@ interface Message {
   role: "user" | "assistant";
   timestamp: Date;
   sources?: SearchResult[];
+  streaming?: boolean;
+  stopped?: boolean;
+  model?: string;
+  flaggedSources?: FlaggedSource[];
 }
 
 interface ProjectChatProps {
@@ -23,10 +34,10 @@ interface ProjectChatProps {
   projectTitle: string;
   isOpen: boolean;
   onClose: () => void;
-  geminiApiKey?: string;
+  aiEnabled?: boolean;
 }
 
-export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiApiKey }: ProjectChatProps) {
+export function ProjectChat({ projectId, projectTitle, isOpen, onClose, aiEnabled = isAIConfigured() }: ProjectChatProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: "1",
@@ -39,6 +50,7 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
   const [isLoading, setIsLoading] = useState(false);
   const [projectDocuments, setProjectDocuments] = useState<any[]>([]);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Fetch project documents on mount
   useEffect(() => {
@@ -99,28 +111,43 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
     setMessages(prev => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      if (geminiApiKey) {
-        const ragSystem = RAGSystem.getInstance(geminiApiKey);
+      if (aiEnabled) {
+        const ragSystem = RAGSystem.getInstance();
         
         // Get context from project documents
-        const context = await ragSystem.getProjectContext(projectId, input);
-        const response = await ragSystem.generateResponse(input, context);
+        const context = await ragSystem.getProjectContext(projectId, input, 5, controller.signal);
+        if (controller.signal.aborted) return;
         
+        // Show sources as soon as retrieval finishes, then stream the answer in
+        const assistantId = (Date.now() + 1).toString();
         const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          content: response,
+          id: assistantId,
+          content: "",
           role: "assistant",
           timestamp: new Date(),
-          sources: context.relevantDocuments
+          sources: context.relevantDocuments,
+          streaming: true
         };
         setMessages(prev => [...prev, assistantMessage]);
+        
+        const response = await ragSystem.streamResponse(input, context, (token) => {
+          setMessages(prev => prev.map(m =>
+            m.id === assistantId ? { ...m, content: m.content + token } : m
+          ));
+        }, controller.signal);
+        
+        setMessages(prev => prev.map(m =>
+          m.id === assistantId ? { ...m, streaming: false, stopped: controller.signal.aborted, model: response.model, flaggedSources: response.flaggedSources } : m
+        ));
       } else {
         // Fallback response
         const assistantMessage: Message = {
           id: (Date.now() + 1).toString(),
-          content: `I understand you're asking about "${input}" in the context of project "${projectTitle}". This project has ${projectDocuments.length} documents that I can analyze. Please configure your Gemini API key to enable full AI capabilities.`,
+          content: `I understand you're asking about "${input}" in the context of project "${projectTitle}". This project has ${projectDocuments.length} documents that I can analyze. Please configure the AI proxy to enable full AI capabilities.`,
           role: "assistant",
           timestamp: new Date(),
         };
@@ -137,9 +164,14 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
       setMessages(prev => [...prev, assistantMessage]);
     } finally {
       setIsLoading(false);
+      abortControllerRef.current = null;
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -167,7 +199,7 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
               <div>
                 <p className="font-medium">AI Research Assistant</p>
                 <p className="text-sm text-muted-foreground">
-                  {geminiApiKey ? "Connected to Gemini AI" : "Demo Mode - Connect API Key"}
+                  {aiEnabled ? "Connected to AI" : "Demo Mode - AI Not Configured"}
                 </p>
               </div>
             </div>
@@ -204,23 +236,34 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
                         ? "bg-primary text-primary-foreground ml-auto" 
                         : "bg-muted"
                     )}>
-                      <p className="text-sm leading-relaxed">{message.content}</p>
+                      <MarkdownMessage content={message.content} streaming={message.streaming} />
                     </Card>
 
+                    {message.stopped && (
+                      <p className="text-xs text-muted-foreground">Response stopped</p>
+                    )}
+
+                    <InjectionWarning flaggedSources={message.flaggedSources} />
+
                     {message.sources && message.sources.length > 0 && (
                       <div className="space-y-2 max-w-full">
                         <p className="text-xs text-muted-foreground">Sources from project documents:</p>
                         <div className="grid gap-2">
                           {message.sources.map((source, index) => (
-                            <Card key={index} className="p-2 bg-accent/50 hover:bg-accent transition-colors cursor-pointer">
-                              <div className="flex items-center gap-2 text-xs">
-                                <FileText className="h-3 w-3 text-accent-foreground" />
-                                <span className="flex-1 font-medium">{source.title}</span>
-                                <Badge variant="secondary" className="text-xs">
-                                  {Math.round(source.similarity * 100)}%
-                                </Badge>
-                              </div>
-                            </Card>
+                            <Link key={index} to={documentViewerPath(source)} className="block">
+                              <Card className="p-2 bg-accent/50 hover:bg-accent transition-colors cursor-pointer">
+                                <div className="flex items-center gap-2 text-xs">
+                                  <FileText className="h-3 w-3 text-accent-foreground" />
+                                  <span className="flex-1 font-medium">
+                                    {source.title}
+                                    {source.page_number && <span className="font-normal text-muted-foreground"> · {pageReference(source.page_number, source.page_unit, 'short', source.page_end)}</span>}
+                                  </span>
+                                  <Badge variant="secondary" className="text-xs">
+                                    {Math.round(source.similarity * 100)}%
+                                  </Badge>
+                                </div>
+                              </Card>
+                            </Link>
                           ))}
                         </div>
                       </div>
@@ -228,6 +271,7 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
 
                     <p className="text-xs text-muted-foreground">
                       {message.timestamp.toLocaleTimeString()}
+                      {message.model && ` · ${message.model}`}
                     </p>
                   </div>
 
@@ -239,7 +283,7 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
                 </div>
               ))}
 
-              {isLoading && (
+              {isLoading && !messages.some(m => m.streaming) && (
                 <div className="flex gap-3 justify-start">
                   <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center flex-shrink-0 mt-1">
                     <Bot className="h-4 w-4 text-primary-foreground" />
@@ -265,13 +309,24 @@ export function ProjectChat({ projectId, projectTitle, isOpen, onClose, geminiAp
               disabled={isLoading}
               className="flex-1"
             />
-            <Button 
-              onClick={handleSendMessage} 
-              disabled={isLoading || !input.trim()}
-              size="sm"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading ? (
+              <Button 
+                onClick={handleStop}
+                variant="outline"
+                size="sm"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button 
+                onClick={handleSendMessage} 
+                disabled={!input.trim()}
+                size="sm"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { CheckCircle2, MessageSquare, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { PageUnit, pageReference } from '@/lib/document-extraction';
+import {
+  addComment,
+  commentParts,
+  deleteAnnotation,
+  deleteComment,
+  DocumentAnnotation,
+  memberName,
+  setAnnotationResolved,
+  TeamMember,
+} from '@/lib/annotations';
+import { CommentInput } from './CommentInput';
+
+interface AnnotationThreadProps {
+  annotation: DocumentAnnotation;
+  members: TeamMember[];
+  currentUserId: string | undefined;
+  pageUnit: PageUnit;
+  // The document owner may remove anyone's highlight
+  isDocumentOwner: boolean;
+  active?: boolean;
+  onSelect?: () => void;
+  onChange: (annotation: DocumentAnnotation) => void;
+  onDelete: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * A highlight's quote and comment thread, with replies and resolving
+ */
+export function AnnotationThread({
+  annotation,
+  members,
+  currentUserId,
+  pageUnit,
+  isDocumentOwner,
+  active = false,
+  onSelect,
+  onChange,
+  onDelete,
+}: AnnotationThreadProps) {
+  const { toast } = useToast();
+  const [replying, setReplying] = useState(false);
+  const resolved = annotation.resolved_at !== null;
+
+  const handleReply = async (body: string) => {
+    try {
+      const comment = await addComment(annotation.id, body, members);
+      onChange({ ...annotation, comments: [...annotation.comments, comment] });
+      setReplying(false);
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast({
+        title: "Comment Failed",
+        description: "Your comment could not be saved. Please try again.",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleResolve = async () => {
+    try {
+      onChange({ ...annotation, ...(await setAnnotationResolved(annotation.id, !resolved)) });
+    } catch (error) {
+      console.error('Error updating annotation:', error);
+      toast({
+        title: "Update Failed",
+        description: `The thread could not be ${resolved ? 'reopened' : 'resolved'}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    try {
+      await deleteComment(commentId);
+      onChange({ ...annotation, comments: annotation.comments.filter(comment => comment.id !== commentId) });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast({
+        title: "Delete Failed",
+        description: "The comment could not be deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this highlight and all of its comments?')) return;
+    try {
+      await deleteAnnotation(annotation.id);
+      onDelete();
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      toast({
+        title: "Delete Failed",
+        description: "The highlight could not be deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div
+      data-thread={annotation.id}
+      className={cn(
+        'rounded-md border bg-white p-3 text-sm space-y-3',
+        active && 'ring-2 ring-sky-300',
+        resolved && 'opacity-75'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <button
+          type="button"
+          className="min-w-0 flex-1 border-l-2 border-sky-400 pl-2 text-left text-gray-600 italic line-clamp-3 disabled:cursor-default"
+          onClick={onSelect}
+          disabled={!onSelect}
+        >
+          {annotation.quote}
+        </button>
+        {annotation.page_number && (
+          <span className="flex-shrink-0 text-xs text-gray-500">{pageReference(annotation.page_number, pageUnit)}</span>
+        )}
+      </div>
+
+      {annotation.comments.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Highlighted by {memberName(members, annotation.user_id)} · {formatTime(annotation.created_at)}
+        </p>
+      )}
+
+      {annotation.comments.map(comment => (
+        <div key={comment.id} className="group space-y-0.5">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="font-medium text-gray-800">{memberName(members, comment.user_id)}</span>
+            <span>{formatTime(comment.created_at)}</span>
+            {comment.user_id === currentUserId && (
+              <button
+                type="button"
+                className="ml-auto opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-400 hover:text-red-600"
+                onClick={() => handleDeleteComment(comment.id)}
+                aria-label="Delete comment"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap text-gray-800">
+            {commentParts(comment.body, members).map((part, index) =>
+              part.memberId ? (
+                <span
+                  key={index}
+                  className={cn('rounded px-0.5 font-medium text-sky-700', part.memberId === currentUserId && 'bg-sky-100')}
+                >
+                  {part.text}
+                </span>
+              ) : (
+                part.text
+              )
+            )}
+          </p>
+        </div>
+      ))}
+
+      {resolved && annotation.resolved_at && (
+        <Badge variant="outline" className="text-xs font-normal text-green-700">
+          Resolved{annotation.resolved_by && ` by ${memberName(members, annotation.resolved_by)}`} · {formatTime(annotation.resolved_at)}
+        </Badge>
+      )}
+
+      {replying ? (
+        <CommentInput members={members} onSubmit={handleReply} autoFocus onCancel={() => setReplying(false)} />
+      ) : (
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplying(true)}>
+            <MessageSquare className="h-3.5 w-3.5 mr-1" />
+            Reply
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleResolve}>
+            {resolved ? <RotateCcw className="h-3.5 w-3.5 mr-1" /> : <CheckCircle2 className="h-3.5 w-3.5 mr-1" />}
+            {resolved ? 'Reopen' : 'Resolve'}
+          </Button>
+          {(annotation.user_id === currentUserId || isDocumentOwner) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-7 px-2 text-xs text-gray-500 hover:text-red-600"
+              onClick={handleDelete}
+              aria-label="Delete highlight"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
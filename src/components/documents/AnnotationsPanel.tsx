@@ -0,0 +1,112 @@
+import { Highlighter, Loader2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { PageUnit } from '@/lib/document-extraction';
+import { DocumentAnnotation, TeamMember } from '@/lib/annotations';
+import { AnnotationThread } from './AnnotationThread';
+import { CommentInput } from './CommentInput';
+
+interface AnnotationsPanelProps {
+  annotations: DocumentAnnotation[];
+  loading: boolean;
+  members: TeamMember[];
+  currentUserId: string | undefined;
+  pageUnit: PageUnit;
+  isDocumentOwner: boolean;
+  showResolved: boolean;
+  onShowResolvedChange: (show: boolean) => void;
+  // Text selected for a new annotation, waiting for its comment
+  draft: { quote: string } | null;
+  onCreate: (comment: string) => Promise<void>;
+  onCancelDraft: () => void;
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (annotation: DocumentAnnotation) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * The document's highlights and their threads, in reading order
+ */
+export function AnnotationsPanel({
+  annotations,
+  loading,
+  members,
+  currentUserId,
+  pageUnit,
+  isDocumentOwner,
+  showResolved,
+  onShowResolvedChange,
+  draft,
+  onCreate,
+  onCancelDraft,
+  activeId,
+  onSelect,
+  onChange,
+  onDelete,
+}: AnnotationsPanelProps) {
+  const open = annotations.filter(annotation => !annotation.resolved_at);
+  const shown = showResolved ? annotations : open;
+  const resolvedCount = annotations.length - open.length;
+
+  return (
+    <aside className="space-y-3" aria-label="Annotations">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="font-semibold text-gray-900">
+          Annotations
+          {open.length > 0 && <span className="ml-1 text-sm font-normal text-gray-500">({open.length} open)</span>}
+        </h2>
+        {resolvedCount > 0 && (
+          <div className="flex items-center gap-2">
+            <Switch id="show-resolved" checked={showResolved} onCheckedChange={onShowResolvedChange} />
+            <Label htmlFor="show-resolved" className="text-xs text-gray-600">
+              Resolved ({resolvedCount})
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="rounded-md border border-sky-200 bg-sky-50 p-3 space-y-2">
+          <p className="border-l-2 border-sky-400 pl-2 text-sm text-gray-600 italic line-clamp-3">{draft.quote}</p>
+          <CommentInput
+            members={members}
+            onSubmit={onCreate}
+            placeholder="Add a comment, or @mention a team member"
+            submitLabel="Comment"
+            autoFocus
+            onCancel={onCancelDraft}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : shown.length === 0 && !draft ? (
+        <div className="rounded-md border border-dashed p-4 text-center text-sm text-gray-500">
+          <Highlighter className="h-5 w-5 mx-auto mb-2 text-gray-400" />
+          {annotations.length === 0
+            ? 'Select text in the document to highlight it or add a comment.'
+            : 'All threads are resolved.'}
+        </div>
+      ) : (
+        shown.map(annotation => (
+          <AnnotationThread
+            key={annotation.id}
+            annotation={annotation}
+            members={members}
+            currentUserId={currentUserId}
+            pageUnit={pageUnit}
+            isDocumentOwner={isDocumentOwner}
+            active={annotation.id === activeId}
+            onSelect={() => onSelect(annotation.id)}
+            onChange={onChange}
+            onDelete={() => onDelete(annotation.id)}
+          />
+        ))
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,142 @@
+import { useRef, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { mentionQuery, TeamMember } from '@/lib/annotations';
+
+interface CommentInputProps {
+  members: TeamMember[];
+  onSubmit: (body: string) => Promise<void>;
+  placeholder?: string;
+  submitLabel?: string;
+  autoFocus?: boolean;
+  // A plain highlight may go without a comment
+  allowEmpty?: boolean;
+  onCancel?: () => void;
+}
+
+// Suggestions shown while typing an @mention
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Comment box that suggests team members after "@". Ctrl+Enter sends.
+ */
+export function CommentInput({
+  members,
+  onSubmit,
+  placeholder = 'Reply, or @mention a team member',
+  submitLabel = 'Reply',
+  autoFocus,
+  allowEmpty = false,
+  onCancel,
+}: CommentInputProps) {
+  const [draft, setDraft] = useState('');
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [sending, setSending] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const mention = mentionQuery(draft, caret);
+  const suggestions = mention
+    ? members.filter(member => member.name.toLowerCase().includes(mention.query.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const insertMention = (member: TeamMember) => {
+    if (!mention) return;
+    const before = `${draft.slice(0, mention.start)}@${member.name} `;
+    setDraft(before + draft.slice(caret));
+    setCaret(before.length);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if ((!draft.trim() && !allowEmpty) || sending) return;
+    setSending(true);
+    try {
+      await onSubmit(draft);
+      setDraft('');
+      setCaret(0);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(current => (current + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape' && onCancel) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={draft}
+          rows={2}
+          className="min-h-[60px] text-sm"
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          disabled={sending}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setCaret(e.target.selectionStart);
+            setHighlighted(0);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          aria-label={placeholder}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-white py-1 text-sm shadow-md" role="listbox">
+            {suggestions.map((member, index) => (
+              <li key={member.id} role="option" aria-selected={index === highlighted}>
+                <button
+                  type="button"
+                  className={cn('w-full px-3 py-1.5 text-left hover:bg-gray-100', index === highlighted && 'bg-gray-100')}
+                  // Keep focus, and the caret, in the textarea
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(member)}
+                >
+                  <span className="font-medium">{member.name}</span>
+                  {member.email && <span className="ml-2 text-xs text-gray-500">{member.email}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={sending}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={sending || (!draft.trim() && !allowEmpty)}>
+          {sending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
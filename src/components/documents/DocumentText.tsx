@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { PageUnit } from '@/lib/document-extraction';
+import { AnnotatedRange, highlightSegments, pageBlocks, TextRange, ViewerBlock, ViewerPage } from '@/lib/document-viewer';
+
+interface DocumentTextProps {
+  text: string;
+  pages: ViewerPage[];
+  pageUnit: PageUnit;
+  // The cited passage, if it was found in the text
+  cited: TextRange | null;
+  // First and last page of the citation, marked when the passage itself was not found
+  citedPages: { start: number; end: number } | null;
+  matches: TextRange[];
+  activeMatch: number;
+  annotations?: AnnotatedRange[];
+  activeAnnotation?: string | null;
+  onAnnotationClick?: (id: string) => void;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-xl font-semibold',
+  2: 'text-lg font-semibold',
+};
+
+/**
+ * Extracted text laid out by page, with the cited passage, search matches
+ * and annotations marked. Marks carry data-cited, data-match and
+ * data-annotation attributes for scrolling to them, and every run its
+ * data-offset into the text, for turning a selection into a range.
+ */
+export function DocumentText({
+  text,
+  pages,
+  pageUnit,
+  cited,
+  citedPages,
+  matches,
+  activeMatch,
+  annotations = [],
+  activeAnnotation = null,
+  onAnnotationClick,
+}: DocumentTextProps) {
+  const layout = useMemo(() => pages.map(page => ({ page, blocks: pageBlocks(text, page) })), [text, pages]);
+
+  const renderRange = (range: TextRange, { tableCell = false } = {}) =>
+    highlightSegments(range, cited, matches, annotations).map(segment => {
+      let content = text.slice(segment.start, segment.end);
+      // Extractors escape pipes inside table cells
+      if (tableCell) content = content.replace(/\\\|/g, '|');
+      if (!segment.cited && segment.match === null && segment.annotation === null) {
+        return <span key={segment.start} data-offset={segment.start}>{content}</span>;
+      }
+      const annotation = segment.annotation;
+      return (
+        <mark
+          key={segment.start}
+          data-offset={segment.start}
+          data-cited={segment.cited || undefined}
+          data-match={segment.match ?? undefined}
+          data-annotation={annotation ?? undefined}
+          onClick={annotation && onAnnotationClick ? () => onAnnotationClick(annotation) : undefined}
+          className={cn(
+            'rounded-sm text-inherit',
+            annotation && 'cursor-pointer border-b-2 border-sky-400',
+            annotation && (annotation === activeAnnotation ? 'bg-sky-200' : 'bg-sky-100'),
+            segment.cited && 'bg-yellow-200',
+            segment.match !== null && (segment.match === activeMatch ? 'bg-orange-400' : 'bg-orange-200')
+          )}
+        >
+          {content}
+        </mark>
+      );
+    });
+
+  const renderBlock = (block: ViewerBlock, index: number) => {
+    switch (block.kind) {
+      case 'heading':
+        return (
+          <p key={index} className={HEADING_CLASSES[block.level] ?? 'font-semibold'}>
+            {renderRange(block.range)}
+          </p>
+        );
+      case 'paragraph':
+        return (
+          <p key={index} className="whitespace-pre-wrap">
+            {renderRange(block.range)}
+          </p>
+        );
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full border-collapse border text-xs">
+              <tbody>
+                {block.rows.map((row, rowIndex) => {
+                  const Cell = rowIndex < block.headerRows ? 'th' : 'td';
+                  return (
+                    <tr key={rowIndex} className={rowIndex < block.headerRows ? 'bg-gray-50' : undefined}>
+                      {row.map((cell, cellIndex) => (
+                        <Cell key={cellIndex} className="border px-2 py-1 text-left align-top font-normal">
+                          {renderRange(cell, { tableCell: true })}
+                        </Cell>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {layout.map(({ page, blocks }) => {
+        const isCitedPage = !cited && citedPages && page.number !== null && page.number >= citedPages.start && page.number <= citedPages.end;
+        return (
+          <section
+            key={page.start}
+            data-page={page.number ?? undefined}
+            className={cn('rounded-lg border bg-white p-6', isCitedPage && 'ring-2 ring-yellow-300')}
+          >
+            {page.number !== null && (
+              <p className="mb-3 text-xs font-medium uppercase tracking-wide text-gray-400">
+                {pageUnit === 'slide' ? 'Slide' : 'Page'} {page.number}
+              </p>
+            )}
+            {blocks.length > 0 ? (
+              <div className="space-y-3 text-sm leading-relaxed text-gray-800">{blocks.map(renderBlock)}</div>
+            ) : (
+              <p className="text-sm text-gray-400">No text on this {pageUnit}</p>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, GitMerge, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import {
+  dismissDuplicatePair,
+  DuplicateCandidate,
+  DuplicateGroup,
+  estimateSimilarity,
+  findDuplicateGroups,
+  mergeDocuments,
+} from '@/lib/duplicates';
+
+interface DuplicatesDialogProps {
+  userId: string;
+  onMerged: () => void;
+  onClose: () => void;
+}
+
+// The latest processed upload is usually the revision to keep
+const suggestedKeeper = (group: DuplicateGroup): string => {
+  const completed = group.documents.filter(doc => doc.status === 'completed');
+  const candidates = completed.length > 0 ? completed : group.documents;
+  return candidates[candidates.length - 1].id;
+};
+
+const similarityTo = (keeper: DuplicateCandidate, doc: DuplicateCandidate): string => {
+  if (keeper.content_hash && keeper.content_hash === doc.content_hash) return 'Same file';
+  if (!keeper.text_minhash || !doc.text_minhash) return '';
+  return `${Math.round(estimateSimilarity(keeper.text_minhash, doc.text_minhash) * 100)}% similar`;
+};
+
+export function DuplicatesDialog({ userId, onMerged, onClose }: DuplicatesDialogProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [keepers, setKeepers] = useState<Record<number, string>>({});
+  const [busyGroup, setBusyGroup] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadGroups = useCallback(
+    () =>
+      findDuplicateGroups()
+        .then(found => {
+          setGroups(found);
+          setKeepers(Object.fromEntries(found.map((group, index) => [index, suggestedKeeper(group)])));
+        })
+        .catch(err => setError(err instanceof Error ? err.message : 'Could not look for duplicates')),
+    []
+  );
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const handleMerge = async (index: number) => {
+    const group = groups![index];
+    const keepId = keepers[index];
+    const duplicateIds = group.documents.map(doc => doc.id).filter(id => id !== keepId);
+    setBusyGroup(index);
+    try {
+      await mergeDocuments(keepId, duplicateIds);
+      toast({
+        title: "Documents Merged",
+        description: `${duplicateIds.length} duplicate${duplicateIds.length === 1 ? '' : 's'} merged into ${group.documents.find(doc => doc.id === keepId)?.title}. Tags and project links were kept.`,
+      });
+      onMerged();
+      await loadGroups();
+    } catch (err) {
+      console.error('Error merging documents:', err);
+      toast({
+        title: "Error",
+        description: `Failed to merge documents: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  const handleDismiss = async (index: number) => {
+    const { documents } = groups![index];
+    setBusyGroup(index);
+    try {
+      for (let i = 0; i < documents.length; i++) {
+        for (let j = i + 1; j < documents.length; j++) {
+          await dismissDuplicatePair(documents[i].id, documents[j].id, userId);
+        }
+      }
+      await loadGroups();
+    } catch (err) {
+      console.error('Error dismissing duplicates:', err);
+      toast({
+        title: "Error",
+        description: "Failed to mark the documents as not duplicates",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && busyGroup === null && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            Identical files, and documents whose text is at least 80% the same. Merging keeps the selected document, moves the
+            others' tags and project links to it, and deletes the others.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!groups && !error && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+        {groups?.length === 0 && <p className="text-sm text-gray-600">No duplicate documents found.</p>}
+
+        {groups && groups.length > 0 && (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-4 pr-3">
+              {groups.map((group, index) => {
+                const keeper = group.documents.find(doc => doc.id === keepers[index]) ?? group.documents[0];
+                return (
+                  <div key={group.documents.map(doc => doc.id).join()} className="space-y-3 rounded-md border p-3">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Copy className="h-4 w-4 text-gray-500" />
+                      {group.exact ? 'Identical files' : 'Similar text'}
+                      <Badge variant="secondary" className="text-xs">{group.documents.length} documents</Badge>
+                    </div>
+
+                    <RadioGroup
+                      value={keeper.id}
+                      onValueChange={id => setKeepers(prev => ({ ...prev, [index]: id }))}
+                      disabled={busyGroup !== null}
+                    >
+                      {group.documents.map(doc => (
+                        <div key={doc.id} className="flex items-center gap-3 text-sm">
+                          <RadioGroupItem value={doc.id} id={`keep-${doc.id}`} />
+                          <Label htmlFor={`keep-${doc.id}`} className="flex-1 min-w-0 font-normal">
+                            <span className="block truncate">{doc.title}</span>
+                            <span className="text-xs text-gray-500">
+                              Uploaded {new Date(doc.created_at).toLocaleDateString()} · {doc.status}
+                              {doc.id !== keeper.id && similarityTo(keeper, doc) && ` · ${similarityTo(keeper, doc)}`}
+                            </span>
+                          </Label>
+                          {doc.id === keeper.id && <Badge className="text-xs">Keep</Badge>}
+                        </div>
+                      ))}
+                    </RadioGroup>
+
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleDismiss(index)} disabled={busyGroup !== null}>
+                        Not duplicates
+                      </Button>
+                      <Button size="sm" onClick={() => handleMerge(index)} disabled={busyGroup !== null}>
+                        {busyGroup === index ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <GitMerge className="h-4 w-4 mr-1" />}
+                        Merge into selected
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { ChevronRight, Folder, FolderOpen, Inbox, Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface FolderNode {
+  name: string;
+  path: string;
+  // Documents in this folder and its subfolders
+  count: number;
+  children: FolderNode[];
+}
+
+interface FolderTreeProps {
+  // One entry per document; null for documents outside any folder
+  folderPaths: (string | null)[];
+  // null shows every document, '' those outside any folder
+  selected: string | null;
+  onSelect: (folderPath: string | null) => void;
+}
+
+const buildTree = (folderPaths: (string | null)[]): FolderNode[] => {
+  const root: FolderNode = { name: '', path: '', count: 0, children: [] };
+  for (const folderPath of folderPaths) {
+    if (!folderPath) continue;
+    let node = root;
+    for (const name of folderPath.split('/')) {
+      const path = node.path ? `${node.path}/${name}` : name;
+      let child = node.children.find(candidate => candidate.name === name);
+      if (!child) {
+        child = { name, path, count: 0, children: [] };
+        node.children.push(child);
+      }
+      child.count++;
+      node = child;
+    }
+  }
+
+  // Data rooms number their folders, so "10. Legal" sorts after "9. Tax"
+  const sort = (nodes: FolderNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    nodes.forEach(node => sort(node.children));
+  };
+  sort(root.children);
+  return root.children;
+};
+
+const rowClass = (active: boolean) =>
+  cn(
+    'flex w-full items-center gap-1.5 rounded px-2 py-1 text-left text-sm hover:bg-gray-100',
+    active && 'bg-blue-50 font-medium text-blue-700 hover:bg-blue-50'
+  );
+
+export function FolderTree({ folderPaths, selected, onSelect }: FolderTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const tree = buildTree(folderPaths);
+  const unfiled = folderPaths.filter(folderPath => !folderPath).length;
+
+  const toggle = (path: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isOpen = expanded.has(node.path);
+    return (
+      <div key={node.path}>
+        <div className="flex items-center" style={{ paddingLeft: depth * 12 }}>
+          <button
+            type="button"
+            className={cn('rounded p-0.5 text-gray-400 hover:text-gray-700', node.children.length === 0 && 'invisible')}
+            onClick={() => toggle(node.path)}
+            aria-label={isOpen ? `Collapse ${node.name}` : `Expand ${node.name}`}
+          >
+            <ChevronRight className={cn('h-3.5 w-3.5 transition-transform', isOpen && 'rotate-90')} />
+          </button>
+          <button type="button" className={rowClass(selected === node.path)} onClick={() => onSelect(node.path)} title={node.path}>
+            {selected === node.path ? <FolderOpen className="h-4 w-4 flex-shrink-0" /> : <Folder className="h-4 w-4 flex-shrink-0 text-gray-500" />}
+            <span className="flex-1 truncate">{node.name}</span>
+            <span className="text-xs text-gray-400">{node.count}</span>
+          </button>
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <nav className="space-y-0.5" aria-label="Folders">
+      <button type="button" className={rowClass(selected === null)} onClick={() => onSelect(null)}>
+        <Layers className="h-4 w-4 flex-shrink-0 text-gray-500" />
+        <span className="flex-1">All documents</span>
+        <span className="text-xs text-gray-400">{folderPaths.length}</span>
+      </button>
+      {tree.map(node => renderNode(node, 0))}
+      {unfiled > 0 && (
+        <button type="button" className={rowClass(selected === '')} onClick={() => onSelect('')}>
+          <Inbox className="h-4 w-4 flex-shrink-0 text-gray-500" />
+          <span className="flex-1">Not in a folder</span>
+          <span className="text-xs text-gray-400">{unfiled}</span>
+        </button>
+      )}
+    </nav>
+  );
+}
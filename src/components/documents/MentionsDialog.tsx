@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AtSign, ExternalLink, Loader2, MessageSquare } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { pageReference } from '@/lib/document-extraction';
+import { pageUnitOf } from '@/lib/pptx-extraction';
+import { documentViewerPath } from '@/lib/document-viewer';
+import { AnnotationMention, commentParts, DocumentAnnotation, getAnnotation, listTeamMembers, memberName, TeamMember } from '@/lib/annotations';
+import { AnnotationThread } from './AnnotationThread';
+
+interface MentionsDialogProps {
+  userId: string;
+  mentions: AnnotationMention[];
+  // Documents the user owns, which open in the viewer; teammates' documents are private to them
+  ownedDocumentIds: Set<string>;
+  onClose: () => void;
+}
+
+/**
+ * Comments that @mention the user, with each thread one click away. Mentions
+ * on a teammate's document are answered here, since the document itself
+ * stays private to its owner.
+ */
+export function MentionsDialog({ userId, mentions, ownedDocumentIds, onClose }: MentionsDialogProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [openThread, setOpenThread] = useState<DocumentAnnotation | null>(null);
+  const [loadingThread, setLoadingThread] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    listTeamMembers()
+      .then(setMembers)
+      .catch(error => console.error('Error loading team members:', error));
+  }, []);
+
+  const handleShowThread = async (annotationId: string) => {
+    if (openThread?.id === annotationId) {
+      setOpenThread(null);
+      return;
+    }
+    setLoadingThread(annotationId);
+    try {
+      setOpenThread(await getAnnotation(annotationId));
+    } catch (error) {
+      console.error('Error loading thread:', error);
+      toast({
+        title: "Thread Unavailable",
+        description: "This thread could not be loaded. It may have been deleted.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingThread(null);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Mentions</DialogTitle>
+          <DialogDescription>Comments on document annotations that mention you, newest first.</DialogDescription>
+        </DialogHeader>
+
+        {mentions.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">
+            <AtSign className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            Nobody has mentioned you in a comment yet.
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-3 pr-3">
+              {mentions.map(mention => (
+                <div key={mention.comment_id} className="rounded-md border p-3 text-sm space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 truncate">
+                      {mention.document_title}
+                      {mention.page_number && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">{pageReference(mention.page_number, pageUnitOf(mention.content_type ?? ''))}</span>
+                      )}
+                    </span>
+                    {mention.resolved_at && <Badge variant="outline" className="text-xs font-normal text-green-700">Resolved</Badge>}
+                  </div>
+                  <p className="border-l-2 border-sky-400 pl-2 text-gray-600 italic line-clamp-2">{mention.quote}</p>
+                  <p className="text-gray-800">
+                    <span className="font-medium">{memberName(members, mention.author_id)}: </span>
+                    {commentParts(mention.body, members).map((part, index) =>
+                      part.memberId ? (
+                        <span key={index} className="rounded px-0.5 font-medium text-sky-700">{part.text}</span>
+                      ) : (
+                        part.text
+                      )
+                    )}
+                  </p>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleShowThread(mention.annotation_id)}>
+                      {loadingThread === mention.annotation_id ? (
+                        <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                      ) : (
+                        <MessageSquare className="h-3.5 w-3.5 mr-1" />
+                      )}
+                      {openThread?.id === mention.annotation_id ? 'Hide thread' : 'Show thread'}
+                    </Button>
+                    {ownedDocumentIds.has(mention.document_id) && (
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
+                        <Link
+                          to={documentViewerPath({ document_id: mention.document_id, version: mention.version, annotation_id: mention.annotation_id })}
+                          onClick={onClose}
+                        >
+                          <ExternalLink className="h-3.5 w-3.5 mr-1" />
+                          Open in document
+                        </Link>
+                      </Button>
+                    )}
+                  </div>
+                  {openThread?.id === mention.annotation_id && (
+                    <AnnotationThread
+                      annotation={openThread}
+                      members={members}
+                      currentUserId={userId}
+                      pageUnit={pageUnitOf(mention.content_type ?? '')}
+                      isDocumentOwner={ownedDocumentIds.has(mention.document_id)}
+                      onChange={setOpenThread}
+                      onDelete={() => setOpenThread(null)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Loader2, ScanText } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OcrPage } from '@/lib/document-extraction';
+import { DEFAULT_OCR_LANGUAGE, LOW_OCR_CONFIDENCE, OCR_LANGUAGES, ocrLanguageLabel } from '@/lib/ocr';
+
+interface OcrDialogProps {
+  documentTitle: string;
+  language: string | null;
+  pages: OcrPage[] | null;
+  onRerun: (language: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export function OcrDialog({ documentTitle, language, pages, onRerun, onClose }: OcrDialogProps) {
+  const [selectedLanguage, setSelectedLanguage] = useState(language ?? DEFAULT_OCR_LANGUAGE);
+  const [running, setRunning] = useState(false);
+
+  const handleRerun = async () => {
+    setRunning(true);
+    try {
+      await onRerun(selectedLanguage);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const average = pages && pages.length > 0
+    ? Math.round(pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length)
+    : null;
+
+  return (
+    <Dialog open onOpenChange={open => !open && !running && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>OCR for "{documentTitle}"</DialogTitle>
+          <DialogDescription>
+            Pages without a text layer are read from their images with tesseract, without sending them to an AI provider. Confidence is tesseract's mean word confidence.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pages && pages.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {pages.length} page{pages.length === 1 ? '' : 's'} read in {ocrLanguageLabel(language ?? DEFAULT_OCR_LANGUAGE)}, {average}% average confidence
+            </p>
+            <ScrollArea className="max-h-[40vh] rounded border">
+              <div className="space-y-2 p-3">
+                {pages.map(page => (
+                  <div key={page.page} className="flex items-center gap-3 text-sm">
+                    <span className="w-16 text-gray-600">Page {page.page}</span>
+                    <Progress value={page.confidence} className="h-2 flex-1" />
+                    <span
+                      className={`w-10 text-right tabular-nums ${page.confidence < LOW_OCR_CONFIDENCE ? 'text-amber-600 font-medium' : 'text-gray-600'}`}
+                    >
+                      {page.confidence}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">No pages of this document have been read with OCR yet.</p>
+        )}
+
+        <div className="flex items-center gap-2 pt-2">
+          <Select value={selectedLanguage} onValueChange={setSelectedLanguage} disabled={running}>
+            <SelectTrigger className="flex-1" aria-label="OCR language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OCR_LANGUAGES.map(option => (
+                <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleRerun} disabled={running}>
+            {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ScanText className="h-4 w-4 mr-1" />}
+            Run OCR again
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
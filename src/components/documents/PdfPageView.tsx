@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { loadPdfjs } from '@/lib/pdf-extraction';
+
+interface PdfPageViewProps {
+  data: ArrayBuffer;
+  page: number;
+  onPageChange: (page: number) => void;
+  // First and last page of the citation, outlined
+  citedPages: { start: number; end: number } | null;
+}
+
+// Rendering resolution cap, relative to the page's own size
+const MAX_SCALE = 2;
+
+/**
+ * One page of the original PDF at a time, rendered to fit the width
+ */
+export function PdfPageView({ data, page, onPageChange, citedPages }: PdfPageViewProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    (async () => {
+      try {
+        const pdfjs = await loadPdfjs();
+        // pdf.js takes ownership of the buffer it is given
+        loaded = await pdfjs.getDocument({ data: data.slice(0) }).promise;
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        setPdf(loaded);
+      } catch (loadError) {
+        console.error('Error loading PDF:', loadError);
+        if (!cancelled) setError('The PDF could not be displayed');
+      }
+    })();
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [data]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let task: RenderTask | null = null;
+    let cancelled = false;
+    const canvas = canvasRef.current;
+    const width = containerRef.current.clientWidth;
+
+    (async () => {
+      setRendering(true);
+      try {
+        const pdfPage = await pdf.getPage(Math.min(Math.max(page, 1), pdf.numPages));
+        if (cancelled) return;
+        const scale = Math.min(width / pdfPage.getViewport({ scale: 1 }).width, MAX_SCALE);
+        const viewport = pdfPage.getViewport({ scale: scale * (window.devicePixelRatio || 1) });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        canvas.style.width = `${viewport.width / (window.devicePixelRatio || 1)}px`;
+        task = pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport });
+        await task.promise;
+      } catch (renderError) {
+        if (!cancelled && (renderError as Error)?.name !== 'RenderingCancelledException') {
+          console.error('Error rendering PDF page:', renderError);
+        }
+      } finally {
+        if (!cancelled) setRendering(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, page]);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+
+  const pageCount = pdf?.numPages ?? 0;
+  const isCited = citedPages !== null && page >= citedPages.start && page <= citedPages.end;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1} aria-label="Previous page">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-gray-600 tabular-nums">
+          Page {page}{pageCount > 0 && ` of ${pageCount}`}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={pageCount === 0 || page >= pageCount} aria-label="Next page">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        {isCited && <Badge className="bg-yellow-100 text-yellow-900 hover:bg-yellow-100">Cited</Badge>}
+        {(rendering || !pdf) && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+      <div ref={containerRef} className="w-full">
+        <canvas ref={canvasRef} className={cn('mx-auto block rounded border bg-white shadow-sm', isCited && 'ring-2 ring-yellow-300')} />
+      </div>
+    </div>
+  );
+}
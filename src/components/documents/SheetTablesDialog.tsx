@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DocumentTable, listDocumentTables } from '@/lib/document-tables';
+import { TableCellValue } from '@/lib/document-extraction';
+
+// Rows shown per sheet; the full table stays in the database
+const PREVIEW_ROWS = 200;
+
+interface SheetTablesDialogProps {
+  documentId: string;
+  documentTitle: string;
+  onClose: () => void;
+}
+
+const formatCell = (value: TableCellValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+export function SheetTablesDialog({ documentId, documentTitle, onClose }: SheetTablesDialogProps) {
+  const [tables, setTables] = useState<DocumentTable[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listDocumentTables(documentId)
+      .then(setTables)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load sheets'));
+  }, [documentId]);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Sheets in "{documentTitle}"</DialogTitle>
+          <DialogDescription>Typed cell values as read from the spreadsheet. Formulas show their last calculated value.</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!tables && !error && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+        {tables?.length === 0 && (
+          <p className="text-sm text-gray-600">No sheets are stored for this document. Reprocess it to read its sheets.</p>
+        )}
+
+        {tables && tables.length > 0 && (
+          <Tabs defaultValue={tables[0].id}>
+            <TabsList className="flex-wrap h-auto">
+              {tables.map(table => (
+                <TabsTrigger key={table.id} value={table.id}>
+                  {table.sheet_name}
+                  {table.hidden && <span className="ml-1 text-xs text-gray-500">(hidden)</span>}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {tables.map(table => (
+              <TabsContent key={table.id} value={table.id} className="space-y-2">
+                <p className="text-xs text-gray-500">
+                  {table.row_count.toLocaleString()} row{table.row_count === 1 ? '' : 's'}
+                  {table.header_row !== null && `, column names from row ${table.header_row}`}
+                  {table.row_count > PREVIEW_ROWS && `; showing the first ${PREVIEW_ROWS}`}
+                </p>
+                <ScrollArea className="h-[60vh] rounded border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {table.columns.map((column, i) => (
+                          <TableHead key={i} className="whitespace-nowrap">
+                            {column.name}
+                            <Badge variant="outline" className="ml-2 text-[10px] font-normal">{column.type}</Badge>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                        <TableRow key={r}>
+                          {table.columns.map((column, c) => (
+                            <TableCell
+                              key={c}
+                              className={`whitespace-nowrap text-sm ${column.type === 'number' ? 'text-right tabular-nums' : ''}`}
+                            >
+                              {formatCell(row[c] ?? null)}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <ScrollBar orientation="horizontal" />
+                </ScrollArea>
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
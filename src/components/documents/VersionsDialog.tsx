@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GitCompare, History, Loader2, Upload } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DocumentVersion,
+  fileNameOf,
+  getVersionText,
+  listDocumentVersions,
+  uploadDocumentVersion,
+} from '@/lib/document-versions';
+import { diffStats, diffTexts, DiffPart } from '@/lib/text-diff';
+
+interface VersionsDialogProps {
+  document: {
+    id: string;
+    title: string;
+    user_id: string;
+    content_type: string | null;
+    content_hash?: string | null;
+  };
+  onVersionUploaded: () => void;
+  onClose: () => void;
+}
+
+// Unchanged text around an edit that stays visible; the rest is collapsed
+const CONTEXT_CHARS = 200;
+
+function Redline({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div className="whitespace-pre-wrap break-words font-serif text-sm leading-relaxed">
+      {parts.map((part, index) => {
+        if (part.type === 'insert') {
+          return <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>;
+        }
+        if (part.type === 'delete') {
+          return <del key={index} className="bg-red-100 text-red-800">{part.text}</del>;
+        }
+
+        const isFirst = index === 0;
+        const isLast = index === parts.length - 1;
+        const keep = (isFirst ? 0 : CONTEXT_CHARS) + (isLast ? 0 : CONTEXT_CHARS);
+        if (part.text.length <= keep + 80) return <span key={index}>{part.text}</span>;
+        return (
+          <span key={index}>
+            {!isFirst && part.text.slice(0, CONTEXT_CHARS)}
+            <span className="my-2 block text-center font-sans text-xs text-gray-400">
+              ⋯ {(part.text.length - keep).toLocaleString()} unchanged characters ⋯
+            </span>
+            {!isLast && part.text.slice(-CONTEXT_CHARS)}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function VersionsDialog({ document, onVersionUploaded, onClose }: VersionsDialogProps) {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null);
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>('');
+  const [diff, setDiff] = useState<DiffPart[] | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadVersions = useCallback(
+    () =>
+      listDocumentVersions(document.id)
+        .then(found => {
+          setVersions(found);
+          // Latest against the one before it
+          setTo(found[0] ? String(found[0].version_number) : '');
+          setFrom(found[1] ? String(found[1].version_number) : '');
+          setDiff(null);
+        })
+        .catch(err => setError(err instanceof Error ? err.message : 'Could not load versions')),
+    [document.id]
+  );
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleCompare = async () => {
+    setComparing(true);
+    setDiff(null);
+    try {
+      const [before, after] = await Promise.all([
+        getVersionText(document.id, Number(from)),
+        getVersionText(document.id, Number(to)),
+      ]);
+      if (before === null || after === null) {
+        toast({
+          title: "Not Ready",
+          description: `Version ${before === null ? from : to} has not been processed yet.`,
+        });
+        return;
+      }
+      setDiff(diffTexts(before, after));
+    } catch (err) {
+      console.error('Error comparing versions:', err);
+      toast({
+        title: "Error",
+        description: "Failed to compare versions",
+        variant: "destructive",
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    try {
+      const version = await uploadDocumentVersion(document, file, note.trim());
+      toast({
+        title: "New Version Uploaded",
+        description: `${file.name} is now version ${version.version_number} of ${document.title} and is being processed.`,
+      });
+      setNote('');
+      onVersionUploaded();
+      await loadVersions();
+    } catch (err) {
+      console.error('Error uploading version:', err);
+      toast({
+        title: "Upload Failed",
+        description: err instanceof Error ? err.message : 'Failed to upload the new version',
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const stats = diff && diffStats(diff);
+
+  return (
+    <Dialog open onOpenChange={open => !open && !uploading && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Versions of "{document.title}"
+          </DialogTitle>
+          <DialogDescription>
+            Chat and search use the current version. Earlier versions keep their text, so they can be compared and asked about.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!versions && !error && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {versions && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="What changed? (optional)"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                disabled={uploading}
+              />
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                onChange={e => e.target.files?.[0] && handleUpload(e.target.files[0])}
+              />
+              <Button onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                {uploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+                Upload new version
+              </Button>
+            </div>
+
+            <ScrollArea className="max-h-40 rounded border">
+              <div className="divide-y">
+                {versions.map((version, index) => (
+                  <div key={version.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span className="w-8 font-medium">v{version.version_number}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{fileNameOf(version.file_path)}</p>
+                      {version.note && <p className="truncate text-xs text-gray-500">{version.note}</p>}
+                    </div>
+                    <span className="text-xs text-gray-500">{new Date(version.created_at).toLocaleString()}</span>
+                    {index === 0 && <Badge className="text-xs">Current</Badge>}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {versions.length > 1 && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Select value={from} onValueChange={setFrom}>
+                    <SelectTrigger className="w-32" aria-label="Compare from version">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={String(version.version_number)}>Version {version.version_number}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-gray-500">to</span>
+                  <Select value={to} onValueChange={setTo}>
+                    <SelectTrigger className="w-32" aria-label="Compare to version">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={String(version.version_number)}>Version {version.version_number}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleCompare} disabled={comparing || !from || !to || from === to}>
+                    {comparing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <GitCompare className="h-4 w-4 mr-1" />}
+                    Compare
+                  </Button>
+                  {stats && (
+                    <span className="ml-auto text-xs text-gray-600">
+                      <span className="text-green-700">+{stats.insertedWords.toLocaleString()}</span>{' '}
+                      <span className="text-red-700">−{stats.deletedWords.toLocaleString()}</span> words
+                    </span>
+                  )}
+                </div>
+
+                {diff && (
+                  <ScrollArea className="h-[45vh] rounded border p-4">
+                    {diff.every(part => part.type === 'equal') ? (
+                      <p className="text-sm text-gray-600">The two versions have the same text.</p>
+                    ) : (
+                      <Redline parts={diff} />
+                    )}
+                  </ScrollArea>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState, useEffect, useRef } from 'react';
+import { Play, Square, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  deleteEvalRun,
+  EVAL_METRICS,
+  EvalMetrics,
+  EvalRun,
+  EvalSet,
+  listEvalRuns,
+  runEvaluation,
+} from '@/lib/rag-eval';
+import type { RAGSettings } from '@/lib/rag';
+
+interface EvalRunsPanelProps {
+  set: EvalSet;
+  documentTitles: Map<string, string>;
+}
+
+const formatScore = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// Runs recorded before per-type chunking stored a single size and overlap
+const documentChunking = (settings: RAGSettings & { chunkSize?: number; chunkOverlap?: number }) =>
+  settings.chunking?.document ?? { chunkSize: settings.chunkSize, chunkOverlap: settings.chunkOverlap };
+
+// Scores are 0-1, so differences under half a point are noise
+const MEANINGFUL_DELTA = 0.005;
+
+function MetricCell({ value, baseline }: { value: number | null; baseline?: number | null }) {
+  const delta = value !== null && baseline !== null && baseline !== undefined ? value - baseline : null;
+  return (
+    <TableCell className="text-right tabular-nums">
+      {formatScore(value)}
+      {delta !== null && Math.abs(delta) >= MEANINGFUL_DELTA && (
+        <span className={cn('ml-1 text-xs', delta > 0 ? 'text-green-600' : 'text-red-600')}>
+          {delta > 0 ? '+' : ''}{delta.toFixed(2)}
+        </span>
+      )}
+    </TableCell>
+  );
+}
+
+export function EvalRunsPanel({ set, documentTitles }: EvalRunsPanelProps) {
+  const { toast } = useToast();
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [baselineRunId, setBaselineRunId] = useState<string | null>(null);
+  const [k, setK] = useState('5');
+  const [generateAnswers, setGenerateAnswers] = useState(true);
+  const [label, setLabel] = useState('');
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetchRuns();
+    setSelectedRunId(null);
+    setBaselineRunId(null);
+    return () => abortControllerRef.current?.abort();
+  }, [set.id]);
+
+  const fetchRuns = async () => {
+    try {
+      setRuns(await listEvalRuns(set.id));
+    } catch (error) {
+      console.error('Error loading evaluation runs:', error);
+    }
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress({ completed: 0, total: set.cases.length });
+
+    try {
+      const run = await runEvaluation(set, {
+        k: Math.max(1, parseInt(k, 10) || 5),
+        generateAnswers,
+        label,
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      setLabel('');
+      setSelectedRunId(run.id);
+      await fetchRuns();
+      toast({
+        title: "Evaluation complete",
+        description: `${run.metrics.cases} questions scored${run.metrics.errors ? `, ${run.metrics.errors} failed` : ''}`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({ title: "Evaluation stopped", description: "The partial run was not saved." });
+        return;
+      }
+      console.error('Evaluation run failed:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Evaluation run failed",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDeleteRun = async (runId: string) => {
+    try {
+      await deleteEvalRun(runId);
+      if (selectedRunId === runId) setSelectedRunId(null);
+      if (baselineRunId === runId) setBaselineRunId(null);
+      await fetchRuns();
+    } catch (error) {
+      console.error('Error deleting evaluation run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete run",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Each run is compared with the chosen baseline, or else with the run before it
+  const baselineFor = (index: number): EvalMetrics | undefined => {
+    const baseline = runs.find(run => run.id === baselineRunId);
+    if (baseline) return baseline.id === runs[index].id ? undefined : baseline.metrics;
+    return runs[index + 1]?.metrics;
+  };
+
+  const selectedRun = runs.find(run => run.id === selectedRunId);
+  const titleOf = (id: string) => documentTitles.get(id) ?? id.substring(0, 8);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Evaluation</CardTitle>
+          <CardDescription>
+            Asks all {set.cases.length} questions through the current retrieval settings, prompt and models.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="eval-k">Results per question (k)</Label>
+              <Input id="eval-k" type="number" min={1} max={20} value={k} onChange={(e) => setK(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eval-label">Label</Label>
+              <Input
+                id="eval-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. threshold 0.6"
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="eval-answers" checked={generateAnswers} onCheckedChange={setGenerateAnswers} />
+              <Label htmlFor="eval-answers">Generate and score answers</Label>
+            </div>
+          </div>
+
+          {progress ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Question {Math.min(progress.completed + 1, progress.total)} of {progress.total}</span>
+                <Button variant="outline" size="sm" onClick={() => abortControllerRef.current?.abort()}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
+              </div>
+              <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} />
+            </div>
+          ) : (
+            <Button onClick={handleRun} disabled={set.cases.length === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Runs</CardTitle>
+          <CardDescription>
+            Differences are against the baseline run, or the previous run when no baseline is set. Click a run for per-question results.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-600">No runs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Pipeline</TableHead>
+                  {EVAL_METRICS.map(metric => (
+                    <TableHead key={metric.key} className="text-right" title={metric.description}>{metric.label}</TableHead>
+                  ))}
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run, index) => {
+                  const baseline = baselineFor(index);
+                  return (
+                    <TableRow
+                      key={run.id}
+                      className={cn('cursor-pointer', run.id === selectedRunId && 'bg-muted')}
+                      onClick={() => setSelectedRunId(run.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{run.label || new Date(run.created_at).toLocaleString()}</div>
+                        {run.label && (
+                          <div className="text-xs text-muted-foreground">{new Date(run.created_at).toLocaleString()}</div>
+                        )}
+                        {run.id === baselineRunId && <Badge variant="outline" className="mt-1">Baseline</Badge>}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <div>{run.config.chatProvider} · {run.config.answerModel}</div>
+                        <div>
+                          k={run.config.k} · thresholds {run.config.settings.matchThresholds.library}/
+                          {run.config.settings.matchThresholds.project}/{run.config.settings.matchThresholds.document}
+                        </div>
+                        <div>
+                          chunks {documentChunking(run.config.settings).chunkSize}/{documentChunking(run.config.settings).chunkOverlap} · prompt {run.config.promptHash}
+                        </div>
+                      </TableCell>
+                      {EVAL_METRICS.map(metric => (
+                        <MetricCell
+                          key={metric.key}
+                          value={run.metrics[metric.key] as number | null}
+                          baseline={baseline?.[metric.key] as number | null | undefined}
+                        />
+                      ))}
+                      <TableCell>
+                        <div className="flex gap-1 justify-end" onClick={(e) => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setBaselineRunId(run.id === baselineRunId ? null : run.id)}
+                          >
+                            {run.id === baselineRunId ? 'Unset' : 'Baseline'}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteRun(run.id)} title="Delete run">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Per-question Results</CardTitle>
+            <CardDescription>
+              {selectedRun.label || new Date(selectedRun.created_at).toLocaleString()} · average {selectedRun.metrics.avgLatencyMs}ms per question
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedRun.results.map((result, index) => (
+              <div key={index} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="font-medium">{index + 1}. {result.question}</p>
+                  <div className="flex gap-2 text-xs text-muted-foreground whitespace-nowrap">
+                    <span>R@k {formatScore(result.recallAtK)}</span>
+                    <span>RR {formatScore(result.reciprocalRank)}</span>
+                    <span>Cite {formatScore(result.citationAccuracy)}</span>
+                    <span>Faith {formatScore(result.faithfulness)}</span>
+                    <span>Overlap {formatScore(result.answerOverlap)}</span>
+                  </div>
+                </div>
+
+                {result.error && <p className="text-sm text-destructive">{result.error}</p>}
+
+                <div className="flex flex-wrap gap-1 text-xs">
+                  <span className="text-muted-foreground mr-1">Retrieved:</span>
+                  {result.retrievedDocumentIds.length === 0 && <span className="text-muted-foreground">nothing</span>}
+                  {result.retrievedDocumentIds.map(id => (
+                    <Badge key={id} variant={result.expectedDocumentIds.includes(id) ? 'default' : 'outline'}>
+                      {titleOf(id)}
+                    </Badge>
+                  ))}
+                </div>
+                {result.expectedDocumentIds.some(id => !result.retrievedDocumentIds.includes(id)) && (
+                  <div className="flex flex-wrap gap-1 text-xs">
+                    <span className="text-muted-foreground mr-1">Missed:</span>
+                    {result.expectedDocumentIds
+                      .filter(id => !result.retrievedDocumentIds.includes(id))
+                      .map(id => (
+                        <Badge key={id} variant="destructive">{titleOf(id)}</Badge>
+                      ))}
+                  </div>
+                )}
+
+                {result.answer !== null && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer text-muted-foreground flex items-center gap-1">
+                      {result.citedDocumentIds.some(id => result.expectedDocumentIds.includes(id))
+                        ? <CheckCircle className="h-3 w-3 text-green-600" />
+                        : <XCircle className="h-3 w-3 text-red-600" />}
+                      Answer{result.model ? ` from ${result.model}` : ' (local fallback)'}
+                    </summary>
+                    <p className="mt-2 whitespace-pre-wrap text-gray-700">{result.answer}</p>
+                  </details>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EvalCase, EvalSetDraft } from '@/lib/rag-eval';
+
+export interface NamedItem {
+  id: string;
+  title: string;
+}
+
+interface EvalSetEditorProps {
+  draft: EvalSetDraft;
+  documents: NamedItem[];
+  projects: NamedItem[];
+  saving: boolean;
+  onSave: (draft: EvalSetDraft) => void;
+  onCancel: () => void;
+}
+
+const ALL_DOCUMENTS = 'all';
+
+const emptyCase = (): EvalCase => ({ question: '', expected_document_ids: [], expected_answer: '' });
+
+export function EvalSetEditor({ draft: initialDraft, documents, projects, saving, onSave, onCancel }: EvalSetEditorProps) {
+  const [draft, setDraft] = useState<EvalSetDraft>(initialDraft);
+
+  useEffect(() => {
+    setDraft(initialDraft.cases.length > 0 ? initialDraft : { ...initialDraft, cases: [emptyCase()] });
+  }, [initialDraft]);
+
+  const titleOf = (id: string) => documents.find(doc => doc.id === id)?.title ?? id;
+
+  const updateCase = (index: number, changes: Partial<EvalCase>) => {
+    setDraft(prev => ({
+      ...prev,
+      cases: prev.cases.map((evalCase, i) => (i === index ? { ...evalCase, ...changes } : evalCase)),
+    }));
+  };
+
+  const removeCase = (index: number) => {
+    setDraft(prev => ({ ...prev, cases: prev.cases.filter((_, i) => i !== index) }));
+  };
+
+  const canSave = draft.name.trim() && draft.cases.some(evalCase => evalCase.question.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{draft.id ? 'Edit Golden Set' : 'New Golden Set'}</CardTitle>
+        <CardDescription>
+          List the questions to ask, the documents a good search should return and, optionally, a reference answer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="eval-set-name">Name</Label>
+            <Input
+              id="eval-set-name"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Q3 portfolio questions"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Corpus</Label>
+            <Select
+              value={draft.project_id ?? ALL_DOCUMENTS}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, project_id: value === ALL_DOCUMENTS ? null : value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DOCUMENTS}>All documents</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>Project: {project.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="eval-set-description">Description</Label>
+          <Input
+            id="eval-set-description"
+            value={draft.description ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          />
+        </div>
+
+        <div className="space-y-4">
+          {draft.cases.map((evalCase, index) => (
+            <div key={index} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-start gap-2">
+                <span className="text-sm font-medium text-gray-500 mt-2">{index + 1}.</span>
+                <Textarea
+                  value={evalCase.question}
+                  onChange={(e) => updateCase(index, { question: e.target.value })}
+                  placeholder="Question"
+                  rows={2}
+                />
+                <Button variant="ghost" size="sm" onClick={() => removeCase(index)} title="Remove question">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-gray-600">Expected sources</Label>
+                <div className="flex flex-wrap gap-2">
+                  {evalCase.expected_document_ids.map(id => (
+                    <Badge key={id} variant="secondary" className="gap-1">
+                      {titleOf(id)}
+                      <button
+                        type="button"
+                        onClick={() => updateCase(index, {
+                          expected_document_ids: evalCase.expected_document_ids.filter(docId => docId !== id),
+                        })}
+                        aria-label={`Remove ${titleOf(id)}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <Select
+                  value=""
+                  onValueChange={(id) => updateCase(index, {
+                    expected_document_ids: [...new Set([...evalCase.expected_document_ids, id])],
+                  })}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue placeholder="Add a source document..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {documents
+                      .filter(doc => !evalCase.expected_document_ids.includes(doc.id))
+                      .map(doc => (
+                        <SelectItem key={doc.id} value={doc.id}>{doc.title}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-gray-600">Reference answer (optional)</Label>
+                <Textarea
+                  value={evalCase.expected_answer ?? ''}
+                  onChange={(e) => updateCase(index, { expected_answer: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={() => setDraft(prev => ({ ...prev, cases: [...prev.cases, emptyCase()] }))}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => onSave(draft)} disabled={!canSave || saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Set'}
+          </Button>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
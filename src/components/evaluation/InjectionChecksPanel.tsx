@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Play, CheckCircle, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { INJECTION_FIXTURES, InjectionCheckResult, runInjectionChecks } from '@/lib/prompt-injection-fixtures';
+
+export function InjectionChecksPanel() {
+  const [results, setResults] = useState<InjectionCheckResult[] | null>(null);
+
+  const failures = results?.filter(result => !result.passed).length ?? 0;
+  const expectedOf = (name: string) => INJECTION_FIXTURES.find(fixture => fixture.name === name)?.expectFlagged;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Prompt-injection Checks</CardTitle>
+          <CardDescription>
+            Runs {INJECTION_FIXTURES.length} adversarial and benign document excerpts through the injection detector and the
+            document fencing used in answer prompts.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setResults(runInjectionChecks())}>
+          <Play className="h-4 w-4 mr-2" />
+          Run Checks
+        </Button>
+      </CardHeader>
+      {results && (
+        <CardContent className="space-y-4">
+          <Badge variant={failures === 0 ? 'secondary' : 'destructive'}>
+            {failures === 0 ? `All ${results.length} checks passed` : `${failures} of ${results.length} checks failed`}
+          </Badge>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8"></TableHead>
+                <TableHead>Check</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(result => (
+                <TableRow key={result.name}>
+                  <TableCell>
+                    {result.passed
+                      ? <CheckCircle className="h-4 w-4 text-green-600" />
+                      : <XCircle className="h-4 w-4 text-red-600" />}
+                  </TableCell>
+                  <TableCell className="font-medium">{result.name}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {result.kind === 'fence' ? 'Contained' : expectedOf(result.name) ? 'Flagged' : 'Not flagged'}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{result.detail}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
-import { Menu, Home, FileText, Database, MessageSquare, Upload, Building, Users, Settings } from 'lucide-react';
+import { Menu, Home, FileText, Database, MessageSquare, Upload, Building, Users, Settings, Bot, FlaskConical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +14,8 @@ const mobileNavigationItems = [
   { title: "Upload", url: "/upload", icon: Upload },
   { title: "Teams", url: "/teams", icon: Users },
   { title: "Profile", url: "/profile", icon: Settings },
+  { title: "AI Settings", url: "/ai-settings", icon: Bot },
+  { title: "RAG Evaluation", url: "/rag-evaluation", icon: FlaskConical },
 ];
 
 export function MobileNav() {
@@ -15,7 +15,8 @@ import {
   Archive,
   Users,
   Settings,
-  Building
+  Building,
+  FlaskConical
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -57,6 +58,8 @@ const navigationItems: NavigationSection[] = [
     title: "Settings",
     items: [
       { title: "Profile", url: "/profile", icon: Settings },
+      { title: "AI Settings", url: "/ai-settings", icon: Bot },
+      { title: "RAG Evaluation", url: "/rag-evaluation", icon: FlaskConical },
     ]
   }
 ];
@@ -12,6 +12,7 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { AIProcessingService } from '@/lib/ai';
+import { StructuredOutputError } from '@/lib/ai-structured';
 
 interface ResearchField {
   id: string;
@@ -141,13 +142,15 @@ const ResearchForm = ({ onSave, initialData }: {
 
       toast({
         title: "Auto-tagging Complete",
-        description: `Tagged as ${result.industry} > ${result.subIndustry} with ${result.confidence}% confidence`,
+        description: `Tagged as ${result.industry} > ${result.subIndustry} with ${result.confidence}% confidence (${result.model})`,
       });
     } catch (error) {
       console.error('Auto-tagging error:', error);
       toast({
         title: "Auto-tagging Failed",
-        description: "Could not auto-tag the project. Please tag manually.",
+        description: error instanceof StructuredOutputError
+          ? `${error.message}. Please tag manually.`
+          : "Could not auto-tag the project. Please tag manually.",
         variant: "destructive",
       });
     } finally {
@@ -3,30 +3,36 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Search, FileText, TrendingUp, Lightbulb, ExternalLink } from 'lucide-react';
+import { Loader2, Search, FileText, TrendingUp, Lightbulb, ExternalLink, AlertTriangle } from 'lucide-react';
 import { RAGSystem } from '@/lib/rag';
+import { isAIConfigured } from '@/lib/ai-providers';
 import { useAuth } from '@/hooks/useAuth';
+import { InjectionWarning } from '@/components/chat/InjectionWarning';
 
 interface ResearchSummaryProps {
-  geminiApiKey?: string;
+  aiEnabled?: boolean;
 }
 
-export function ResearchSummary({ geminiApiKey }: ResearchSummaryProps) {
+export function ResearchSummary({ aiEnabled = isAIConfigured() }: ResearchSummaryProps) {
   const [topic, setTopic] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [summary, setSummary] = useState<any>(null);
+  const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
 
   const generateSummary = async () => {
-    if (!topic.trim() || !geminiApiKey) return;
+    if (!topic.trim() || !aiEnabled) return;
 
     setIsLoading(true);
+    setError(null);
     try {
-      const ragSystem = RAGSystem.getInstance(geminiApiKey);
+      const ragSystem = RAGSystem.getInstance();
       const result = await ragSystem.generateResearchSummary(topic);
       setSummary(result);
     } catch (error) {
       console.error('Error generating summary:', error);
+      setSummary(null);
+      setError(error instanceof Error ? error.message : 'Unable to generate summary at this time.');
     } finally {
       setIsLoading(false);
     }
@@ -63,7 +69,7 @@ export function ResearchSummary({ geminiApiKey }: ResearchSummaryProps) {
             />
             <Button 
               onClick={generateSummary}
-              disabled={!topic.trim() || isLoading || !geminiApiKey}
+              disabled={!topic.trim() || isLoading || !aiEnabled}
               className="gradient-primary"
             >
               {isLoading ? (
@@ -74,14 +80,26 @@ export function ResearchSummary({ geminiApiKey }: ResearchSummaryProps) {
               Generate Summary
             </Button>
           </div>
-          {!geminiApiKey && (
+          {!aiEnabled && (
             <p className="text-sm text-muted-foreground mt-2">
-              Gemini API key required for AI-powered summaries
+              AI proxy must be configured for AI-powered summaries
             </p>
           )}
         </CardContent>
       </Card>
 
+      {error && (
+        <Card className="border-destructive/50">
+          <CardContent className="flex items-start gap-3 pt-6">
+            <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0" />
+            <div>
+              <p className="font-medium text-destructive">Summary generation failed</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Results */}
       {summary && (
         <div className="space-y-6">
@@ -92,8 +110,12 @@ export function ResearchSummary({ geminiApiKey }: ResearchSummaryProps) {
                 <FileText className="h-5 w-5" />
                 Summary: {topic}
               </CardTitle>
+              {summary.model && (
+                <CardDescription>Generated with {summary.model}</CardDescription>
+              )}
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
+              <InjectionWarning flaggedSources={summary.flaggedSources} />
               <p className="text-muted-foreground leading-relaxed">
                 {summary.summary}
               </p>
@@ -0,0 +1,102 @@
+import { AlertCircle, CheckCircle, Copy, Download, FileArchive, MinusCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ImportReportEntry, ImportStatus, importReportCsv } from '@/lib/data-room-import';
+
+export interface DataRoomImport {
+  id: string;
+  name: string;
+  status: 'importing' | 'done' | 'error';
+  // Share of the archive read so far
+  progress: number;
+  entries: ImportReportEntry[];
+  error?: string;
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  imported: 'Imported',
+  duplicate: 'Duplicate',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+const StatusIcon = ({ status }: { status: ImportStatus }) => {
+  switch (status) {
+    case 'imported': return <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />;
+    case 'duplicate': return <Copy className="h-4 w-4 flex-shrink-0 text-amber-500" />;
+    case 'skipped': return <MinusCircle className="h-4 w-4 flex-shrink-0 text-gray-400" />;
+    case 'failed': return <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-500" />;
+  }
+};
+
+const downloadReport = (dataRoom: DataRoomImport) => {
+  const blob = new Blob([importReportCsv(dataRoom.entries)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${dataRoom.name.replace(/\.zip$/i, '')} import report.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function DataRoomImportReport({ dataRoom }: { dataRoom: DataRoomImport }) {
+  const counts = dataRoom.entries.reduce(
+    (totals, entry) => ({ ...totals, [entry.status]: totals[entry.status] + 1 }),
+    { imported: 0, duplicate: 0, skipped: 0, failed: 0 } as Record<ImportStatus, number>
+  );
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileArchive className="h-5 w-5" />
+          {dataRoom.name}
+        </CardTitle>
+        <CardDescription>
+          {dataRoom.status === 'importing' && `Unpacking and importing files... ${dataRoom.entries.length} handled so far`}
+          {dataRoom.status === 'done' && 'Import finished. Imported documents are queued for AI analysis and filed under their folders in My Documents.'}
+          {dataRoom.status === 'error' && <span className="text-red-600">{dataRoom.error}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dataRoom.status === 'importing' && <Progress value={dataRoom.progress * 100} />}
+
+        {dataRoom.entries.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(STATUS_LABELS) as ImportStatus[])
+                .filter(status => counts[status] > 0)
+                .map(status => (
+                  <Badge key={status} variant={status === 'failed' ? 'destructive' : 'secondary'}>
+                    {STATUS_LABELS[status]}: {counts[status]}
+                  </Badge>
+                ))}
+              {dataRoom.status === 'done' && (
+                <Button variant="outline" size="sm" className="ml-auto" onClick={() => downloadReport(dataRoom)}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download report
+                </Button>
+              )}
+            </div>
+
+            <ScrollArea className="h-64 rounded border">
+              <div className="divide-y">
+                {dataRoom.entries.map(entry => (
+                  <div key={entry.path} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <StatusIcon status={entry.status} />
+                    <span className="flex-1 min-w-0 truncate" title={entry.path}>{entry.path}</span>
+                    {entry.reason && (
+                      <span className="max-w-[45%] truncate text-xs text-gray-500" title={entry.reason}>{entry.reason}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
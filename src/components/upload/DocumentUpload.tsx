@@ -1,15 +1,31 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, X, CheckCircle, AlertCircle, Loader2, Brain, FolderPlus, FileIcon } from 'lucide-react';
+import { Upload, FileText, X, CheckCircle, AlertCircle, Loader2, Brain, FolderPlus, FileIcon, FileImage, Copy, Pause, Play, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
-import { AIProcessingService } from '@/lib/ai';
+import { useProcessingJobs } from '@/hooks/useProcessingJobs';
+import { PROCESSING_STAGE_LABELS, ProcessingJob, queueDocumentProcessing } from '@/lib/processing-jobs';
+import { findDocumentsByHash, findDuplicatesOf, hashBeforeUpload } from '@/lib/duplicates';
+import {
+  ACCEPTED_FILE_TYPES,
+  createDocument,
+  DEFAULT_UPLOAD_LIMITS,
+  formatSizeLimit,
+  getUploadLimits,
+  isResumableUpload,
+  UploadLimits,
+} from '@/lib/document-upload';
+import { isAbortError, TransferRate } from '@/lib/resumable-upload';
+import { importDataRoom, isZipFile } from '@/lib/data-room-import';
+import { DataRoomImport, DataRoomImportReport } from './DataRoomImportReport';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface UploadedFile {
@@ -17,44 +33,84 @@ interface UploadedFile {
   name: string;
   size: number;
   type: string;
-  status: 'uploading' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'paused' | 'duplicate' | 'processing' | 'completed' | 'error';
   progress: number;
   error?: string;
+  // Uploaded in chunks, so it can be paused
+  resumable?: boolean;
+  // The upload itself failed and can be tried again
+  retryable?: boolean;
+  bytesUploaded?: number;
+  bytesPerSecond?: number | null;
+  secondsLeft?: number | null;
   documentId?: string;
+  // Title of an existing document with the same content
+  duplicateOf?: string;
 }
 
-// Extended list of supported file types with more detailed extensions
-const ACCEPTED_FILE_TYPES = {
-  'application/pdf': ['.pdf'],
-  'text/plain': ['.txt', '.text', '.md', '.markdown'],
-  'application/msword': ['.doc'],
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-  'application/vnd.oasis.opendocument.text': ['.odt'],
-  'application/rtf': ['.rtf'],
-  'text/csv': ['.csv'],
-  'application/vnd.ms-excel': ['.xls'],
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-  'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
-  'text/html': ['.html', '.htm'],
-  'application/json': ['.json'],
-  'application/xml': ['.xml'],
-};
-
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-
 export const DocumentUpload = () => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [researchProjects, setResearchProjects] = useState<any[]>([]);
   const [selectedProject, setSelectedProject] = useState<string>('none');
+  const [confidential, setConfidential] = useState(false);
   const [fileTypeError, setFileTypeError] = useState<string | null>(null);
+  const [imports, setImports] = useState<DataRoomImport[]>([]);
+  const [limits, setLimits] = useState<UploadLimits>(DEFAULT_UPLOAD_LIMITS);
   const { toast } = useToast();
   const { user } = useAuth();
+  // Files held back as duplicates until the user uploads them anyway, by name
+  const heldFiles = useRef<Map<string, File>>(new Map());
+  // Uploads in flight, by name, so they can be paused
+  const uploadControllers = useRef<Map<string, AbortController>>(new Map());
+  // Paused and failed uploads waiting to be resumed or retried, by name
+  const interruptedUploads = useRef<Map<string, { file: File; contentHash: string | null }>>(new Map());
+
+  // Uploads are processed by the ingestion worker; follow their jobs live
+  const jobs = useProcessingJobs(user?.id, (job: ProcessingJob) => {
+    const file = uploadedFiles.find(f => f.documentId === job.document_id);
+    if (!file) return;
+
+    const completed = job.status === 'completed';
+    setUploadedFiles(prev =>
+      prev.map(f =>
+        f.documentId === job.document_id
+          ? completed
+            ? { ...f, status: 'completed', progress: 100 }
+            : { ...f, status: 'error', error: job.last_error || 'AI processing failed' }
+          : f
+      )
+    );
+
+    toast(completed ? {
+      title: "AI Analysis Complete",
+      description: `${file.name} has been analyzed and is ready for use.`,
+    } : {
+      title: "AI Processing Failed",
+      description: `${file.name} was uploaded but AI analysis failed. You can still view the document.`,
+      variant: "destructive",
+    });
+
+    // Lightly edited copies are only recognizable once the text is extracted
+    if (completed) {
+      findDuplicatesOf(job.document_id)
+        .then(duplicates => {
+          if (duplicates.length === 0) return;
+          const { document, similarity } = duplicates[0];
+          toast({
+            title: "Possible Duplicate",
+            description: `${file.name} is ${Math.round(similarity * 100)}% similar to ${document.title}. Review it under Possible Duplicates in My Documents.`,
+          });
+        })
+        .catch(error => console.error('Error checking for duplicates:', error));
+    }
+  });
 
-  // Fetch user's research projects
+  // Fetch user's research projects and their team's upload limits
   useEffect(() => {
     if (user) {
       fetchResearchProjects();
+      getUploadLimits().then(setLimits);
     }
   }, [user]);
 
@@ -105,7 +161,11 @@ export const DocumentUpload = () => {
     setIsUploading(true);
     setFileTypeError(null);
     
-    const newFiles: UploadedFile[] = acceptedFiles.map(file => ({
+    // Data room archives are unpacked and imported file by file
+    const archives = acceptedFiles.filter(isZipFile);
+    const files = acceptedFiles.filter(file => !isZipFile(file));
+
+    const newFiles: UploadedFile[] = files.map(file => ({
       id: Math.random().toString(36).substr(2, 9),
       name: file.name,
       size: file.size,
@@ -116,127 +176,41 @@ export const DocumentUpload = () => {
 
     setUploadedFiles(prev => [...prev, ...newFiles]);
 
-    for (const file of acceptedFiles) {
+    for (const file of files) {
       await uploadFile(file);
     }
+    for (const archive of archives) {
+      await importArchive(archive);
+    }
 
     setIsUploading(false);
-  }, [user, toast]);
+  }, [user, toast, selectedProject, confidential, limits]);
 
-  const uploadFile = async (file: File) => {
+  const uploadFile = async (file: File, { allowDuplicate = false }: { allowDuplicate?: boolean } = {}) => {
     const fileId = Math.random().toString(36).substr(2, 9);
-    const fileName = `${user!.id}/${Date.now()}-${file.name}`;
 
     try {
-      // Update progress to 10%
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.name === file.name ? { ...f, progress: 10 } : f
-        )
-      );
-
-      // Upload to Supabase Storage
-      const { data, error } = await supabase.storage
-        .from('research-documents')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false,
-        });
-
-      if (error) throw error;
-
-      // Update progress to 30%
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.name === file.name ? { ...f, progress: 30 } : f
-        )
-      );
-
-      // Create database record
-      const { data: docData, error: docError } = await supabase
-        .from('research_documents')
-        .insert({
-          user_id: user!.id,
-          title: file.name,
-          description: `Uploaded ${new Date().toLocaleDateString()}`,
-          file_path: data.path,
-          file_size: file.size,
-          content_type: file.type || getMimeTypeFromFileName(file.name),
-          category: getCategoryFromFileType(file.type || getMimeTypeFromFileName(file.name)),
-          status: 'processing',
-        })
-        .select()
-        .single();
-
-      if (docError) throw docError;
-
-      // Update progress to 50%
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.name === file.name ? { ...f, progress: 50 } : f
-        )
-      );
-
-      // Associate with research project if selected
-      if (selectedProject && selectedProject !== 'none' && docData) {
-        await supabase
-          .from('project_documents')
-          .insert({
-            project_id: selectedProject,
-            document_id: docData.id,
+      // Hold back files that are already in the library. Files too big to
+      // hash first are matched once processing has hashed them.
+      const contentHash = await hashBeforeUpload(file);
+      if (contentHash && !allowDuplicate) {
+        const [existing] = await findDocumentsByHash(contentHash);
+        if (existing) {
+          heldFiles.current.set(file.name, file);
+          setUploadedFiles(prev =>
+            prev.map(f =>
+              f.name === file.name ? { ...f, status: 'duplicate', progress: 0, duplicateOf: existing.title } : f
+            )
+          );
+          toast({
+            title: "Duplicate File",
+            description: `${file.name} is identical to ${existing.title}, uploaded ${new Date(existing.created_at).toLocaleDateString()}.`,
           });
+          return;
+        }
       }
 
-      // Update file status to processing
-      setUploadedFiles(prev => 
-        prev.map(f => 
-          f.name === file.name 
-            ? { ...f, status: 'processing', progress: 60, documentId: docData.id }
-            : f
-        )
-      );
-
-      toast({
-        title: "Upload Successful",
-        description: `${file.name} has been uploaded. Starting AI analysis...`,
-      });
-
-      // Trigger AI processing
-      try {
-        await AIProcessingService.processDocument(docData.id);
-        
-        // Update file status to completed
-        setUploadedFiles(prev => 
-          prev.map(f => 
-            f.name === file.name 
-              ? { ...f, status: 'completed', progress: 100 }
-              : f
-          )
-        );
-
-        toast({
-          title: "AI Analysis Complete",
-          description: `${file.name} has been analyzed and is ready for use.`,
-        });
-      } catch (error) {
-        console.error('AI processing failed:', error);
-        
-        // Update file status to error
-        setUploadedFiles(prev => 
-          prev.map(f => 
-            f.name === file.name 
-              ? { ...f, status: 'error', error: 'AI processing failed' }
-              : f
-          )
-        );
-
-        toast({
-          title: "AI Processing Failed",
-          description: `${file.name} was uploaded but AI analysis failed. You can still view the document.`,
-          variant: "destructive",
-        });
-      }
-
+      await storeAndQueue(file, contentHash);
     } catch (error) {
       console.error('Upload error:', error);
       
@@ -256,27 +230,103 @@ export const DocumentUpload = () => {
     }
   };
 
-  const getMimeTypeFromFileName = (fileName: string): string => {
-    const extension = fileName.split('.').pop()?.toLowerCase() || '';
-    
-    // Map extension to MIME type
-    for (const [mimeType, extensions] of Object.entries(ACCEPTED_FILE_TYPES)) {
-      if (extensions.some(ext => ext.toLowerCase() === `.${extension}`)) {
-        return mimeType;
+  const updateFile = (name: string, update: Partial<UploadedFile>) =>
+    setUploadedFiles(prev => prev.map(f => (f.name === name ? { ...f, ...update } : f)));
+
+  // Upload a file, with its content hash when it was hashed first, and queue
+  // it for processing. Also resumes a paused upload or retries a failed one.
+  const storeAndQueue = async (file: File, contentHash: string | null) => {
+    const controller = new AbortController();
+    const rate = new TransferRate();
+    uploadControllers.current.set(file.name, controller);
+    interruptedUploads.current.delete(file.name);
+    updateFile(file.name, {
+      status: 'uploading',
+      error: undefined,
+      retryable: false,
+      resumable: isResumableUpload(file),
+      bytesPerSecond: null,
+      secondsLeft: null,
+    });
+
+    let docData;
+    try {
+      docData = await createDocument(file, {
+        userId: user!.id,
+        contentHash,
+        projectId: selectedProject !== 'none' ? selectedProject : null,
+        confidential,
+        signal: controller.signal,
+        onProgress: (bytesUploaded, bytesTotal) => {
+          rate.record(bytesUploaded);
+          updateFile(file.name, {
+            progress: bytesTotal > 0 ? Math.round((bytesUploaded / bytesTotal) * 100) : 100,
+            bytesUploaded,
+            bytesPerSecond: rate.bytesPerSecond,
+            secondsLeft: rate.secondsLeft(bytesTotal),
+          });
+        },
+      });
+    } catch (error) {
+      interruptedUploads.current.set(file.name, { file, contentHash });
+      if (isAbortError(error, controller.signal)) {
+        updateFile(file.name, { status: 'paused', bytesPerSecond: null, secondsLeft: null });
+        return;
       }
+
+      console.error('Upload error:', error);
+      const message = error?.message || 'Upload failed';
+      updateFile(file.name, { status: 'error', error: message, retryable: true, bytesPerSecond: null, secondsLeft: null });
+      toast({
+        title: "Upload Failed",
+        description: isResumableUpload(file)
+          ? `${file.name} could not be uploaded: ${message}. Retry to continue from where it stopped.`
+          : `Failed to upload ${file.name}. Please try again.`,
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      uploadControllers.current.delete(file.name);
     }
-    
-    // Default to text/plain for unknown extensions
-    return 'text/plain';
+
+    updateFile(file.name, { status: 'processing', progress: 100, documentId: docData.id });
+
+    toast({
+      title: "Upload Successful",
+      description: `${file.name} has been uploaded and queued for AI analysis. You can leave this page.`,
+    });
+
+    // Queue AI processing; the job's progress arrives through useProcessingJobs
+    try {
+      await queueDocumentProcessing(docData.id);
+    } catch (error) {
+      console.error('Queueing AI processing failed:', error);
+      updateFile(file.name, { status: 'error', error: 'AI processing could not be queued' });
+
+      toast({
+        title: "AI Processing Failed",
+        description: `${file.name} was uploaded but could not be queued for AI analysis. Reprocess it from My Documents.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pauseUpload = (fileId: string) => {
+    const entry = uploadedFiles.find(f => f.id === fileId);
+    if (entry) uploadControllers.current.get(entry.name)?.abort();
   };
 
-  const getCategoryFromFileType = (type: string): string => {
-    if (type.includes('pdf')) return 'Research Paper';
-    if (type.includes('word') || type.includes('document') || type.includes('odt') || type.includes('rtf')) return 'Report';
-    if (type.includes('excel') || type.includes('spreadsheet') || type.includes('csv') || type.includes('ods')) return 'Data';
-    if (type.includes('text') || type.includes('plain') || type.includes('markdown') || type.includes('md')) return 'Document';
-    if (type.includes('html') || type.includes('xml') || type.includes('json')) return 'Web Content';
-    return 'Other';
+  const resumeUpload = async (fileId: string) => {
+    const entry = uploadedFiles.find(f => f.id === fileId);
+    const interrupted = entry && interruptedUploads.current.get(entry.name);
+    if (!interrupted) return;
+    await storeAndQueue(interrupted.file, interrupted.contentHash);
+  };
+
+  const formatTimeLeft = (seconds: number): string => {
+    if (seconds < 60) return `${Math.max(1, Math.ceil(seconds))}s left`;
+    if (seconds < 3600) return `${Math.ceil(seconds / 60)} min left`;
+    return `${Math.floor(seconds / 3600)} h ${Math.ceil((seconds % 3600) / 60)} min left`;
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -289,6 +339,8 @@ export const DocumentUpload = () => {
 
   const getFileIcon = (fileType: string) => {
     if (fileType.includes('pdf')) return <FileIcon className="h-8 w-8 text-red-500" />;
+    if (fileType.includes('presentationml')) return <FileIcon className="h-8 w-8 text-orange-500" />;
+    if (fileType.startsWith('image/')) return <FileImage className="h-8 w-8 text-purple-500" />;
     if (fileType.includes('word') || fileType.includes('document') || fileType.includes('odt')) return <FileIcon className="h-8 w-8 text-blue-500" />;
     if (fileType.includes('excel') || fileType.includes('spreadsheet') || fileType.includes('csv')) return <FileIcon className="h-8 w-8 text-green-500" />;
     if (fileType.includes('text') || fileType.includes('plain')) return <FileText className="h-8 w-8 text-gray-500" />;
@@ -303,7 +355,11 @@ export const DocumentUpload = () => {
     if (fileType.includes('rtf')) return 'Rich Text Format';
     if (fileType.includes('vnd.openxmlformats-officedocument.spreadsheetml.sheet')) return 'Excel Spreadsheet (XLSX)';
     if (fileType.includes('vnd.ms-excel')) return 'Excel Spreadsheet (XLS)';
+    if (fileType.includes('vnd.openxmlformats-officedocument.presentationml.presentation')) return 'PowerPoint Presentation (PPTX)';
     if (fileType.includes('csv')) return 'CSV File';
+    if (fileType === 'image/png') return 'PNG Image';
+    if (fileType === 'image/jpeg') return 'JPEG Image';
+    if (fileType === 'image/tiff') return 'TIFF Image';
     if (fileType.includes('ods')) return 'OpenDocument Spreadsheet';
     if (fileType.includes('text/plain')) return 'Text File';
     if (fileType.includes('markdown') || fileType.includes('md')) return 'Markdown File';
@@ -313,14 +369,72 @@ export const DocumentUpload = () => {
     return fileType || 'Unknown File Type';
   };
 
+  const importArchive = async (archive: File) => {
+    const importId = Math.random().toString(36).substr(2, 9);
+    const updateImport = (update: (dataRoom: DataRoomImport) => DataRoomImport) =>
+      setImports(prev => prev.map(dataRoom => (dataRoom.id === importId ? update(dataRoom) : dataRoom)));
+
+    setImports(prev => [...prev, { id: importId, name: archive.name, status: 'importing', progress: 0, entries: [] }]);
+
+    try {
+      const report = await importDataRoom(archive, {
+        userId: user!.id,
+        projectId: selectedProject !== 'none' ? selectedProject : null,
+        confidential,
+        maxFileSize: limits.maxFileSize,
+        maxArchiveSize: limits.maxArchiveSize,
+        onProgress: progress => updateImport(dataRoom => ({ ...dataRoom, progress })),
+        onEntry: entry => updateImport(dataRoom => ({ ...dataRoom, entries: [...dataRoom.entries, entry] })),
+      });
+      updateImport(dataRoom => ({ ...dataRoom, status: 'done' }));
+
+      const imported = report.filter(entry => entry.status === 'imported').length;
+      toast({
+        title: "Data Room Imported",
+        description: `${imported} of ${report.length} files in ${archive.name} were imported and queued for AI analysis. See the import report for the rest.`,
+      });
+    } catch (error) {
+      console.error('Data room import error:', error);
+      const message = error instanceof Error ? error.message : 'Import failed';
+      updateImport(dataRoom => ({ ...dataRoom, status: 'error', error: message }));
+
+      toast({
+        title: "Import Failed",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const removeFile = (fileId: string) => {
+    const file = uploadedFiles.find(f => f.id === fileId);
+    if (file) {
+      heldFiles.current.delete(file.name);
+      interruptedUploads.current.delete(file.name);
+    }
     setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
   };
 
+  const uploadDuplicateAnyway = async (fileId: string) => {
+    const entry = uploadedFiles.find(f => f.id === fileId);
+    const file = entry && heldFiles.current.get(entry.name);
+    if (!file) return;
+
+    heldFiles.current.delete(file.name);
+    setUploadedFiles(prev =>
+      prev.map(f => (f.id === fileId ? { ...f, status: 'uploading', duplicateOf: undefined } : f))
+    );
+    await uploadFile(file, { allowDuplicate: true });
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: ACCEPTED_FILE_TYPES,
-    maxSize: MAX_FILE_SIZE,
+    accept: { ...ACCEPTED_FILE_TYPES, 'application/zip': ['.zip'] },
+    // Data room archives may be larger than single documents
+    validator: file => {
+      const limit = isZipFile(file) ? limits.maxArchiveSize : limits.maxFileSize;
+      return file.size > limit ? { code: 'file-too-large', message: `File is larger than ${formatSizeLimit(limit)}` } : null;
+    },
     multiple: true,
   });
 
@@ -337,7 +451,8 @@ export const DocumentUpload = () => {
           </CardTitle>
           <CardDescription>
             Upload research documents in various formats for AI-powered analysis.
-            Maximum file size: 50MB
+            Maximum file size: {formatSizeLimit(limits.maxFileSize)}. Large files upload in chunks that can be paused and resumed.
+            Data room ZIP archives of up to {formatSizeLimit(limits.maxArchiveSize)} are imported with their folder structure.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -363,6 +478,16 @@ export const DocumentUpload = () => {
             </div>
           )}
 
+          <div className="mb-6 flex items-start gap-2">
+            <Switch id="upload-confidential" checked={confidential} onCheckedChange={setConfidential} />
+            <div>
+              <Label htmlFor="upload-confidential">Confidential</Label>
+              <p className="text-xs text-gray-500">
+                Keep these documents away from external AI models. They are stored and searchable but not analyzed.
+              </p>
+            </div>
+          </div>
+
           <div
             {...getRootProps()}
             className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
@@ -450,10 +575,25 @@ export const DocumentUpload = () => {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="bg-amber-50">ZIP</Badge>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Data room archives; folders become tags</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
           </div>
         </CardContent>
       </Card>
 
+      {imports.map(dataRoom => (
+        <DataRoomImportReport key={dataRoom.id} dataRoom={dataRoom} />
+      ))}
+
       {uploadedFiles.length > 0 && (
         <Card>
           <CardHeader>
@@ -481,6 +621,16 @@ export const DocumentUpload = () => {
                           {getFileTypeLabel(file.type)}
                         </span>
                       </div>
+                      {(file.status === 'uploading' || file.status === 'paused') && file.resumable && file.bytesUploaded !== undefined && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatFileSize(file.bytesUploaded)} of {formatFileSize(file.size)}
+                          {file.status === 'paused'
+                            ? ' · Paused'
+                            : file.bytesPerSecond
+                            ? ` · ${formatFileSize(file.bytesPerSecond)}/s${file.secondsLeft != null ? ` · ${formatTimeLeft(file.secondsLeft)}` : ''}`
+                            : ''}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -489,13 +639,45 @@ export const DocumentUpload = () => {
                       <div className="flex items-center gap-2">
                         <Loader2 className="h-4 w-4 animate-spin" />
                         <Progress value={file.progress} className="w-20" />
+                        {file.resumable && (
+                          <Button variant="ghost" size="sm" onClick={() => pauseUpload(file.id)} aria-label={`Pause ${file.name}`}>
+                            <Pause className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {file.status === 'paused' && (
+                      <div className="flex items-center gap-2">
+                        <Progress value={file.progress} className="w-20" />
+                        <Button variant="outline" size="sm" onClick={() => resumeUpload(file.id)}>
+                          <Play className="h-4 w-4 mr-1" />
+                          Resume
+                        </Button>
+                      </div>
+                    )}
+
+                    {file.status === 'duplicate' && (
+                      <div className="flex items-center gap-2">
+                        <Copy className="h-4 w-4 text-amber-500" />
+                        <span className="text-xs text-gray-500 max-w-40 truncate" title={file.duplicateOf}>
+                          Same as {file.duplicateOf}
+                        </span>
+                        <Button variant="outline" size="sm" onClick={() => uploadDuplicateAnyway(file.id)}>
+                          Upload anyway
+                        </Button>
                       </div>
                     )}
 
                     {file.status === 'processing' && (
                       <div className="flex items-center gap-2">
                         <Brain className="h-4 w-4 animate-pulse text-blue-500" />
-                        <Progress value={file.progress} className="w-20" />
+                        <span className="text-xs text-gray-500">
+                          {jobs.get(file.documentId)?.status === 'running'
+                            ? PROCESSING_STAGE_LABELS[jobs.get(file.documentId).stage]
+                            : 'Queued'}
+                        </span>
+                        <Progress value={jobs.get(file.documentId)?.progress ?? 0} className="w-20" />
                       </div>
                     )}
 
@@ -503,6 +685,13 @@ export const DocumentUpload = () => {
                       <CheckCircle className="h-5 w-5 text-green-500" />
                     )}
 
+                    {file.status === 'error' && file.retryable && (
+                      <Button variant="outline" size="sm" onClick={() => resumeUpload(file.id)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+
                     {file.status === 'error' && (
                       <TooltipProvider>
                         <Tooltip>
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  isActiveJob,
+  listActiveProcessingJobs,
+  processesInBrowser,
+  ProcessingJob,
+  runDueJobsInBrowser,
+  subscribeToProcessingJobs,
+} from '@/lib/processing-jobs';
+
+/**
+ * Live processing jobs of a user, by document id. Finished jobs stay in the
+ * map; `onFinished` is called when one completes or fails.
+ */
+export const useProcessingJobs = (userId: string | undefined, onFinished?: (job: ProcessingJob) => void) => {
+  const [jobs, setJobs] = useState<Map<string, ProcessingJob>>(new Map());
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    const finished = new Set<string>();
+
+    listActiveProcessingJobs()
+      .then(active => {
+        if (!cancelled) setJobs(new Map(active.map(job => [job.document_id, job])));
+      })
+      .catch(error => console.error('Error loading processing jobs:', error));
+
+    // Without an ingestion worker, pick up retries and jobs a closed tab left behind
+    if (processesInBrowser()) {
+      runDueJobsInBrowser().catch(error => console.error('Error running queued jobs:', error));
+    }
+
+    const unsubscribe = subscribeToProcessingJobs(userId, job => {
+      setJobs(current => {
+        const previous = current.get(job.document_id);
+        // Realtime events can arrive out of order
+        if (previous?.id === job.id && previous.updated_at > job.updated_at) return current;
+        return new Map(current).set(job.document_id, job);
+      });
+      if (!isActiveJob(job) && !finished.has(job.id)) {
+        finished.add(job.id);
+        onFinishedRef.current?.(job);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return jobs;
+};
@@ -0,0 +1,117 @@
+/**
+ * Ingestion worker: claims queued processing jobs and runs them with the
+ * same pipeline as the browser. Start it with `npm run worker`; it reads the
+ * VITE_ variables from .env like the app, plus SUPABASE_SERVICE_ROLE_KEY.
+ *
+ * Jobs are claimed with the service role, then run signed in as the
+ * document's owner, so row level security, team settings, privacy rules and
+ * the ai-proxy apply exactly as they do for the owner's own tab.
+ */
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { createClient } from '@supabase/supabase-js';
+import { DOMParser } from '@xmldom/xmldom';
+
+// Browser APIs the extractors rely on: DOMParser for Office XML, and the
+// canvas classes and promise helper pdf.js needs to render pages for OCR
+const globals = globalThis as unknown as Record<string, unknown>;
+globals.DOMParser ??= DOMParser;
+if (!('withResolvers' in Promise)) {
+  Object.assign(Promise, {
+    withResolvers<T>() {
+      let resolve: (value: T) => void, reject: (reason?: unknown) => void;
+      const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    },
+  });
+}
+const canvas = await import('@napi-rs/canvas');
+globals.ImageData ??= canvas.ImageData;
+globals.DOMMatrix ??= canvas.DOMMatrix;
+globals.Path2D ??= canvas.Path2D;
+// pdf.js runs its worker code in this thread instead of a web worker
+globals.pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.min.mjs');
+
+const { supabase } = await import('./lib/supabase');
+const { claimProcessingJob, runProcessingJob } = await import('./lib/processing-jobs');
+
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!serviceRoleKey) {
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY environment variable');
+}
+
+const admin = createClient(import.meta.env.VITE_SUPABASE_URL, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+const pollMs = Number(process.env.WORKER_POLL_SECONDS || 5) * 1000;
+
+let stopping = false;
+let wake: (() => void) | null = null;
+
+const stop = () => {
+  console.log('Stopping after the current job...');
+  stopping = true;
+  wake?.();
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+/**
+ * Sign the shared client in as a user, without their password, through a
+ * one-time magic link token that is never emailed
+ */
+async function signInAs(userId: string): Promise<void> {
+  const { data: { user }, error: userError } = await admin.auth.admin.getUserById(userId);
+  if (userError) throw userError;
+  if (!user?.email) throw new Error(`User ${userId} has no email to sign in with`);
+
+  const { data, error: linkError } = await admin.auth.admin.generateLink({ type: 'magiclink', email: user.email });
+  if (linkError) throw linkError;
+
+  const { error } = await supabase.auth.verifyOtp({ token_hash: data.properties.hashed_token, type: 'magiclink' });
+  if (error) throw error;
+}
+
+console.log(`Ingestion worker ${workerId} polling every ${pollMs / 1000}s`);
+
+while (!stopping) {
+  let job = null;
+  try {
+    job = await claimProcessingJob(admin, workerId);
+  } catch (error) {
+    console.error('Could not claim a job:', error);
+  }
+
+  if (!job) {
+    await sleep(pollMs);
+    continue;
+  }
+
+  console.log(`Processing document ${job.document_id} (job ${job.id}, attempt ${job.attempts} of ${job.max_attempts})`);
+  try {
+    await signInAs(job.user_id);
+    const status = await runProcessingJob(job);
+    console.log(`Job ${job.id} ${status}`);
+  } catch (error) {
+    // The job could not be run or recorded; its lease expires and it is claimed again
+    console.error(`Job ${job.id} was interrupted:`, error);
+  } finally {
+    await supabase.auth.signOut({ scope: 'local' });
+  }
+}
+
+process.exit(0);
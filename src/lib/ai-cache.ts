@@ -1,69 +1,371 @@
-// Simple in-memory cache for AI responses to reduce API calls
+import { supabase, getCurrentTeamId } from './supabase';
+import { recordUsage } from './ai-usage';
+
+// Two-tier cache for AI responses: IndexedDB in this browser, backed by the
+// ai_cache_entries table shared by everyone on the user's team.
+
+export type CacheTask =
+  | 'analysis'
+  | 'summary'
+  | 'insights'
+  | 'category'
+  | 'tags'
+  | 'project-tags'
+  | 'research-summary';
+
+export interface CacheInput {
+  model: string;
+  prompt: string;
+  context?: string;
+}
+
+// Where a cached response came from; optional documentId ties it to a document
+// so reprocessing that document drops it
+export interface CacheScope {
+  task: CacheTask;
+  documentId?: string;
+}
+
+// A cache hit, with the model that produced it rather than the one routed now
+export interface CachedResponse {
+  response: string;
+  model: string;
+}
+
+export interface SharedCacheEntry {
+  id: string;
+  cache_key: string;
+  task: CacheTask;
+  // The model that produced the response
+  model: string;
+  response: string;
+  document_id: string | null;
+  hit_count: number;
+  created_at: string;
+  expires_at: string;
+  last_hit_at: string | null;
+}
+
+export interface CacheStats {
+  localEntries: number;
+  localHits: number;
+  sharedHits: number;
+  misses: number;
+  hitRate: number;
+}
+
+interface LocalCacheEntry {
+  key: string;
+  task: CacheTask;
+  model: string;
+  response: string;
+  documentId: string | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Document-derived results stay valid until the document is reprocessed;
+// corpus-wide results go stale as soon as new documents are uploaded
+const TASK_TTLS: Record<CacheTask, number> = {
+  analysis: 30 * DAY,
+  summary: 30 * DAY,
+  insights: 30 * DAY,
+  category: 30 * DAY,
+  tags: 30 * DAY,
+  'project-tags': 7 * DAY,
+  'research-summary': 6 * HOUR,
+};
+
+const DB_NAME = 'ai-cache';
+const STORE_NAME = 'entries';
+const STATS_STORAGE_KEY = 'ai-cache-stats';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
 class AICache {
-  private cache = new Map<string, { response: string; timestamp: number }>();
-  private readonly CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
-  private readonly MAX_CACHE_SIZE = 1000;
-
-  private generateKey(prompt: string, context?: string): string {
-    const content = context ? `${context}\n\n${prompt}` : prompt;
-    // Simple hash function for cache key
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private readonly MAX_LOCAL_ENTRIES = 1000;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private stats = { localHits: 0, sharedHits: 0, misses: 0 };
+
+  constructor() {
+    try {
+      const saved = localStorage.getItem(STATS_STORAGE_KEY);
+      if (saved) {
+        this.stats = { ...this.stats, ...JSON.parse(saved) };
+      }
+    } catch {
+      // Stats are best effort
     }
-    return Math.abs(hash).toString();
   }
 
-  set(prompt: string, response: string, context?: string): void {
-    const key = this.generateKey(prompt, context);
-    
-    // If cache is too large, remove oldest entries
-    if (this.cache.size >= this.MAX_CACHE_SIZE) {
-      const oldestKey = this.cache.keys().next().value;
-      this.cache.delete(oldestKey);
+  async generateKey({ model, prompt, context }: CacheInput): Promise<string> {
+    const content = JSON.stringify([model, prompt, context ?? '']);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  async get(scope: CacheScope, input: CacheInput): Promise<CachedResponse | null> {
+    const key = await this.generateKey(input);
+
+    try {
+      const local = await this.readLocal(key);
+      if (local && local.expiresAt > Date.now()) {
+        this.recordStat('localHits');
+        recordUsage({ feature: scope.task, provider: 'cache', model: local.model, cacheHit: true });
+        console.log(`Cache hit (local) for ${scope.task}: ${key.substring(0, 10)}...`);
+        return { response: local.response, model: local.model };
+      }
+    } catch (error) {
+      console.warn('Local AI cache read failed:', error);
+    }
+
+    try {
+      const teamId = await getCurrentTeamId();
+      if (teamId) {
+        const { data, error } = await supabase
+          .from('ai_cache_entries')
+          .select('*')
+          .eq('team_id', teamId)
+          .eq('cache_key', key)
+          .gt('expires_at', new Date().toISOString())
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (data) {
+          const entry = data as SharedCacheEntry;
+          this.recordStat('sharedHits');
+          recordUsage({ feature: scope.task, provider: 'cache', model: entry.model, cacheHit: true });
+          console.log(`Cache hit (team) for ${scope.task}: ${key.substring(0, 10)}...`);
+
+          await this.writeLocal({
+            key,
+            task: entry.task,
+            model: entry.model,
+            response: entry.response,
+            documentId: entry.document_id,
+            createdAt: Date.now(),
+            expiresAt: new Date(entry.expires_at).getTime(),
+          });
+          await supabase
+            .from('ai_cache_entries')
+            .update({ hit_count: entry.hit_count + 1, last_hit_at: new Date().toISOString() })
+            .eq('id', entry.id);
+
+          return { response: entry.response, model: entry.model };
+        }
+      }
+    } catch (error) {
+      console.warn('Shared AI cache read failed:', error);
     }
-    
-    this.cache.set(key, {
-      response,
-      timestamp: Date.now()
-    });
-    
-    console.log(`Cached AI response for key: ${key.substring(0, 10)}...`);
-  }
-
-  get(prompt: string, context?: string): string | null {
-    const key = this.generateKey(prompt, context);
-    const cached = this.cache.get(key);
-    
-    if (!cached) {
-      return null;
+
+    this.recordStat('misses');
+    return null;
+  }
+
+  /**
+   * Cache a response under its input, recording `model` as the one that produced it
+   */
+  async set(scope: CacheScope, input: CacheInput, response: string, model: string): Promise<void> {
+    const key = await this.generateKey(input);
+    const now = Date.now();
+    const expiresAt = now + TASK_TTLS[scope.task];
+
+    try {
+      await this.writeLocal({
+        key,
+        task: scope.task,
+        model,
+        response,
+        documentId: scope.documentId ?? null,
+        createdAt: now,
+        expiresAt,
+      });
+    } catch (error) {
+      console.warn('Local AI cache write failed:', error);
     }
-    
-    // Check if cache entry is expired
-    if (Date.now() - cached.timestamp > this.CACHE_DURATION) {
-      this.cache.delete(key);
-      console.log(`Cache expired for key: ${key.substring(0, 10)}...`);
-      return null;
+
+    try {
+      const teamId = await getCurrentTeamId();
+      if (teamId) {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('ai_cache_entries')
+          .upsert({
+            team_id: teamId,
+            created_by: user?.id,
+            cache_key: key,
+            task: scope.task,
+            model,
+            response,
+            document_id: scope.documentId ?? null,
+            hit_count: 0,
+            created_at: new Date(now).toISOString(),
+            expires_at: new Date(expiresAt).toISOString(),
+          }, { onConflict: 'team_id,cache_key' });
+
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.warn('Shared AI cache write failed:', error);
     }
-    
-    console.log(`Cache hit for key: ${key.substring(0, 10)}...`);
-    return cached.response;
+
+    console.log(`Cached ${scope.task} response for key: ${key.substring(0, 10)}...`);
   }
 
-  clear(): void {
-    this.cache.clear();
+  /**
+   * Drop every cached response derived from a document, in both tiers
+   */
+  async invalidateDocument(documentId: string): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const keys = await requestToPromise(store.index('documentId').getAllKeys(documentId));
+      await Promise.all(keys.map(key => requestToPromise(store.delete(key))));
+    } catch (error) {
+      console.warn('Local AI cache invalidation failed:', error);
+    }
+
+    const { error } = await supabase
+      .from('ai_cache_entries')
+      .delete()
+      .eq('document_id', documentId);
+
+    if (error) {
+      console.warn('Shared AI cache invalidation failed:', error);
+    }
+    console.log(`Invalidated cached AI responses for document ${documentId}`);
+  }
+
+  async listSharedEntries(limit = 200): Promise<SharedCacheEntry[]> {
+    const teamId = await getCurrentTeamId();
+    if (!teamId) return [];
+
+    const { data, error } = await supabase
+      .from('ai_cache_entries')
+      .select('id, cache_key, task, model, response, document_id, hit_count, created_at, expires_at, last_hit_at')
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as SharedCacheEntry[];
+  }
+
+  async deleteSharedEntry(id: string): Promise<void> {
+    const { error } = await supabase.from('ai_cache_entries').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * Purge the team's shared entries, optionally only those past their TTL
+   */
+  async purgeShared({ expiredOnly = false }: { expiredOnly?: boolean } = {}): Promise<void> {
+    const teamId = await getCurrentTeamId();
+    if (!teamId) return;
+
+    let query = supabase.from('ai_cache_entries').delete().eq('team_id', teamId);
+    if (expiredOnly) {
+      query = query.lte('expires_at', new Date().toISOString());
+    }
+
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
     console.log('AI cache cleared');
   }
 
-  getStats(): { size: number; maxSize: number; hitRate: number } {
+  async getStats(): Promise<CacheStats> {
+    let localEntries = 0;
+    try {
+      const db = await this.openDatabase();
+      localEntries = await requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).count());
+    } catch (error) {
+      console.warn('Could not count local AI cache entries:', error);
+    }
+
+    const { localHits, sharedHits, misses } = this.stats;
+    const lookups = localHits + sharedHits + misses;
     return {
-      size: this.cache.size,
-      maxSize: this.MAX_CACHE_SIZE,
-      hitRate: 0 // Could track this if needed
+      localEntries,
+      localHits,
+      sharedHits,
+      misses,
+      hitRate: lookups > 0 ? (localHits + sharedHits) / lookups : 0,
     };
   }
+
+  resetStats(): void {
+    this.stats = { localHits: 0, sharedHits: 0, misses: 0 };
+    this.saveStats();
+  }
+
+  private recordStat(stat: keyof AICache['stats']): void {
+    this.stats[stat]++;
+    this.saveStats();
+  }
+
+  private saveStats(): void {
+    try {
+      localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(this.stats));
+    } catch {
+      // Stats are best effort
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('documentId', 'documentId');
+          store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async readLocal(key: string): Promise<LocalCacheEntry | undefined> {
+    const db = await this.openDatabase();
+    return requestToPromise<LocalCacheEntry | undefined>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key)
+    );
+  }
+
+  private async writeLocal(entry: LocalCacheEntry): Promise<void> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(entry));
+
+    // Evict the oldest entries once the local tier is full
+    const size = await requestToPromise(store.count());
+    if (size > this.MAX_LOCAL_ENTRIES) {
+      const oldest = await requestToPromise(
+        store.index('createdAt').getAllKeys(null, size - this.MAX_LOCAL_ENTRIES)
+      );
+      await Promise.all(oldest.map(key => requestToPromise(store.delete(key))));
+    }
+  }
 }
 
-export const aiCache = new AICache(); 
\ No newline at end of file
+export const aiCache = new AICache();
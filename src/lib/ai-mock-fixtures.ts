@@ -0,0 +1,6 @@
+import type { MockFixtures } from './ai-mock';
+
+// Recorded model responses replayed by MockProvider, keyed by fixtureKey().
+// Record with VITE_AI_MOCK=record, then paste the output of
+// exportRecordedFixtures() (also on window in record mode) below.
+export const mockFixtures: MockFixtures = {};
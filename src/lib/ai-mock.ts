@@ -0,0 +1,325 @@
+import type { ChatCompletion, ChatRequest, EmbedOptions, LLMProvider } from './ai-providers';
+import { mockFixtures } from './ai-mock-fixtures';
+
+// Offline stand-in for a real model, selected with VITE_AI_MOCK=true. Responses
+// replay a recorded fixture when one matches the request, and are otherwise
+// derived from a hash of the prompt, so the same input always produces the same
+// output without network access. Embeddings are hashed bags of words: similar
+// text lands close together, which keeps vector search meaningful offline.
+
+export type MockFixtures = Record<string, string>;
+
+const RECORDED_FIXTURES_KEY = 'ai-mock-fixtures';
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'also', 'analysis', 'analyze', 'answer', 'based', 'been', 'before', 'being',
+  'between', 'both', 'brief', 'concise', 'confidence', 'content', 'could', 'determine', 'discussed', 'document',
+  'documents', 'each', 'extract', 'findings', 'following', 'format', 'from', 'have', 'include', 'insights',
+  'into', 'level', 'main', 'more', 'most', 'must', 'only', 'other', 'over', 'please', 'provide', 'query',
+  'relevant', 'research', 'respond', 'response', 'return', 'sentiment', 'should', 'some', 'such', 'summary',
+  'tags', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through',
+  'topics', 'under', 'used', 'user', 'very', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'will',
+  'with', 'within', 'would', 'your',
+]);
+
+/**
+ * 32-bit FNV-1a; the seed gives independent hashes of the same string
+ */
+const fnv1a = (text: string, seed = 0x811c9dc5): number => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const hex = (value: number) => value.toString(16).padStart(8, '0');
+
+/**
+ * Fixture key for a request. The model is left out so recordings made against
+ * any model replay under the mock.
+ */
+export const fixtureKey = (request: ChatRequest): string => {
+  const content = JSON.stringify([request.feature || 'chat', request.jsonMode === true, request.messages]);
+  return hex(fnv1a(content)) + hex(fnv1a(content, 0x01000193));
+};
+
+const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+
+const sentencesOf = (text: string): string[] =>
+  text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 20);
+
+const keywordsOf = (text: string, count: number): string[] => {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z-]{3,}/g) || []) {
+    if (!STOPWORDS.has(word)) {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, count)
+    .map(([word]) => word);
+};
+
+const entitiesOf = (text: string, count: number): string[] => {
+  const entities = text.match(/\b[A-Z][a-zA-Z&]+(?:\s+[A-Z][a-zA-Z&]+)+\b/g) || [];
+  return [...new Set(entities)].slice(0, count);
+};
+
+/**
+ * The part of a task prompt that holds the material, without the instructions
+ */
+const materialOf = (prompt: string): string => {
+  const marker = /(?:Document content|Document|Research Project Title):/g;
+  let start = -1;
+  for (const match of prompt.matchAll(marker)) {
+    start = match.index! + match[0].length;
+  }
+  return (start >= 0 ? prompt.slice(start) : prompt).trim();
+};
+
+/**
+ * The documents fenceDocuments quoted into a prompt
+ */
+const fencedDocumentsOf = (prompt: string): { title: string; content: string }[] =>
+  [...prompt.matchAll(/<document [^>]*?title="([^"]*)"[^>]*>\n([\s\S]*?)\n<\/document>/g)].map(([, title, content]) => ({
+    title: title.replace(/&quot;/g, '"').replace(/&amp;/g, '&'),
+    content,
+  }));
+
+const sentimentOf = (text: string): 'positive' | 'negative' | 'neutral' => {
+  const positive = (text.match(/\b(growth|gain|increase|strong|profit|improve|opportunit\w*)\b/gi) || []).length;
+  const negative = (text.match(/\b(decline|loss|decrease|weak|risk|drop|concern\w*)\b/gi) || []).length;
+  if (positive > negative) return 'positive';
+  if (negative > positive) return 'negative';
+  return 'neutral';
+};
+
+const orDefault = <T>(values: T[], fallback: T[]): T[] => (values.length > 0 ? values : fallback);
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly supportsJsonMode = true;
+
+  constructor(private fixtures: MockFixtures = {}, private dimensions = 768) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatCompletion> {
+    if (request.signal?.aborted) throw abortError();
+
+    const content = this.respond(request);
+    return {
+      content,
+      model: request.model || 'mock',
+      provider: this.name,
+      usage: {
+        promptTokens: Math.ceil(request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    for (const token of this.respond(request).split(/(?<=\s)/)) {
+      if (request.signal?.aborted) throw abortError();
+      // Yield to the event loop so the UI renders incrementally, as with a real stream
+      await new Promise(resolve => setTimeout(resolve, 0));
+      yield token;
+    }
+  }
+
+  async embed(text: string, _model?: string, options: EmbedOptions = {}): Promise<number[]> {
+    if (options.signal?.aborted) throw abortError();
+
+    const embedding = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    // Signed feature hashing of words and bigrams
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      embedding[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) {
+      embedding[0] = 1;
+      return embedding;
+    }
+    return embedding.map(value => value / norm);
+  }
+
+  private respond(request: ChatRequest): string {
+    const key = fixtureKey(request);
+    const fixture = this.fixtures[key] ?? readRecordedFixtures()[key];
+    if (fixture !== undefined) {
+      return fixture;
+    }
+
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    const seed = fnv1a(key);
+
+    if (request.jsonMode) {
+      return JSON.stringify(this.structuredResponse(request, prompt, seed));
+    }
+
+    switch (request.feature) {
+      case 'category': {
+        const options = [...prompt.matchAll(/^\s*-\s+(.+)$/gm)].map(match => match[1].trim());
+        return options.length > 0 ? options[seed % options.length] : 'Other';
+      }
+      case 'summary':
+        return orDefault(sentencesOf(materialOf(prompt)).slice(0, 3), ['No content to summarise.']).join(' ');
+      case 'rag-answer':
+        return `${this.ragAnswer(prompt)}\n\n_Mock response ${key.substring(0, 8)}_`;
+      default: {
+        const firstSentence = sentencesOf(prompt)[0] || prompt.substring(0, 200);
+        return `Mock response ${key.substring(0, 8)} to: ${firstSentence}`;
+      }
+    }
+  }
+
+  /**
+   * Output for the JSON tasks in ai-structured.ts, shaped to pass their schemas
+   */
+  private structuredResponse(request: ChatRequest, prompt: string, seed: number): unknown {
+    const material = materialOf(prompt);
+    const sentences = orDefault(sentencesOf(material), [material.substring(0, 200) || 'No content.']);
+    const keywords = orDefault(keywordsOf(material, 10), ['general']);
+    const confidence = 60 + (seed % 35);
+
+    switch (request.feature) {
+      case 'analysis':
+        return {
+          summary: sentences.slice(0, 2).join(' '),
+          keyInsights: sentences.slice(0, 5),
+          topics: keywords.slice(0, 4),
+          sentiment: sentimentOf(material),
+          confidence,
+        };
+      case 'insights':
+        return {
+          summary: sentences.slice(0, 2).join(' '),
+          keyPoints: sentences.slice(0, 5),
+          themes: keywords.slice(0, 3),
+          relevantEntities: entitiesOf(material, 5),
+        };
+      case 'tags':
+        return { tags: keywords.slice(0, 8) };
+      case 'project-tags':
+        return {
+          industry: keywords[0],
+          subIndustry: keywords[1] || keywords[0],
+          tags: keywords.slice(0, 5),
+          confidence,
+        };
+      case 'research-summary': {
+        const sources = fencedDocumentsOf(prompt);
+        const sourceText = sources.map(source => source.content).join(' ');
+        const findings = orDefault(sentencesOf(sourceText), sentences);
+        return {
+          summary: findings.slice(0, 3).join(' '),
+          keyInsights: findings.slice(0, 4),
+          relatedTopics: orDefault(keywordsOf(sourceText, 4), keywords.slice(0, 4)),
+          sources: [...new Set(sources.map(source => source.title.trim()))],
+        };
+      }
+      default: {
+        // Unknown task: echo the example shape from the system prompt, which satisfies its schema
+        const system = request.messages.find(message => message.role === 'system')?.content || '';
+        const shape = system.indexOf('{');
+        try {
+          return shape >= 0 ? JSON.parse(system.slice(shape)) : {};
+        } catch {
+          return {};
+        }
+      }
+    }
+  }
+
+  /**
+   * Answer in the section layout RAGSystem.buildPrompt asks for, quoting the
+   * retrieved documents so citations can be checked
+   */
+  private ragAnswer(prompt: string): string {
+    const query = prompt.match(/User Query:\s*(.+)/)?.[1]?.trim() || '';
+    const documents = fencedDocumentsOf(prompt)
+      .map(({ title, content }) => ({ title: title.trim(), sentence: sentencesOf(content)[0] || content.trim() }));
+
+    if (documents.length === 0) {
+      return `## Analysis\nNo processed documents matched "${query}" yet. Try again once processing completes.`;
+    }
+
+    return [
+      '## Analysis',
+      `Based on ${documents.length} document${documents.length === 1 ? '' : 's'}, here is what relates to "${query}".`,
+      '',
+      '## Key Points',
+      ...documents.map(doc => `- According to "${doc.title}": ${doc.sentence}`),
+    ].join('\n');
+  }
+}
+
+const readRecordedFixtures = (): MockFixtures => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDED_FIXTURES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveRecordedFixture = (request: ChatRequest, content: string) => {
+  try {
+    const fixtures = readRecordedFixtures();
+    fixtures[fixtureKey(request)] = content;
+    localStorage.setItem(RECORDED_FIXTURES_KEY, JSON.stringify(fixtures));
+  } catch (error) {
+    console.warn('Failed to record AI fixture:', error);
+  }
+};
+
+/**
+ * Fixtures recorded in this browser, ready to paste into ai-mock-fixtures.ts
+ */
+export const exportRecordedFixtures = (): string => JSON.stringify(readRecordedFixtures(), null, 2);
+
+/**
+ * Wrap a real provider so its chat responses are saved as fixtures
+ * (VITE_AI_MOCK=record), for the mock to replay later
+ */
+export function withFixtureRecording(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    supportsJsonMode: provider.supportsJsonMode,
+    isConfigured: () => provider.isConfigured(),
+
+    async chat(request: ChatRequest): Promise<ChatCompletion> {
+      const completion = await provider.chat(request);
+      saveRecordedFixture(request, completion.content);
+      return completion;
+    },
+
+    async *stream(request: ChatRequest): AsyncGenerator<string> {
+      let output = '';
+      for await (const token of provider.stream(request)) {
+        output += token;
+        yield token;
+      }
+      saveRecordedFixture(request, output);
+    },
+
+    embed: (text: string, model?: string, options?: EmbedOptions) => provider.embed(text, model, options),
+  };
+}
+
+export const createMockProvider = (dimensions: number): MockProvider =>
+  new MockProvider(mockFixtures, dimensions);
@@ -0,0 +1,376 @@
+import { supabase, getCurrentTeamId } from './supabase';
+import type { ChatCompletion, ChatRequest, EmbedOptions, LLMMessage, LLMProvider } from './ai-providers';
+
+// Keeps personal and confidential data away from external models. Prompts and
+// embedding inputs bound for an external provider are redacted with numbered
+// placeholders ([EMAIL_1], [TERM_2], ...) that are swapped back into responses
+// locally. A per-team policy also decides which documents may be sent out at all.
+
+export type BuiltInDetector = 'email' | 'phone' | 'national_id' | 'bank_account';
+
+// 'all': every document except those marked confidential
+// 'approved': only documents explicitly approved for external models
+// 'none': no document content leaves; questions are still redacted and sent
+export type ExternalDocumentPolicy = 'all' | 'approved' | 'none';
+
+export interface CustomPattern {
+  label: string;
+  pattern: string;
+}
+
+export interface PrivacyPolicy {
+  redactionEnabled: boolean;
+  detectors: BuiltInDetector[];
+  customPatterns: CustomPattern[];
+  dictionaryTerms: string[];
+  externalDocuments: ExternalDocumentPolicy;
+}
+
+export interface ExternalSendFlags {
+  // NULL follows the team policy
+  external_ai_allowed?: boolean | null;
+}
+
+export const BUILT_IN_DETECTORS: { detector: BuiltInDetector; label: string; description: string }[] = [
+  { detector: 'email', label: 'Email addresses', description: 'name@example.com' },
+  { detector: 'phone', label: 'Phone numbers', description: 'International, (555) 123-4567 and 555-123-4567 formats' },
+  { detector: 'national_id', label: 'National IDs', description: 'US SSNs, UK National Insurance numbers and labelled passport or tax IDs' },
+  { detector: 'bank_account', label: 'Bank accounts', description: 'IBANs and labelled account, routing and sort code numbers' },
+];
+
+export const WITHHELD_FROM_EXTERNAL_AI =
+  "AI analysis skipped: your team's data policy keeps this document away from external AI models";
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  redactionEnabled: true,
+  detectors: BUILT_IN_DETECTORS.map(({ detector }) => detector),
+  customPatterns: [],
+  dictionaryTerms: [],
+  externalDocuments: 'all',
+};
+
+// Used while a team's policy cannot be read
+const RESTRICTIVE_PRIVACY_POLICY: PrivacyPolicy = {
+  ...DEFAULT_PRIVACY_POLICY,
+  externalDocuments: 'none',
+};
+
+interface RedactionRule {
+  tag: string;
+  regex: RegExp;
+  // Only the value is redacted for labelled matches such as "Account No: 1234"
+  valueGroup?: number;
+  validate?: (value: string) => boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Placeholder tags are upper-case words; custom labels are squeezed into that shape
+const toTag = (label: string) => label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'REDACTED';
+
+const PLACEHOLDER = /\[([A-Z][A-Z0-9_]*_\d+)\]/g;
+
+/**
+ * ISO 13616 check digits, so ordinary upper-case codes are not taken for IBANs
+ */
+const isValidIban = (value: string): boolean => {
+  const iban = value.replace(/\s+/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+const BUILT_IN_RULES: Record<BuiltInDetector, RedactionRule[]> = {
+  email: [
+    { tag: 'EMAIL', regex: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi },
+  ],
+  phone: [
+    { tag: 'PHONE', regex: /\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{2,4}){2,4}\b/g },
+    { tag: 'PHONE', regex: /\(\d{2,4}\)\s?\d{3,4}[\s.-]?\d{4}\b/g },
+    { tag: 'PHONE', regex: /\b\d{3}[.-]\d{3}[.-]\d{4}\b/g },
+  ],
+  national_id: [
+    { tag: 'ID', regex: /\b\d{3}-\d{2}-\d{4}\b/g },
+    { tag: 'ID', regex: /\b[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g },
+    {
+      tag: 'ID',
+      regex: /\b(?:passport|national id|id number|identity number|tax id|tin|ssn)\s*(?:no\.?|number|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{5,})/gi,
+      valueGroup: 1,
+    },
+  ],
+  bank_account: [
+    { tag: 'ACCOUNT', regex: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?\b/g, validate: isValidIban },
+    {
+      tag: 'ACCOUNT',
+      regex: /\b(?:account|acct|a\/c|routing|sort code|aba)\s*(?:no\.?|number|#)?\s*[:#]?\s*(\d[\d\s-]{4,22}\d)/gi,
+      valueGroup: 1,
+    },
+  ],
+};
+
+/**
+ * The rules a policy applies, in order: codenames and custom patterns first so
+ * a team's own terms win over the generic detectors
+ */
+function buildRules(policy: PrivacyPolicy): RedactionRule[] {
+  const rules: RedactionRule[] = [];
+
+  const terms = policy.dictionaryTerms.map(term => term.trim()).filter(Boolean);
+  if (terms.length > 0) {
+    // Longest first so "Project Falcon II" is not cut short by "Project Falcon"
+    const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    rules.push({ tag: 'TERM', regex: new RegExp(`(?<![\\w])(?:${alternatives})(?![\\w])`, 'gi') });
+  }
+
+  for (const { label, pattern } of policy.customPatterns) {
+    try {
+      rules.push({ tag: toTag(label), regex: new RegExp(pattern, 'gi') });
+    } catch (error) {
+      console.warn(`Skipping invalid redaction pattern "${label}":`, error);
+    }
+  }
+
+  for (const detector of policy.detectors) {
+    rules.push(...(BUILT_IN_RULES[detector] || []));
+  }
+  return rules;
+}
+
+/**
+ * Redacts text for one request and restores the placeholders in what comes
+ * back. The same value always gets the same placeholder within a Redactor.
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counts = new Map<string, number>();
+
+  constructor(policy: PrivacyPolicy) {
+    this.rules = policy.redactionEnabled ? buildRules(policy) : [];
+  }
+
+  get redactionCount(): number {
+    return this.originals.size;
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const rule of this.rules) {
+      rule.regex.lastIndex = 0;
+      result = result.replace(rule.regex, (match: string, ...groups: unknown[]) => {
+        // Never redact inside an existing placeholder
+        if (/^\[?[A-Z][A-Z0-9_]*_\d+\]?$/.test(match) && this.originals.has(match.replace(/^\[|\]$/g, ''))) {
+          return match;
+        }
+        const value = rule.valueGroup ? (groups[rule.valueGroup - 1] as string | undefined) : match;
+        if (!value || (rule.validate && !rule.validate(value))) return match;
+
+        const placeholder = this.placeholderFor(rule.tag, value.trim());
+        if (!rule.valueGroup) return placeholder;
+        const start = match.lastIndexOf(value);
+        return match.slice(0, start) + placeholder + match.slice(start + value.length);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Put the original values back. Inside JSON output the values are escaped
+   * so the document still parses.
+   */
+  restore(text: string, json = false): string {
+    return text.replace(PLACEHOLDER, (placeholder, key: string) => {
+      const original = this.originals.get(key);
+      if (original === undefined) return placeholder;
+      return json ? JSON.stringify(original).slice(1, -1) : original;
+    });
+  }
+
+  private placeholderFor(tag: string, value: string): string {
+    const known = this.placeholders.get(`${tag}:${value.toLowerCase()}`);
+    if (known) return `[${known}]`;
+
+    const count = (this.counts.get(tag) || 0) + 1;
+    this.counts.set(tag, count);
+    const key = `${tag}_${count}`;
+    this.placeholders.set(`${tag}:${value.toLowerCase()}`, key);
+    this.originals.set(key, value);
+    return `[${key}]`;
+  }
+}
+
+// Tells the model to carry placeholders through unchanged so they can be restored
+const PLACEHOLDER_NOTICE: LLMMessage = {
+  role: 'system',
+  content: 'Some values in this conversation were replaced with placeholders such as [EMAIL_1] or [TERM_2]. Treat them as the real values and repeat them exactly, brackets included, when you refer to them.',
+};
+
+const redactRequest = (redactor: Redactor, request: ChatRequest): ChatRequest => {
+  const messages = request.messages.map(message => ({ ...message, content: redactor.redact(message.content) }));
+  return {
+    ...request,
+    messages: redactor.redactionCount > 0 ? [PLACEHOLDER_NOTICE, ...messages] : messages,
+  };
+};
+
+/**
+ * Wrap a provider that sends data to an external service so every prompt and
+ * embedding input is redacted under the team's policy first
+ */
+export function withRedaction(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    supportsJsonMode: provider.supportsJsonMode,
+    isConfigured: () => provider.isConfigured(),
+
+    async chat(request: ChatRequest): Promise<ChatCompletion> {
+      const redactor = new Redactor(await privacyPolicy.get());
+      const completion = await provider.chat(redactRequest(redactor, request));
+      return { ...completion, content: redactor.restore(completion.content, request.jsonMode) };
+    },
+
+    async *stream(request: ChatRequest): AsyncGenerator<string> {
+      const redactor = new Redactor(await privacyPolicy.get());
+      let pending = '';
+      for await (const token of provider.stream(redactRequest(redactor, request))) {
+        pending += token;
+        // Hold back a possibly unfinished placeholder until its closing bracket arrives
+        const open = pending.lastIndexOf('[');
+        const held = open !== -1 && !pending.includes(']', open) && pending.length - open <= 40 ? pending.slice(open) : '';
+        const ready = pending.slice(0, pending.length - held.length);
+        pending = held;
+        if (ready) yield redactor.restore(ready);
+      }
+      if (pending) yield redactor.restore(pending);
+    },
+
+    async embed(text: string, model?: string, options?: EmbedOptions): Promise<number[]> {
+      const redactor = new Redactor(await privacyPolicy.get());
+      return provider.embed(redactor.redact(text), model, options);
+    },
+  };
+}
+
+interface PolicyRow {
+  redaction_enabled: boolean;
+  detectors: BuiltInDetector[];
+  custom_patterns: CustomPattern[];
+  dictionary_terms: string[];
+  external_documents: ExternalDocumentPolicy;
+}
+
+class PrivacyPolicyStore {
+  private policy: Promise<PrivacyPolicy> | null = null;
+
+  constructor() {
+    supabase.auth.onAuthStateChange(() => {
+      this.policy = null;
+    });
+  }
+
+  /**
+   * The current team's policy; users without a team, or whose team has not
+   * set one, get the defaults
+   */
+  get(): Promise<PrivacyPolicy> {
+    if (!this.policy) {
+      this.policy = (async () => {
+        const teamId = await getCurrentTeamId();
+        if (!teamId) return DEFAULT_PRIVACY_POLICY;
+
+        const { data, error } = await supabase
+          .from('team_ai_privacy_policies')
+          .select('redaction_enabled, detectors, custom_patterns, dictionary_terms, external_documents')
+          .eq('team_id', teamId)
+          .maybeSingle();
+
+        if (error) {
+          // Fail closed: an unreadable policy must not switch redaction off or
+          // let documents out, and the next call tries to load it again
+          console.warn('Failed to load AI privacy policy, withholding documents:', error);
+          this.policy = null;
+          return RESTRICTIVE_PRIVACY_POLICY;
+        }
+        return data ? fromRow(data as PolicyRow) : DEFAULT_PRIVACY_POLICY;
+      })();
+      const loading = this.policy;
+      loading.catch(() => {
+        if (this.policy === loading) this.policy = null;
+      });
+    }
+    return this.policy;
+  }
+
+  async save(policy: PrivacyPolicy): Promise<void> {
+    const teamId = await getCurrentTeamId();
+    if (!teamId) throw new Error('Join a team to configure data privacy');
+
+    for (const { label, pattern } of policy.customPatterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new Error(`Pattern "${label}" is not a valid regular expression`);
+      }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('team_ai_privacy_policies')
+      .upsert({
+        team_id: teamId,
+        redaction_enabled: policy.redactionEnabled,
+        detectors: policy.detectors,
+        custom_patterns: policy.customPatterns,
+        dictionary_terms: policy.dictionaryTerms,
+        external_documents: policy.externalDocuments,
+        updated_by: user?.id,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'team_id' });
+
+    if (error) throw error;
+    this.policy = null;
+  }
+
+  /**
+   * Whether a document's content may be sent to an external model
+   */
+  allowsDocument(policy: PrivacyPolicy, document: ExternalSendFlags): boolean {
+    if (document.external_ai_allowed === false || policy.externalDocuments === 'none') return false;
+    return policy.externalDocuments === 'all' || document.external_ai_allowed === true;
+  }
+
+  /**
+   * The subset of documents whose content may be sent to an external model
+   */
+  async filterSendable(documentIds: string[]): Promise<Set<string>> {
+    const ids = [...new Set(documentIds)];
+    if (ids.length === 0) return new Set();
+
+    const policy = await this.get();
+    const { data, error } = await supabase
+      .from('research_documents')
+      .select('id, external_ai_allowed')
+      .in('id', ids);
+
+    if (error) {
+      console.warn('Failed to check external AI permissions, withholding documents:', error);
+      return new Set();
+    }
+    return new Set((data || []).filter(doc => this.allowsDocument(policy, doc)).map(doc => doc.id));
+  }
+}
+
+const fromRow = (row: PolicyRow): PrivacyPolicy => ({
+  redactionEnabled: row.redaction_enabled,
+  detectors: row.detectors || [],
+  customPatterns: row.custom_patterns || [],
+  dictionaryTerms: row.dictionary_terms || [],
+  externalDocuments: row.external_documents || 'all',
+});
+
+export const privacyPolicy = new PrivacyPolicyStore();
@@ -0,0 +1,488 @@
+import { supabase } from './supabase';
+import { withUsageMetering } from './ai-usage';
+import { createMockProvider, exportRecordedFixtures, withFixtureRecording } from './ai-mock';
+import { withScheduling } from './ai-scheduler';
+import { withRedaction } from './ai-privacy';
+
+// Pluggable LLM provider layer. AIService and RAGSystem talk to an LLMProvider
+// instead of hardcoding a vendor, so models can be swapped through configuration.
+// Hosted model keys live in the ai-proxy edge function, never in the bundle.
+
+export type ProviderName = 'proxy' | 'openai-compatible' | 'mock';
+
+// What a model call is for; recorded with every request in the ai_usage ledger
+export type AIFeature =
+  | 'chat'
+  | 'rag-answer'
+  | 'embedding'
+  | 'analysis'
+  | 'summary'
+  | 'insights'
+  | 'category'
+  | 'tags'
+  | 'project-tags'
+  | 'research-summary';
+
+// Interactive requests (chat, search queries) jump ahead of queued background work
+export type RequestPriority = 'interactive' | 'background';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  feature?: AIFeature;
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+export interface EmbedOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletion {
+  content: string;
+  model: string;
+  provider: ProviderName;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly supportsJsonMode: boolean;
+  isConfigured(): boolean;
+  chat(request: ChatRequest): Promise<ChatCompletion>;
+  stream(request: ChatRequest): AsyncGenerator<string>;
+  embed(text: string, model?: string, options?: EmbedOptions): Promise<number[]>;
+}
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly status?: number,
+    public readonly code?: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  /**
+   * Rate limits, overloaded upstreams and network failures are worth retrying
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status === 503;
+  }
+}
+
+/**
+ * The team's monthly AI quota is used up; retrying will not help until it resets
+ */
+export const isQuotaExceeded = (error: unknown): error is ProviderError =>
+  error instanceof ProviderError && error.code === 'quota_exceeded';
+
+const env = import.meta.env;
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Read a server-sent-event response body, yielding each `data:` payload
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+  Boolean(signal?.aborted) || (error instanceof DOMException && error.name === 'AbortError');
+
+// The proxy falls back to the models configured on the server when none is given
+const DEFAULT_MODELS: Record<ProviderName, { chat?: string; rag?: string; embedding?: string }> = {
+  proxy: {
+    rag: 'qwen/qwen-2.5-72b-instruct:free',
+  },
+  'openai-compatible': {
+    chat: 'llama3.1',
+    rag: 'llama3.1',
+    embedding: 'nomic-embed-text',
+  },
+  mock: {},
+};
+
+const parseProviderList = (value: string | undefined, fallback: ProviderName[]): ProviderName[] => {
+  if (!value) return fallback;
+  return value.split(',').map(name => name.trim()).filter(Boolean) as ProviderName[];
+};
+
+// VITE_AI_MOCK=true routes every call to the offline mock provider;
+// VITE_AI_MOCK=record keeps the real providers and records their responses as fixtures
+const mockMode = env.VITE_AI_MOCK === 'true' ? 'replay' : env.VITE_AI_MOCK === 'record' ? 'record' : null;
+
+const chatProvider = (mockMode === 'replay' ? 'mock' : env.VITE_AI_CHAT_PROVIDER || 'proxy') as ProviderName;
+
+/**
+ * Provider and model selection, driven by VITE_AI_* environment variables
+ */
+export const aiConfig = {
+  chatProvider,
+  chatModel: env.VITE_AI_CHAT_MODEL || DEFAULT_MODELS[chatProvider]?.chat,
+  ragModel: env.VITE_AI_RAG_MODEL || env.VITE_AI_CHAT_MODEL || DEFAULT_MODELS[chatProvider]?.rag,
+  embeddingProviders: mockMode === 'replay'
+    ? ['mock'] as ProviderName[]
+    : parseProviderList(env.VITE_AI_EMBEDDING_PROVIDERS, ['proxy']),
+  embeddingModel: env.VITE_AI_EMBEDDING_MODEL as string | undefined,
+  embeddingDimensions: 768,
+};
+
+/**
+ * Adapter for any endpoint speaking the OpenAI chat/embeddings API
+ * (a local Ollama or llama.cpp server, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly supportsJsonMode = true;
+
+  constructor(
+    public readonly name: ProviderName,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    };
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error, signal)) throw error;
+      throw new ProviderError(`Network error: ${error instanceof Error ? error.message : String(error)}`, this.name);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(
+        `API error: ${response.status} - ${errorText}`,
+        this.name,
+        response.status,
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  }
+
+  private chatBody(request: ChatRequest, stream: boolean) {
+    return {
+      model: request.model || DEFAULT_MODELS[this.name].chat,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2048,
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatCompletion> {
+    const body = this.chatBody(request, false);
+    const model = body.model;
+    const response = await this.post('/chat/completions', body, request.signal);
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new ProviderError('Unexpected chat response format', this.name, response.status);
+    }
+
+    return {
+      content,
+      model: data.model || model,
+      provider: this.name,
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+        : undefined,
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const response = await this.post('/chat/completions', this.chatBody(request, true), request.signal);
+
+    for await (const payload of readServerSentEvents(response)) {
+      if (payload === '[DONE]') return;
+      try {
+        const token = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (token) yield token;
+      } catch {
+        // Keep-alive comments and partial payloads carry no tokens
+      }
+    }
+  }
+
+  async embed(text: string, model?: string, options: EmbedOptions = {}): Promise<number[]> {
+    const response = await this.post('/embeddings', {
+      model: model || DEFAULT_MODELS[this.name].embedding,
+      input: text,
+    }, options.signal);
+
+    const data = await response.json();
+    const embedding = data?.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new ProviderError('Unexpected embedding response format', this.name, response.status);
+    }
+    return embedding;
+  }
+}
+
+/**
+ * Adapter for the ai-proxy Supabase Edge Function, which authenticates the
+ * signed-in user, applies per-user limits and forwards to the hosted models
+ */
+export class ProxyProvider implements LLMProvider {
+  readonly name = 'proxy' as const;
+  readonly supportsJsonMode = true;
+
+  constructor(private functionUrl: string, private anonKey: string) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.functionUrl && this.anonKey);
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new ProviderError('Sign in to use AI features', this.name, 401);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.functionUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'apikey': this.anonKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error, signal)) throw error;
+      throw new ProviderError(`Network error: ${error instanceof Error ? error.message : String(error)}`, this.name);
+    }
+
+    if (!response.ok) {
+      let message = await response.text();
+      let code: string | undefined;
+      try {
+        const errorBody = JSON.parse(message);
+        message = errorBody.error || message;
+        code = errorBody.code;
+      } catch {
+        // Not a JSON error body
+      }
+      if (code === 'quota_exceeded') {
+        throw new ProviderError(message, this.name, response.status, code);
+      }
+      throw new ProviderError(
+        `AI proxy error: ${response.status} - ${message}`,
+        this.name,
+        response.status,
+        code,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  }
+
+  private chatBody(request: ChatRequest) {
+    return {
+      messages: request.messages,
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      jsonMode: request.jsonMode,
+      feature: request.feature,
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatCompletion> {
+    const response = await this.post({ action: 'chat', ...this.chatBody(request) }, request.signal);
+    const data = await response.json();
+    if (typeof data?.content !== 'string') {
+      throw new ProviderError('Unexpected chat response format', this.name, response.status);
+    }
+    return { ...data, provider: this.name };
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const response = await this.post({ action: 'stream', ...this.chatBody(request) }, request.signal);
+
+    for await (const payload of readServerSentEvents(response)) {
+      if (payload === '[DONE]') return;
+      let event: { token?: string; error?: string };
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      if (event.error) {
+        throw new ProviderError(event.error, this.name);
+      }
+      if (event.token) yield event.token;
+    }
+  }
+
+  async embed(text: string, model?: string, options: EmbedOptions = {}): Promise<number[]> {
+    const response = await this.post({
+      action: 'embed',
+      text,
+      model,
+      dimensions: aiConfig.embeddingDimensions,
+    }, options.signal);
+
+    const data = await response.json();
+    if (!Array.isArray(data?.embedding)) {
+      throw new ProviderError('Unexpected embedding response format', this.name, response.status);
+    }
+    return data.embedding;
+  }
+}
+
+const providers = new Map<ProviderName, LLMProvider>();
+
+const openAICompatibleBaseUrl = (env.VITE_AI_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, '');
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether requests to a provider leave this machine. The proxy forwards to
+ * hosted models; an OpenAI-compatible server counts as local on loopback only.
+ */
+export function isExternalProvider(name: ProviderName): boolean {
+  switch (name) {
+    case 'mock':
+      return false;
+    case 'openai-compatible':
+      try {
+        return !LOCAL_HOSTS.includes(new URL(openAICompatibleBaseUrl).hostname);
+      } catch {
+        return true;
+      }
+    default:
+      return true;
+  }
+}
+
+const createProvider = (name: ProviderName): LLMProvider => {
+  switch (name) {
+    case 'proxy':
+      return new ProxyProvider(
+        env.VITE_AI_PROXY_URL || (env.VITE_SUPABASE_URL ? `${env.VITE_SUPABASE_URL}/functions/v1/ai-proxy` : ''),
+        env.VITE_SUPABASE_ANON_KEY
+      );
+    case 'openai-compatible':
+      // Direct calls skip the proxy, so they are metered from the browser
+      return withUsageMetering(new OpenAICompatibleProvider('openai-compatible', openAICompatibleBaseUrl));
+    case 'mock':
+      return createMockProvider(aiConfig.embeddingDimensions);
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+};
+
+/**
+ * Get the (cached) adapter for a provider. Every call goes through the shared
+ * request scheduler, which applies concurrency and rate limits and retries.
+ * Calls to external providers are redacted under the team's privacy policy.
+ */
+export function getProvider(name: ProviderName): LLMProvider {
+  if (!providers.has(name)) {
+    const provider = isExternalProvider(name) ? withRedaction(createProvider(name)) : createProvider(name);
+    providers.set(name, withScheduling(mockMode === 'record' ? withFixtureRecording(provider) : provider));
+  }
+  return providers.get(name)!;
+}
+
+/**
+ * The provider used for chat, analysis and summaries
+ */
+export function getChatProvider(): LLMProvider {
+  return getProvider(aiConfig.chatProvider);
+}
+
+/**
+ * Configured embedding providers in fallback order, skipping unconfigured ones
+ */
+export function getEmbeddingProviders(): LLMProvider[] {
+  return aiConfig.embeddingProviders
+    .map(name => getProvider(name))
+    .filter(provider => provider.isConfigured());
+}
+
+if (mockMode === 'record') {
+  // Lets a developer copy the recordings out of the browser console
+  Object.assign(window, { exportRecordedFixtures });
+  console.log('Recording AI fixtures; run exportRecordedFixtures() to copy them');
+}
+
+/**
+ * Whether AI features can be used at all in this build
+ */
+export function isAIConfigured(): boolean {
+  return getChatProvider().isConfigured();
+}
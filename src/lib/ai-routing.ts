@@ -0,0 +1,194 @@
+import { supabase, getCurrentTeamId } from './supabase';
+import {
+  aiConfig,
+  AIFeature,
+  ChatCompletion,
+  ChatRequest,
+  getChatProvider,
+  isQuotaExceeded,
+  ProviderError,
+} from './ai-providers';
+
+// Task-based model routing. Each task maps to a primary model and fallbacks,
+// stored per team in team_model_routes; tasks without a team route use the
+// VITE_AI_* models. A null model means the provider's own default, which is
+// always tried last so a misconfigured route still gets an answer.
+
+export type RoutedTask = Exclude<AIFeature, 'embedding'>;
+
+export interface ModelRoute {
+  model: string | null;
+  fallbacks: string[];
+}
+
+export interface TaskRoute extends ModelRoute {
+  task: RoutedTask;
+  custom: boolean;
+}
+
+export const ROUTED_TASKS: { task: RoutedTask; label: string; description: string }[] = [
+  { task: 'category', label: 'Categorize document', description: 'Picks one category per uploaded document' },
+  { task: 'tags', label: 'Extract tags', description: 'Keywords for each uploaded document' },
+  { task: 'summary', label: 'Summarize document', description: 'Professional summary stored with the document' },
+  { task: 'analysis', label: 'Analyze document', description: 'Insights, topics and sentiment during processing' },
+  { task: 'insights', label: 'Key insights', description: 'Key points, themes and entities' },
+  { task: 'project-tags', label: 'Auto-tag project', description: 'Industry and tags for a research project' },
+  { task: 'rag-answer', label: 'Answer questions', description: 'Chat answers grounded in your documents' },
+  { task: 'research-summary', label: 'Research summary', description: 'Cross-document summaries on the Research page' },
+  { task: 'chat', label: 'General chat', description: 'Other free-form prompts' },
+];
+
+// Questions over several documents get the larger RAG model; everything else the chat model
+const defaultRoute = (task: RoutedTask): ModelRoute => ({
+  model: (task === 'rag-answer' || task === 'research-summary' ? aiConfig.ragModel : aiConfig.chatModel) || null,
+  fallbacks: [],
+});
+
+/**
+ * Models to try for a route, in order, ending with the provider default
+ */
+export const routeCandidates = (route: ModelRoute): (string | null)[] =>
+  [...new Set([route.model, ...route.fallbacks.filter(Boolean), null])];
+
+/**
+ * How a routed model is shown and recorded: the provider default has no name of its own
+ */
+export const describeModel = (model: string | null): string => model || `${getChatProvider().name} default`;
+
+class ModelRouter {
+  private routes: Promise<Map<RoutedTask, ModelRoute>> | null = null;
+
+  constructor() {
+    supabase.auth.onAuthStateChange(() => {
+      this.routes = null;
+    });
+  }
+
+  async getRoute(task: RoutedTask): Promise<ModelRoute> {
+    const routes = await this.load();
+    return routes.get(task) ?? defaultRoute(task);
+  }
+
+  async listRoutes(): Promise<TaskRoute[]> {
+    const routes = await this.load();
+    return ROUTED_TASKS.map(({ task }) => ({
+      task,
+      ...(routes.get(task) ?? defaultRoute(task)),
+      custom: routes.has(task),
+    }));
+  }
+
+  async saveRoute(task: RoutedTask, route: ModelRoute): Promise<void> {
+    const teamId = await getCurrentTeamId();
+    if (!teamId) throw new Error('Join a team to configure model routing');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('team_model_routes')
+      .upsert({
+        team_id: teamId,
+        task,
+        model: route.model,
+        fallback_models: route.fallbacks,
+        updated_by: user?.id,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'team_id,task' });
+
+    if (error) throw error;
+    this.routes = null;
+  }
+
+  async resetRoute(task: RoutedTask): Promise<void> {
+    const teamId = await getCurrentTeamId();
+    if (!teamId) return;
+
+    const { error } = await supabase
+      .from('team_model_routes')
+      .delete()
+      .eq('team_id', teamId)
+      .eq('task', task);
+
+    if (error) throw error;
+    this.routes = null;
+  }
+
+  private load(): Promise<Map<RoutedTask, ModelRoute>> {
+    if (!this.routes) {
+      this.routes = (async () => {
+        const routes = new Map<RoutedTask, ModelRoute>();
+        const teamId = await getCurrentTeamId();
+        if (!teamId) return routes;
+
+        const { data, error } = await supabase
+          .from('team_model_routes')
+          .select('task, model, fallback_models')
+          .eq('team_id', teamId);
+
+        if (error) {
+          console.warn('Failed to load model routes, using defaults:', error);
+          return routes;
+        }
+        for (const row of data || []) {
+          routes.set(row.task as RoutedTask, { model: row.model, fallbacks: row.fallback_models || [] });
+        }
+        return routes;
+      })();
+    }
+    return this.routes;
+  }
+}
+
+export const modelRouter = new ModelRouter();
+
+// Cancellation and exhausted quotas apply to every model alike
+const canFallBack = (error: unknown, signal?: AbortSignal) =>
+  !signal?.aborted && !isQuotaExceeded(error) && error instanceof ProviderError;
+
+/**
+ * Send a chat request to the task's routed model, falling back down the route on provider errors
+ */
+export async function chatWithRoute(task: RoutedTask, request: ChatRequest): Promise<ChatCompletion> {
+  const provider = getChatProvider();
+  const candidates = routeCandidates(await modelRouter.getRoute(task));
+
+  for (const [index, model] of candidates.entries()) {
+    try {
+      const completion = await provider.chat({ ...request, model: model ?? undefined, feature: task });
+      return { ...completion, model: completion.model || describeModel(model) };
+    } catch (error) {
+      if (index === candidates.length - 1 || !canFallBack(error, request.signal)) throw error;
+      console.warn(`${describeModel(model)} failed for ${task}, falling back:`, error);
+    }
+  }
+  throw new Error(`No model available for ${task}`);
+}
+
+/**
+ * Stream from the task's routed model. Falls back only until the first token
+ * arrives; onModel reports the model that answered.
+ */
+export async function* streamWithRoute(
+  task: RoutedTask,
+  request: ChatRequest,
+  onModel?: (model: string) => void
+): AsyncGenerator<string> {
+  const provider = getChatProvider();
+  const candidates = routeCandidates(await modelRouter.getRoute(task));
+
+  for (const [index, model] of candidates.entries()) {
+    let started = false;
+    try {
+      for await (const token of provider.stream({ ...request, model: model ?? undefined, feature: task })) {
+        if (!started) {
+          started = true;
+          onModel?.(describeModel(model));
+        }
+        yield token;
+      }
+      return;
+    } catch (error) {
+      if (started || index === candidates.length - 1 || !canFallBack(error, request.signal)) throw error;
+      console.warn(`${describeModel(model)} failed for ${task}, falling back:`, error);
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  ChatCompletion,
+  ChatRequest,
+  EmbedOptions,
+  LLMProvider,
+  ProviderError,
+  ProviderName,
+  RequestPriority,
+} from './ai-providers';
+
+// Shared queue for every model request. Each provider gets a lane with a
+// concurrency cap and per-minute rate windows; interactive requests are
+// dispatched before background work, retryable failures back off (honouring
+// Retry-After) and every request can be cancelled with an AbortSignal.
+
+type RequestKind = 'chat' | 'embed';
+
+interface LaneLimits {
+  concurrency: number;
+  // Requests per rolling minute; 0 means unlimited
+  perMinute: Record<RequestKind, number>;
+}
+
+interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
+interface QueuedRequest {
+  kind: RequestKind;
+  priority: RequestPriority;
+  sequence: number;
+  start: () => void;
+}
+
+export interface LaneStats {
+  provider: ProviderName;
+  active: number;
+  queued: number;
+  pausedForMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+// The proxy limits mirror the ai-proxy edge function's per-user defaults, so
+// the client waits its turn instead of collecting 429s
+const LANE_LIMITS: Record<ProviderName, LaneLimits> = {
+  proxy: { concurrency: 4, perMinute: { chat: 20, embed: 300 } },
+  'openai-compatible': { concurrency: 2, perMinute: { chat: 0, embed: 0 } },
+  mock: { concurrency: 8, perMinute: { chat: 0, embed: 0 } },
+};
+
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+
+const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+
+/**
+ * Resolve after ms, or reject as soon as the signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+class Lane {
+  private queue: QueuedRequest[] = [];
+  private active = 0;
+  private pausedUntil = 0;
+  private startedAt: Record<RequestKind, number[]> = { chat: [], embed: [] };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private provider: ProviderName, private limits: LaneLimits) {}
+
+  /**
+   * Wait for a slot; resolves with a release function that must be called once
+   */
+  acquire(kind: RequestKind, priority: RequestPriority, sequence: number, signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const request: QueuedRequest = {
+        kind,
+        priority,
+        sequence,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            this.active--;
+            this.pump();
+          });
+        },
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== request);
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(request);
+      this.queue.sort((a, b) =>
+        a.priority === b.priority ? a.sequence - b.sequence : a.priority === 'interactive' ? -1 : 1
+      );
+      this.pump();
+    });
+  }
+
+  /**
+   * Hold every request in this lane back, e.g. after a 429 with Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  stats(): LaneStats {
+    return {
+      provider: this.provider,
+      active: this.active,
+      queued: this.queue.length,
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now()),
+    };
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    let wakeAt = this.pausedUntil > now ? this.pausedUntil : Infinity;
+
+    while (this.pausedUntil <= now && this.active < this.limits.concurrency) {
+      // Highest priority request whose rate window has room
+      const index = this.queue.findIndex(request => this.nextStartTime(request.kind, now) <= now);
+      if (index === -1) {
+        for (const request of this.queue) {
+          wakeAt = Math.min(wakeAt, this.nextStartTime(request.kind, now));
+        }
+        break;
+      }
+
+      const [request] = this.queue.splice(index, 1);
+      this.startedAt[request.kind].push(now);
+      this.active++;
+      request.start();
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.length > 0 && wakeAt !== Infinity) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, Math.max(0, wakeAt - now));
+    }
+  }
+
+  /**
+   * Earliest time a request of this kind may start under the per-minute limit
+   */
+  private nextStartTime(kind: RequestKind, now: number): number {
+    const limit = this.limits.perMinute[kind];
+    if (!limit) return now;
+
+    const window = this.startedAt[kind].filter(time => time > now - MINUTE);
+    this.startedAt[kind] = window;
+    return window.length < limit ? now : window[window.length - limit] + MINUTE;
+  }
+}
+
+class AIScheduler {
+  private lanes = new Map<ProviderName, Lane>();
+  private sequence = 0;
+
+  /**
+   * Run a request in the provider's lane, retrying retryable failures with
+   * exponential backoff or the delay the provider asked for
+   */
+  async run<T>(
+    provider: ProviderName,
+    kind: RequestKind,
+    task: () => Promise<T>,
+    { priority = 'background', signal, maxRetries = 3 }: ScheduleOptions = {}
+  ): Promise<T> {
+    const lane = this.getLane(provider);
+    const sequence = this.sequence++;
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await lane.acquire(kind, priority, sequence, signal);
+      try {
+        return await task();
+      } catch (error) {
+        const delay = this.retryDelay(lane, error, attempt, maxRetries, signal);
+        release();
+        await sleep(delay, signal);
+      } finally {
+        release();
+      }
+    }
+  }
+
+  /**
+   * Stream a response in the provider's lane, holding the slot until the stream
+   * ends. Only failures before the first token are retried.
+   */
+  async *runStream(
+    provider: ProviderName,
+    createStream: () => AsyncGenerator<string>,
+    { priority = 'interactive', signal, maxRetries = 3 }: ScheduleOptions = {}
+  ): AsyncGenerator<string> {
+    const lane = this.getLane(provider);
+    const sequence = this.sequence++;
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await lane.acquire('chat', priority, sequence, signal);
+      let started = false;
+      try {
+        for await (const token of createStream()) {
+          started = true;
+          yield token;
+        }
+        return;
+      } catch (error) {
+        if (started) throw error;
+        const delay = this.retryDelay(lane, error, attempt, maxRetries, signal);
+        release();
+        await sleep(delay, signal);
+      } finally {
+        release();
+      }
+    }
+  }
+
+  getStats(): LaneStats[] {
+    return [...this.lanes.values()].map(lane => lane.stats());
+  }
+
+  /**
+   * Rethrow errors that should not be retried, otherwise return how long to wait
+   * before the next attempt. A Retry-After pauses the whole lane, not just this request.
+   */
+  private retryDelay(lane: Lane, error: unknown, attempt: number, maxRetries: number, signal?: AbortSignal): number {
+    if (signal?.aborted || !(error instanceof ProviderError) || !error.retryable || attempt >= maxRetries) {
+      throw error;
+    }
+
+    let delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt) * (0.5 + Math.random() / 2);
+    if (error.retryAfterMs !== undefined) {
+      delay = error.retryAfterMs;
+      lane.pause(delay);
+    }
+
+    console.log(`${error.provider} request failed (${error.message}), retrying in ${Math.round(delay)}ms`);
+    return delay;
+  }
+
+  private getLane(provider: ProviderName): Lane {
+    if (!this.lanes.has(provider)) {
+      this.lanes.set(provider, new Lane(provider, LANE_LIMITS[provider]));
+    }
+    return this.lanes.get(provider)!;
+  }
+}
+
+export const aiScheduler = new AIScheduler();
+
+// Conversation features are interactive unless the caller says otherwise
+const chatPriority = (request: ChatRequest): RequestPriority =>
+  request.priority ?? (request.feature === undefined || request.feature === 'chat' || request.feature === 'rag-answer'
+    ? 'interactive'
+    : 'background');
+
+/**
+ * Route a provider's calls through the shared scheduler
+ */
+export function withScheduling(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    supportsJsonMode: provider.supportsJsonMode,
+    isConfigured: () => provider.isConfigured(),
+
+    chat: (request: ChatRequest): Promise<ChatCompletion> =>
+      aiScheduler.run(provider.name, 'chat', () => provider.chat(request), {
+        priority: chatPriority(request),
+        signal: request.signal,
+      }),
+
+    stream: (request: ChatRequest): AsyncGenerator<string> =>
+      aiScheduler.runStream(provider.name, () => provider.stream(request), {
+        priority: chatPriority(request),
+        signal: request.signal,
+      }),
+
+    embed: (text: string, model?: string, options: EmbedOptions = {}): Promise<number[]> =>
+      aiScheduler.run(provider.name, 'embed', () => provider.embed(text, model, options), {
+        priority: options.priority ?? 'background',
+        signal: options.signal,
+      }),
+  };
+}
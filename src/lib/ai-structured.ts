@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import { getChatProvider, LLMMessage } from './ai-providers';
+import { aiCache, CacheScope } from './ai-cache';
+import { chatWithRoute, describeModel, modelRouter, routeCandidates, RoutedTask } from './ai-routing';
+
+// Declared output schemas for every task that expects JSON back from the model.
+// Output is validated against the schema and repaired by the model on failure,
+// so callers either get typed data or a StructuredOutputError.
+
+export interface StructuredTask<S extends z.ZodTypeAny> {
+  name: string;
+  feature: RoutedTask;
+  schema: S;
+  // Example object shown to the model; must itself satisfy the schema
+  example: z.infer<S>;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly task: string,
+    public readonly issues: string[],
+    public readonly rawOutput: string
+  ) {
+    super(`AI returned invalid ${task} output: ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const nonEmptyString = z.string().trim().min(1);
+
+const documentAnalysisSchema = z.object({
+  summary: nonEmptyString,
+  keyInsights: z.array(nonEmptyString).min(1),
+  topics: z.array(nonEmptyString),
+  sentiment: z.enum(['positive', 'negative', 'neutral']),
+  confidence: z.coerce.number().min(0).max(100),
+});
+
+export const documentAnalysisTask: StructuredTask<typeof documentAnalysisSchema> = {
+  name: 'document analysis',
+  feature: 'analysis',
+  schema: documentAnalysisSchema,
+  example: {
+    summary: 'brief summary',
+    keyInsights: ['insight1', 'insight2'],
+    topics: ['topic1', 'topic2'],
+    sentiment: 'positive',
+    confidence: 85,
+  },
+};
+
+const keyInsightsSchema = z.object({
+  summary: nonEmptyString,
+  keyPoints: z.array(nonEmptyString).min(1),
+  themes: z.array(nonEmptyString),
+  relevantEntities: z.array(nonEmptyString),
+});
+
+export type KeyInsights = z.infer<typeof keyInsightsSchema>;
+
+export const keyInsightsTask: StructuredTask<typeof keyInsightsSchema> = {
+  name: 'key insights',
+  feature: 'insights',
+  schema: keyInsightsSchema,
+  example: {
+    summary: 'one paragraph overview',
+    keyPoints: ['point1', 'point2'],
+    themes: ['theme1'],
+    relevantEntities: ['Company A', 'Regulator B'],
+  },
+};
+
+const tagsSchema = z.object({
+  tags: z.array(nonEmptyString).min(1).max(10),
+});
+
+export const tagsTask: StructuredTask<typeof tagsSchema> = {
+  name: 'tags',
+  feature: 'tags',
+  schema: tagsSchema,
+  example: { tags: ['tag1', 'tag2', 'tag3'] },
+};
+
+const projectClassificationSchema = z.object({
+  industry: nonEmptyString,
+  subIndustry: nonEmptyString,
+  tags: z.array(nonEmptyString).min(1).max(5),
+  confidence: z.coerce.number().min(0).max(100),
+});
+
+export type ProjectClassification = z.infer<typeof projectClassificationSchema>;
+
+export const projectAutoTagTask: StructuredTask<typeof projectClassificationSchema> = {
+  name: 'project auto-tag',
+  feature: 'project-tags',
+  schema: projectClassificationSchema,
+  example: {
+    industry: 'Main industry name',
+    subIndustry: 'Sub-industry or sector name',
+    tags: ['tag1', 'tag2', 'tag3'],
+    confidence: 85,
+  },
+};
+
+const researchSummarySchema = z.object({
+  summary: nonEmptyString,
+  keyInsights: z.array(nonEmptyString),
+  relatedTopics: z.array(nonEmptyString),
+  sources: z.array(z.string()),
+});
+
+export const researchSummaryTask: StructuredTask<typeof researchSummarySchema> = {
+  name: 'research summary',
+  feature: 'research-summary',
+  schema: researchSummarySchema,
+  example: {
+    summary: 'concise summary of the main findings',
+    keyInsights: ['insight1', 'insight2', 'insight3'],
+    relatedTopics: ['topic1', 'topic2'],
+    sources: ['Document title'],
+  },
+};
+
+/**
+ * Pull the JSON value out of a model response, tolerating code fences and chatter
+ */
+export function extractJson(text: string): unknown {
+  let jsonString = text.trim().replace(/```(?:json)?\s*([\s\S]*?)\s*```/gi, '$1');
+
+  const start = jsonString.search(/[{[]/);
+  const end = Math.max(jsonString.lastIndexOf('}'), jsonString.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON value found in response');
+  }
+  jsonString = jsonString.substring(start, end + 1);
+
+  return JSON.parse(jsonString);
+}
+
+const validate = <S extends z.ZodTypeAny>(
+  task: StructuredTask<S>,
+  raw: string
+): { data?: z.infer<S>; issues: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(raw);
+  } catch (error) {
+    return { issues: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const result = task.schema.safeParse(parsed);
+  if (result.success) {
+    return { data: result.data, issues: [] };
+  }
+  return {
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+};
+
+/**
+ * Ask the task's routed model for output matching a task schema. Uses provider
+ * JSON mode where available and feeds validation errors back to the model for
+ * repair. onModel reports the model the result came from.
+ */
+export async function generateStructured<S extends z.ZodTypeAny>(
+  task: StructuredTask<S>,
+  prompt: string,
+  options: {
+    maxRepairs?: number;
+    signal?: AbortSignal;
+    cache?: CacheScope;
+    onModel?: (model: string) => void;
+  } = {}
+): Promise<z.infer<S>> {
+  const provider = getChatProvider();
+  const maxRepairs = options.maxRepairs ?? 2;
+  const route = await modelRouter.getRoute(task.feature);
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: `You return only a JSON object, with no markdown and no other text. It must match this shape:\n${JSON.stringify(task.example, null, 2)}`,
+    },
+    { role: 'user', content: prompt },
+  ];
+
+  // Only validated output is cached, so a hit that no longer matches the schema is just a miss
+  // Keyed on the whole route, so changing a task's models does not serve old results
+  const cacheInput = {
+    model: `${provider.name}/${routeCandidates(route).map(describeModel).join('|')}`,
+    prompt: `${messages[0].content}\n\n${prompt}`,
+  };
+  if (options.cache) {
+    const cached = await aiCache.get(options.cache, cacheInput);
+    if (cached) {
+      const { data } = validate(task, cached.response);
+      if (data !== undefined) {
+        options.onModel?.(cached.model);
+        return data;
+      }
+    }
+  }
+
+  let lastOutput = '';
+  let lastIssues: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const completion = await chatWithRoute(task.feature, {
+      messages,
+      temperature: 0.2,
+      jsonMode: provider.supportsJsonMode,
+      signal: options.signal,
+    });
+
+    lastOutput = completion.content;
+    const { data, issues } = validate(task, lastOutput);
+    if (data !== undefined) {
+      options.onModel?.(completion.model);
+      if (options.cache) {
+        await aiCache.set(options.cache, cacheInput, JSON.stringify(data), completion.model);
+      }
+      return data;
+    }
+
+    lastIssues = issues;
+    console.warn(`Invalid ${task.name} output (attempt ${attempt + 1}/${maxRepairs + 1}):`, issues);
+    messages.push(
+      { role: 'assistant', content: lastOutput },
+      {
+        role: 'user',
+        content: `That output is invalid:\n- ${issues.join('\n- ')}\nReturn the corrected JSON object only.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(task.name, lastIssues, lastOutput);
+}
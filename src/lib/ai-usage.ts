@@ -0,0 +1,217 @@
+import { supabase, getCurrentTeamId } from './supabase';
+import { AIFeature, ChatRequest, ChatCompletion, EmbedOptions, LLMProvider } from './ai-providers';
+
+// Client side of the ai_usage ledger. Requests brokered by the ai-proxy edge
+// function are recorded there; this module records cache hits and calls made
+// straight from the browser, and reads the ledger for Analytics.
+
+export interface UsageRecord {
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  tokensIn?: number;
+  tokensOut?: number;
+  latencyMs?: number;
+  cacheHit?: boolean;
+  status?: 'success' | 'error';
+}
+
+export interface UsageEntry {
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  tokens_in: number;
+  tokens_out: number;
+  latency_ms: number;
+  cache_hit: boolean;
+  status: 'success' | 'error' | 'blocked';
+  created_at: string;
+}
+
+export interface TeamQuota {
+  monthly_token_limit: number | null;
+  monthly_request_limit: number | null;
+}
+
+export interface QuotaStatus {
+  quota: TeamQuota | null;
+  tokensUsed: number;
+  requestsUsed: number;
+}
+
+// Rough count for providers that do not report usage
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const messageTokens = (request: ChatRequest) =>
+  estimateTokens(request.messages.map(message => message.content).join('\n'));
+
+/**
+ * Append a row to the ledger. Never throws: metering must not break AI features.
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase.from('ai_usage').insert({
+      user_id: user.id,
+      team_id: await getCurrentTeamId(),
+      feature: record.feature,
+      provider: record.provider,
+      model: record.model,
+      tokens_in: record.tokensIn ?? 0,
+      tokens_out: record.tokensOut ?? 0,
+      latency_ms: record.latencyMs ?? 0,
+      cache_hit: record.cacheHit ?? false,
+      status: record.status ?? 'success',
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.warn('Failed to record AI usage:', error);
+  }
+}
+
+/**
+ * Wrap a provider that talks to a model directly so each call lands in the ledger
+ */
+export function withUsageMetering(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    supportsJsonMode: provider.supportsJsonMode,
+    isConfigured: () => provider.isConfigured(),
+
+    async chat(request: ChatRequest): Promise<ChatCompletion> {
+      const startTime = Date.now();
+      try {
+        const completion = await provider.chat(request);
+        recordUsage({
+          feature: request.feature || 'chat',
+          provider: provider.name,
+          model: completion.model,
+          tokensIn: completion.usage?.promptTokens ?? messageTokens(request),
+          tokensOut: completion.usage?.completionTokens ?? estimateTokens(completion.content),
+          latencyMs: Date.now() - startTime,
+        });
+        return completion;
+      } catch (error) {
+        recordUsage({
+          feature: request.feature || 'chat',
+          provider: provider.name,
+          model: request.model || 'default',
+          tokensIn: messageTokens(request),
+          latencyMs: Date.now() - startTime,
+          status: 'error',
+        });
+        throw error;
+      }
+    },
+
+    async *stream(request: ChatRequest): AsyncGenerator<string> {
+      const startTime = Date.now();
+      let output = '';
+      let status: UsageRecord['status'] = 'success';
+      try {
+        for await (const token of provider.stream(request)) {
+          output += token;
+          yield token;
+        }
+      } catch (error) {
+        status = 'error';
+        throw error;
+      } finally {
+        recordUsage({
+          feature: request.feature || 'chat',
+          provider: provider.name,
+          model: request.model || 'default',
+          tokensIn: messageTokens(request),
+          tokensOut: estimateTokens(output),
+          latencyMs: Date.now() - startTime,
+          status,
+        });
+      }
+    },
+
+    async embed(text: string, model?: string, options?: EmbedOptions): Promise<number[]> {
+      const startTime = Date.now();
+      const embedding = await provider.embed(text, model, options);
+      recordUsage({
+        feature: 'embedding',
+        provider: provider.name,
+        model: model || 'default',
+        tokensIn: estimateTokens(text),
+        latencyMs: Date.now() - startTime,
+      });
+      return embedding;
+    },
+  };
+}
+
+/**
+ * Ledger rows visible to the user since a date: their team's when on a team, otherwise their own
+ */
+export async function getUsage(since: Date): Promise<UsageEntry[]> {
+  const teamId = await getCurrentTeamId();
+  let query = supabase
+    .from('ai_usage')
+    .select('feature, provider, model, tokens_in, tokens_out, latency_ms, cache_hit, status, created_at')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: true });
+
+  if (teamId) {
+    query = query.eq('team_id', teamId);
+  } else {
+    const { data: { user } } = await supabase.auth.getUser();
+    query = query.eq('user_id', user?.id);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as UsageEntry[];
+}
+
+export async function getTeamQuota(teamId: string): Promise<TeamQuota | null> {
+  const { data, error } = await supabase
+    .from('team_ai_quotas')
+    .select('monthly_token_limit, monthly_request_limit')
+    .eq('team_id', teamId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The team's quota alongside its billable usage for the current (UTC) month
+ */
+export async function getQuotaStatus(teamId: string): Promise<QuotaStatus> {
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const [quota, { data, error }] = await Promise.all([
+    getTeamQuota(teamId),
+    supabase.rpc('get_team_ai_usage', { team_uuid: teamId, since: monthStart.toISOString() }),
+  ]);
+  if (error) throw error;
+
+  const usage = data?.[0];
+  return {
+    quota,
+    tokensUsed: Number(usage?.tokens ?? 0),
+    requestsUsed: Number(usage?.requests ?? 0),
+  };
+}
+
+export async function saveTeamQuota(teamId: string, quota: TeamQuota): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('team_ai_quotas')
+    .upsert({
+      team_id: teamId,
+      ...quota,
+      updated_by: user?.id,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'team_id' });
+
+  if (error) throw error;
+}
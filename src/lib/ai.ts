@@ -1,10 +1,28 @@
-import { supabase } from './supabase';
-import { RAGSystem } from './rag';
-import { aiCache } from './ai-cache';
-
-// Google Gemini AI Configuration
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent';
+import { errorMessage, supabase } from './supabase';
+import { chunkingProfileFor, RAGSystem } from './rag';
+import { aiCache, CacheScope } from './ai-cache';
+import { getChatProvider, isAIConfigured, isExternalProvider, isQuotaExceeded, ChatRequest } from './ai-providers';
+import { privacyPolicy, WITHHELD_FROM_EXTERNAL_AI } from './ai-privacy';
+import { DocumentExtractionError, ExtractedDocument, ExtractedTable, ExtractionOptions } from './document-extraction';
+import { extractDocx } from './docx-extraction';
+import { extractImage, isImage } from './image-extraction';
+import { extractPdf } from './pdf-extraction';
+import { extractPptx, pageUnitOf, PPTX_CONTENT_TYPE } from './pptx-extraction';
+import { extractSpreadsheet, isSpreadsheet } from './spreadsheet-extraction';
+import { replaceDocumentTables } from './document-tables';
+import { computeMinHash, hashContent } from './duplicates';
+import type { ProcessingStage } from './processing-jobs';
+import { chatWithRoute, describeModel, modelRouter, routeCandidates } from './ai-routing';
+import {
+  generateStructured,
+  documentAnalysisTask,
+  keyInsightsTask,
+  tagsTask,
+  projectAutoTagTask,
+  KeyInsights,
+  ProjectClassification,
+  StructuredOutputError,
+} from './ai-structured';
 
 export interface AIAnalysis {
   summary: string;
@@ -22,19 +40,45 @@ export interface ChatMessage {
   sources?: string[];
 }
 
+// Reports which model produced a result, so it can be stored alongside it
+export type ModelCallback = (model: string) => void;
+
+export interface ProcessingOptions extends ExtractionOptions {
+  // Current stage and overall progress (0-100), for the processing job
+  onProgress?: (stage: ProcessingStage, progress: number) => void;
+}
+
 export class AIService {
-  static async callGeminiAPI(prompt: string, context?: string): Promise<string> {
+  static async callGeminiAPI(
+    prompt: string,
+    context?: string,
+    { cache, signal, onModel }: { cache?: CacheScope; signal?: AbortSignal; onModel?: ModelCallback } = {}
+  ): Promise<string> {
     try {
-      const OPENROUTER_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
+      const provider = getChatProvider();
       
-      if (!OPENROUTER_API_KEY) {
-        throw new Error("OpenRouter API key not configured");
+      if (!provider.isConfigured()) {
+        throw new Error(`${provider.name} provider not configured`);
       }
       
-      console.log('🤖 Using DeepSeek model');
+      const task = cache?.task ?? 'chat';
+      const route = await modelRouter.getRoute(task);
+      const cacheInput = {
+        model: `${provider.name}/${routeCandidates(route).map(describeModel).join('|')}`,
+        prompt,
+        context,
+      };
+      if (cache) {
+        const cached = await aiCache.get(cache, cacheInput);
+        if (cached) {
+          onModel?.(cached.model);
+          return cached.response;
+        }
+      }
       
-      const requestBody = {
-        model: "deepseek/deepseek-chat-v3-0324:free",
+      console.log(`🤖 Using ${provider.name} model ${describeModel(route.model)} for ${task}`);
+      
+      const request: ChatRequest = {
         messages: [
           {
             role: "system",
@@ -46,78 +90,23 @@ export class AIService {
           }
         ],
         temperature: 0.7,
-        max_tokens: 2048
+        maxTokens: 2048,
+        signal
       };
       
-      // Add exponential backoff for retries
-      const maxRetries = 3;
-      let retryCount = 0;
-      let delay = 1000; // Start with 1 second delay
-      
-      while (retryCount <= maxRetries) {
-        try {
-          const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-              "HTTP-Referer": window.location.origin || "https://data-invest-genius.com",
-              "X-Title": "Data Invest Genius",
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify(requestBody),
-          });
-          
-          if (response.ok) {
-            const data = await response.json();
-            console.log('✅ Success with DeepSeek model');
-            return data.choices[0].message.content;
-          }
-          
-          // Handle specific error codes
-          if (response.status === 429) {
-            // Rate limit error - retry with backoff
-            const errorText = await response.text();
-            console.log(`❌ DeepSeek model failed: ${response.status} - ${errorText}`);
-            console.log(`Retrying in ${delay/1000} seconds...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            delay *= 2; // Exponential backoff
-            retryCount++;
-            continue;
-          }
-          
-          if (response.status === 503) {
-            // Service unavailable - retry with backoff
-            const errorText = await response.text();
-            console.log(`❌ DeepSeek model failed: ${response.status} - ${errorText}`);
-            console.log(`Retrying in ${delay/1000} seconds...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            delay *= 2; // Exponential backoff
-            retryCount++;
-            continue;
-          }
-          
-          // For other errors, throw
-          const errorText = await response.text();
-          throw new Error(`API error: ${response.status} - ${errorText}`);
-        } catch (error) {
-          // Network errors should retry
-          if (error.message && (error.message.includes('fetch') || error.message.includes('network'))) {
-            console.log(`❌ Network error: ${error.message}`);
-            console.log(`Retrying in ${delay/1000} seconds...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            delay *= 2; // Exponential backoff
-            retryCount++;
-            continue;
-          }
-          
-          // Other errors should be thrown
-          throw error;
-        }
+      // The request scheduler retries rate limits and transient failures;
+      // the route falls back to the next model when one keeps failing
+      const completion = await chatWithRoute(task, request);
+      console.log(`✅ Success with ${completion.model}`);
+      onModel?.(completion.model);
+      // Fallback responses below are never cached
+      if (cache) {
+        await aiCache.set(cache, cacheInput, completion.content, completion.model);
       }
-      
-      // If we've exhausted retries, throw an error
-      throw new Error(`Failed after ${maxRetries} retries`);
+      return completion.content;
     } catch (error) {
+      // Cancellation and an exhausted team quota are reported, not papered over with a local answer
+      if (signal?.aborted || isQuotaExceeded(error)) throw error;
       console.error('API call failed:', error);
       console.log('API call failed, using fallback response');
       return this.generateFallbackResponse(prompt, context);
@@ -288,81 +277,10 @@ export class AIService {
     return tags.slice(0, 10).join(', ');
   }
 
-  static async callGeminiAPIFallback(prompt: string, context?: string, retryCount: number = 0): Promise<any> {
-    const MAX_RETRIES = 3;
-    const BASE_DELAY = 1000;
-    const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-    if (!GEMINI_API_KEY) {
-      throw new Error('Gemini API key not configured');
-    }
-
-    const requestBody = {
-      contents: [{
-        parts: [{
-          text: context ? `${context}\n\n${prompt}` : prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.3,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        }
-      ]
-    };
-
-    try {
-      const response = await fetch(`${GEMINI_API_URL}?key=${GEMINI_API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        // Handle rate limiting with exponential backoff
-        if (response.status === 429 && retryCount < MAX_RETRIES) {
-          const delay = BASE_DELAY * Math.pow(2, retryCount);
-          console.log(`Gemini rate limited (429). Retrying in ${delay}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return this.callGeminiAPIFallback(prompt, context, retryCount + 1);
-        }
-        
-        throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data.candidates[0].content.parts[0].text;
-    } catch (error) {
-      console.error('Gemini API call failed:', error);
-      throw error;
-    }
-  }
-
-  static async analyzeDocument(documentId: string, content: string): Promise<AIAnalysis> {
+  static async analyzeDocument(documentId: string, content: string, onModel?: ModelCallback): Promise<AIAnalysis> {
     const startTime = Date.now();
 
-    try {
-      const analysisPrompt = `
+    const analysisPrompt = `
         Analyze the following research document and provide:
         
         1. A concise summary (2-3 sentences)
@@ -372,63 +290,27 @@ export class AIService {
         5. Confidence level in the analysis (0-100)
         
         Document content:
-        ${content.substring(0, 8000)} // Limit content length
-        
-        Return ONLY a JSON object without any markdown formatting:
-        {
-          "summary": "brief summary",
-          "keyInsights": ["insight1", "insight2"],
-          "topics": ["topic1", "topic2"],
-          "sentiment": "positive",
-          "confidence": 85
-        }
+        ${content.substring(0, 8000)}
       `;
 
-      const response = await this.callGeminiAPI(analysisPrompt);
-      
-      // Clean the response to extract JSON
-      let jsonString = response.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonString.startsWith('```json')) {
-        jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonString.startsWith('```')) {
-        jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Try to find JSON object in the response
-      const jsonMatch = jsonString.match(/\{.*\}/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      }
-      
-      console.log('Cleaned analysis JSON string:', jsonString);
-      
-      // Parse JSON response
-      const analysis = JSON.parse(jsonString);
-      
-      const processingTime = Date.now() - startTime;
-
-      return {
-        ...analysis,
-        processingTime,
-      };
-    } catch (error) {
-      console.error('Document analysis failed:', error);
-      
-      // Return fallback analysis
-      return {
-        summary: "Analysis failed. Please try again.",
-        keyInsights: ["Unable to extract insights at this time"],
-        topics: ["Unknown"],
-        sentiment: "neutral",
-        confidence: 0,
-        processingTime: Date.now() - startTime,
-      };
-    }
+    // Validation failures surface as StructuredOutputError for the caller to report
+    const analysis = await generateStructured(documentAnalysisTask, analysisPrompt, {
+      cache: { task: 'analysis', documentId },
+      onModel,
+    });
+    console.log('Validated analysis:', analysis);
+
+    return {
+      summary: analysis.summary,
+      keyInsights: analysis.keyInsights,
+      topics: analysis.topics,
+      sentiment: analysis.sentiment,
+      confidence: analysis.confidence,
+      processingTime: Date.now() - startTime,
+    };
   }
 
-  static async generateSummary(content: string): Promise<string> {
+  static async generateSummary(content: string, documentId?: string, onModel?: ModelCallback): Promise<string> {
     try {
       const prompt = `
         Create a professional summary of the following research document. 
@@ -439,51 +321,27 @@ export class AIService {
         ${content.substring(0, 6000)}
       `;
 
-      return await this.callGeminiAPI(prompt);
+      return await this.callGeminiAPI(prompt, undefined, { cache: { task: 'summary', documentId }, onModel });
     } catch (error) {
+      if (isQuotaExceeded(error)) throw error;
       console.error('Summary generation failed:', error);
       return "Unable to generate summary at this time.";
     }
   }
 
-  static async extractKeyInsights(text: string): Promise<any> {
-    try {
-      console.log('Extracting insights from text:', text.substring(0, 200) + '...');
-      
-      // Try to extract JSON from the response robustly
-      let jsonString = text.trim();
-      
-      // Remove markdown code block wrappers
-      jsonString = jsonString.replace(/```json\s*([\s\S]*?)\s*```/gi, '$1');
-      jsonString = jsonString.replace(/```\s*([\s\S]*?)\s*```/gi, '$1');
-      
-      // Remove any text before the first { and after the last }
-      const firstBrace = jsonString.indexOf('{');
-      const lastBrace = jsonString.lastIndexOf('}');
-      
-      if (firstBrace === -1 || lastBrace === -1 || firstBrace >= lastBrace) {
-        throw new Error('No valid JSON object found in AI response');
-      }
-      
-      jsonString = jsonString.substring(firstBrace, lastBrace + 1).trim();
-      
-      console.log('Attempting to parse JSON:', jsonString.substring(0, 100) + '...');
-      
-      const insights = JSON.parse(jsonString);
-      console.log('Successfully parsed insights:', insights);
-      return insights;
-    } catch (error) {
-      console.error('Key insights extraction failed:', error);
-      console.error('Original text:', text);
-      return { 
-        error: 'Key insights extraction failed', 
-        details: error instanceof Error ? error.message : String(error),
-        summary: 'Failed to extract structured insights from document',
-        keyPoints: ['Document analysis could not be completed'],
-        themes: [],
-        relevantEntities: []
-      };
-    }
+  static async extractKeyInsights(content: string, documentId?: string, onModel?: ModelCallback): Promise<KeyInsights> {
+    console.log('Extracting insights from text:', content.substring(0, 200) + '...');
+
+    const prompt = `
+        Extract the key insights from the following research document:
+        an overview summary, the most important points, recurring themes and
+        the companies, people or institutions that matter to the analysis.
+        
+        Document:
+        ${content.substring(0, 6000)}
+      `;
+
+    return generateStructured(keyInsightsTask, prompt, { cache: { task: 'insights', documentId }, onModel });
   }
 
   static async chatWithDocument(
@@ -531,7 +389,7 @@ export class AIService {
     }
   }
 
-  static async categorizeDocument(content: string): Promise<string> {
+  static async categorizeDocument(content: string, documentId?: string, onModel?: ModelCallback): Promise<string> {
     try {
       const prompt = `
         Categorize this research document into one of these categories:
@@ -548,59 +406,47 @@ export class AIService {
         Respond with just the category name.
       `;
 
-      return await this.callGeminiAPI(prompt);
+      return await this.callGeminiAPI(prompt, undefined, { cache: { task: 'category', documentId }, onModel });
     } catch (error) {
+      if (isQuotaExceeded(error)) throw error;
       console.error('Document categorization failed:', error);
       return 'Other';
     }
   }
 
-  static async extractTags(content: string): Promise<string[]> {
-    try {
-      const prompt = `
+  static async extractTags(content: string, documentId?: string, onModel?: ModelCallback): Promise<string[]> {
+    const prompt = `
         Extract relevant tags/keywords from this research document.
         Focus on topics, industries, companies, and key concepts.
-        Return ONLY a JSON array of strings (5-10 tags) without any markdown formatting or additional text.
+        Return 5-10 tags.
         
         Document:
         ${content.substring(0, 3000)}
-        
-        Return format: ["tag1", "tag2", "tag3"]
       `;
 
-      const response = await this.callGeminiAPI(prompt);
-      
-      // Clean the response to extract JSON
-      let jsonString = response.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonString.startsWith('```json')) {
-        jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonString.startsWith('```')) {
-        jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Try to find JSON array in the response
-      const jsonMatch = jsonString.match(/\[.*\]/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      }
-      
-      console.log('Cleaned JSON string:', jsonString);
-      return JSON.parse(jsonString);
-    } catch (error) {
-      console.error('Tag extraction failed:', error);
-      return [];
-    }
+    const { tags } = await generateStructured(tagsTask, prompt, { cache: { task: 'tags', documentId }, onModel });
+    console.log('Tags extracted:', tags);
+    return tags;
   }
 }
 
 // Database operations for AI processing
 export const AIProcessingService = {
 
-  async processDocument(documentId: string): Promise<void> {
+  /**
+   * Extract, analyze and index a document. `options.ocrLanguage` re-runs OCR
+   * with another language pack; otherwise the document's last one is used.
+   * Failures are recorded on the document and rethrown, so a processing job
+   * can retry them. Resolves with the version that was processed.
+   */
+  async processDocument(documentId: string, options: ProcessingOptions = {}): Promise<number> {
+    const report = (stage: ProcessingStage, progress: number) => options.onProgress?.(stage, Math.round(progress));
     try {
       console.log(`Starting AI processing for document ${documentId}`);
+      report('extract', 0);
+      
+      // Results derived from the previous content must not be served again
+      await aiCache.invalidateDocument(documentId);
       
       // Get document from database
       const { data: document, error } = await supabase
@@ -615,6 +461,7 @@ export const AIProcessingService = {
       }
 
       console.log(`Found document: ${document.title} (${document.content_type})`);
+      const version: number = document.current_version ?? 1;
 
       // Get file content from storage
       const { data: fileData, error: fileError } = await supabase.storage
@@ -630,15 +477,27 @@ export const AIProcessingService = {
 
       // Extract text based on file type
       let content = '';
+      let extractionWarnings: string[] = [];
+      let tables: ExtractedTable[] | undefined;
       try {
-        content = await this.extractTextFromFile(fileData, document.content_type, document.title);
+        const extracted = await this.extractTextFromFile(fileData, document.content_type, document.title, {
+          ocrLanguage: options.ocrLanguage ?? document.ocr_language ?? undefined,
+        });
+        content = extracted.text;
+        extractionWarnings = extracted.warnings;
+        tables = extracted.tables;
         console.log(`Extracted text, length: ${content.length} characters`);
         
-        // Save extracted text to the database for future use
+        // Save extracted text to the database for future use, with the
+        // hash and signature duplicate detection compares
         const { error: textError } = await supabase
           .from('research_documents')
           .update({
-            content: content.substring(0, 1000000) // Limit to 1M chars to avoid DB issues
+            content: content.substring(0, 1000000), // Limit to 1M chars to avoid DB issues
+            ocr_language: extracted.ocr?.language ?? null,
+            ocr_pages: extracted.ocr?.pages ?? null,
+            content_hash: await hashContent(fileData),
+            text_minhash: computeMinHash(content),
           })
           .eq('id', documentId);
           
@@ -646,51 +505,108 @@ export const AIProcessingService = {
           console.error('Error saving extracted text:', textError);
           // Continue processing even if saving text fails
         }
+
+        // Each version keeps its own text, for comparing versions
+        const { error: versionError } = await supabase
+          .from('document_versions')
+          .update({ content: content.substring(0, 1000000) })
+          .eq('document_id', documentId)
+          .eq('version_number', version);
+
+        if (versionError) {
+          console.error('Error saving version text:', versionError);
+        }
       } catch (extractError) {
         console.error('Text extraction failed:', extractError);
-        throw new Error('Text extraction failed');
+        // Encrypted, scanned and damaged files keep their specific message
+        throw extractError instanceof DocumentExtractionError ? extractError : new Error('Text extraction failed');
       }
 
-      // Perform AI analysis
-      console.log('Starting AI analysis...');
-      const analysis = await AIService.analyzeDocument(documentId, content);
-      console.log('Analysis complete:', analysis);
-      
-      console.log('Generating summary...');
-      let summary = "Unable to generate summary at this time.";
-      try {
-        summary = await AIService.generateSummary(content);
-        console.log('Summary generated');
-      } catch (error) {
-        console.error('Summary generation failed:', error);
+      report('analyse', 20);
+
+      // Schema validation failures are recorded on the document instead of
+      // being replaced with placeholder text
+      const failures: string[] = [...extractionWarnings];
+      // Model behind each stored result, by task
+      const models: Record<string, string> = {};
+      const recordModel = (task: string): ModelCallback => model => {
+        models[task] = model;
+      };
+      const recordFailure = (step: string, error: unknown) => {
+        console.error(`${step} failed:`, error);
+        if (error instanceof StructuredOutputError) {
+          failures.push(error.message);
+        } else {
+          failures.push(`${step} failed: ${errorMessage(error, 'unknown error')}`);
+        }
+      };
+
+      if (tables) {
+        try {
+          await replaceDocumentTables(documentId, tables);
+        } catch (error) {
+          recordFailure('Storing spreadsheet tables', error);
+        }
       }
+
+      let summary: string | null = null;
+      let keyInsights: KeyInsights | null = null;
+      let category = "Other";
+      let tags: string[] = [];
+
+      // Content the team policy keeps away from external models is stored and
+      // indexed, but not analyzed
+      const withheld = isExternalProvider(getChatProvider().name)
+        && !(await privacyPolicy.filterSendable([documentId])).has(documentId);
+
+      if (withheld) {
+        category = document.category || category;
+        failures.push(WITHHELD_FROM_EXTERNAL_AI);
+      } else {
+        // Perform AI analysis
+        console.log('Starting AI analysis...');
+        try {
+          const analysis = await AIService.analyzeDocument(documentId, content, recordModel('analysis'));
+          console.log('Analysis complete:', analysis);
+        } catch (error) {
+          recordFailure('Document analysis', error);
+        }
+        report('analyse', 26);
       
-      console.log('Extracting key insights...');
-      let keyInsights = ["Unable to extract insights at this time"];
-      try {
-        keyInsights = await AIService.extractKeyInsights(content);
-        console.log('Key insights extracted:', keyInsights);
-      } catch (error) {
-        console.error('Key insights extraction failed:', error);
-      }
+        console.log('Generating summary...');
+        try {
+          summary = await AIService.generateSummary(content, documentId, recordModel('summary'));
+          console.log('Summary generated');
+        } catch (error) {
+          recordFailure('Summary generation', error);
+        }
+        report('analyse', 32);
       
-      console.log('Categorizing document...');
-      let category = "Other";
-      try {
-        category = await AIService.categorizeDocument(content);
-        console.log('Category:', category);
-      } catch (error) {
-        console.error('Document categorization failed:', error);
-      }
+        console.log('Extracting key insights...');
+        try {
+          keyInsights = await AIService.extractKeyInsights(content, documentId, recordModel('insights'));
+          console.log('Key insights extracted:', keyInsights);
+        } catch (error) {
+          recordFailure('Key insights extraction', error);
+        }
+        report('analyse', 38);
       
-      console.log('Extracting tags...');
-      let tags: string[] = [];
-      try {
-        tags = await AIService.extractTags(content);
-        console.log('Tags extracted:', tags);
-      } catch (error) {
-        console.error('Tag extraction failed:', error);
-        tags = [];
+        console.log('Categorizing document...');
+        try {
+          category = await AIService.categorizeDocument(content, documentId, recordModel('category'));
+          console.log('Category:', category);
+        } catch (error) {
+          recordFailure('Document categorization', error);
+        }
+        report('analyse', 44);
+      
+        console.log('Extracting tags...');
+        try {
+          tags = await AIService.extractTags(content, documentId, recordModel('tags'));
+          console.log('Tags extracted:', tags);
+        } catch (error) {
+          recordFailure('Tag extraction', error);
+        }
       }
 
       // Update document with AI analysis
@@ -701,6 +617,9 @@ export const AIProcessingService = {
           ai_summary: summary,
           category: category,
           status: 'completed',
+          processing_error: failures.length > 0 ? failures.join('\n') : null,
+          extraction_issue: null,
+          ai_models: models,
         })
         .eq('id', documentId);
 
@@ -710,38 +629,35 @@ export const AIProcessingService = {
       }
       console.log('Document updated successfully');
 
-      // Process document for RAG system
-      if (GEMINI_API_KEY) {
-        try {
-          console.log('Processing document for RAG system...');
-          const ragSystem = RAGSystem.getInstance(GEMINI_API_KEY);
-          
-          // Test database connection first
-          const dbTest = await ragSystem.testDatabaseConnection();
-          console.log('Database test result:', dbTest);
-          
-          if (!dbTest.success) {
-            console.error('Database connection failed, skipping RAG processing');
-            return;
-          }
-          
-          await ragSystem.processDocument(documentId, content, document.title);
-          console.log(`Document ${documentId} processed for RAG system`);
-        } catch (error) {
-          console.error('RAG processing failed:', error);
-          console.error('RAG error details:', {
-            documentId,
-            contentLength: content.length,
-            title: document.title,
-            error: error.message
-          });
-          // Don't fail the entire process if RAG fails
+      // Process document for RAG system. A document that isn't indexed can't
+      // be searched, so failures here fail the job and it is retried.
+      report('chunk', 50);
+      if (isAIConfigured()) {
+        console.log('Processing document for RAG system...');
+        const ragSystem = RAGSystem.getInstance();
+        
+        // Test database connection first
+        const dbTest = await ragSystem.testDatabaseConnection();
+        console.log('Database test result:', dbTest);
+        
+        if (!dbTest.success) {
+          throw new Error(`Document could not be indexed: ${dbTest.message}`);
         }
+        
+        await ragSystem.processDocument(documentId, content, document.title, pageUnitOf(document.content_type), {
+          version,
+          chunking: chunkingProfileFor(document.content_type),
+          // The text was just extracted again, so earlier chunks are stale
+          replace: true,
+          onProgress: options.onProgress && ((stage, fraction) => report(stage, stage === 'chunk' ? 50 + fraction * 10 : 60 + fraction * 30)),
+        });
+        console.log(`Document ${documentId} processed for RAG system`);
       } else {
-        console.log('No Gemini API key, skipping RAG processing');
+        console.log('AI not configured, skipping RAG processing');
       }
 
       // Insert tags
+      report('tag', 90);
       console.log('Processing tags...');
       for (const tagName of tags) {
         try {
@@ -795,6 +711,7 @@ export const AIProcessingService = {
       console.log('Tags processed');
 
       console.log(`Document ${documentId} processed successfully`);
+      return version;
     } catch (error) {
       console.error('Document processing failed:', error);
       
@@ -804,6 +721,8 @@ export const AIProcessingService = {
           .from('research_documents')
           .update({
             status: 'error',
+            processing_error: errorMessage(error, 'Processing failed'),
+            extraction_issue: error instanceof DocumentExtractionError ? error.reason : null,
           })
           .eq('id', documentId);
         
@@ -813,136 +732,87 @@ export const AIProcessingService = {
       } catch (statusError) {
         console.error('Error updating document status:', statusError);
       }
+      throw error;
     }
   },
 
   /**
    * Auto-tag a research project with industry and sub-industry based on title and description
    */
-  async autoTagProject(title: string, description: string): Promise<{
-    industry: string;
-    subIndustry: string;
-    tags: string[];
-    confidence: number;
-  }> {
-    try {
-      const prompt = `
+  async autoTagProject(title: string, description: string): Promise<ProjectClassification & { model: string }> {
+    const prompt = `
 Analyze the following research project and determine:
 1. The industry it belongs to
 2. The sub-industry or sector within that industry
 3. 3-5 relevant tags (keywords) for this project
-4. Your confidence level in this classification (0-100%)
+4. Your confidence level in this classification (0-100)
 
 Research Project Title: ${title}
 Research Project Description: ${description}
-
-Format your response as valid JSON with the following structure:
-{
-  "industry": "Main industry name",
-  "subIndustry": "Sub-industry or sector name",
-  "tags": ["tag1", "tag2", "tag3"],
-  "confidence": 85
-}
-
-Only return the JSON object, no other text.
 `;
 
-      const response = await this.callGeminiAPI(prompt);
-      
-      // Extract JSON from the response (handling potential markdown code blocks)
-      let jsonStr = response;
-      
-      // Check if the response is wrapped in markdown code blocks
-      const jsonRegex = /```(?:json)?\s*({[\s\S]*?})\s*```/;
-      const match = jsonRegex.exec(jsonStr);
-      if (match && match[1]) {
-        jsonStr = match[1];
-      }
-      
-      // Remove any non-JSON text before or after the JSON object
-      const jsonStartIndex = jsonStr.indexOf('{');
-      const jsonEndIndex = jsonStr.lastIndexOf('}') + 1;
-      if (jsonStartIndex >= 0 && jsonEndIndex > jsonStartIndex) {
-        jsonStr = jsonStr.substring(jsonStartIndex, jsonEndIndex);
-      }
-      
-      // Parse the JSON
-      const result = JSON.parse(jsonStr);
-      
-      // Ensure tags is always an array
-      if (!result.tags) {
-        result.tags = [];
-      } else if (!Array.isArray(result.tags)) {
-        if (typeof result.tags === 'string') {
-          result.tags = result.tags.split(',').map(tag => tag.trim());
-        } else {
-          result.tags = [];
-        }
-      }
-      
-      // Ensure confidence is a number
-      if (typeof result.confidence !== 'number') {
-        result.confidence = parseInt(result.confidence) || 75;
-      }
-      
-      // Ensure industry and subIndustry are strings
-      result.industry = result.industry || '';
-      result.subIndustry = result.subIndustry || '';
-      
-      return {
-        industry: result.industry,
-        subIndustry: result.subIndustry,
-        tags: result.tags,
-        confidence: result.confidence
-      };
-    } catch (error) {
-      console.error('Error auto-tagging project:', error);
-      
-      // Return default values if auto-tagging fails
-      return {
-        industry: 'Unknown',
-        subIndustry: 'General',
-        tags: ['research', 'analysis', 'project'],
-        confidence: 50
-      };
-    }
+    // Throws StructuredOutputError rather than inventing a classification
+    let model = '';
+    const classification = await generateStructured(projectAutoTagTask, prompt, {
+      cache: { task: 'project-tags' },
+      onModel: chosen => {
+        model = chosen;
+      },
+    });
+    return {
+      industry: classification.industry,
+      subIndustry: classification.subIndustry,
+      tags: classification.tags,
+      confidence: classification.confidence,
+      model,
+    };
   },
 
   /**
-   * Extract text from various file types
+   * Extract text from various file types. PDF pages and presentation slides
+   * are separated by page breaks (see document-extraction.ts) and spreadsheets
+   * also return their sheets as tables. Scanned PDF pages and images are read
+   * with OCR. PDF, Office, OpenDocument spreadsheet and image files throw
+   * DocumentExtractionError when they have no readable text.
    */
-  async extractTextFromFile(fileData: Blob, contentType: string, fileName: string): Promise<string> {
+  async extractTextFromFile(fileData: Blob, contentType: string, fileName: string, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
     console.log(`Extracting text from ${contentType} file: ${fileName}`);
-    
-    // For plain text files
-    if (contentType === 'text/plain') {
-      return await fileData.text();
-    }
-    
+
     // For PDF files
     if (contentType === 'application/pdf') {
-      try {
-        // Use PDF.js to extract text
-        // This is a simplified version - in production, you'd use a more robust solution
-        const arrayBuffer = await fileData.arrayBuffer();
-        const text = await this.extractTextFromPDF(arrayBuffer);
-        return text || 'PDF text extraction failed';
-      } catch (error) {
-        console.error('PDF extraction error:', error);
-        return 'PDF text extraction failed';
-      }
+      return await extractPdf(await fileData.arrayBuffer(), options);
     }
-    
+
+    // For scans and screenshots (png, jpg, tiff)
+    if (isImage(contentType)) {
+      return await extractImage(await fileData.arrayBuffer(), contentType, options);
+    }
+
     // For Word documents (docx)
     if (contentType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      try {
-        const arrayBuffer = await fileData.arrayBuffer();
-        const text = await this.extractTextFromDOCX(arrayBuffer);
-        return text || 'DOCX text extraction failed';
-      } catch (error) {
-        console.error('DOCX extraction error:', error);
-        return 'DOCX text extraction failed';
-      }
+      return await extractDocx(await fileData.arrayBuffer());
+    }
+
+    // For PowerPoint presentations (pptx)
+    if (contentType === PPTX_CONTENT_TYPE) {
+      return await extractPptx(await fileData.arrayBuffer());
+    }
+
+    // For spreadsheets (xlsx, xls, ods)
+    if (isSpreadsheet(contentType)) {
+      return await extractSpreadsheet(await fileData.arrayBuffer(), contentType);
+    }
+
+    return { text: await this.extractUnpagedText(fileData, contentType), warnings: [] };
+  },
+
+  /**
+   * Extract text from formats without a structured parser
+   */
+  async extractUnpagedText(fileData: Blob, contentType: string): Promise<string> {
+    // For plain text files
+    if (contentType === 'text/plain') {
+      return await fileData.text();
     }
     
     // For older Word documents (doc)
@@ -957,30 +827,6 @@ Only return the JSON object, no other text.
       }
     }
     
-    // For Excel files (xlsx)
-    if (contentType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
-      try {
-        const arrayBuffer = await fileData.arrayBuffer();
-        const text = await this.extractTextFromXLSX(arrayBuffer);
-        return text || 'XLSX text extraction failed';
-      } catch (error) {
-        console.error('XLSX extraction error:', error);
-        return 'XLSX text extraction failed';
-      }
-    }
-    
-    // For older Excel files (xls)
-    if (contentType === 'application/vnd.ms-excel') {
-      try {
-        const text = await fileData.text();
-        // Try to extract readable text from binary format
-        return this.cleanBinaryText(text) || 'XLS text extraction failed';
-      } catch (error) {
-        console.error('XLS extraction error:', error);
-        return 'XLS text extraction failed';
-      }
-    }
-    
     // For CSV files
     if (contentType === 'text/csv') {
       try {
@@ -1002,120 +848,6 @@ Only return the JSON object, no other text.
     }
   },
   
-  /**
-   * Extract text from PDF using PDF.js
-   */
-  async extractTextFromPDF(arrayBuffer: ArrayBuffer): Promise<string> {
-    // In a real implementation, you'd use PDF.js
-    // This is a placeholder that would be replaced with actual PDF.js code
-    console.log('PDF extraction: Using simplified extraction');
-    
-    // Convert ArrayBuffer to text and look for PDF content
-    const textDecoder = new TextDecoder('utf-8');
-    const text = textDecoder.decode(arrayBuffer);
-    
-    // Extract text content between PDF markers
-    const contentMatches = text.match(/\/(Contents|Text|Title|Subject|Author|Keywords|Creator|Producer|CreationDate|ModDate)[^\n]+/g);
-    if (contentMatches && contentMatches.length > 0) {
-      return contentMatches.join('\n');
-    }
-    
-    // Return a portion of the text if we can't find PDF markers
-    return text.replace(/[\x00-\x1F\x7F-\xFF]/g, '')
-      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
-      .substring(0, 100000);
-  },
-  
-  /**
-   * Extract text from DOCX files
-   */
-  async extractTextFromDOCX(arrayBuffer: ArrayBuffer): Promise<string> {
-    // In a real implementation, you'd use a library like mammoth.js
-    // This is a simplified version that extracts text from XML in the DOCX
-    console.log('DOCX extraction: Using simplified extraction');
-    
-    try {
-      // Convert ArrayBuffer to text
-      const textDecoder = new TextDecoder('utf-8');
-      const text = textDecoder.decode(arrayBuffer);
-      
-      // Look for document.xml content in the DOCX (ZIP) file
-      const documentXmlMatch = text.match(/<w:document[^>]*>([\s\S]*?)<\/w:document>/);
-      if (documentXmlMatch && documentXmlMatch[1]) {
-        // Extract text from XML
-        const textMatches = documentXmlMatch[1].match(/<w:t[^>]*>([\s\S]*?)<\/w:t>/g);
-        if (textMatches && textMatches.length > 0) {
-          // Clean XML tags
-          return textMatches.map(match => {
-            const content = match.replace(/<[^>]+>/g, '');
-            return content;
-          }).join(' ');
-        }
-      }
-      
-      // Fallback: try to find any text content
-      const textMatches = text.match(/<w:t[^>]*>([\s\S]*?)<\/w:t>/g);
-      if (textMatches && textMatches.length > 0) {
-        return textMatches.map(match => {
-          const content = match.replace(/<[^>]+>/g, '');
-          return content;
-        }).join(' ');
-      }
-      
-      // If all else fails, return cleaned text
-      return this.cleanBinaryText(text);
-    } catch (error) {
-      console.error('DOCX extraction error:', error);
-      return '';
-    }
-  },
-  
-  /**
-   * Extract text from XLSX files
-   */
-  async extractTextFromXLSX(arrayBuffer: ArrayBuffer): Promise<string> {
-    // In a real implementation, you'd use a library like xlsx.js
-    // This is a simplified version that extracts text from XML in the XLSX
-    console.log('XLSX extraction: Using simplified extraction');
-    
-    try {
-      // Convert ArrayBuffer to text
-      const textDecoder = new TextDecoder('utf-8');
-      const text = textDecoder.decode(arrayBuffer);
-      
-      // Look for sheet data in the XLSX (ZIP) file
-      const sheetMatches = text.match(/<row[^>]*>([\s\S]*?)<\/row>/g);
-      if (sheetMatches && sheetMatches.length > 0) {
-        // Extract cell values
-        return sheetMatches.map(row => {
-          const cellMatches = row.match(/<c[^>]*><v>([\s\S]*?)<\/v><\/c>/g);
-          if (cellMatches && cellMatches.length > 0) {
-            return cellMatches.map(cell => {
-              const valueMatch = cell.match(/<v>([\s\S]*?)<\/v>/);
-              return valueMatch ? valueMatch[1] : '';
-            }).join('\t');
-          }
-          return '';
-        }).join('\n');
-      }
-      
-      // Fallback: try to find any cell values
-      const cellMatches = text.match(/<v>([\s\S]*?)<\/v>/g);
-      if (cellMatches && cellMatches.length > 0) {
-        return cellMatches.map(match => {
-          const content = match.replace(/<[^>]+>/g, '');
-          return content;
-        }).join(' ');
-      }
-      
-      // If all else fails, return cleaned text
-      return this.cleanBinaryText(text);
-    } catch (error) {
-      console.error('XLSX extraction error:', error);
-      return '';
-    }
-  },
-  
   /**
    * Format CSV content for better readability
    */
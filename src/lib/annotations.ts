@@ -0,0 +1,326 @@
+import { supabase, getCurrentTeamId } from './supabase';
+import { PageUnit } from './document-extraction';
+import { detectInjection, FencedDocument } from './prompt-injection';
+import { TextRange } from './document-viewer';
+
+/**
+ * Highlights and comment threads on a document's text. An annotation marks
+ * a range of one version's extracted text; its comments are the note made
+ * with it and the replies after. Threads are shared with the document
+ * owner's team, and a comment can @mention team members by name.
+ */
+
+export interface AnnotationComment {
+  id: string;
+  annotation_id: string;
+  user_id: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DocumentAnnotation {
+  id: string;
+  document_id: string;
+  version: number;
+  start_offset: number;
+  end_offset: number;
+  quote: string;
+  page_number: number | null;
+  user_id: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  // Oldest first
+  comments: AnnotationComment[];
+}
+
+// A comment that mentions the signed-in user, from get_annotation_mentions
+export interface AnnotationMention {
+  comment_id: string;
+  annotation_id: string;
+  document_id: string;
+  document_title: string;
+  // Slides or pages, for citing page_number
+  content_type: string | null;
+  version: number;
+  quote: string;
+  page_number: number | null;
+  body: string;
+  author_id: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+export interface NewAnnotation {
+  documentId: string;
+  version: number;
+  range: TextRange;
+  quote: string;
+  pageNumber: number | null;
+}
+
+// A run of comment text, or an @mention of a team member
+export type CommentPart = { text: string; memberId?: string };
+
+const ANNOTATION_COLUMNS = 'id, document_id, version, start_offset, end_offset, quote, page_number, user_id, resolved_at, resolved_by, created_at';
+const COMMENT_COLUMNS = 'id, annotation_id, user_id, body, mentions, created_at, updated_at';
+
+const byCreated = (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at);
+
+const withSortedComments = (annotation: DocumentAnnotation): DocumentAnnotation => ({
+  ...annotation,
+  comments: [...(annotation.comments || [])].sort(byCreated),
+});
+
+async function currentUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to annotate documents');
+  return user.id;
+}
+
+/**
+ * Annotations on one version of a document, in reading order, with their comments
+ */
+export async function listAnnotations(documentId: string, version: number): Promise<DocumentAnnotation[]> {
+  const { data, error } = await supabase
+    .from('document_annotations')
+    .select(`${ANNOTATION_COLUMNS}, comments:annotation_comments(${COMMENT_COLUMNS})`)
+    .eq('document_id', documentId)
+    .eq('version', version)
+    .order('start_offset', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as DocumentAnnotation[]).map(withSortedComments);
+}
+
+/**
+ * One annotation with its comments, e.g. the thread behind a mention
+ */
+export async function getAnnotation(annotationId: string): Promise<DocumentAnnotation> {
+  const { data, error } = await supabase
+    .from('document_annotations')
+    .select(`${ANNOTATION_COLUMNS}, comments:annotation_comments(${COMMENT_COLUMNS})`)
+    .eq('id', annotationId)
+    .single();
+
+  if (error) throw error;
+  return withSortedComments(data as DocumentAnnotation);
+}
+
+/**
+ * Highlight a range of text, with an opening comment unless it is a plain highlight
+ */
+export async function createAnnotation(
+  annotation: NewAnnotation,
+  comment?: string,
+  members: TeamMember[] = []
+): Promise<DocumentAnnotation> {
+  const { data, error } = await supabase
+    .from('document_annotations')
+    .insert({
+      document_id: annotation.documentId,
+      version: annotation.version,
+      start_offset: annotation.range.start,
+      end_offset: annotation.range.end,
+      quote: annotation.quote,
+      page_number: annotation.pageNumber,
+      user_id: await currentUserId(),
+    })
+    .select(ANNOTATION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  const created: DocumentAnnotation = { ...(data as Omit<DocumentAnnotation, 'comments'>), comments: [] };
+  if (comment?.trim()) {
+    created.comments.push(await addComment(created.id, comment, members));
+  }
+  return created;
+}
+
+/**
+ * Reply to an annotation. Team members named as @Name are recorded as mentioned.
+ */
+export async function addComment(annotationId: string, body: string, members: TeamMember[] = []): Promise<AnnotationComment> {
+  const { data, error } = await supabase
+    .from('annotation_comments')
+    .insert({
+      annotation_id: annotationId,
+      user_id: await currentUserId(),
+      body: body.trim(),
+      mentions: findMentions(body, members),
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as AnnotationComment;
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  const { error } = await supabase.from('annotation_comments').delete().eq('id', commentId);
+  if (error) throw error;
+}
+
+/**
+ * Remove a highlight and its thread. Only its author and the document owner may.
+ */
+export async function deleteAnnotation(annotationId: string): Promise<void> {
+  const { error } = await supabase.from('document_annotations').delete().eq('id', annotationId);
+  if (error) throw error;
+}
+
+/**
+ * Resolve a thread, or reopen it. Teammates may do this on any thread they
+ * can see, so it goes through an RPC that touches nothing else.
+ */
+export async function setAnnotationResolved(annotationId: string, resolved: boolean): Promise<Pick<DocumentAnnotation, 'resolved_at' | 'resolved_by'>> {
+  const { data, error } = await supabase.rpc('set_annotation_resolved', {
+    target_annotation_id: annotationId,
+    resolved,
+  });
+
+  if (error) throw error;
+  const { resolved_at, resolved_by } = data as DocumentAnnotation;
+  return { resolved_at, resolved_by };
+}
+
+/**
+ * Comments that mention the signed-in user, newest first, across documents
+ * they may not be able to open themselves
+ */
+export async function getMentions(limit = 50): Promise<AnnotationMention[]> {
+  const { data, error } = await supabase.rpc('get_annotation_mentions', { max_results: limit });
+  if (error) throw error;
+  return (data || []) as AnnotationMention[];
+}
+
+/**
+ * Members of the signed-in user's team, for @mentions and comment authors.
+ * Without a team, just the user.
+ */
+export async function listTeamMembers(): Promise<TeamMember[]> {
+  const teamId = await getCurrentTeamId();
+  if (!teamId) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+    const { data: profile } = await supabase.from('profiles').select('full_name, email').eq('id', user.id).maybeSingle();
+    return [toMember(user.id, profile)];
+  }
+
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('user_id, user:profiles(full_name, email)')
+    .eq('team_id', teamId);
+
+  if (error) throw error;
+  return (data || [])
+    .map(row => toMember(row.user_id, row.user as unknown as { full_name: string | null; email: string | null } | null))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function toMember(id: string, profile: { full_name: string | null; email: string | null } | null): TeamMember {
+  const email = profile?.email ?? null;
+  return { id, name: profile?.full_name?.trim() || email?.split('@')[0] || 'Team member', email };
+}
+
+/**
+ * Display name for a comment author; people who have left the team keep their comments
+ */
+export function memberName(members: TeamMember[], userId: string): string {
+  return members.find(member => member.id === userId)?.name ?? 'Former team member';
+}
+
+const isNameChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Where each @mention of a team member sits in a comment. Longer names win,
+ * so "@Ann Lee" is not read as a mention of "Ann".
+ */
+function mentionRanges(body: string, members: TeamMember[]): (TextRange & { memberId: string })[] {
+  const lower = body.toLowerCase();
+  const byLength = [...members].sort((a, b) => b.name.length - a.name.length);
+  const ranges: (TextRange & { memberId: string })[] = [];
+
+  let at = lower.indexOf('@');
+  while (at !== -1) {
+    const member = byLength.find(candidate => {
+      const name = candidate.name.toLowerCase();
+      return lower.startsWith(name, at + 1) && !isNameChar(body[at + 1 + name.length]);
+    });
+    if (member) {
+      ranges.push({ start: at, end: at + 1 + member.name.length, memberId: member.id });
+      at = lower.indexOf('@', at + 1 + member.name.length);
+    } else {
+      at = lower.indexOf('@', at + 1);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Ids of the team members a comment mentions
+ */
+export function findMentions(body: string, members: TeamMember[]): string[] {
+  return [...new Set(mentionRanges(body, members).map(range => range.memberId))];
+}
+
+/**
+ * A comment split into text and mentions, for rendering
+ */
+export function commentParts(body: string, members: TeamMember[]): CommentPart[] {
+  const parts: CommentPart[] = [];
+  let position = 0;
+  for (const range of mentionRanges(body, members)) {
+    if (range.start > position) parts.push({ text: body.slice(position, range.start) });
+    parts.push({ text: body.slice(range.start, range.end), memberId: range.memberId });
+    position = range.end;
+  }
+  if (position < body.length) parts.push({ text: body.slice(position) });
+  return parts;
+}
+
+/**
+ * The @mention being typed at the end of a comment draft, if any, so the
+ * input can suggest team members
+ */
+export function mentionQuery(draft: string, caret: number): { start: number; query: string } | null {
+  const before = draft.slice(0, caret);
+  const at = before.lastIndexOf('@');
+  if (at === -1 || (at > 0 && isNameChar(before[at - 1]))) return null;
+  const query = before.slice(at + 1);
+  // Names have spaces in them, but not line breaks or a second word's worth of typing
+  if (/\n/.test(query) || query.split(' ').length > 3) return null;
+  return { start: at, query };
+}
+
+/**
+ * Annotations as quoted material for a chat prompt: each highlight with its
+ * thread. Comments are written by people, but they quote the document and
+ * anyone can type anything, so they are fenced like document text.
+ */
+export function annotationsForChat(
+  annotations: DocumentAnnotation[],
+  members: TeamMember[],
+  pageUnit: PageUnit
+): FencedDocument[] {
+  return annotations.map(annotation => {
+    const thread = annotation.comments.map(comment => `${memberName(members, comment.user_id)}: ${comment.body}`);
+    const content = [`Highlighted text: "${annotation.quote}"`, ...thread].join('\n');
+    const status = annotation.resolved_at ? 'resolved' : 'open';
+    return {
+      title: `Annotation by ${memberName(members, annotation.user_id)} (${status})`,
+      content,
+      page: annotation.page_number,
+      pageUnit,
+      flagged: detectInjection(content).flagged,
+    };
+  });
+}
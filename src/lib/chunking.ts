@@ -0,0 +1,273 @@
+import { PAGE_BREAK } from './document-extraction';
+
+/**
+ * Structure-aware chunking. Text is read as blocks, which are headings,
+ * Markdown tables and paragraphs, and packed into chunks that:
+ * - start at headings;
+ * - prefer to end at page breaks;
+ * - never split a table row or, unless it is longer than a chunk, a paragraph.
+ * Each chunk records the headings it sits under and the pages it spans.
+ */
+
+export interface ChunkingProfile {
+  // Target chunk length in characters
+  chunkSize: number;
+  // Characters of the previous chunk repeated at the start of the next, within a section
+  chunkOverlap: number;
+}
+
+export interface TextChunk {
+  content: string;
+  // Headings the chunk sits under, outermost first
+  sectionPath: string[];
+  // Pages the chunk spans, or null for text without page breaks
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+interface Block {
+  kind: 'heading' | 'table' | 'text';
+  text: string;
+  page: number | null;
+  // Heading depth, 1 for the outermost
+  level?: number;
+}
+
+interface Section {
+  level: number;
+  title: string;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+// Filing and contract divisions: "PART II", "Item 7.", "Schedule 3 - Warranties"
+const DIVISION_HEADING = /^(PART|Part|ITEM|Item|SECTION|Section|ARTICLE|Article|CHAPTER|Chapter|SCHEDULE|Schedule|APPENDIX|Appendix|EXHIBIT|Exhibit|ANNEX|Annex)\s+[\dIVXLC]+[A-Z]?\b/;
+
+// Items and sections sit inside parts and articles
+const SUBDIVISIONS = new Set(['item', 'section']);
+
+// "3.2 Revenue recognition"; the depth of the number adds to the heading level
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,4})\.?\s+\S/;
+
+const MAX_HEADING_LENGTH = 100;
+
+/**
+ * Level of a one-line paragraph that looks like a heading in text without
+ * Markdown headings, such as PDFs; null if it reads as prose. Divisions
+ * come first, then headings in capitals, then numbered headings by depth.
+ */
+function plainHeadingLevel(line: string): number | null {
+  if (line.length > MAX_HEADING_LENGTH || line.split(/\s+/).length > 12) return null;
+  const division = line.match(DIVISION_HEADING);
+  if (division) return SUBDIVISIONS.has(division[1].toLowerCase()) ? 2 : 1;
+  if (/[.,;:]$/.test(line)) return null;
+
+  // All capitals, with at least one real word
+  if (/[A-Z]{3}/.test(line) && line === line.toUpperCase() && /^[A-Z]/.test(line)) return 3;
+  const numbered = line.match(NUMBERED_HEADING);
+  if (numbered) return 3 + numbered[1].split('.').length;
+  return null;
+}
+
+/**
+ * Headings, tables and paragraphs, in document order
+ */
+function readBlocks(text: string): Block[] {
+  const paginated = text.includes(PAGE_BREAK);
+  const markdownHeadings = text.split('\n').some(line => MARKDOWN_HEADING.test(line));
+  const blocks: Block[] = [];
+
+  text.split(PAGE_BREAK).forEach((pageText, pageIndex) => {
+    const page = paginated ? pageIndex + 1 : null;
+    let paragraph: string[] = [];
+    let table: string[] = [];
+
+    const endParagraph = () => {
+      if (paragraph.length === 0) return;
+      const joined = paragraph.join('\n');
+      const level = !markdownHeadings && paragraph.length === 1 ? plainHeadingLevel(joined) : null;
+      blocks.push(level ? { kind: 'heading', text: joined, page, level } : { kind: 'text', text: joined, page });
+      paragraph = [];
+    };
+    const endTable = () => {
+      if (table.length === 0) return;
+      blocks.push({ kind: 'table', text: table.join('\n'), page });
+      table = [];
+    };
+
+    for (const rawLine of pageText.split('\n')) {
+      const line = rawLine.trimEnd();
+      const heading = markdownHeadings && line.match(MARKDOWN_HEADING);
+      if (heading) {
+        endParagraph();
+        endTable();
+        blocks.push({ kind: 'heading', text: line, page, level: heading[1].length });
+      } else if (line.trimStart().startsWith('|')) {
+        endParagraph();
+        table.push(line);
+      } else if (!line.trim()) {
+        endParagraph();
+        endTable();
+      } else {
+        endTable();
+        paragraph.push(line);
+      }
+    }
+    endParagraph();
+    endTable();
+  });
+
+  return blocks;
+}
+
+const headingTitle = (block: Block): string => block.text.replace(MARKDOWN_HEADING, '$2').trim();
+
+/**
+ * Split a paragraph longer than a chunk at sentence ends, and sentences
+ * longer than a chunk at word breaks
+ */
+function splitLongText(text: string, chunkSize: number): string[] {
+  const pieces: string[] = [];
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    let rest = sentence;
+    while (rest.length > chunkSize) {
+      const space = rest.lastIndexOf(' ', chunkSize);
+      const cut = space > chunkSize / 2 ? space : chunkSize;
+      pieces.push(rest.slice(0, cut).trim());
+      rest = rest.slice(cut).trim();
+    }
+    if (rest) pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Split a table longer than a chunk into row groups, each with the header
+ * row repeated
+ */
+function splitTable(table: string, chunkSize: number): string[] {
+  const lines = table.split('\n');
+  const hasHeader = lines.length > 2 && /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/.test(lines[1]);
+  const header = hasHeader ? lines.slice(0, 2) : [];
+  const rows = hasHeader ? lines.slice(2) : lines;
+  const headerLength = header.join('\n').length;
+
+  const pieces: string[] = [];
+  let piece: string[] = [];
+  let length = headerLength;
+  for (const row of rows) {
+    if (piece.length > 0 && length + row.length + 1 > chunkSize) {
+      pieces.push([...header, ...piece].join('\n'));
+      piece = [];
+      length = headerLength;
+    }
+    piece.push(row);
+    length += row.length + 1;
+  }
+  if (piece.length > 0) pieces.push([...header, ...piece].join('\n'));
+  return pieces;
+}
+
+/**
+ * End of a chunk to repeat at the start of the next, from a sentence or
+ * word boundary
+ */
+function overlapOf(content: string, overlap: number): string {
+  if (overlap <= 0 || content.length <= overlap) return '';
+  const tail = content.slice(-overlap);
+  const sentence = tail.search(/(?<=[.!?])\s+\S/);
+  if (sentence !== -1) return tail.slice(sentence).trim();
+  const space = tail.indexOf(' ');
+  return space === -1 ? '' : tail.slice(space + 1).trim();
+}
+
+const commonPrefix = (a: string[], b: string[]): string[] => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return a.slice(0, i);
+};
+
+/**
+ * Chunk extracted text by its structure
+ */
+export function chunkDocument(text: string, { chunkSize, chunkOverlap }: ChunkingProfile): TextChunk[] {
+  const overlap = Math.min(chunkOverlap, Math.floor(chunkSize / 2));
+  const chunks: TextChunk[] = [];
+  const sections: Section[] = [];
+  const sectionPath = () => sections.map(section => section.title);
+
+  let parts: string[] = [];
+  let length = 0;
+  let path: string[] = [];
+  let pageStart: number | null = null;
+  let pageEnd: number | null = null;
+  // Text carried over from the previous chunk, not enough to make a chunk on its own
+  let carried = false;
+
+  const add = (text: string, page: number | null) => {
+    if (parts.length === 0) {
+      path = sectionPath();
+      pageStart = page;
+    } else {
+      path = commonPrefix(path, sectionPath());
+    }
+    parts.push(text);
+    length += text.length + (parts.length > 1 ? 2 : 0);
+    pageEnd = page ?? pageEnd;
+  };
+
+  // Close the current chunk; carried-over text alone is dropped
+  const flush = ({ withOverlap = false } = {}) => {
+    const content = carried ? '' : parts.join('\n\n').trim();
+    const previousPage = pageEnd;
+    if (content) chunks.push({ content, sectionPath: path, pageStart, pageEnd });
+
+    parts = [];
+    length = 0;
+    carried = false;
+    const tail = withOverlap ? overlapOf(content, overlap) : '';
+    if (tail) {
+      add(tail, previousPage);
+      carried = true;
+    }
+  };
+
+  const fits = (text: string) => length + text.length + 2 <= chunkSize;
+
+  for (const block of readBlocks(text)) {
+    // Start a new chunk at a page break once the current one is half full
+    if (parts.length > 0 && block.page !== pageEnd && length >= chunkSize / 2) flush();
+
+    if (block.kind === 'heading') {
+      // Carried-over text belongs to the previous section
+      if (carried || length > chunkSize / 4) flush();
+      while (sections.length > 0 && sections[sections.length - 1].level >= block.level) sections.pop();
+      sections.push({ level: block.level, title: headingTitle(block) });
+      add(block.text, block.page);
+      continue;
+    }
+
+    const pieces =
+      block.text.length <= chunkSize
+        ? [block.text]
+        : block.kind === 'table'
+          ? splitTable(block.text, chunkSize)
+          : splitLongText(block.text, chunkSize);
+
+    pieces.forEach((piece, index) => {
+      if (!fits(piece)) flush({ withOverlap: block.kind === 'text' });
+      if (carried && !fits(piece)) flush();
+      // Sentences of one paragraph stay on one line
+      if (block.kind === 'text' && index > 0 && parts.length > 0 && !carried && fits(piece)) {
+        parts[parts.length - 1] += ` ${piece}`;
+        length += piece.length + 1;
+      } else {
+        add(piece, block.page);
+      }
+      carried = false;
+    });
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,297 @@
+import { Unzip, UnzipInflate } from 'fflate';
+import { errorMessage, supabase } from './supabase';
+import { findDocumentsByHash, hashContent } from './duplicates';
+import { createDocument, DEFAULT_UPLOAD_LIMITS, formatSizeLimit, getMimeTypeFromFileName, isSupportedFile } from './document-upload';
+import { queueDocumentProcessing } from './processing-jobs';
+
+/**
+ * Bulk import of a data room ZIP. The archive is streamed through fflate in
+ * the browser, one file at a time, and each supported file becomes a
+ * document filed under its folder path and tagged with its folder names.
+ */
+
+export const isZipFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+export type ImportStatus = 'imported' | 'duplicate' | 'skipped' | 'failed';
+
+export interface ImportReportEntry {
+  // Path inside the archive
+  path: string;
+  folderPath: string | null;
+  size: number;
+  status: ImportStatus;
+  reason?: string;
+  documentId?: string;
+}
+
+interface ArchiveFile {
+  path: string;
+  bytes: Uint8Array;
+}
+
+interface UnpackLimits {
+  maxFileSize: number;
+  // Bytes inflated across the whole archive
+  maxUnpackedSize: number;
+}
+
+// Data rooms are mostly PDFs and Office files, which are compressed already.
+// An archive that inflates to several times the archive limit is a zip bomb.
+const MAX_EXPANSION = 4;
+
+export interface DataRoomImportOptions {
+  userId: string;
+  projectId?: string | null;
+  confidential?: boolean;
+  // Files in the archive above the team's limit are skipped
+  maxFileSize?: number;
+  // The team's archive limit, which bounds what the archive may unpack to
+  maxArchiveSize?: number;
+  // Called as each file is imported or passed over
+  onEntry?: (entry: ImportReportEntry) => void;
+  // Called as the archive is read, with the share of it read so far
+  onProgress?: (share: number) => void;
+}
+
+// Operating system clutter that is never a data room document
+const isJunk = (path: string): boolean =>
+  path.startsWith('__MACOSX/') || path.split('/').some(segment => segment.startsWith('.')) || /(^|\/)(Thumbs\.db|desktop\.ini)$/i.test(path);
+
+const splitPath = (path: string): { folderPath: string | null; name: string } => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1
+    ? { folderPath: null, name: path }
+    : { folderPath: path.slice(0, slash), name: path.slice(slash + 1) };
+};
+
+/**
+ * Folder names as tags, without data room index numbers:
+ * "1. Financial/1.3 Audited Accounts" gives ["Financial", "Audited Accounts"]
+ */
+export function folderTags(folderPath: string | null): string[] {
+  if (!folderPath) return [];
+  const names = folderPath
+    .split('/')
+    .map(segment => segment.replace(/^\s*\d+(\.\d+)*[.)]?\s*[-–_]?\s*/, '').trim())
+    .filter(name => name.length > 0);
+  return [...new Set(names)];
+}
+
+const joinChunks = (chunks: Uint8Array[], size: number): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+/**
+ * The files of an archive worth importing, inflated as the archive is read,
+ * so only the files of the chunk just read are held in memory. The rest are
+ * reported as skipped without being inflated. Sizes are counted as bytes
+ * come out of the inflater, since ZIP headers can claim anything.
+ */
+async function* unpackArchive(
+  archive: File,
+  limits: UnpackLimits,
+  onSkipped: (entry: ImportReportEntry) => void,
+  onProgress?: (share: number) => void
+): AsyncGenerator<ArchiveFile> {
+  const ready: ArchiveFile[] = [];
+  let failure: Error | null = null;
+  let found = 0;
+  let unpacked = 0;
+
+  const unzipper = new Unzip(file => {
+    found++;
+    if (file.name.endsWith('/') || isJunk(file.name)) return;
+
+    const skip = (reason: string, size = file.originalSize ?? 0) =>
+      onSkipped({ path: file.name, folderPath: splitPath(file.name).folderPath, size, status: 'skipped', reason });
+    const tooLarge = `Larger than ${formatSizeLimit(limits.maxFileSize)}`;
+    if (file.name.toLowerCase().endsWith('.zip')) return skip('Nested archive; import it separately');
+    if (!isSupportedFile(file.name)) return skip('Unsupported file type');
+    if ((file.originalSize ?? 0) > limits.maxFileSize) return skip(tooLarge);
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let discarded = false;
+    file.ondata = (error, chunk, final) => {
+      if (failure) return;
+      if (error) {
+        failure = error;
+        return;
+      }
+      size += chunk.length;
+      unpacked += chunk.length;
+      if (unpacked > limits.maxUnpackedSize) {
+        failure = new Error(`it unpacks to more than ${formatSizeLimit(limits.maxUnpackedSize)}`);
+        return;
+      }
+      if (discarded) return;
+      // The header understated the size; the rest of the file is inflated but not kept
+      if (size > limits.maxFileSize) {
+        discarded = true;
+        chunks.length = 0;
+        skip(tooLarge, size);
+        return;
+      }
+      chunks.push(chunk);
+      if (final) ready.push({ path: file.name, bytes: joinChunks(chunks, size) });
+    };
+    file.start();
+  });
+  // Inflating synchronously keeps reading in step with importing: each chunk
+  // is inflated before the next one is read
+  unzipper.register(UnzipInflate);
+
+  const reader = archive.stream().getReader();
+  let done = false;
+  let read = 0;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      read += result.value?.length ?? 0;
+      unzipper.push(result.value ?? new Uint8Array(0), done);
+      if (failure) throw failure;
+      onProgress?.(archive.size > 0 ? read / archive.size : 1);
+
+      while (ready.length > 0) yield ready.shift();
+    }
+  } finally {
+    if (!done) await reader.cancel();
+  }
+  if (found === 0) throw new Error('not a ZIP archive');
+}
+
+/**
+ * Tag a document, creating tags that don't exist yet. Tag ids are cached
+ * across the files of one import.
+ */
+async function addTags(documentId: string, names: string[], userId: string, tagIds: Map<string, string>) {
+  for (const name of names) {
+    let tagId = tagIds.get(name);
+    if (!tagId) {
+      const { data: existing, error: selectError } = await supabase.from('tags').select('id').eq('name', name).maybeSingle();
+      if (selectError) throw selectError;
+      if (existing) {
+        tagId = existing.id;
+      } else {
+        const { data: created, error: insertError } = await supabase
+          .from('tags')
+          .insert({ name, created_by: userId })
+          .select('id')
+          .single();
+        if (insertError) throw insertError;
+        tagId = created.id;
+      }
+      tagIds.set(name, tagId);
+    }
+
+    const { error } = await supabase.from('document_tags').insert({ document_id: documentId, tag_id: tagId });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Import every supported file in a data room ZIP and queue it for
+ * processing. Files already in the library, or repeated in the archive, are
+ * reported as duplicates and not imported.
+ */
+export async function importDataRoom(archive: File, options: DataRoomImportOptions): Promise<ImportReportEntry[]> {
+  const report: ImportReportEntry[] = [];
+  const record = (entry: ImportReportEntry) => {
+    report.push(entry);
+    options.onEntry?.(entry);
+  };
+
+  const importedHashes = new Map<string, string>();
+  const tagIds = new Map<string, string>();
+  const files = unpackArchive(
+    archive,
+    {
+      maxFileSize: options.maxFileSize ?? DEFAULT_UPLOAD_LIMITS.maxFileSize,
+      maxUnpackedSize: (options.maxArchiveSize ?? DEFAULT_UPLOAD_LIMITS.maxArchiveSize) * MAX_EXPANSION,
+    },
+    record,
+    options.onProgress
+  );
+
+  // Each file is imported before the next is inflated. Import errors are
+  // recorded per file, so anything escaping the loop comes from the archive.
+  try {
+    for await (const { path, bytes } of files) {
+      const { folderPath, name } = splitPath(path);
+      const entry: ImportReportEntry = { path, folderPath, size: bytes.length, status: 'imported' };
+
+      try {
+        const file = new File([bytes], name, { type: getMimeTypeFromFileName(name) });
+        // The file is in memory already, so it is hashed whatever its size
+        const contentHash = await hashContent(bytes);
+        const sameInArchive = importedHashes.get(contentHash);
+        if (sameInArchive) {
+          record({ ...entry, status: 'duplicate', reason: `Same file as ${sameInArchive}` });
+          continue;
+        }
+        const [existing] = await findDocumentsByHash(contentHash);
+        if (existing) {
+          record({ ...entry, status: 'duplicate', reason: `Already in the library as ${existing.title}` });
+          continue;
+        }
+
+        const document = await createDocument(file, {
+          userId: options.userId,
+          contentHash,
+          projectId: options.projectId,
+          confidential: options.confidential,
+          folderPath,
+        });
+        importedHashes.set(contentHash, path);
+        entry.documentId = document.id;
+
+        try {
+          await addTags(document.id, folderTags(folderPath), options.userId, tagIds);
+        } catch (error) {
+          console.error(`Error tagging ${path}:`, error);
+          entry.reason = 'Imported without folder tags';
+        }
+
+        try {
+          await queueDocumentProcessing(document.id);
+        } catch (error) {
+          console.error(`Queueing processing of ${path} failed:`, error);
+          entry.reason = 'Imported, but processing could not be queued; reprocess it from My Documents';
+        }
+        record(entry);
+      } catch (error) {
+        console.error(`Error importing ${path}:`, error);
+        record({ ...entry, status: 'failed', reason: errorMessage(error, 'Upload failed') });
+      }
+    }
+  } catch (error) {
+    throw new Error(`${archive.name} could not be unpacked: ${errorMessage(error, 'not a ZIP archive')}`);
+  }
+
+  return report;
+}
+
+const csvField = (value: string | number | undefined | null): string => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The import report as CSV, one row per file in the archive
+ */
+export function importReportCsv(report: ImportReportEntry[]): string {
+  const rows = [
+    ['Path', 'Folder', 'Size (bytes)', 'Status', 'Details', 'Document ID'],
+    ...report.map(entry => [entry.path, entry.folderPath, entry.size, entry.status, entry.reason, entry.documentId]),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,226 @@
+import { Unzip, UnzipInflate } from 'fflate';
+
+/**
+ * Shared pieces of file text extraction.
+ *
+ * Extractors return plain text with PAGE_BREAK between pages, the convention
+ * pdftotext uses. The marker survives storage in research_documents.content,
+ * so page numbers can be recovered for each chunk without a separate page map.
+ */
+
+export const PAGE_BREAK = '\f';
+
+export type ExtractionFailureReason = 'encrypted' | 'scanned' | 'invalid' | 'empty';
+
+// What the numbered sections between page breaks are, for citations
+export type PageUnit = 'page' | 'slide';
+
+/**
+ * A file that cannot yield text, with a message to show on the document
+ */
+export class DocumentExtractionError extends Error {
+  constructor(
+    public readonly reason: ExtractionFailureReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+export type TableCellValue = string | number | boolean | null;
+
+export type TableColumnType = 'number' | 'date' | 'boolean' | 'string' | 'mixed' | 'empty';
+
+export interface TableColumn {
+  name: string;
+  type: TableColumnType;
+}
+
+/**
+ * One spreadsheet sheet as typed rows. Dates are ISO 8601 strings.
+ */
+export interface ExtractedTable {
+  name: string;
+  index: number;
+  hidden: boolean;
+  columns: TableColumn[];
+  // 1-based sheet row the column names came from, if the sheet has a header row
+  headerRow: number | null;
+  rows: TableCellValue[][];
+  // Data rows in the sheet; more than rows.length when the sheet was truncated
+  rowCount: number;
+}
+
+/**
+ * Mean OCR confidence (0-100) of a page that was read from its image
+ */
+export interface OcrPage {
+  page: number;
+  confidence: number;
+}
+
+export interface OcrResult {
+  // tesseract language code, such as eng or deu+eng
+  language: string;
+  pages: OcrPage[];
+}
+
+export interface ExtractedDocument {
+  text: string;
+  pageCount?: number;
+  // Problems that did not stop extraction, such as pages without a text layer
+  warnings: string[];
+  // Spreadsheets only
+  tables?: ExtractedTable[];
+  // Scanned PDF pages and images
+  ocr?: OcrResult;
+}
+
+export interface ExtractionOptions {
+  // Language pack for pages that need OCR; defaults to English
+  ocrLanguage?: string;
+}
+
+export const joinPages = (pages: string[]): string => pages.join(`\n${PAGE_BREAK}\n`);
+
+/**
+ * List page numbers as "3" or "3, 7 and 9"
+ */
+export const formatPageList = (pages: number[]): string =>
+  pages.length === 1 ? `${pages[0]}` : `${pages.slice(0, -1).join(', ')} and ${pages[pages.length - 1]}`;
+
+/**
+ * Cite a page or slide: "p. 7" or "slide 7" in lists, "page 7" or "slide 7" in prose.
+ * A passage that runs on to a later page is cited as "pp. 7-8", "pages 7-8" or "slides 7-8".
+ */
+export const pageReference = (
+  page: number,
+  unit: PageUnit | null | undefined,
+  style: 'short' | 'long' = 'short',
+  pageEnd?: number | null
+): string => {
+  if (pageEnd && pageEnd > page) {
+    const range = `${page}-${pageEnd}`;
+    return unit === 'slide' ? `slides ${range}` : style === 'short' ? `pp. ${range}` : `pages ${range}`;
+  }
+  return unit === 'slide' ? `slide ${page}` : style === 'short' ? `p. ${page}` : `page ${page}`;
+};
+
+// Office files saved with a password are OLE compound files, not ZIP archives
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+export const isOleFile = (data: ArrayBuffer): boolean => {
+  const bytes = new Uint8Array(data, 0, Math.min(OLE_SIGNATURE.length, data.byteLength));
+  return OLE_SIGNATURE.every((byte, i) => bytes[i] === byte);
+};
+
+/**
+ * Whether an OLE file is a password-protected Office Open XML file
+ */
+export const isEncryptedPackage = (data: ArrayBuffer): boolean => {
+  // The OLE directory names the EncryptedPackage stream in UTF-16
+  const marker = Array.from('EncryptedPackage').map(c => `${c}\0`).join('');
+  const head = new Uint8Array(data, 0, Math.min(data.byteLength, 1 << 20));
+  return new TextDecoder('latin1').decode(head).includes(marker);
+};
+
+// Office parts are XML, which compresses well but not this well: a file
+// that unpacks to more is a zip bomb
+const MAX_UNZIPPED_SIZE = 512 * 1024 * 1024;
+// Input is fed in slices, so no single step inflates more than ~1000x this
+const UNZIP_SLICE_SIZE = 64 * 1024;
+
+/**
+ * Unzip the entries of an Office Open XML file that `wanted` selects, as
+ * text. Throws DocumentExtractionError once they unpack to more than
+ * MAX_UNZIPPED_SIZE, counted as bytes come out of the inflater.
+ */
+export async function readZipText(data: ArrayBuffer, wanted: (name: string) => boolean): Promise<Map<string, string>> {
+  const parts = new Map<string, string>();
+  let failure: Error | null = null;
+  let found = 0;
+  let unzipped = 0;
+
+  const unzipper = new Unzip(file => {
+    found++;
+    if (!wanted(file.name)) return;
+
+    const decoder = new TextDecoder();
+    let text = '';
+    file.ondata = (error, chunk, final) => {
+      if (failure) return;
+      if (error) {
+        failure = error;
+        return;
+      }
+      unzipped += chunk.length;
+      if (unzipped > MAX_UNZIPPED_SIZE) {
+        failure = new DocumentExtractionError('invalid', `it unpacks to more than ${MAX_UNZIPPED_SIZE / (1024 * 1024)}MB`);
+        return;
+      }
+      text += decoder.decode(chunk, { stream: !final });
+      if (final) parts.set(file.name, text);
+    };
+    file.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  const bytes = new Uint8Array(data);
+  let offset = 0;
+  do {
+    const end = offset + UNZIP_SLICE_SIZE;
+    unzipper.push(bytes.subarray(offset, end), end >= bytes.length);
+    if (failure) throw failure;
+    offset = end;
+  } while (offset < bytes.length);
+
+  if (found === 0) throw new Error('invalid zip data');
+  return parts;
+}
+
+/**
+ * The relationships part that belongs to a package part
+ */
+export const relsPath = (part: string): string => {
+  const slash = part.lastIndexOf('/');
+  return `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+};
+
+/**
+ * A relationship target as a package path, relative to the part that names it
+ */
+export const resolvePart = (from: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+export const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+/**
+ * Child elements by local name, ignoring namespace prefixes
+ */
+export const childElements = (parent: Node, localName?: string): Element[] =>
+  Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (!localName || (node as Element).localName === localName)
+  );
+
+export const firstChild = (parent: Node, localName: string): Element | undefined =>
+  childElements(parent, localName)[0];
+
+/**
+ * Render rows of cells as a | separated table with the first row as header
+ */
+export const formatTable = (rows: string[][]): string => {
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const cells = (row: string[]) =>
+    Array.from({ length: width }, (_, i) => (row[i] ?? '').replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|'));
+  const lines = rows.map(row => `| ${cells(row).join(' | ')} |`);
+  lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+  return lines.join('\n');
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import type { ExtractedTable, TableCellValue, TableColumn } from './document-extraction';
+
+/**
+ * Storage for the sheets of spreadsheet documents (see spreadsheet-extraction.ts)
+ */
+
+export interface DocumentTable {
+  id: string;
+  document_id: string;
+  sheet_index: number;
+  sheet_name: string;
+  hidden: boolean;
+  columns: TableColumn[];
+  header_row: number | null;
+  rows: TableCellValue[][];
+  row_count: number;
+  created_at: string;
+}
+
+export async function listDocumentTables(documentId: string): Promise<DocumentTable[]> {
+  const { data, error } = await supabase
+    .from('document_tables')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('sheet_index');
+
+  if (error) throw error;
+  return (data || []) as DocumentTable[];
+}
+
+/**
+ * Replace a document's tables with those of its latest extraction
+ */
+export async function replaceDocumentTables(documentId: string, tables: ExtractedTable[]): Promise<void> {
+  const { error: deleteError } = await supabase.from('document_tables').delete().eq('document_id', documentId);
+  if (deleteError) throw deleteError;
+  if (tables.length === 0) return;
+
+  // One insert per sheet keeps each request well under the API body limit
+  for (const table of tables) {
+    const { error } = await supabase.from('document_tables').insert({
+      document_id: documentId,
+      sheet_index: table.index,
+      sheet_name: table.name,
+      hidden: table.hidden,
+      columns: table.columns,
+      header_row: table.headerRow,
+      rows: table.rows,
+      row_count: table.rowCount,
+    });
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,231 @@
+import { supabase, getCurrentTeamId } from './supabase';
+import { RESUMABLE_CHUNK_SIZE, uploadResumable } from './resumable-upload';
+
+/**
+ * Storing uploaded files as research documents, shared by single uploads
+ * and data room imports. Processing is queued separately by the caller.
+ */
+
+// Extended list of supported file types with more detailed extensions
+export const ACCEPTED_FILE_TYPES = {
+  'application/pdf': ['.pdf'],
+  'text/plain': ['.txt', '.text', '.md', '.markdown'],
+  'application/msword': ['.doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/vnd.oasis.opendocument.text': ['.odt'],
+  'application/rtf': ['.rtf'],
+  'text/csv': ['.csv'],
+  'application/vnd.ms-excel': ['.xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
+  'image/png': ['.png'],
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/tiff': ['.tif', '.tiff'],
+  'text/html': ['.html', '.htm'],
+  'application/json': ['.json'],
+  'application/xml': ['.xml'],
+};
+
+export interface UploadLimits {
+  // Largest single document, in bytes
+  maxFileSize: number;
+  // Largest data room archive, in bytes. The whole archive is held in memory while it is unpacked.
+  maxArchiveSize: number;
+}
+
+// For users without a team, and teams that have not set their own
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  maxFileSize: 500 * 1024 * 1024, // 500MB
+  maxArchiveSize: 1024 * 1024 * 1024, // 1GB
+};
+
+// The storage bucket's own limit, which no team limit can exceed
+export const MAX_UPLOAD_LIMIT = 5 * 1024 * 1024 * 1024; // 5GB
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+/**
+ * A size limit as "500MB" or "1GB"
+ */
+export const formatSizeLimit = (bytes: number): string =>
+  bytes >= GB && bytes % GB === 0 ? `${bytes / GB}GB` : `${Math.round(bytes / MB)}MB`;
+
+interface UploadLimitsRow {
+  max_file_size: number;
+  max_archive_size: number;
+}
+
+export async function getTeamUploadLimits(teamId: string): Promise<UploadLimits | null> {
+  const { data, error } = await supabase
+    .from('team_upload_limits')
+    .select('max_file_size, max_archive_size')
+    .eq('team_id', teamId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const row = data as UploadLimitsRow | null;
+  return row ? { maxFileSize: Number(row.max_file_size), maxArchiveSize: Number(row.max_archive_size) } : null;
+}
+
+/**
+ * The current user's limits: their team's, or the defaults
+ */
+export async function getUploadLimits(): Promise<UploadLimits> {
+  const teamId = await getCurrentTeamId();
+  if (!teamId) return DEFAULT_UPLOAD_LIMITS;
+
+  try {
+    return (await getTeamUploadLimits(teamId)) ?? DEFAULT_UPLOAD_LIMITS;
+  } catch (error) {
+    // The database checks the team limit again when the document is created
+    console.warn('Failed to load upload limits, using defaults:', error);
+    return DEFAULT_UPLOAD_LIMITS;
+  }
+}
+
+export async function saveTeamUploadLimits(teamId: string, limits: UploadLimits): Promise<void> {
+  for (const size of [limits.maxFileSize, limits.maxArchiveSize]) {
+    if (!Number.isFinite(size) || size <= 0) throw new Error('Size limits must be greater than zero');
+    if (size > MAX_UPLOAD_LIMIT) throw new Error(`Size limits cannot exceed ${formatSizeLimit(MAX_UPLOAD_LIMIT)}`);
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('team_upload_limits')
+    .upsert({
+      team_id: teamId,
+      max_file_size: limits.maxFileSize,
+      max_archive_size: limits.maxArchiveSize,
+      updated_by: user?.id,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'team_id' });
+
+  if (error) throw error;
+}
+
+const extensionOf = (fileName: string): string => `.${fileName.split('.').pop()?.toLowerCase() || ''}`;
+
+export const isSupportedFile = (fileName: string): boolean =>
+  Object.values(ACCEPTED_FILE_TYPES).some(extensions => extensions.includes(extensionOf(fileName)));
+
+export const getMimeTypeFromFileName = (fileName: string): string => {
+  const extension = extensionOf(fileName);
+
+  // Map extension to MIME type
+  for (const [mimeType, extensions] of Object.entries(ACCEPTED_FILE_TYPES)) {
+    if (extensions.includes(extension)) {
+      return mimeType;
+    }
+  }
+
+  // Default to text/plain for unknown extensions
+  return 'text/plain';
+};
+
+export const getCategoryFromFileType = (type: string): string => {
+  if (type.includes('pdf')) return 'Research Paper';
+  if (type.includes('presentationml')) return 'Presentation';
+  if (type.startsWith('image/')) return 'Scan';
+  if (type.includes('word') || type.includes('document') || type.includes('odt') || type.includes('rtf')) return 'Report';
+  if (type.includes('excel') || type.includes('spreadsheet') || type.includes('csv') || type.includes('ods')) return 'Data';
+  if (type.includes('text') || type.includes('plain') || type.includes('markdown') || type.includes('md')) return 'Document';
+  if (type.includes('html') || type.includes('xml') || type.includes('json')) return 'Web Content';
+  return 'Other';
+};
+
+export interface StoreFileOptions {
+  userId: string;
+  // Null for files too big to hash before uploading
+  contentHash: string | null;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  // Aborting pauses a resumable upload; storing the same file again resumes it
+  signal?: AbortSignal;
+}
+
+export interface CreateDocumentOptions extends StoreFileOptions {
+  projectId?: string | null;
+  // Confidential uploads never go to external AI models; otherwise the team policy decides
+  confidential?: boolean;
+  folderPath?: string | null;
+}
+
+/**
+ * Whether a file is uploaded in chunks that can be paused and resumed
+ */
+export const isResumableUpload = (file: File): boolean => file.size > RESUMABLE_CHUNK_SIZE;
+
+/**
+ * Put a file in storage and resolve with its path. Files bigger than one
+ * chunk go up resumably, so a dropped connection costs at most a chunk.
+ */
+export async function storeFile(file: File, contentType: string, options: StoreFileOptions): Promise<string> {
+  const filePath = `${options.userId}/${Date.now()}-${file.name}`;
+
+  if (isResumableUpload(file)) {
+    return uploadResumable(file, {
+      bucket: 'research-documents',
+      objectName: filePath,
+      contentType,
+      fingerprint: [options.userId, file.name, file.size, file.lastModified, options.contentHash].join(':'),
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+  }
+
+  const { data, error } = await supabase.storage
+    .from('research-documents')
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false,
+    });
+  if (error) throw error;
+  options.onProgress?.(file.size, file.size);
+  return data.path;
+}
+
+/**
+ * Store a file and create its research document, ready to be queued for
+ * processing
+ */
+export async function createDocument(file: File, options: CreateDocumentOptions) {
+  const contentType = file.type || getMimeTypeFromFileName(file.name);
+  const storedPath = await storeFile(file, contentType, options);
+
+  const { data: document, error: docError } = await supabase
+    .from('research_documents')
+    .insert({
+      user_id: options.userId,
+      title: file.name,
+      description: `Uploaded ${new Date().toLocaleDateString()}`,
+      file_path: storedPath,
+      file_size: file.size,
+      content_type: contentType,
+      category: getCategoryFromFileType(contentType),
+      status: 'processing',
+      content_hash: options.contentHash,
+      external_ai_allowed: options.confidential ? false : null,
+      folder_path: options.folderPath || null,
+    })
+    .select()
+    .single();
+
+  if (docError) {
+    await supabase.storage.from('research-documents').remove([storedPath]);
+    throw docError;
+  }
+
+  // Associate with research project if selected
+  if (options.projectId) {
+    const { error: projectError } = await supabase
+      .from('project_documents')
+      .insert({
+        project_id: options.projectId,
+        document_id: document.id,
+      });
+    if (projectError) console.error(`Error linking ${file.name} to its project:`, projectError);
+  }
+
+  return document;
+}
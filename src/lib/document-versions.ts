@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+import { hashBeforeUpload } from './duplicates';
+import { queueDocumentProcessing } from './processing-jobs';
+import { formatSizeLimit, getMimeTypeFromFileName, getUploadLimits, storeFile } from './document-upload';
+
+/**
+ * Versions of a research document. Uploading a new version makes it the
+ * current one and queues only that version for extraction; earlier
+ * versions keep their text and chunks, so they can be compared and chatted
+ * with.
+ */
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  file_path: string;
+  file_size: number | null;
+  content_type: string | null;
+  content_hash: string | null;
+  note: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+// Uploads are stored as `<user id>/<timestamp>-<file name>`
+export const fileNameOf = (filePath: string): string => filePath.split('/').pop()!.replace(/^\d+-/, '');
+
+/**
+ * Versions of a document, newest first, without their text
+ */
+export async function listDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('id, document_id, version_number, file_path, file_size, content_type, content_hash, note, uploaded_by, created_at')
+    .eq('document_id', documentId)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as DocumentVersion[];
+}
+
+/**
+ * Extracted text of one version, or null until it has been processed
+ */
+export async function getVersionText(documentId: string, versionNumber: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('content')
+    .eq('document_id', documentId)
+    .eq('version_number', versionNumber)
+    .single();
+
+  if (error) throw error;
+  return data?.content ?? null;
+}
+
+/**
+ * Upload a file as a document's new current version and queue it for
+ * processing
+ */
+export async function uploadDocumentVersion(
+  document: { id: string; user_id: string; content_type: string | null; content_hash?: string | null },
+  file: File,
+  note?: string
+): Promise<DocumentVersion> {
+  const { maxFileSize } = await getUploadLimits();
+  if (file.size > maxFileSize) {
+    throw new Error(`This file is larger than your team's upload limit of ${formatSizeLimit(maxFileSize)}`);
+  }
+
+  const contentHash = await hashBeforeUpload(file);
+  if (contentHash && contentHash === document.content_hash) {
+    throw new Error('This file is identical to the current version');
+  }
+
+  // Browsers leave the type empty for some extensions; keep the document's
+  const contentType = file.type || document.content_type || getMimeTypeFromFileName(file.name);
+  const filePath = await storeFile(file, contentType, { userId: document.user_id, contentHash });
+
+  const { data, error } = await supabase.rpc('add_document_version', {
+    target_document_id: document.id,
+    new_file_path: filePath,
+    new_file_size: file.size,
+    new_content_type: contentType,
+    new_content_hash: contentHash,
+    version_note: note || null,
+  });
+  if (error) {
+    await supabase.storage.from('research-documents').remove([filePath]);
+    throw error;
+  }
+
+  await queueDocumentProcessing(document.id);
+  return data as DocumentVersion;
+}
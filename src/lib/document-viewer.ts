@@ -0,0 +1,440 @@
+import { supabase } from './supabase';
+import { PAGE_BREAK, PageUnit } from './document-extraction';
+import { pageUnitOf } from './pptx-extraction';
+
+/**
+ * Reading a document in the app. The viewer shows the extracted text page by
+ * page, finds the passage a citation points at, and searches the text.
+ * Offsets are into the whole extracted text, so pages, blocks, the cited
+ * passage and search matches can all be compared directly.
+ */
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface ViewerDocument {
+  id: string;
+  title: string;
+  ownerId: string;
+  contentType: string | null;
+  filePath: string;
+  // Version shown, and the document's current version
+  version: number;
+  currentVersion: number;
+  // Extracted text, or null until the version has been processed
+  text: string | null;
+  pageUnit: PageUnit;
+}
+
+export interface ViewerPage extends TextRange {
+  // Null for text without page breaks
+  number: number | null;
+}
+
+export type ViewerBlock =
+  | { kind: 'heading'; level: number; range: TextRange }
+  | { kind: 'paragraph'; range: TextRange }
+  | { kind: 'table'; rows: TextRange[][]; headerRows: number };
+
+export interface CitedChunk {
+  content: string;
+  page_number: number | null;
+  page_end: number | null;
+  section_path: string[] | null;
+}
+
+// A highlighted run of text: inside the cited passage, a search match, an annotation, or several
+export interface HighlightSegment extends TextRange {
+  cited: boolean;
+  // Index into the search matches
+  match: number | null;
+  // Id of the annotation covering the run; the one starting last where they overlap
+  annotation: string | null;
+}
+
+export interface AnnotatedRange extends TextRange {
+  id: string;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+
+// Characters compared at each end of a passage that cannot be found whole
+const ANCHOR_LENGTH = 80;
+
+// Enough to page through; more than this and the query needs narrowing
+export const MAX_SEARCH_MATCHES = 1000;
+
+/**
+ * Route to a document in the viewer, opened at a cited chunk or page, or at
+ * an annotation's thread
+ */
+export function documentViewerPath(source: {
+  document_id: string;
+  chunk_index?: number;
+  version?: number;
+  page_number?: number | null;
+  annotation_id?: string;
+}): string {
+  const params = new URLSearchParams();
+  if (source.chunk_index !== undefined) params.set('chunk', String(source.chunk_index));
+  if (source.annotation_id) params.set('annotation', source.annotation_id);
+  if (source.version) params.set('version', String(source.version));
+  // Used when the chunk cannot be found, e.g. after the document is reprocessed
+  if (source.page_number) params.set('page', String(source.page_number));
+  const query = params.toString();
+  return `/documents/${source.document_id}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * A document's current version, or an earlier one, with its extracted text
+ */
+export async function loadViewerDocument(documentId: string, version?: number): Promise<ViewerDocument> {
+  const { data: document, error } = await supabase
+    .from('research_documents')
+    .select('id, user_id, title, content_type, file_path, content, current_version')
+    .eq('id', documentId)
+    .single();
+
+  if (error) throw error;
+
+  const currentVersion = document.current_version ?? 1;
+  const base = {
+    id: document.id,
+    title: document.title,
+    ownerId: document.user_id,
+    currentVersion,
+  };
+
+  if (!version || version === currentVersion) {
+    return {
+      ...base,
+      contentType: document.content_type,
+      filePath: document.file_path,
+      version: currentVersion,
+      text: document.content ?? null,
+      pageUnit: pageUnitOf(document.content_type ?? ''),
+    };
+  }
+
+  const { data: earlier, error: versionError } = await supabase
+    .from('document_versions')
+    .select('file_path, content_type, content')
+    .eq('document_id', documentId)
+    .eq('version_number', version)
+    .single();
+
+  if (versionError) throw versionError;
+  const contentType = earlier.content_type ?? document.content_type;
+  return {
+    ...base,
+    contentType,
+    filePath: earlier.file_path,
+    version,
+    text: earlier.content ?? null,
+    pageUnit: pageUnitOf(contentType ?? ''),
+  };
+}
+
+/**
+ * The chunk a citation points at, or null if the document has since been
+ * chunked differently
+ */
+export async function getCitedChunk(documentId: string, chunkIndex: number, version: number): Promise<CitedChunk | null> {
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('content, page_number, page_end, section_path')
+    .eq('document_id', documentId)
+    .eq('chunk_index', chunkIndex)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as CitedChunk | null;
+}
+
+/**
+ * A short-lived link to download the original file
+ */
+export async function getDownloadUrl(filePath: string): Promise<string> {
+  const { data, error } = await supabase.storage.from('research-documents').createSignedUrl(filePath, 60, { download: true });
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/**
+ * The original file, for rendering PDF pages and images next to the text
+ */
+export async function downloadOriginal(filePath: string): Promise<Blob> {
+  const { data, error } = await supabase.storage.from('research-documents').download(filePath);
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Pages of extracted text, split at page breaks
+ */
+export function splitPages(text: string): ViewerPage[] {
+  if (!text.includes(PAGE_BREAK)) return [{ number: null, start: 0, end: text.length }];
+
+  const pages: ViewerPage[] = [];
+  let start = 0;
+  text.split(PAGE_BREAK).forEach((pageText, index) => {
+    pages.push({ number: index + 1, start, end: start + pageText.length });
+    start += pageText.length + PAGE_BREAK.length;
+  });
+  return pages;
+}
+
+/**
+ * Text without whitespace, with the position of each character in the
+ * original, so passages can be matched however their lines were rejoined
+ */
+function squeeze(text: string): { squeezed: string; positions: number[] } {
+  const chars: string[] = [];
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (!/\s/.test(text[i])) {
+      chars.push(text[i]);
+      positions.push(i);
+    }
+  }
+  return { squeezed: chars.join(''), positions };
+}
+
+/**
+ * Where a chunk's text sits in the extracted text. Chunking rejoins lines
+ * and sentences, and repeats the header row of a split table, so the match
+ * ignores whitespace and falls back to the header-less rows, then to the
+ * passage's opening words.
+ */
+export function locatePassage(text: string, passage: string): TextRange | null {
+  const document = squeeze(text);
+  const toRange = (from: number, to: number): TextRange => ({
+    start: document.positions[from],
+    end: document.positions[to - 1] + 1,
+  });
+
+  const lines = passage.trim().split('\n');
+  const candidates = [passage];
+  if (lines.length > 2 && lines[0].trimStart().startsWith('|') && TABLE_SEPARATOR.test(lines[1])) {
+    candidates.push(lines.slice(2).join('\n'));
+  }
+
+  for (const candidate of candidates) {
+    const wanted = squeeze(candidate).squeezed;
+    if (!wanted) continue;
+    const index = document.squeezed.indexOf(wanted);
+    if (index !== -1) return toRange(index, index + wanted.length);
+  }
+
+  const wanted = squeeze(passage).squeezed;
+  const head = wanted.slice(0, ANCHOR_LENGTH);
+  const start = head ? document.squeezed.indexOf(head) : -1;
+  if (start === -1) return null;
+
+  const tail = wanted.slice(-ANCHOR_LENGTH);
+  const tailAt = document.squeezed.indexOf(tail, start);
+  const end = tailAt !== -1 && tailAt - start < wanted.length * 2 ? tailAt + tail.length : start + head.length;
+  return toRange(start, end);
+}
+
+/**
+ * Case-insensitive occurrences of a query, in order
+ */
+export function findMatches(text: string, query: string): TextRange[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const haystack = text.toLowerCase();
+  const matches: TextRange[] = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && matches.length < MAX_SEARCH_MATCHES) {
+    matches.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+}
+
+/**
+ * Cells of a Markdown table row, skipping escaped pipes
+ */
+function rowCells(text: string, lineStart: number, lineEnd: number): TextRange[] {
+  const pipes: number[] = [];
+  for (let i = lineStart; i < lineEnd; i++) {
+    if (text[i] === '|' && text[i - 1] !== '\\') pipes.push(i);
+  }
+
+  const cells: TextRange[] = [];
+  for (let i = 0; i < pipes.length - 1; i++) {
+    let start = pipes[i] + 1;
+    let end = pipes[i + 1];
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    cells.push({ start, end });
+  }
+  return cells;
+}
+
+/**
+ * Headings, paragraphs and tables of one page, as extractors write them
+ */
+export function pageBlocks(text: string, page: ViewerPage): ViewerBlock[] {
+  const blocks: ViewerBlock[] = [];
+  let paragraph: TextRange | null = null;
+  let rows: TextRange[][] = [];
+  let headerRows = 0;
+
+  const endParagraph = () => {
+    if (paragraph) blocks.push({ kind: 'paragraph', range: paragraph });
+    paragraph = null;
+  };
+  const endTable = () => {
+    if (rows.length > 0) blocks.push({ kind: 'table', rows, headerRows });
+    rows = [];
+    headerRows = 0;
+  };
+
+  let lineStart = page.start;
+  while (lineStart < page.end) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 || newline > page.end ? page.end : newline;
+    const line = text.slice(lineStart, lineEnd);
+    const heading = line.match(MARKDOWN_HEADING);
+
+    if (heading) {
+      endParagraph();
+      endTable();
+      blocks.push({ kind: 'heading', level: heading[1].length, range: { start: lineStart + heading[0].length, end: lineStart + line.trimEnd().length } });
+    } else if (line.trimStart().startsWith('|')) {
+      endParagraph();
+      if (TABLE_SEPARATOR.test(line)) {
+        headerRows = rows.length;
+      } else {
+        rows.push(rowCells(text, lineStart, lineEnd));
+      }
+    } else if (!line.trim()) {
+      endParagraph();
+      endTable();
+    } else {
+      endTable();
+      const end = lineStart + line.trimEnd().length;
+      paragraph = paragraph ? { start: paragraph.start, end } : { start: lineStart, end };
+    }
+    lineStart = lineEnd + 1;
+  }
+  endParagraph();
+  endTable();
+
+  return blocks;
+}
+
+const overlaps = (a: TextRange, b: TextRange) => a.start < b.end && b.start < a.end;
+
+/**
+ * Split a range of text into runs by whether they are cited, matched or
+ * annotated. Matches must be in order and not overlap, as findMatches
+ * returns them; annotations may overlap.
+ */
+export function highlightSegments(
+  range: TextRange,
+  cited: TextRange | null,
+  matches: TextRange[],
+  annotations: AnnotatedRange[] = []
+): HighlightSegment[] {
+  // First match that ends inside or after the range
+  let low = 0;
+  let high = matches.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (matches[mid].end <= range.start) low = mid + 1;
+    else high = mid;
+  }
+  const first = low;
+  let last = first;
+  while (last < matches.length && matches[last].start < range.end) last++;
+
+  const boundaries = new Set([range.start, range.end]);
+  if (cited && overlaps(cited, range)) {
+    boundaries.add(Math.max(cited.start, range.start));
+    boundaries.add(Math.min(cited.end, range.end));
+  }
+  for (let i = first; i < last; i++) {
+    boundaries.add(Math.max(matches[i].start, range.start));
+    boundaries.add(Math.min(matches[i].end, range.end));
+  }
+  const annotated = annotations.filter(annotation => overlaps(annotation, range));
+  for (const annotation of annotated) {
+    boundaries.add(Math.max(annotation.start, range.start));
+    boundaries.add(Math.min(annotation.end, range.end));
+  }
+
+  const points = [...boundaries].sort((a, b) => a - b);
+  const segments: HighlightSegment[] = [];
+  let match = first;
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    while (match < last && matches[match].end <= start) match++;
+    const covering = annotated.filter(annotation => annotation.start <= start && end <= annotation.end);
+    segments.push({
+      start,
+      end,
+      cited: Boolean(cited && cited.start <= start && end <= cited.end),
+      match: match < last && matches[match].start <= start ? match : null,
+      annotation: covering.length > 0 ? covering.reduce((a, b) => (b.start > a.start ? b : a)).id : null,
+    });
+  }
+  return segments;
+}
+
+/**
+ * The page a text offset falls on
+ */
+export function pageAt(pages: ViewerPage[], offset: number): ViewerPage | null {
+  return pages.find(page => offset >= page.start && offset <= page.end) ?? null;
+}
+
+/**
+ * Text offset of a point in the rendered text. Every run DocumentText
+ * renders carries its start offset in data-offset.
+ */
+function textOffset(node: Node, offset: number): number | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const run = node.parentElement?.closest<HTMLElement>('[data-offset]');
+    return run ? Number(run.dataset.offset) + offset : null;
+  }
+
+  // Triple-clicks and drags past the end select up to an element boundary
+  if (!(node instanceof Element)) return null;
+  if (node instanceof HTMLElement && node.dataset.offset !== undefined) {
+    return Number(node.dataset.offset) + (offset === 0 ? 0 : node.textContent?.length ?? 0);
+  }
+  const child = node.childNodes[offset];
+  if (child instanceof Element) {
+    const run = child.matches('[data-offset]') ? child : child.querySelector('[data-offset]');
+    if (run instanceof HTMLElement) return Number(run.dataset.offset);
+  }
+  const runs = node.querySelectorAll<HTMLElement>('[data-offset]');
+  const last = runs[runs.length - 1];
+  return last ? Number(last.dataset.offset) + (last.textContent?.length ?? 0) : null;
+}
+
+/**
+ * The range of extracted text selected inside a container, or null when
+ * nothing is selected there. Unescaped pipes in table cells are one
+ * character shorter on screen, so a selection after one is off by that much.
+ */
+export function selectedRange(container: HTMLElement): TextRange | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const domRange = selection.getRangeAt(0);
+  if (!container.contains(domRange.startContainer) || !container.contains(domRange.endContainer)) return null;
+
+  const start = textOffset(domRange.startContainer, domRange.startOffset);
+  const end = textOffset(domRange.endContainer, domRange.endOffset);
+  return start !== null && end !== null && end > start ? { start, end } : null;
+}
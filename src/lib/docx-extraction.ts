@@ -0,0 +1,334 @@
+import {
+  childElements,
+  DocumentExtractionError,
+  ExtractedDocument,
+  firstChild,
+  formatTable,
+  isEncryptedPackage,
+  isOleFile,
+  parseXml,
+  readZipText,
+} from './document-extraction';
+
+/**
+ * Word (.docx) text extraction. The archive is unzipped and word/document.xml
+ * walked into blocks: headings become # lines, lists keep their bullets or
+ * numbers and nesting, tables become | rows, and footnotes, endnotes and
+ * comments are collected into sections at the end.
+ */
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const MAIN_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml';
+
+interface StyleInfo {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numbering?: NumberingRef;
+}
+
+interface NumberingRef {
+  numId: string;
+  level: number;
+}
+
+interface Block {
+  text: string;
+  listItem?: boolean;
+}
+
+// Elements whose text is not part of the current document text
+const SKIPPED = new Set(['del', 'moveFrom', 'delText', 'instrText', 'rPr', 'pPr', 'Fallback', 'footnoteRef', 'endnoteRef']);
+
+const attr = (element: Element | undefined, name = 'val'): string | undefined =>
+  element?.getAttributeNS(W, name) || element?.getAttribute(`w:${name}`) || undefined;
+
+const numberingRefOf = (pPr: Element | undefined): NumberingRef | undefined => {
+  const numPr = pPr && firstChild(pPr, 'numPr');
+  const numId = attr(numPr && firstChild(numPr, 'numId'));
+  if (!numId) return undefined;
+  return { numId, level: Number(attr(firstChild(numPr, 'ilvl')) ?? 0) };
+};
+
+const outlineLevelOf = (pPr: Element | undefined): number | undefined => {
+  const value = attr(pPr && firstChild(pPr, 'outlineLvl'));
+  return value === undefined ? undefined : Number(value);
+};
+
+const parseStyles = (xml: string | undefined): Map<string, StyleInfo> => {
+  const styles = new Map<string, StyleInfo>();
+  if (!xml) return styles;
+
+  for (const style of Array.from(parseXml(xml).getElementsByTagNameNS(W, 'style'))) {
+    const pPr = firstChild(style, 'pPr');
+    styles.set(attr(style, 'styleId') ?? '', {
+      name: attr(firstChild(style, 'name')) ?? '',
+      basedOn: attr(firstChild(style, 'basedOn')),
+      outlineLevel: outlineLevelOf(pPr),
+      numbering: numberingRefOf(pPr),
+    });
+  }
+  return styles;
+};
+
+/**
+ * numId -> level -> number format ("bullet", "decimal", ...)
+ */
+const parseNumbering = (xml: string | undefined): Map<string, Map<number, string>> => {
+  const formats = new Map<string, Map<number, string>>();
+  if (!xml) return formats;
+
+  const doc = parseXml(xml);
+  const abstractFormats = new Map<string, Map<number, string>>();
+  for (const abstract of Array.from(doc.getElementsByTagNameNS(W, 'abstractNum'))) {
+    const levels = new Map<number, string>();
+    for (const level of childElements(abstract, 'lvl')) {
+      levels.set(Number(attr(level, 'ilvl') ?? 0), attr(firstChild(level, 'numFmt')) ?? 'decimal');
+    }
+    abstractFormats.set(attr(abstract, 'abstractNumId') ?? '', levels);
+  }
+  for (const num of Array.from(doc.getElementsByTagNameNS(W, 'num'))) {
+    const abstractId = attr(firstChild(num, 'abstractNumId'));
+    formats.set(attr(num, 'numId') ?? '', abstractFormats.get(abstractId ?? '') ?? new Map());
+  }
+  return formats;
+};
+
+class DocxWalker {
+  private listCounters = new Map<string, number[]>();
+  private notes: string[] = [];
+  private noteNumbers = new Map<string, number>();
+  private openComments = new Set<string>();
+  private commentAnchors = new Map<string, string>();
+
+  constructor(
+    private styles: Map<string, StyleInfo>,
+    private numbering: Map<string, Map<number, string>>,
+    private footnotes: Map<string, string>,
+    private endnotes: Map<string, string>,
+    private comments: Map<string, { author: string; text: string }>
+  ) {}
+
+  render(body: Element): string {
+    const blocks = this.blocksOf(body);
+
+    if (this.notes.length > 0) {
+      blocks.push({ text: '## Notes' }, { text: this.notes.map((note, i) => `[^${i + 1}]: ${note}`).join('\n') });
+    }
+
+    const comments = [...this.comments.entries()].filter(([, comment]) => comment.text);
+    if (comments.length > 0) {
+      blocks.push({ text: '## Comments' }, {
+        text: comments.map(([id, comment]) => {
+          const anchor = this.commentAnchors.get(id)?.trim();
+          return `- ${comment.author || 'Reviewer'}${anchor ? ` on "${anchor}"` : ''}: ${comment.text}`;
+        }).join('\n'),
+      });
+    }
+
+    // List items stay on consecutive lines; everything else is a paragraph
+    return blocks.reduce((text, block, i) => {
+      if (i === 0) return block.text;
+      return text + (block.listItem && blocks[i - 1].listItem ? '\n' : '\n\n') + block.text;
+    }, '');
+  }
+
+  private blocksOf(container: Element): Block[] {
+    const blocks: Block[] = [];
+    for (const element of childElements(container)) {
+      if (element.localName === 'p') {
+        const block = this.paragraph(element);
+        if (block) blocks.push(block);
+      } else if (element.localName === 'tbl') {
+        const table = this.table(element);
+        if (table) blocks.push({ text: table });
+      } else if (element.localName === 'sdt') {
+        const content = firstChild(element, 'sdtContent');
+        if (content) blocks.push(...this.blocksOf(content));
+      }
+    }
+    return blocks;
+  }
+
+  private styleChain(styleId: string | undefined): StyleInfo[] {
+    const chain: StyleInfo[] = [];
+    for (let style = this.styles.get(styleId ?? ''); style && chain.length < 10; style = this.styles.get(style.basedOn ?? '')) {
+      chain.push(style);
+    }
+    return chain;
+  }
+
+  private headingLevel(pPr: Element | undefined, chain: StyleInfo[]): number | null {
+    const outline = outlineLevelOf(pPr) ?? chain.find(style => style.outlineLevel !== undefined)?.outlineLevel;
+    if (outline !== undefined && outline < 9) return Math.min(outline + 1, 6);
+
+    const name = chain[0]?.name.toLowerCase() ?? '';
+    if (name === 'title') return 1;
+    const heading = name.match(/^heading\s*(\d)$/);
+    return heading ? Math.min(Number(heading[1]), 6) : null;
+  }
+
+  private listMarker(ref: NumberingRef): string | null {
+    const format = this.numbering.get(ref.numId)?.get(ref.level);
+    if (ref.numId === '0' || format === undefined || format === 'none') return null;
+    if (format === 'bullet') return '-';
+
+    const counters = this.listCounters.get(ref.numId) ?? [];
+    counters[ref.level] = (counters[ref.level] ?? 0) + 1;
+    counters.length = ref.level + 1;
+    this.listCounters.set(ref.numId, counters);
+    return `${counters[ref.level]}.`;
+  }
+
+  private paragraph(p: Element): Block | null {
+    const text = this.inlineText(p).replace(/[ \t]+\n/g, '\n').trim();
+    if (!text) return null;
+
+    const pPr = firstChild(p, 'pPr');
+    const chain = this.styleChain(attr(pPr && firstChild(pPr, 'pStyle')));
+
+    const level = this.headingLevel(pPr, chain);
+    if (level !== null) {
+      return { text: `${'#'.repeat(level)} ${text.replace(/\s+/g, ' ')}` };
+    }
+
+    const numbering = numberingRefOf(pPr) ?? chain.find(style => style.numbering)?.numbering;
+    const marker = numbering && this.listMarker(numbering);
+    if (marker) {
+      return { text: `${'  '.repeat(numbering.level)}${marker} ${text}`, listItem: true };
+    }
+    return { text };
+  }
+
+  private table(tbl: Element): string | null {
+    const rows = childElements(tbl, 'tr').map(tr =>
+      childElements(tr, 'tc').map(tc => {
+        // Continuation cells of a vertical merge repeat nothing
+        const vMerge = firstChild(firstChild(tc, 'tcPr') ?? tc, 'vMerge');
+        if (vMerge && attr(vMerge) !== 'restart') return '';
+        return this.blocksOf(tc).map(block => block.text).join(' ');
+      })
+    );
+    return rows.some(row => row.some(cell => cell.trim())) ? formatTable(rows) : null;
+  }
+
+  private noteMarker(id: string, notes: Map<string, string>, kind: string): string {
+    const key = `${kind}:${id}`;
+    if (!this.noteNumbers.has(key)) {
+      this.notes.push(notes.get(id) ?? '');
+      this.noteNumbers.set(key, this.notes.length);
+    }
+    return `[^${this.noteNumbers.get(key)}]`;
+  }
+
+  private inlineText(element: Element): string {
+    let text = '';
+    for (const child of childElements(element)) {
+      const name = child.localName;
+      if (SKIPPED.has(name)) continue;
+
+      let piece = '';
+      if (name === 't') {
+        piece = child.textContent ?? '';
+      } else if (name === 'tab') {
+        piece = '\t';
+      } else if (name === 'br' || name === 'cr') {
+        piece = '\n';
+      } else if (name === 'noBreakHyphen') {
+        piece = '-';
+      } else if (name === 'footnoteReference') {
+        piece = this.noteMarker(attr(child, 'id') ?? '', this.footnotes, 'footnote');
+      } else if (name === 'endnoteReference') {
+        piece = this.noteMarker(attr(child, 'id') ?? '', this.endnotes, 'endnote');
+      } else if (name === 'commentRangeStart') {
+        this.openComments.add(attr(child, 'id') ?? '');
+      } else if (name === 'commentRangeEnd') {
+        this.openComments.delete(attr(child, 'id') ?? '');
+      } else if (name === 'p') {
+        // Paragraphs nested in text boxes
+        piece = `\n${this.inlineText(child)}\n`;
+      } else if (name === 'AlternateContent') {
+        const choice = firstChild(child, 'Choice');
+        piece = choice ? this.inlineText(choice) : '';
+      } else {
+        // Runs, hyperlinks, insertions, fields, content controls, drawings
+        piece = this.inlineText(child);
+      }
+
+      if (name === 't' || name === 'tab') {
+        for (const id of this.openComments) {
+          this.commentAnchors.set(id, (this.commentAnchors.get(id) ?? '') + piece);
+        }
+      }
+      text += piece;
+    }
+    return text;
+  }
+}
+
+/**
+ * Note or comment elements by id, from footnotes.xml, endnotes.xml or comments.xml
+ */
+const parseNotes = (xml: string | undefined, tag: string): Map<string, Element> => {
+  const notes = new Map<string, Element>();
+  if (!xml) return notes;
+
+  for (const note of Array.from(parseXml(xml).getElementsByTagNameNS(W, tag))) {
+    // Separator "notes" hold the line drawn above the footnotes
+    if (!attr(note, 'type') || attr(note, 'type') === 'normal') {
+      notes.set(attr(note, 'id') ?? '', note);
+    }
+  }
+  return notes;
+};
+
+export async function extractDocx(data: ArrayBuffer): Promise<ExtractedDocument> {
+  if (isOleFile(data)) {
+    if (isEncryptedPackage(data)) {
+      throw new DocumentExtractionError('encrypted', 'This Word document is password-protected. Remove the password and upload it again.');
+    }
+    throw new DocumentExtractionError('invalid', 'This file is in the older binary Word format. Save it as .docx and upload it again.');
+  }
+
+  let parts: Map<string, string>;
+  try {
+    parts = await readZipText(data, name => name === '[Content_Types].xml' || (name.startsWith('word/') && name.endsWith('.xml')));
+  } catch (error) {
+    throw new DocumentExtractionError('invalid', `This file could not be read as a Word document${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  // The main part is almost always word/document.xml, but [Content_Types].xml is authoritative
+  const types = parts.get('[Content_Types].xml');
+  const override = types && Array.from(parseXml(types).getElementsByTagName('Override'))
+    .find(element => element.getAttribute('ContentType') === MAIN_CONTENT_TYPE);
+  const mainPart = override?.getAttribute('PartName')?.replace(/^\//, '') ?? 'word/document.xml';
+
+  const documentXml = parts.get(mainPart);
+  const body = documentXml && parseXml(documentXml).getElementsByTagNameNS(W, 'body')[0];
+  if (!body) {
+    throw new DocumentExtractionError('invalid', 'This file could not be read as a Word document: the document body is missing.');
+  }
+
+  const noteWalker = new DocxWalker(parseStyles(parts.get('word/styles.xml')), new Map(), new Map(), new Map(), new Map());
+  const noteText = (notes: Map<string, Element>) =>
+    new Map([...notes.entries()].map(([id, note]) => [id, noteWalker.render(note).replace(/\s+/g, ' ').trim()]));
+
+  const comments = new Map([...parseNotes(parts.get('word/comments.xml'), 'comment').entries()].map(([id, comment]) => [
+    id,
+    { author: attr(comment, 'author') ?? '', text: noteWalker.render(comment).replace(/\s+/g, ' ').trim() },
+  ]));
+
+  const walker = new DocxWalker(
+    parseStyles(parts.get('word/styles.xml')),
+    parseNumbering(parts.get('word/numbering.xml')),
+    noteText(parseNotes(parts.get('word/footnotes.xml'), 'footnote')),
+    noteText(parseNotes(parts.get('word/endnotes.xml'), 'endnote')),
+    comments
+  );
+  const text = walker.render(body);
+
+  if (!text.trim()) {
+    throw new DocumentExtractionError('empty', 'This Word document contains no text.');
+  }
+  return { text, warnings: [] };
+}
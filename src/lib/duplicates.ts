@@ -0,0 +1,266 @@
+import { supabase } from './supabase';
+
+/**
+ * Duplicate detection. Identical files share a SHA-256 content hash, checked
+ * before an upload is stored. Lightly edited copies, such as a revised CIM,
+ * are found after extraction by comparing MinHash signatures of their text.
+ */
+
+// Signature length; the estimate's standard error is about 1/sqrt(128) ≈ 0.09
+export const MINHASH_SIZE = 128;
+
+// Words per shingle
+const SHINGLE_SIZE = 5;
+
+// Estimated Jaccard similarity from which documents are listed as possible duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// Locality-sensitive hashing: signatures sharing any band are compared
+const BAND_ROWS = 4;
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  file_size: number | null;
+  status: string;
+  created_at: string;
+  content_hash: string | null;
+  text_minhash: number[] | null;
+}
+
+export interface DuplicateGroup {
+  documents: DuplicateCandidate[];
+  // True when every document in the group is the same file
+  exact: boolean;
+  // Lowest estimated similarity between linked documents
+  similarity: number;
+}
+
+const CANDIDATE_COLUMNS = 'id, title, file_size, status, created_at, content_hash, text_minhash';
+
+// Hashing reads the whole file into memory, so bigger files are uploaded
+// without the exact duplicate check; processing records their hash
+export const MAX_UPFRONT_HASH_SIZE = 100 * 1024 * 1024; // 100MB
+
+/**
+ * SHA-256 of a file, hex encoded
+ */
+export async function hashContent(data: Blob | ArrayBuffer | Uint8Array): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a file about to be uploaded, or null when it is too big to
+ * hash first
+ */
+export async function hashBeforeUpload(file: File): Promise<string | null> {
+  return file.size > MAX_UPFRONT_HASH_SIZE ? null : hashContent(file);
+}
+
+// 32-bit FNV-1a
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// MurmurHash3 finalizer, which turns one hash into many independent ones
+const mix = (hash: number): number => {
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(i + 1));
+
+/**
+ * MinHash signature of a text's word shingles, as signed 32-bit integers for
+ * an INTEGER[] column. Null when the text has no words.
+ */
+export function computeMinHash(text: string): number[] | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  const shingleCount = Math.max(words.length - SHINGLE_SIZE + 1, 1);
+  for (let i = 0; i < shingleCount; i++) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let k = 0; k < MINHASH_SIZE; k++) {
+      const value = mix(shingle ^ SEEDS[k]);
+      if (value < signature[k]) signature[k] = value;
+    }
+  }
+  return signature.map(value => value | 0);
+}
+
+/**
+ * Estimated Jaccard similarity of the texts behind two signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / length;
+}
+
+/**
+ * The signed-in user's documents that are the same file
+ */
+export async function findDocumentsByHash(contentHash: string): Promise<DuplicateCandidate[]> {
+  const { data, error } = await supabase
+    .from('research_documents')
+    .select(CANDIDATE_COLUMNS)
+    .eq('content_hash', contentHash)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as DuplicateCandidate[];
+}
+
+const pairKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+async function listDismissedPairs(): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('document_duplicate_dismissals')
+    .select('document_id, other_document_id');
+
+  if (error) throw error;
+  return new Set((data || []).map(pair => pairKey(pair.document_id, pair.other_document_id)));
+}
+
+/**
+ * Similarity of two documents as duplicates: 1 for the same file, otherwise
+ * their estimated text similarity
+ */
+const duplicateSimilarity = (a: DuplicateCandidate, b: DuplicateCandidate): number => {
+  if (a.content_hash && a.content_hash === b.content_hash) return 1;
+  if (!a.text_minhash || !b.text_minhash) return 0;
+  return estimateSimilarity(a.text_minhash, b.text_minhash);
+};
+
+/**
+ * Group the signed-in user's documents that are the same file or nearly the
+ * same text, leaving out pairs marked as not duplicates
+ */
+export async function findDuplicateGroups(): Promise<DuplicateGroup[]> {
+  const [{ data, error }, dismissed] = await Promise.all([
+    supabase.from('research_documents').select(CANDIDATE_COLUMNS).order('created_at'),
+    listDismissedPairs(),
+  ]);
+  if (error) throw error;
+  const documents = (data || []) as DuplicateCandidate[];
+
+  // Only documents sharing a hash or a signature band are compared
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(index);
+    else buckets.set(key, [index]);
+  };
+  documents.forEach((doc, index) => {
+    if (doc.content_hash) addToBucket(`file:${doc.content_hash}`, index);
+    const signature = doc.text_minhash;
+    if (!signature) return;
+    for (let band = 0; band * BAND_ROWS < signature.length; band++) {
+      addToBucket(`band:${band}:${signature.slice(band * BAND_ROWS, (band + 1) * BAND_ROWS).join(',')}`, index);
+    }
+  });
+
+  // Union-find over pairs similar enough to be duplicates
+  const parent = documents.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const compared = new Set<string>();
+  const links: { a: number; b: number; similarity: number }[] = [];
+
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = documents[bucket[i]];
+        const b = documents[bucket[j]];
+        const key = pairKey(a.id, b.id);
+        if (compared.has(key)) continue;
+        compared.add(key);
+        if (dismissed.has(key)) continue;
+
+        const similarity = duplicateSimilarity(a, b);
+        if (similarity >= NEAR_DUPLICATE_THRESHOLD) {
+          links.push({ a: bucket[i], b: bucket[j], similarity });
+          parent[find(bucket[i])] = find(bucket[j]);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, { members: Set<number>; exact: boolean; similarity: number }>();
+  for (const link of links) {
+    const root = find(link.a);
+    const group = groups.get(root) ?? { members: new Set<number>(), exact: true, similarity: 1 };
+    group.members.add(link.a).add(link.b);
+    group.similarity = Math.min(group.similarity, link.similarity);
+    group.exact = group.exact && documents[link.a].content_hash === documents[link.b].content_hash;
+    groups.set(root, group);
+  }
+
+  return Array.from(groups.values(), group => ({
+    documents: Array.from(group.members).sort((a, b) => a - b).map(index => documents[index]),
+    exact: group.exact,
+    similarity: group.similarity,
+  }));
+}
+
+/**
+ * The signed-in user's other documents that are duplicates of a document,
+ * most similar first
+ */
+export async function findDuplicatesOf(documentId: string): Promise<{ document: DuplicateCandidate; similarity: number }[]> {
+  const groups = await findDuplicateGroups();
+  const group = groups.find(candidate => candidate.documents.some(doc => doc.id === documentId));
+  if (!group) return [];
+
+  const target = group.documents.find(doc => doc.id === documentId)!;
+  return group.documents
+    .filter(doc => doc.id !== documentId)
+    .map(document => ({ document, similarity: duplicateSimilarity(target, document) }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Mark two documents as not duplicates of each other
+ */
+export async function dismissDuplicatePair(documentId: string, otherDocumentId: string, userId: string): Promise<void> {
+  const [first, second] = documentId < otherDocumentId ? [documentId, otherDocumentId] : [otherDocumentId, documentId];
+  const { error } = await supabase
+    .from('document_duplicate_dismissals')
+    .upsert({ document_id: first, other_document_id: second, user_id: userId }, { ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Merge duplicates into the document to keep. Their tags and project links
+ * move to it, and the duplicates and their files are deleted.
+ */
+export async function mergeDocuments(keepDocumentId: string, duplicateIds: string[]): Promise<void> {
+  const { data, error } = await supabase.rpc('merge_documents', {
+    keep_document_id: keepDocumentId,
+    duplicate_document_ids: duplicateIds,
+  });
+  if (error) throw error;
+
+  const paths = ((data as string[] | null) ?? []).filter(Boolean);
+  if (paths.length === 0) return;
+
+  const { error: storageError } = await supabase.storage.from('research-documents').remove(paths);
+  if (storageError) console.warn('Could not remove merged document files:', storageError);
+}
@@ -0,0 +1,70 @@
+import type { IFD } from 'utif';
+import { DocumentExtractionError, ExtractedDocument, ExtractionOptions, joinPages } from './document-extraction';
+import { DEFAULT_OCR_LANGUAGE, encodePng, lowConfidenceWarning, OcrImage, RecognizedText, withOcrWorker } from './ocr';
+
+/**
+ * Text extraction from scans and screenshots, which have no text but what
+ * OCR reads from them. Each page of a multi-page TIFF is a page of the
+ * extracted text.
+ */
+
+export const IMAGE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/tiff'];
+
+export const isImage = (contentType: string): boolean => IMAGE_CONTENT_TYPES.includes(contentType);
+
+// NewSubfileType bit 0 marks reduced-resolution copies, such as thumbnails
+const isReducedImage = (ifd: IFD): boolean => (((ifd.t254 as number[] | undefined)?.[0] ?? 0) & 1) === 1;
+
+/**
+ * Decode every full-size page of a TIFF. tesseract cannot read TIFF itself,
+ * so each page is re-encoded as a PNG.
+ */
+const tiffPages = async (data: ArrayBuffer): Promise<OcrImage[]> => {
+  const UTIF = await import('utif');
+  let pages: OcrImage[];
+  try {
+    pages = UTIF.decode(data)
+      .filter(ifd => ifd.t256 && !isReducedImage(ifd))
+      .map(ifd => {
+        UTIF.decodeImage(data, ifd);
+        return encodePng({ width: ifd.width, height: ifd.height, data: UTIF.toRGBA8(ifd) });
+      });
+  } catch (error) {
+    throw new DocumentExtractionError('invalid', `This file could not be read as a TIFF image${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+  if (pages.length === 0) {
+    throw new DocumentExtractionError('invalid', 'This TIFF file contains no images.');
+  }
+  return pages;
+};
+
+/**
+ * OCR an image upload. Throws DocumentExtractionError when the file cannot
+ * be decoded or no text is recognised in it.
+ */
+export async function extractImage(data: ArrayBuffer, contentType: string, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
+  const language = options.ocrLanguage ?? DEFAULT_OCR_LANGUAGE;
+  const images: OcrImage[] = contentType === 'image/tiff' ? await tiffPages(data) : [new Uint8Array(data)];
+
+  const results = await withOcrWorker(language, async recognize => {
+    const recognized: RecognizedText[] = [];
+    for (const image of images) {
+      recognized.push(await recognize(image));
+    }
+    return recognized;
+  });
+
+  if (results.every(result => !result.text)) {
+    throw new DocumentExtractionError('empty', 'No text was recognised in this image. If it has text, run OCR again with its language.');
+  }
+
+  const pages = results.map((result, i) => ({ page: i + 1, confidence: result.confidence }));
+  const warning = lowConfidenceWarning(pages.filter((_, i) => results[i].text), language);
+
+  return {
+    text: joinPages(results.map(result => result.text)),
+    pageCount: images.length,
+    warnings: warning ? [warning] : [],
+    ocr: { language, pages },
+  };
+}
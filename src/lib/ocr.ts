@@ -0,0 +1,158 @@
+import { zlibSync } from 'fflate';
+import type { ImageLike } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import { formatPageList, OcrPage } from './document-extraction';
+
+/**
+ * Local OCR with tesseract.js. Recognition runs on the CPU in tesseract's own
+ * web worker; nothing is sent to an AI provider. Language packs are
+ * downloaded on first use and cached in the browser.
+ */
+
+export const OCR_LANGUAGES = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'pol', label: 'Polish' },
+  { code: 'rus', label: 'Russian' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)' },
+  { code: 'jpn', label: 'Japanese' },
+  { code: 'kor', label: 'Korean' },
+];
+
+export const DEFAULT_OCR_LANGUAGE = 'eng';
+
+// Pages read with a lower mean confidence are listed in a warning
+export const LOW_OCR_CONFIDENCE = 60;
+
+export const isOcrLanguage = (code: string): boolean => OCR_LANGUAGES.some(language => language.code === code);
+
+export const ocrLanguageLabel = (code: string): string =>
+  OCR_LANGUAGES.find(language => language.code === code)?.label ?? code;
+
+// An encoded image: PNG or JPEG bytes
+export type OcrImage = Uint8Array;
+
+export interface RecognizedText {
+  text: string;
+  confidence: number;
+}
+
+const env = import.meta.env;
+
+// tesseract joins paragraphs with blank lines and pads them with spaces
+const tidy = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Run `work` with a recognizer for `language`. One worker serves every page
+ * of a document and is terminated when `work` settles. Under Node (see
+ * ingestion-worker.ts) tesseract.js runs in a worker thread instead.
+ */
+export async function withOcrWorker<T>(
+  language: string,
+  work: (recognize: (image: OcrImage) => Promise<RecognizedText>) => Promise<T>
+): Promise<T> {
+  if (!isOcrLanguage(language)) {
+    throw new Error(`Unsupported OCR language: ${language}`);
+  }
+
+  const { createWorker, OEM } = await import('tesseract.js');
+  const worker = await createWorker(language, OEM.LSTM_ONLY, {
+    ...(typeof window !== 'undefined' && { workerPath: tesseractWorkerUrl }),
+    ...(env.VITE_OCR_CORE_PATH && { corePath: env.VITE_OCR_CORE_PATH }),
+    ...(env.VITE_OCR_LANG_PATH && { langPath: env.VITE_OCR_LANG_PATH }),
+  });
+
+  try {
+    return await work(async image => {
+      // tesseract.js reads any byte array, though its types only name Node's Buffer
+      const { data } = await worker.recognize(image as unknown as ImageLike);
+      return { text: tidy(data.text), confidence: Math.round(data.confidence) };
+    });
+  } finally {
+    await worker.terminate();
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(Array.from(type, c => c.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Encode RGBA pixels as an RGB PNG, composited on white. tesseract reads
+ * encoded images the same way in the browser and under Node, where there is
+ * no DOM canvas to hand it.
+ */
+export const encodePng = ({ width, height, data }: { width: number; height: number; data: ArrayLike<number> }): Uint8Array => {
+  const rowSize = width * 3 + 1;
+  const pixels = new Uint8Array(rowSize * height);
+  for (let y = 0; y < height; y++) {
+    // Each row starts with filter type 0, none
+    let offset = y * rowSize + 1;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3];
+      const white = 255 * (255 - alpha);
+      pixels[offset++] = Math.round((data[i] * alpha + white) / 255);
+      pixels[offset++] = Math.round((data[i + 1] * alpha + white) / 255);
+      pixels[offset++] = Math.round((data[i + 2] * alpha + white) / 255);
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibSync(pixels, { level: 1 })),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+};
+
+/**
+ * Warn about pages whose OCR text is likely to be wrong
+ */
+export const lowConfidenceWarning = (pages: OcrPage[], language: string): string | null => {
+  const low = pages.filter(page => page.confidence < LOW_OCR_CONFIDENCE).map(page => page.page);
+  if (low.length === 0) return null;
+  return `OCR confidence is low on page${low.length === 1 ? '' : 's'} ${formatPageList(low)}. Check the scan quality, or run OCR again if the text is not in ${ocrLanguageLabel(language)}.`;
+};
@@ -0,0 +1,372 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { DocumentExtractionError, ExtractedDocument, ExtractionOptions, formatPageList, formatTable, joinPages, OcrResult } from './document-extraction';
+import { DEFAULT_OCR_LANGUAGE, encodePng, lowConfidenceWarning, OcrImage, withOcrWorker } from './ocr';
+
+/**
+ * PDF text extraction with pdf.js. Parsing runs in pdf.js's own web worker;
+ * this module rebuilds lines, reading order, headings and simple tables from
+ * the positioned text runs it returns.
+ */
+
+interface Fragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  fragments: Fragment[];
+}
+
+// Pages with less text than this are checked for images, i.e. scanned
+const MIN_PAGE_CHARACTERS = 10;
+// Horizontal gap, in font sizes, that separates table cells or columns
+const CELL_GAP = 2;
+// Font size ratios to body text for the two heading levels
+const HEADING_RATIO = 1.2;
+const TITLE_RATIO = 1.6;
+// Scanned pages are rendered at 300 dpi for OCR, within canvas size limits
+const OCR_DPI = 300;
+const MAX_OCR_SIDE = 5000;
+
+export const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs;
+};
+
+const isTextItem = (item: object): item is TextItem => 'str' in item;
+
+const lineText = (fragments: Fragment[]): string =>
+  fragments.reduce((text, fragment, i) => {
+    if (i === 0) return fragment.text;
+    const previous = fragments[i - 1];
+    const gap = fragment.x - (previous.x + previous.width);
+    const needsSpace = gap > fragment.size * 0.15 && !/\s$/.test(text) && !/^\s/.test(fragment.text);
+    return text + (needsSpace ? ' ' : '') + fragment.text;
+  }, '').trim();
+
+/**
+ * Split a line where runs are far enough apart to be separate cells
+ */
+const segmentsOf = (line: Line): Fragment[][] => {
+  const segments: Fragment[][] = [];
+  for (const fragment of line.fragments) {
+    const current = segments[segments.length - 1];
+    const previous = current?.[current.length - 1];
+    if (previous && fragment.x - (previous.x + previous.width) <= line.size * CELL_GAP) {
+      current.push(fragment);
+    } else {
+      segments.push([fragment]);
+    }
+  }
+  return segments;
+};
+
+const groupLines = (fragments: Fragment[]): Line[] => {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Line[] = [];
+  for (const fragment of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - fragment.y) <= Math.max(line.size, fragment.size) * 0.5) {
+      line.fragments.push(fragment);
+      line.size = Math.max(line.size, fragment.size);
+    } else {
+      lines.push({ y: fragment.y, size: fragment.size, fragments: [fragment] });
+    }
+  }
+  for (const line of lines) {
+    line.fragments.sort((a, b) => a.x - b.x);
+  }
+  return lines;
+};
+
+/**
+ * The x position of a gutter between two text columns, if the page has one.
+ * Most lines must have prose on both sides of it and almost none may cross it.
+ */
+const findGutter = (lines: Line[], pageWidth: number): number | null => {
+  if (lines.length < 6) return null;
+
+  for (let x = pageWidth * 0.35; x <= pageWidth * 0.65; x += pageWidth * 0.01) {
+    let crossing = 0;
+    let bothSides = 0;
+    let leftWidth = 0;
+    for (const line of lines) {
+      if (line.fragments.some(f => f.x < x && f.x + f.width > x)) {
+        crossing++;
+        continue;
+      }
+      const left = line.fragments.filter(f => f.x + f.width <= x);
+      if (left.length > 0 && left.length < line.fragments.length) {
+        bothSides++;
+        leftWidth += Math.max(...left.map(f => f.x + f.width)) - Math.min(...left.map(f => f.x));
+      }
+    }
+    // Label/value tables also split down the middle, but their cells are narrow
+    if (crossing <= lines.length * 0.1 && bothSides >= lines.length * 0.5 && leftWidth / bothSides >= pageWidth * 0.25) {
+      return x;
+    }
+  }
+  return null;
+};
+
+/**
+ * Lines in reading order: down the left column, then down the right one.
+ * Lines that span the gutter, such as titles, keep their place between column blocks.
+ */
+const inReadingOrder = (lines: Line[], pageWidth: number): Line[] => {
+  const gutter = findGutter(lines, pageWidth);
+  if (gutter === null) return lines;
+
+  const ordered: Line[] = [];
+  let left: Line[] = [];
+  let right: Line[] = [];
+  const flush = () => {
+    ordered.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  for (const line of lines) {
+    if (line.fragments.some(f => f.x < gutter && f.x + f.width > gutter)) {
+      flush();
+      ordered.push(line);
+      continue;
+    }
+    const leftFragments = line.fragments.filter(f => f.x < gutter);
+    const rightFragments = line.fragments.filter(f => f.x >= gutter);
+    if (leftFragments.length > 0) left.push({ ...line, fragments: leftFragments });
+    if (rightFragments.length > 0) right.push({ ...line, fragments: rightFragments });
+  }
+  flush();
+  return ordered;
+};
+
+const bodySizeOf = (lines: Line[]): number => {
+  // The size that covers the most characters
+  const characters = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size);
+    characters.set(size, (characters.get(size) || 0) + lineText(line.fragments).length);
+  }
+  return [...characters.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+};
+
+/**
+ * Turn a page's lines into text, marking headings with # and runs of aligned
+ * multi-cell lines as | separated tables
+ */
+const renderPage = (lines: Line[], bodySize: number): string => {
+  const blocks: string[] = [];
+  let paragraph = '';
+  let previous: Line | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph) blocks.push(paragraph);
+    paragraph = '';
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Tables: two or more consecutive lines with the same number of cells
+    const cells = segmentsOf(line).length;
+    if (cells >= 2) {
+      let end = i + 1;
+      while (end < lines.length && segmentsOf(lines[end]).length === cells) end++;
+      if (end - i >= 2 && (cells >= 3 || end - i >= 3)) {
+        flushParagraph();
+        blocks.push(formatTable(lines.slice(i, end).map(row => segmentsOf(row).map(lineText))));
+        previous = lines[end - 1];
+        i = end - 1;
+        continue;
+      }
+    }
+
+    const text = lineText(line.fragments);
+    if (!text) continue;
+
+    const ratio = bodySize > 0 ? line.size / bodySize : 1;
+    if (ratio >= HEADING_RATIO && text.length <= 120) {
+      flushParagraph();
+      const marker = ratio >= TITLE_RATIO ? '#' : '##';
+      const last = blocks[blocks.length - 1];
+      // A heading that wraps onto a second line continues the same heading
+      if (previous && Math.round(previous.size) === Math.round(line.size) && last?.startsWith(`${marker} `)) {
+        blocks[blocks.length - 1] = `${last} ${text}`;
+      } else {
+        blocks.push(`${marker} ${text}`);
+      }
+      previous = line;
+      continue;
+    }
+
+    const gap = previous ? previous.y - line.y : 0;
+    if (previous && gap > line.size * 1.8) {
+      flushParagraph();
+    }
+
+    if (!paragraph) {
+      paragraph = text;
+    } else if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(text)) {
+      // Rejoin words hyphenated across a line break
+      paragraph = paragraph.slice(0, -1) + text;
+    } else {
+      paragraph += `\n${text}`;
+    }
+    previous = line;
+  }
+  flushParagraph();
+
+  return blocks.join('\n\n');
+};
+
+const pageFragments = (items: object[]): Fragment[] =>
+  items.filter(isTextItem).flatMap(item => {
+    if (!item.str.trim()) return [];
+    const [, , c, d, x, y] = item.transform as number[];
+    return [{ text: item.str, x, y, width: item.width, size: Math.hypot(c, d) || item.height || 1 }];
+  });
+
+const hasImages = async (page: PDFPageProxy, ops: Record<string, number>): Promise<boolean> => {
+  const imageOps = new Set([ops.paintImageXObject, ops.paintInlineImageXObject, ops.paintImageMaskXObject]);
+  const operators = await page.getOperatorList();
+  return operators.fnArray.some(fn => imageOps.has(fn));
+};
+
+// pdf.js creates canvases in the DOM, or on @napi-rs/canvas under Node
+interface CanvasFactory {
+  create(width: number, height: number): { canvas: unknown; context: CanvasRenderingContext2D };
+  destroy(canvasAndContext: { canvas: unknown; context: CanvasRenderingContext2D }): void;
+}
+
+/**
+ * Render a page for OCR, as a PNG
+ */
+const renderForOcr = async (page: PDFPageProxy, canvasFactory: CanvasFactory): Promise<OcrImage> => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: Math.min(OCR_DPI / 72, MAX_OCR_SIDE / Math.max(width, height)) });
+  const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  try {
+    const { context } = canvasAndContext;
+    await page.render({ canvasContext: context, viewport }).promise;
+    return encodePng(context.getImageData(0, 0, context.canvas.width, context.canvas.height));
+  } finally {
+    canvasFactory.destroy(canvasAndContext);
+  }
+};
+
+const hasText = (text: string): boolean => text.replace(/\s/g, '').length >= MIN_PAGE_CHARACTERS;
+
+/**
+ * Extract text page by page. Pages without a text layer are read with OCR.
+ * Throws DocumentExtractionError for encrypted, damaged or empty files, and
+ * for scanned files OCR finds no text in; scanned pages that stay unreadable
+ * in an otherwise readable file are reported as warnings.
+ */
+export async function extractPdf(data: ArrayBuffer, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
+  const pdfjs = await loadPdfjs();
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      // Uploaded files are untrusted; never compile fonts to functions
+      isEvalSupported: false,
+      disableFontFace: true,
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new DocumentExtractionError('encrypted', 'This PDF is password-protected. Remove the password and upload it again.');
+    }
+    throw new DocumentExtractionError(
+      'invalid',
+      `This file could not be read as a PDF${error instanceof Error ? `: ${error.message}` : ''}`
+    );
+  }
+
+  try {
+    const pages: string[] = [];
+    const scannedPages: number[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      try {
+        const { width } = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+        const lines = inReadingOrder(groupLines(pageFragments(content.items)), width);
+        const text = renderPage(lines, bodySizeOf(lines));
+
+        if (!hasText(text) && (await hasImages(page, pdfjs.OPS))) {
+          scannedPages.push(pageNumber);
+        }
+        pages.push(text);
+      } finally {
+        page.cleanup();
+      }
+    }
+
+    const warnings: string[] = [];
+    let ocr: OcrResult | undefined;
+    let unreadPages = scannedPages;
+    let ocrError: string | null = null;
+
+    if (scannedPages.length > 0) {
+      const language = options.ocrLanguage ?? DEFAULT_OCR_LANGUAGE;
+      try {
+        const recognized = await withOcrWorker(language, async recognize => {
+          const results: { page: number; text: string; confidence: number }[] = [];
+          for (const pageNumber of scannedPages) {
+            const page = await pdf.getPage(pageNumber);
+            try {
+              const image = await renderForOcr(page, pdf.canvasFactory as CanvasFactory);
+              results.push({ page: pageNumber, ...(await recognize(image)) });
+            } finally {
+              page.cleanup();
+            }
+          }
+          return results;
+        });
+
+        for (const result of recognized) {
+          pages[result.page - 1] = result.text;
+        }
+        ocr = { language, pages: recognized.map(({ page, confidence }) => ({ page, confidence })) };
+        unreadPages = recognized.filter(result => !hasText(result.text)).map(result => result.page);
+        const lowConfidence = lowConfidenceWarning(ocr.pages.filter(page => !unreadPages.includes(page.page)), language);
+        if (lowConfidence) warnings.push(lowConfidence);
+      } catch (error) {
+        console.error('OCR failed:', error);
+        ocrError = error instanceof Error ? error.message : String(error);
+        warnings.push(`OCR failed: ${ocrError}`);
+      }
+    }
+
+    if (unreadPages.length === pdf.numPages) {
+      throw new DocumentExtractionError(
+        'scanned',
+        ocrError
+          ? `This PDF is scanned images with no text layer, and OCR failed: ${ocrError}`
+          : 'This PDF is scanned images and OCR found no text in them. If they have text, run OCR again with their language.'
+      );
+    }
+    if (pages.every(page => !page.trim())) {
+      throw new DocumentExtractionError('empty', 'This PDF contains no text.');
+    }
+
+    if (unreadPages.length > 0) {
+      warnings.unshift(`Page${unreadPages.length === 1 ? '' : 's'} ${formatPageList(unreadPages)} ${unreadPages.length === 1 ? 'is a scanned image' : 'are scanned images'} with no text layer and could not be read.`);
+    }
+
+    return { text: joinPages(pages), pageCount: pdf.numPages, warnings, ocr };
+  } finally {
+    await pdf.destroy();
+  }
+}
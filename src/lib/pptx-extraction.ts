@@ -0,0 +1,233 @@
+import {
+  childElements,
+  DocumentExtractionError,
+  ExtractedDocument,
+  firstChild,
+  formatPageList,
+  formatTable,
+  isEncryptedPackage,
+  isOleFile,
+  joinPages,
+  PageUnit,
+  parseXml,
+  readZipText,
+  relsPath,
+  resolvePart,
+} from './document-extraction';
+
+/**
+ * PowerPoint (.pptx) text extraction. Slides are read in presentation order,
+ * each one a page of the extracted text, so chunks and citations carry slide
+ * numbers. A slide renders as its title, the text of its shapes and tables,
+ * then its speaker notes.
+ */
+
+export const PPTX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export const pageUnitOf = (contentType: string): PageUnit => (contentType === PPTX_CONTENT_TYPE ? 'slide' : 'page');
+
+// Placeholders that repeat on every slide rather than belonging to one
+const SKIPPED_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'hdr', 'sldImg']);
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+// Placeholders whose paragraphs are bullets unless they say otherwise
+const BULLETED_PLACEHOLDERS = new Set(['body', 'obj']);
+
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+/**
+ * The placeholder type of a shape, if it is one. A placeholder without a
+ * type is a content placeholder.
+ */
+const placeholderType = (shape: Element): string | undefined => {
+  const properties = firstChild(shape, 'nvSpPr');
+  const nvPr = properties && firstChild(properties, 'nvPr');
+  const placeholder = nvPr && firstChild(nvPr, 'ph');
+  return placeholder ? placeholder.getAttribute('type') || 'obj' : undefined;
+};
+
+const paragraphText = (paragraph: Element): string =>
+  childElements(paragraph)
+    .map(child => {
+      if (child.localName === 'r' || child.localName === 'fld') return firstChild(child, 't')?.textContent ?? '';
+      if (child.localName === 'br') return '\n';
+      return '';
+    })
+    .join('');
+
+const isBulleted = (paragraph: Element, bulletedByDefault: boolean): boolean => {
+  const properties = firstChild(paragraph, 'pPr');
+  if (properties && firstChild(properties, 'buNone')) return false;
+  if (properties && (firstChild(properties, 'buChar') || firstChild(properties, 'buAutoNum'))) return true;
+  return bulletedByDefault;
+};
+
+const renderTextBody = (body: Element, bulletedByDefault: boolean): string =>
+  childElements(body, 'p')
+    .map(paragraph => {
+      const text = paragraphText(paragraph).trim();
+      if (!text) return '';
+      const level = Number(firstChild(paragraph, 'pPr')?.getAttribute('lvl') ?? 0);
+      return isBulleted(paragraph, bulletedByDefault) ? `${'  '.repeat(level)}- ${text}` : text;
+    })
+    .filter(Boolean)
+    .join('\n');
+
+const renderTable = (table: Element): string => {
+  const rows = childElements(table, 'tr').map(row =>
+    childElements(row, 'tc').map(cell => {
+      // Cells covered by a merged cell repeat nothing
+      if (cell.getAttribute('hMerge') === '1' || cell.getAttribute('vMerge') === '1') return '';
+      const body = firstChild(cell, 'txBody');
+      return body ? childElements(body, 'p').map(paragraphText).join(' ').trim() : '';
+    })
+  );
+  return rows.some(row => row.some(Boolean)) ? formatTable(rows) : '';
+};
+
+interface SlideContent {
+  title: string;
+  blocks: string[];
+  hasPictures: boolean;
+}
+
+/**
+ * Collect the text of a shape tree in document order, descending into groups.
+ * Notes pages only contribute their body placeholder, which reads as prose.
+ */
+const readShapes = (tree: Element, content: SlideContent, notes = false) => {
+  for (const shape of childElements(tree)) {
+    switch (shape.localName) {
+      case 'sp': {
+        const type = placeholderType(shape);
+        if (type && SKIPPED_PLACEHOLDERS.has(type)) break;
+        if (notes && type !== 'body') break;
+        const body = firstChild(shape, 'txBody');
+        if (!body) break;
+
+        if (type && TITLE_PLACEHOLDERS.has(type) && !content.title) {
+          content.title = childElements(body, 'p').map(paragraphText).join(' ').replace(/\s+/g, ' ').trim();
+        } else {
+          const text = renderTextBody(body, !notes && !!type && BULLETED_PLACEHOLDERS.has(type));
+          if (text) content.blocks.push(text);
+        }
+        break;
+      }
+      case 'graphicFrame': {
+        const table = elements(shape, 'tbl')[0];
+        const text = table ? renderTable(table) : '';
+        if (text) content.blocks.push(text);
+        break;
+      }
+      case 'pic':
+        content.hasPictures = true;
+        break;
+      case 'grpSp':
+        readShapes(shape, content, notes);
+        break;
+      case 'AlternateContent': {
+        const choice = firstChild(shape, 'Choice') ?? firstChild(shape, 'Fallback');
+        if (choice) readShapes(choice, content, notes);
+        break;
+      }
+    }
+  }
+};
+
+const shapeTreeOf = (xml: string | undefined): Element | undefined =>
+  xml ? elements(parseXml(xml), 'spTree')[0] : undefined;
+
+/**
+ * Extract text slide by slide, with PAGE_BREAK between slides. Throws
+ * DocumentExtractionError for password-protected, legacy, damaged or
+ * textless presentations; slides that are only pictures are reported as
+ * warnings.
+ */
+export async function extractPptx(data: ArrayBuffer): Promise<ExtractedDocument> {
+  if (isOleFile(data)) {
+    if (isEncryptedPackage(data)) {
+      throw new DocumentExtractionError('encrypted', 'This presentation is password-protected. Remove the password and upload it again.');
+    }
+    throw new DocumentExtractionError('invalid', 'This file is in the older binary PowerPoint format. Save it as .pptx and upload it again.');
+  }
+
+  let parts: Map<string, string>;
+  try {
+    parts = await readZipText(data, name => name.endsWith('.xml') || name.endsWith('.rels'));
+  } catch (error) {
+    throw new DocumentExtractionError('invalid', `This file could not be read as a PowerPoint presentation${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  const packageRels = parts.get('_rels/.rels');
+  const officeDocument = packageRels && elements(parseXml(packageRels), 'Relationship')
+    .find(rel => rel.getAttribute('Type')?.endsWith('/officeDocument'));
+  const presentationPart = officeDocument ? resolvePart('', officeDocument.getAttribute('Target') ?? '') : 'ppt/presentation.xml';
+
+  const presentationXml = parts.get(presentationPart);
+  if (!presentationXml) {
+    throw new DocumentExtractionError('invalid', 'This file could not be read as a PowerPoint presentation: the presentation part is missing.');
+  }
+
+  const relationshipsOf = (part: string): Element[] => {
+    const xml = parts.get(relsPath(part));
+    return xml ? elements(parseXml(xml), 'Relationship') : [];
+  };
+  const slideTargets = new Map(
+    relationshipsOf(presentationPart).map(rel => [rel.getAttribute('Id') ?? '', resolvePart(presentationPart, rel.getAttribute('Target') ?? '')])
+  );
+
+  // Slide order is the order of the slide id list, not of the part names
+  const slideParts = elements(parseXml(presentationXml), 'sldId').flatMap(slideId => {
+    const id = Array.from(slideId.attributes).find(attribute => attribute.localName === 'id' && attribute.prefix)?.value ?? '';
+    const part = slideTargets.get(id);
+    return part && parts.has(part) ? [part] : [];
+  });
+
+  const pictureOnlySlides: number[] = [];
+  let slidesWithText = 0;
+  const slides = slideParts.map((part, index) => {
+    const number = index + 1;
+    const slideXml = parseXml(parts.get(part) ?? '');
+    const content: SlideContent = { title: '', blocks: [], hasPictures: false };
+    const tree = elements(slideXml, 'spTree')[0];
+    if (tree) readShapes(tree, content);
+
+    const notesRel = relationshipsOf(part).find(rel => rel.getAttribute('Type')?.endsWith('/notesSlide'));
+    const notesTree = notesRel && shapeTreeOf(parts.get(resolvePart(part, notesRel.getAttribute('Target') ?? '')));
+    const notes: SlideContent = { title: '', blocks: [], hasPictures: false };
+    if (notesTree) readShapes(notesTree, notes, true);
+
+    if (content.title || content.blocks.length > 0 || notes.blocks.length > 0) {
+      slidesWithText++;
+    } else if (content.hasPictures) {
+      pictureOnlySlides.push(number);
+    }
+
+    const hidden = slideXml.documentElement?.getAttribute('show') === '0';
+    const blocks = [`## Slide ${number}${content.title ? `: ${content.title}` : ''}${hidden ? ' (hidden)' : ''}`, ...content.blocks];
+    if (notes.blocks.length > 0) {
+      blocks.push(`### Speaker notes\n${notes.blocks.join('\n')}`);
+    }
+    return blocks.join('\n\n');
+  });
+
+  if (slides.length === 0) {
+    throw new DocumentExtractionError('empty', 'This presentation has no slides.');
+  }
+  if (slidesWithText === 0 && pictureOnlySlides.length > 0) {
+    throw new DocumentExtractionError(
+      'scanned',
+      'The slides in this presentation are pictures with no text. Export it as a PDF to have the slides read with OCR.'
+    );
+  }
+
+  if (slidesWithText === 0) {
+    throw new DocumentExtractionError('empty', 'This presentation contains no text.');
+  }
+
+  const warnings = pictureOnlySlides.length > 0
+    ? [`Slide${pictureOnlySlides.length === 1 ? '' : 's'} ${formatPageList(pictureOnlySlides)} ${pictureOnlySlides.length === 1 ? 'is a picture' : 'are pictures'} with no text and could not be read.`]
+    : [];
+
+  return { text: joinPages(slides), pageCount: slides.length, warnings };
+}
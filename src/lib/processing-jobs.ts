@@ -0,0 +1,217 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { errorMessage, supabase } from './supabase';
+import { AIProcessingService } from './ai';
+import { DocumentExtractionError, type ExtractionOptions } from './document-extraction';
+
+/**
+ * Durable document processing. Uploads and reprocessing enqueue a job; an
+ * ingestion worker (see ingestion-worker.ts) claims it, runs the pipeline as
+ * the document's owner and retries it with backoff when it fails.
+ */
+
+export type ProcessingStage = 'extract' | 'analyse' | 'chunk' | 'embed' | 'tag';
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ProcessingJob {
+  id: string;
+  document_id: string;
+  user_id: string;
+  status: ProcessingJobStatus;
+  stage: ProcessingStage;
+  progress: number;
+  options: ExtractionOptions;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  run_after: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  extract: 'Extracting text',
+  analyse: 'Analysing',
+  chunk: 'Chunking',
+  embed: 'Embedding',
+  tag: 'Tagging',
+};
+
+export const isActiveJob = (job: ProcessingJob): boolean => job.status === 'queued' || job.status === 'running';
+
+// A claimed job belongs to its worker until the lease runs out
+export const JOB_LEASE_SECONDS = 300;
+
+const HEARTBEAT_MS = (JOB_LEASE_SECONDS / 3) * 1000;
+
+// Progress is written at most this often
+const PROGRESS_INTERVAL_MS = 2000;
+
+/**
+ * Queue a document for processing. Returns the document's existing job if it
+ * is already queued or running.
+ */
+export async function enqueueProcessingJob(documentId: string, options: ExtractionOptions = {}): Promise<ProcessingJob> {
+  const { data, error } = await supabase.rpc('enqueue_processing_job', {
+    target_document_id: documentId,
+    job_options: options,
+  });
+
+  if (error) throw error;
+  return data as ProcessingJob;
+}
+
+/**
+ * Queued and running jobs of the signed-in user
+ */
+export async function listActiveProcessingJobs(): Promise<ProcessingJob[]> {
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .in('status', ['queued', 'running'])
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as ProcessingJob[];
+}
+
+/**
+ * Follow changes to a user's jobs. Returns a function that unsubscribes.
+ */
+export function subscribeToProcessingJobs(userId: string, onChange: (job: ProcessingJob) => void): () => void {
+  const channel = supabase
+    .channel(`processing-jobs:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'processing_jobs', filter: `user_id=eq.${userId}` },
+      payload => {
+        if (payload.new && 'id' in payload.new) onChange(payload.new as ProcessingJob);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Claim the next due job, or `jobId` only. Workers pass their service role
+ * client; a tab processing its own uploads passes the signed-in one.
+ */
+export async function claimProcessingJob(
+  client: SupabaseClient,
+  workerId: string,
+  jobId?: string
+): Promise<ProcessingJob | null> {
+  const { data, error } = await client.rpc('claim_processing_job', {
+    worker_id: workerId,
+    lease_seconds: JOB_LEASE_SECONDS,
+    target_job_id: jobId ?? null,
+  });
+
+  if (error) throw error;
+  return ((data as ProcessingJob[] | null) ?? [])[0] ?? null;
+}
+
+/**
+ * Renew the lease on a job this worker holds, with its progress if given
+ */
+async function reportJob(job: ProcessingJob, progress?: { stage: ProcessingStage; progress: number }): Promise<void> {
+  const { error } = await supabase.rpc('report_processing_job', {
+    target_job_id: job.id,
+    worker_id: job.locked_by,
+    lease_seconds: JOB_LEASE_SECONDS,
+    job_stage: progress?.stage ?? null,
+    job_progress: progress?.progress ?? null,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Run a claimed job as its owner, who must be signed in on the shared
+ * client. How the run ended is recorded by finish_processing_job, which
+ * fails at once what another attempt cannot fix, such as a file with no
+ * text, and queues other failures again with backoff until the job runs
+ * out of attempts.
+ */
+export async function runProcessingJob(job: ProcessingJob): Promise<ProcessingJobStatus> {
+  let lastWrite = 0;
+  let lastStage = job.stage;
+
+  // Long steps such as OCR report no progress, so the lease is also renewed on a timer
+  const heartbeat = setInterval(() => {
+    reportJob(job).catch(error => console.warn('Could not renew job lease:', error));
+  }, HEARTBEAT_MS);
+
+  const onProgress = (stage: ProcessingStage, progress: number) => {
+    const now = Date.now();
+    if (stage === lastStage && now - lastWrite < PROGRESS_INTERVAL_MS) return;
+    lastStage = stage;
+    lastWrite = now;
+    reportJob(job, { stage, progress }).catch(error => console.warn('Could not record job progress:', error));
+  };
+
+  let outcome: { processed_version: number } | { error_message: string; retryable: boolean };
+  try {
+    outcome = { processed_version: await AIProcessingService.processDocument(job.document_id, { ...job.options, onProgress }) };
+  } catch (error) {
+    console.error(`Processing job ${job.id} failed on attempt ${job.attempts}:`, error);
+    outcome = {
+      error_message: errorMessage(error, 'Processing failed'),
+      retryable: !(error instanceof DocumentExtractionError),
+    };
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  const { data, error } = await supabase.rpc('finish_processing_job', {
+    target_job_id: job.id,
+    worker_id: job.locked_by,
+    ...outcome,
+  });
+
+  if (error) throw error;
+  return data as ProcessingJobStatus;
+}
+
+export const processesInBrowser = (): boolean => import.meta.env.VITE_PROCESS_IN_BROWSER === 'true';
+
+const browserWorkerId = (): string => `browser:${crypto.randomUUID()}`;
+
+/**
+ * Run the signed-in user's due jobs in this tab, one at a time: retries and
+ * jobs left behind by a closed tab, when there is no ingestion worker.
+ */
+export async function runDueJobsInBrowser(): Promise<void> {
+  const workerId = browserWorkerId();
+  for (let job = await claimProcessingJob(supabase, workerId); job; job = await claimProcessingJob(supabase, workerId)) {
+    await runProcessingJob(job);
+  }
+}
+
+/**
+ * Queue a document for the ingestion worker. With VITE_PROCESS_IN_BROWSER
+ * set, for setups without a worker, this tab claims and runs the job itself;
+ * if the tab closes midway the job's lease expires and it is picked up again.
+ */
+export async function queueDocumentProcessing(documentId: string, options: ExtractionOptions = {}): Promise<ProcessingJob> {
+  const job = await enqueueProcessingJob(documentId, options);
+
+  if (processesInBrowser()) {
+    const claimed = await claimProcessingJob(supabase, browserWorkerId(), job.id);
+    if (claimed) {
+      // A job requeued for a newer version is due at once
+      runProcessingJob(claimed)
+        .then(status => (status === 'queued' ? runDueJobsInBrowser() : undefined))
+        .catch(error => console.error('Error processing document in browser:', error));
+    }
+  }
+
+  return job;
+}
@@ -0,0 +1,527 @@
+import { z } from 'zod';
+import { supabase, getCurrentTeamId } from './supabase';
+import { aiConfig, getChatProvider } from './ai-providers';
+import { describeModel, modelRouter } from './ai-routing';
+import { RAGContext, RAGSettings, RAGSystem, RAG_SETTINGS, SearchResult } from './rag';
+
+// Golden-set evaluation for the RAG pipeline. A set holds questions over one
+// corpus with the documents a good retrieval should find and a reference
+// answer; a run asks every question through RAGSystem with the configured
+// providers (including the offline mock) and stores the scores next to the
+// pipeline configuration, so runs before and after a change can be compared.
+
+export interface EvalCase {
+  id?: string;
+  question: string;
+  expected_document_ids: string[];
+  expected_answer: string | null;
+}
+
+export interface EvalSet {
+  id: string;
+  name: string;
+  description: string | null;
+  project_id: string | null;
+  team_id: string | null;
+  created_at: string;
+  cases: EvalCase[];
+}
+
+export interface EvalSetDraft {
+  id?: string;
+  name: string;
+  description?: string | null;
+  project_id: string | null;
+  cases: EvalCase[];
+}
+
+export interface EvalRunConfig {
+  k: number;
+  generateAnswers: boolean;
+  chatProvider: string;
+  answerModel: string;
+  embeddingProviders: string[];
+  embeddingModel: string | null;
+  settings: RAGSettings;
+  // SHA-256 prefix of the answer prompt template
+  promptHash: string;
+}
+
+export interface EvalCaseResult {
+  question: string;
+  expectedDocumentIds: string[];
+  retrievedDocumentIds: string[];
+  citedDocumentIds: string[];
+  answer: string | null;
+  model: string | null;
+  recallAtK: number | null;
+  reciprocalRank: number | null;
+  citationAccuracy: number | null;
+  faithfulness: number | null;
+  answerOverlap: number | null;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface EvalMetrics {
+  cases: number;
+  errors: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  citationAccuracy: number | null;
+  faithfulness: number | null;
+  answerOverlap: number | null;
+  avgLatencyMs: number;
+}
+
+export interface EvalRun {
+  id: string;
+  set_id: string;
+  label: string | null;
+  config: EvalRunConfig;
+  metrics: EvalMetrics;
+  results: EvalCaseResult[];
+  created_at: string;
+}
+
+export interface RunOptions {
+  k?: number;
+  generateAnswers?: boolean;
+  label?: string;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Metric names in report order, with what a higher score means
+export const EVAL_METRICS: { key: keyof EvalMetrics; label: string; description: string }[] = [
+  { key: 'recallAtK', label: 'Recall@k', description: 'Share of expected documents among the top k results' },
+  { key: 'mrr', label: 'MRR', description: 'How high the first expected document ranks' },
+  { key: 'citationAccuracy', label: 'Citation accuracy', description: 'Share of documents cited in the answer that were expected' },
+  { key: 'faithfulness', label: 'Faithfulness', description: 'Share of answer sentences supported by the retrieved text' },
+  { key: 'answerOverlap', label: 'Answer overlap', description: 'Word overlap (F1) with the reference answer' },
+];
+
+const STOPWORDS = new Set([
+  'about', 'also', 'and', 'are', 'based', 'been', 'but', 'can', 'could', 'does', 'for', 'from', 'has', 'have',
+  'here', 'into', 'its', 'more', 'not', 'only', 'other', 'our', 'over', 'should', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'was', 'were', 'what', 'when', 'where',
+  'which', 'while', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Sentences with fewer content words (headings, sign-offs) are not scored for faithfulness
+const MIN_CLAIM_WORDS = 4;
+const SUPPORTED_CLAIM_COVERAGE = 0.6;
+
+const contentWords = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9][a-z0-9-]{2,}/g) || []).filter(word => !STOPWORDS.has(word));
+
+const mean = (values: (number | null)[]): number | null => {
+  const scored = values.filter((value): value is number => value !== null);
+  return scored.length > 0 ? scored.reduce((sum, value) => sum + value, 0) / scored.length : null;
+};
+
+/**
+ * Distinct documents in the order their first chunk was retrieved
+ */
+export const rankDocuments = (results: SearchResult[]): string[] =>
+  [...new Set(results.map(result => result.document_id))];
+
+export function recallAtK(ranked: string[], expected: string[], k: number): number | null {
+  if (expected.length === 0) return null;
+  const top = new Set(ranked.slice(0, k));
+  return expected.filter(id => top.has(id)).length / expected.length;
+}
+
+export function reciprocalRank(ranked: string[], expected: string[]): number | null {
+  if (expected.length === 0) return null;
+  const rank = ranked.findIndex(id => expected.includes(id));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Documents the answer names by title
+ */
+export function findCitations(answer: string, titles: Map<string, string>): string[] {
+  const text = answer.toLowerCase();
+  return [...titles.entries()]
+    .filter(([, title]) => title.trim().length > 0 && text.includes(title.trim().toLowerCase()))
+    .map(([id]) => id);
+}
+
+/**
+ * Share of cited documents that were expected. An answer that cites nothing
+ * when sources were expected scores zero.
+ */
+export function citationAccuracy(cited: string[], expected: string[]): number | null {
+  if (expected.length === 0) return null;
+  if (cited.length === 0) return 0;
+  return cited.filter(id => expected.includes(id)).length / cited.length;
+}
+
+/**
+ * Share of the answer's sentences whose content words mostly appear in the
+ * retrieved text; a lexical proxy for claims grounded in the context
+ */
+export function faithfulness(answer: string, context: string): number | null {
+  const contextWords = new Set(contentWords(context));
+  const claims = answer
+    .split('\n')
+    .filter(line => !line.trim().startsWith('#'))
+    .join(' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(contentWords)
+    .filter(words => words.length >= MIN_CLAIM_WORDS);
+
+  if (claims.length === 0) return null;
+  const supported = claims.filter(words =>
+    words.filter(word => contextWords.has(word)).length / words.length >= SUPPORTED_CLAIM_COVERAGE
+  );
+  return supported.length / claims.length;
+}
+
+/**
+ * Token F1 between the answer and the reference answer
+ */
+export function answerOverlap(answer: string, reference: string | null): number | null {
+  if (!reference?.trim()) return null;
+  const answerWords = contentWords(answer);
+  const referenceWords = contentWords(reference);
+  if (answerWords.length === 0 || referenceWords.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  for (const word of referenceWords) {
+    remaining.set(word, (remaining.get(word) || 0) + 1);
+  }
+  let common = 0;
+  for (const word of answerWords) {
+    const count = remaining.get(word) || 0;
+    if (count > 0) {
+      common++;
+      remaining.set(word, count - 1);
+    }
+  }
+  if (common === 0) return 0;
+
+  const precision = common / answerWords.length;
+  const recall = common / referenceWords.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+export function summarizeResults(results: EvalCaseResult[]): EvalMetrics {
+  return {
+    cases: results.length,
+    errors: results.filter(result => result.error).length,
+    recallAtK: mean(results.map(result => result.recallAtK)),
+    mrr: mean(results.map(result => result.reciprocalRank)),
+    citationAccuracy: mean(results.map(result => result.citationAccuracy)),
+    faithfulness: mean(results.map(result => result.faithfulness)),
+    answerOverlap: mean(results.map(result => result.answerOverlap)),
+    avgLatencyMs: Math.round(results.reduce((sum, result) => sum + result.latencyMs, 0) / Math.max(results.length, 1)),
+  };
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+async function describePipeline(k: number, generateAnswers: boolean): Promise<EvalRunConfig> {
+  const route = await modelRouter.getRoute('rag-answer');
+  return {
+    k,
+    generateAnswers,
+    chatProvider: getChatProvider().name,
+    answerModel: describeModel(route.model),
+    embeddingProviders: aiConfig.embeddingProviders,
+    embeddingModel: aiConfig.embeddingModel ?? null,
+    settings: RAG_SETTINGS,
+    promptHash: (await sha256(RAGSystem.getInstance().getPromptTemplate())).substring(0, 12),
+  };
+}
+
+async function getDocumentTitles(ids: string[]): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('research_documents')
+    .select('id, title')
+    .in('id', ids);
+
+  if (error) throw error;
+  return new Map((data || []).map(doc => [doc.id, doc.title]));
+}
+
+/**
+ * Retrieve the way chat does for the set's corpus, with k results
+ */
+async function retrieve(set: EvalSet, question: string, k: number, signal?: AbortSignal): Promise<RAGContext> {
+  const rag = RAGSystem.getInstance();
+  if (set.project_id) {
+    return rag.getProjectContext(set.project_id, question, k, signal);
+  }
+
+  const relevantDocuments = await rag.searchDocuments(question, k, signal);
+  return {
+    query: question,
+    relevantDocuments,
+    context: relevantDocuments.map(doc => `${doc.title}: ${doc.content}`).join('\n\n'),
+  };
+}
+
+async function evaluateCase(
+  set: EvalSet,
+  evalCase: EvalCase,
+  k: number,
+  generateAnswers: boolean,
+  expectedTitles: Map<string, string>,
+  signal?: AbortSignal
+): Promise<EvalCaseResult> {
+  const expected = evalCase.expected_document_ids;
+  const startTime = Date.now();
+  const context = await retrieve(set, evalCase.question, k, signal);
+  const ranked = rankDocuments(context.relevantDocuments);
+
+  const result: EvalCaseResult = {
+    question: evalCase.question,
+    expectedDocumentIds: expected,
+    retrievedDocumentIds: ranked,
+    citedDocumentIds: [],
+    answer: null,
+    model: null,
+    recallAtK: recallAtK(ranked, expected, k),
+    reciprocalRank: reciprocalRank(ranked, expected),
+    citationAccuracy: null,
+    faithfulness: null,
+    answerOverlap: null,
+    latencyMs: 0,
+  };
+
+  if (generateAnswers) {
+    const answer = await RAGSystem.getInstance().streamResponse(evalCase.question, context, () => {}, signal);
+    const titles = new Map(expectedTitles);
+    for (const doc of context.relevantDocuments) {
+      titles.set(doc.document_id, doc.title);
+    }
+    const retrievedText = context.relevantDocuments.map(doc => `${doc.title}\n${doc.content}`).join('\n');
+
+    result.answer = answer.content;
+    result.model = answer.model ?? null;
+    result.citedDocumentIds = findCitations(answer.content, titles);
+    result.citationAccuracy = citationAccuracy(result.citedDocumentIds, expected);
+    result.faithfulness = faithfulness(answer.content, retrievedText);
+    result.answerOverlap = answerOverlap(answer.content, evalCase.expected_answer);
+  }
+
+  result.latencyMs = Date.now() - startTime;
+  return result;
+}
+
+/**
+ * Ask every question in the set and store the scored run
+ */
+export async function runEvaluation(set: EvalSet, options: RunOptions = {}): Promise<EvalRun> {
+  const { k = 5, generateAnswers = true, label, signal, onProgress } = options;
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to run evaluations');
+
+  const config = await describePipeline(k, generateAnswers);
+  const expectedTitles = await getDocumentTitles([...new Set(set.cases.flatMap(c => c.expected_document_ids))]);
+  const results: EvalCaseResult[] = [];
+
+  for (const evalCase of set.cases) {
+    onProgress?.(results.length, set.cases.length);
+    try {
+      results.push(await evaluateCase(set, evalCase, k, generateAnswers, expectedTitles, signal));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Evaluation failed for "${evalCase.question}":`, error);
+      results.push({
+        question: evalCase.question,
+        expectedDocumentIds: evalCase.expected_document_ids,
+        retrievedDocumentIds: [],
+        citedDocumentIds: [],
+        answer: null,
+        model: null,
+        recallAtK: null,
+        reciprocalRank: null,
+        citationAccuracy: null,
+        faithfulness: null,
+        answerOverlap: null,
+        latencyMs: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  onProgress?.(results.length, set.cases.length);
+
+  const { data, error } = await supabase
+    .from('rag_eval_runs')
+    .insert({
+      set_id: set.id,
+      user_id: user.id,
+      label: label?.trim() || null,
+      config,
+      metrics: summarizeResults(results),
+      results,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as EvalRun;
+}
+
+export async function listEvalSets(): Promise<EvalSet[]> {
+  const { data, error } = await supabase
+    .from('rag_eval_sets')
+    .select('id, name, description, project_id, team_id, created_at, cases:rag_eval_cases(id, question, expected_document_ids, expected_answer, position)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(set => ({
+    ...set,
+    cases: [...(set.cases || [])].sort((a, b) => a.position - b.position),
+  })) as EvalSet[];
+}
+
+/**
+ * Create or update a set; its cases are replaced wholesale
+ */
+export async function saveEvalSet(draft: EvalSetDraft): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to save evaluation sets');
+
+  const fields = {
+    name: draft.name.trim(),
+    description: draft.description?.trim() || null,
+    project_id: draft.project_id,
+    updated_at: new Date().toISOString(),
+  };
+
+  let setId = draft.id;
+  if (setId) {
+    const { error } = await supabase.from('rag_eval_sets').update(fields).eq('id', setId);
+    if (error) throw error;
+
+    const { error: deleteError } = await supabase.from('rag_eval_cases').delete().eq('set_id', setId);
+    if (deleteError) throw deleteError;
+  } else {
+    const { data, error } = await supabase
+      .from('rag_eval_sets')
+      .insert({ ...fields, user_id: user.id, team_id: await getCurrentTeamId() })
+      .select('id')
+      .single();
+    if (error) throw error;
+    setId = data.id;
+  }
+
+  const cases = draft.cases
+    .filter(evalCase => evalCase.question.trim())
+    .map((evalCase, position) => ({
+      set_id: setId,
+      position,
+      question: evalCase.question.trim(),
+      expected_document_ids: evalCase.expected_document_ids,
+      expected_answer: evalCase.expected_answer?.trim() || null,
+    }));
+
+  if (cases.length > 0) {
+    const { error } = await supabase.from('rag_eval_cases').insert(cases);
+    if (error) throw error;
+  }
+  return setId;
+}
+
+export async function deleteEvalSet(setId: string): Promise<void> {
+  const { error } = await supabase.from('rag_eval_sets').delete().eq('id', setId);
+  if (error) throw error;
+}
+
+export async function listEvalRuns(setId: string): Promise<EvalRun[]> {
+  const { data, error } = await supabase
+    .from('rag_eval_runs')
+    .select('*')
+    .eq('set_id', setId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as EvalRun[];
+}
+
+export async function deleteEvalRun(runId: string): Promise<void> {
+  const { error } = await supabase.from('rag_eval_runs').delete().eq('id', runId);
+  if (error) throw error;
+}
+
+// Portable set format; sources may be document ids or exact titles
+const goldenSetFileSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  cases: z.array(z.object({
+    question: z.string().trim().min(1),
+    expectedSources: z.array(z.string()).default([]),
+    expectedAnswer: z.string().optional(),
+  })).min(1),
+});
+
+export type GoldenSetFile = z.infer<typeof goldenSetFileSchema>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a golden set file, resolving source titles to document ids
+ */
+export async function parseGoldenSetFile(json: string, projectId: string | null): Promise<EvalSetDraft> {
+  const parsed = goldenSetFileSchema.safeParse(JSON.parse(json));
+  if (!parsed.success) {
+    throw new Error(`Invalid golden set: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const sources = [...new Set(parsed.data.cases.flatMap(c => c.expectedSources))];
+  const titles = sources.filter(source => !UUID_PATTERN.test(source));
+  const idsByTitle = new Map<string, string>();
+  if (titles.length > 0) {
+    const { data, error } = await supabase
+      .from('research_documents')
+      .select('id, title')
+      .in('title', titles);
+    if (error) throw error;
+    for (const doc of data || []) {
+      idsByTitle.set(doc.title, doc.id);
+    }
+  }
+
+  const missing = titles.filter(title => !idsByTitle.has(title));
+  if (missing.length > 0) {
+    throw new Error(`No document titled: ${missing.join(', ')}`);
+  }
+
+  return {
+    name: parsed.data.name,
+    description: parsed.data.description ?? null,
+    project_id: projectId,
+    cases: parsed.data.cases.map(c => ({
+      question: c.question,
+      expected_document_ids: c.expectedSources.map(source => idsByTitle.get(source) ?? source),
+      expected_answer: c.expectedAnswer ?? null,
+    })),
+  };
+}
+
+/**
+ * A set in the file format, with sources as titles so it can move between databases
+ */
+export async function exportGoldenSet(set: EvalSet): Promise<string> {
+  const titles = await getDocumentTitles([...new Set(set.cases.flatMap(c => c.expected_document_ids))]);
+  const file: GoldenSetFile = {
+    name: set.name,
+    description: set.description ?? undefined,
+    cases: set.cases.map(c => ({
+      question: c.question,
+      expectedSources: c.expected_document_ids.map(id => titles.get(id) ?? id),
+      expectedAnswer: c.expected_answer ?? undefined,
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
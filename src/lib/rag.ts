@@ -1,10 +1,27 @@
 import { supabase } from './supabase';
+import { aiConfig, getChatProvider, getEmbeddingProviders, isExternalProvider, isQuotaExceeded, EmbedOptions } from './ai-providers';
+import { chatWithRoute, streamWithRoute } from './ai-routing';
+import { privacyPolicy } from './ai-privacy';
+import { generateStructured, researchSummaryTask } from './ai-structured';
+import { ChunkingProfile, chunkDocument } from './chunking';
+import { PageUnit } from './document-extraction';
+import { FencedDocument, fenceDocuments, findFlaggedSources, FlaggedSource, UNTRUSTED_CONTENT_RULES } from './prompt-injection';
+import { pageUnitOf } from './pptx-extraction';
+import { isSpreadsheet } from './spreadsheet-extraction';
 
 export interface DocumentChunk {
   id: string;
   content: string;
   document_id: string;
   chunk_index: number;
+  // Page the chunk starts on, for paginated sources such as PDFs
+  page_number?: number | null;
+  // Page the chunk ends on
+  page_end?: number | null;
+  // Whether page_number counts pages or presentation slides
+  page_unit?: PageUnit;
+  // Headings the chunk sits under, outermost first
+  section_path?: string[] | null;
   embedding?: number[];
 }
 
@@ -15,121 +32,95 @@ export interface SearchResult {
   similarity: number;
   document_id: string;
   chunk_index: number;
+  page_number?: number | null;
+  page_end?: number | null;
+  page_unit?: PageUnit;
+  section_path?: string[] | null;
+  // Document version the chunk was cut from
+  version?: number;
 }
 
 export interface RAGContext {
   query: string;
   relevantDocuments: SearchResult[];
   context: string;
+  // Team annotations on the document being chatted with, sent alongside its chunks
+  annotations?: { documentId: string; notes: FencedDocument[] };
 }
 
+export interface RAGAnswer {
+  content: string;
+  // Routed model that wrote the answer; absent for local fallback text
+  model?: string;
+  // Sources the model saw that contain instruction-like text
+  flaggedSources?: FlaggedSource[];
+}
+
+// Retrieval settings, in one place so evaluation runs can record what they measured
+export const RAG_SETTINGS = {
+  // Chunk size and overlap in characters, by kind of document
+  chunking: {
+    document: { chunkSize: 1000, chunkOverlap: 200 },
+    // Sheets are split between table rows with the header repeated, so overlap would only repeat rows
+    spreadsheet: { chunkSize: 2000, chunkOverlap: 0 },
+    // Every slide starts a chunk at its heading
+    presentation: { chunkSize: 1000, chunkOverlap: 0 },
+  },
+  // match_document_chunks similarity cut-offs per search scope
+  matchThresholds: {
+    library: 0.7,
+    project: 0.6,
+    document: 0.5, // Lower threshold to get more results
+  },
+};
+
+export type RAGSettings = typeof RAG_SETTINGS;
+
+export const chunkingProfileFor = (contentType: string | null): ChunkingProfile =>
+  isSpreadsheet(contentType)
+    ? RAG_SETTINGS.chunking.spreadsheet
+    : pageUnitOf(contentType) === 'slide'
+      ? RAG_SETTINGS.chunking.presentation
+      : RAG_SETTINGS.chunking.document;
+
+const WITHHELD_SOURCES_ANSWER =
+  "The documents that match your question are kept away from external AI models by your team's data policy, so they can't be used to answer it here.";
+
 export class RAGSystem {
   private static instance: RAGSystem;
-  private geminiApiKey: string;
-
-  constructor(geminiApiKey: string) {
-    this.geminiApiKey = geminiApiKey;
-    // OpenRouter API key is accessed via environment variable in generateEmbedding
-  }
 
-  static getInstance(geminiApiKey: string): RAGSystem {
+  // Provider credentials stay server-side, behind the ai-proxy edge function
+  static getInstance(): RAGSystem {
     if (!RAGSystem.instance) {
-      RAGSystem.instance = new RAGSystem(geminiApiKey);
+      RAGSystem.instance = new RAGSystem();
     }
     return RAGSystem.instance;
   }
 
   /**
-   * Generate embeddings for text using Gemini API
+   * Generate embeddings for text using the configured embedding providers.
+   * Requests are background priority unless the caller is waiting on the result.
+   * Without allowExternal only local providers (or the local fallback) are used.
    */
-  async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      console.log('Generating embedding via Gemini API...');
-      const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-      
-      if (GEMINI_API_KEY) {
-        try {
-          // Use Gemini embedding API directly as per official documentation
-          const response = await fetch("https://generativelanguage.googleapis.com/v1beta/models/gemini-embedding-001:embedContent", {
-            method: "POST",
-            headers: {
-              "x-goog-api-key": GEMINI_API_KEY,
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-              model: "models/gemini-embedding-001",
-              content: {
-                parts: [{ text: text }]
-              },
-              outputDimensionality: 768 // Using 768 dimensions for efficiency
-            })
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Gemini embedding API failed:', response.status, errorText);
-            throw new Error(`Gemini embedding API error: ${response.status}`);
-          }
+  async generateEmbedding(text: string, options: EmbedOptions = {}, allowExternal = true): Promise<number[]> {
+    const providers = getEmbeddingProviders().filter(provider => allowExternal || !isExternalProvider(provider.name));
 
-          const data = await response.json();
-          console.log('Gemini API response:', data);
-
-          if (data && data.embedding && data.embedding.values) {
-            console.log('Successfully generated Gemini embedding with', data.embedding.values.length, 'dimensions');
-            return data.embedding.values;
-          } else {
-            console.error('Unexpected Gemini API response format:', data);
-            throw new Error('Invalid response format from Gemini API');
-          }
-        } catch (err) {
-          console.error('Gemini embedding API failed, falling back to OpenRouter:', err);
-        }
-      }
-
-      // Fallback to OpenRouter with OpenAI ada-002
-      const OPENROUTER_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
-      if (OPENROUTER_API_KEY) {
-        try {
-          const response = await fetch("https://openrouter.ai/api/v1/embeddings", {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-              "HTTP-Referer": window.location.origin || "https://data-invest-genius.com",
-              "X-Title": "Data Invest Genius",
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-              model: "openai/text-embedding-ada-002",
-              input: text
-            })
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('OpenAI ada-002 embedding API failed:', response.status, errorText);
-            throw new Error('OpenAI ada-002 embedding API failed');
-          }
-
-          const data = await response.json();
-          if (data && data.data && data.data[0] && data.data[0].embedding) {
-            console.log('Successfully generated OpenAI embedding with', data.data[0].embedding.length, 'dimensions');
-            return data.data[0].embedding;
-          } else {
-            console.error('OpenAI ada-002 embedding API: Unexpected response', data);
-            throw new Error('OpenAI ada-002 embedding API: Unexpected response');
-          }
-        } catch (err) {
-          console.error('OpenAI ada-002 embedding API error, falling back to local:', err);
-        }
+    // Try each configured provider in order, primary first
+    for (const [index, provider] of providers.entries()) {
+      try {
+        console.log(`Generating embedding via ${provider.name}...`);
+        const embedding = await provider.embed(text, index === 0 ? aiConfig.embeddingModel : undefined, options);
+        console.log(`Successfully generated ${provider.name} embedding with`, embedding.length, 'dimensions');
+        return embedding;
+      } catch (err) {
+        if (options.signal?.aborted) throw err;
+        console.error(`${provider.name} embedding failed, trying next provider:`, err);
       }
-      
-      // Final fallback to local embedding
-      console.log('Using local embedding as fallback');
-      return this.createAdvancedLocalEmbedding(text);
-    } catch (err) {
-      console.error('generateEmbedding: All embedding methods failed', err);
-      return this.createAdvancedLocalEmbedding(text);
     }
+
+    // Final fallback to local embedding
+    console.log('Using local embedding as fallback');
+    return this.createAdvancedLocalEmbedding(text);
   }
 
   /**
@@ -265,59 +256,48 @@ export class RAGSystem {
   }
 
   /**
-   * Chunk text into smaller pieces for better retrieval
+   * Version of a document whose chunks are searched by default
    */
-  chunkText(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
-    const chunks: string[] = [];
-    let start = 0;
-
-    // Ensure overlap is not larger than chunk size
-    const safeOverlap = Math.min(overlap, chunkSize - 100);
-    
-    console.log(`Chunking text: length=${text.length}, chunkSize=${chunkSize}, overlap=${safeOverlap}`);
-
-    while (start < text.length) {
-      const end = Math.min(start + chunkSize, text.length);
-      let chunk = text.slice(start, end);
-
-      // Try to break at sentence boundaries
-      if (end < text.length) {
-        const lastPeriod = chunk.lastIndexOf('.');
-        const lastNewline = chunk.lastIndexOf('\n');
-        const breakPoint = Math.max(lastPeriod, lastNewline);
-        
-        if (breakPoint > start + chunkSize * 0.7) {
-          chunk = chunk.slice(0, breakPoint + 1);
-        }
-      }
-
-      const trimmedChunk = chunk.trim();
-      if (trimmedChunk.length > 50) {
-        chunks.push(trimmedChunk);
-      }
-
-      // Calculate next start position
-      const nextStart = end - safeOverlap;
-      
-      // Prevent infinite loop by ensuring we always move forward
-      if (nextStart <= start) {
-        console.warn('Preventing infinite loop, moving to end of text');
-        break;
-      }
-      
-      start = nextStart;
-    }
-
-    console.log(`Created ${chunks.length} chunks`);
-    return chunks;
+  private async currentVersion(documentId: string): Promise<number> {
+    const { data } = await supabase
+      .from('research_documents')
+      .select('current_version')
+      .eq('id', documentId)
+      .single();
+
+    return data?.current_version ?? 1;
   }
 
   /**
-   * Process and store document chunks with embeddings
+   * Chunk a document by its structure and store the chunks with embeddings.
+   * Embeddings are generated in the background unless `onProgress` is given,
+   * in which case they are awaited and reported as they complete. Chunks are
+   * stored for `version`, the document's current version by default; other
+   * versions' chunks are left alone. A version that already has chunks is
+   * skipped unless `replace` is set, as it is when a document is processed
+   * again. Rejects if chunks cannot be stored, or if awaited embeddings fail.
    */
-  async processDocument(documentId: string, text: string, title: string): Promise<void> {
+  async processDocument(
+    documentId: string,
+    text: string,
+    title: string,
+    pageUnit: PageUnit = 'page',
+    {
+      onProgress,
+      version,
+      chunking = RAG_SETTINGS.chunking.document,
+      replace = false,
+    }: {
+      onProgress?: (stage: 'chunk' | 'embed', fraction: number) => void;
+      version?: number;
+      chunking?: ChunkingProfile;
+      replace?: boolean;
+    } = {}
+  ): Promise<void> {
+    const chunkVersion = version ?? await this.currentVersion(documentId);
+    let embedded: Promise<void> | null = null;
     try {
-      console.log(`Starting RAG processing for document ${documentId}`);
+      console.log(`Starting RAG processing for document ${documentId} (version ${chunkVersion})`);
       console.log(`Text length: ${text.length} characters`);
       
       // Validate input
@@ -326,92 +306,41 @@ export class RAGSystem {
         return;
       }
       
-      // Check if document already has chunks
-      const { data: existingChunks, error: checkError } = await supabase
-        .from('document_chunks')
-        .select('id')
-        .eq('document_id', documentId)
-        .limit(1);
-        
-      if (!checkError && existingChunks && existingChunks.length > 0) {
-        console.log('Document already has chunks, skipping processing');
-        return;
+      // Check if this version already has chunks
+      if (!replace) {
+        const { data: existingChunks, error: checkError } = await supabase
+          .from('document_chunks')
+          .select('id')
+          .eq('document_id', documentId)
+          .eq('version', chunkVersion)
+          .limit(1);
+
+        if (!checkError && existingChunks && existingChunks.length > 0) {
+          console.log('Document already has chunks, skipping processing');
+          return;
+        }
       }
       
-      // Delete existing chunks for this document (just in case)
+      // Delete existing chunks for this version
       console.log('Deleting any existing chunks...');
       const { error: deleteError } = await supabase
         .from('document_chunks')
         .delete()
-        .eq('document_id', documentId);
+        .eq('document_id', documentId)
+        .eq('version', chunkVersion);
 
       if (deleteError) {
         console.error('Error deleting existing chunks:', deleteError);
       }
 
-      // Create a simple chunk if text is very short
-      if (text.length < 500) {
-        console.log('Text is very short, creating a single chunk');
-        const chunk = {
-          document_id: documentId,
-          chunk_index: 0,
-          content: text,
-          title: title || 'Document',
-          embedding: null // Store without embedding for now
-        };
-        
-        const { error } = await supabase
-          .from('document_chunks')
-          .insert([chunk]);
-          
-        if (error) {
-          console.error('Error storing simple chunk:', error);
-        } else {
-          console.log('Successfully stored simple chunk');
-        }
-        
-        // Try to generate embedding in the background
-        this.generateEmbedding(text).then(embedding => {
-          supabase
-            .from('document_chunks')
-            .update({ embedding })
-            .eq('document_id', documentId)
-            .eq('chunk_index', 0)
-            .then(({ error }) => {
-              if (error) {
-                console.error('Error updating embedding for simple chunk:', error);
-              } else {
-                console.log('Successfully updated embedding for simple chunk');
-              }
-            });
-        }).catch(error => {
-          console.error('Error generating embedding for simple chunk:', error);
-        });
-        
-        return;
-      }
-
       // Chunk the text
-      console.log('Chunking text...');
-      const chunks = this.chunkText(text);
+      console.log(`Chunking text: chunkSize=${chunking.chunkSize}, overlap=${chunking.chunkOverlap}`);
+      const chunks = chunkDocument(text, chunking);
       console.log(`Created ${chunks.length} chunks`);
       
       if (chunks.length === 0) {
-        console.warn('No chunks created from text, creating fallback chunk');
-        // Create at least one chunk with the full text if it's not too large
-        if (text.length <= 10000) {
-          chunks.push(text);
-        } else {
-          // Create one chunk with the beginning of the text
-          chunks.push(text.substring(0, 5000) + '...');
-        }
-      }
-      
-      // Limit number of chunks to prevent memory issues
-      const maxChunks = 20; // Reduced from 50 to ensure processing completes
-      if (chunks.length > maxChunks) {
-        console.warn(`Too many chunks (${chunks.length}), limiting to ${maxChunks}`);
-        chunks.splice(maxChunks);
+        console.warn('No chunks created from text, skipping RAG processing');
+        return;
       }
 
       // First store chunks without embeddings to ensure they exist
@@ -419,13 +348,18 @@ export class RAGSystem {
       const chunksWithoutEmbeddings = chunks.map((chunk, index) => ({
         document_id: documentId,
         chunk_index: index,
-        content: chunk,
+        content: chunk.content,
         title: title || 'Document',
+        page_number: chunk.pageStart,
+        page_end: chunk.pageEnd,
+        page_unit: pageUnit,
+        section_path: chunk.sectionPath.length > 0 ? chunk.sectionPath : null,
+        version: chunkVersion,
         embedding: null
       }));
       
-      // Store in smaller batches
-      const storeBatchSize = 5;
+      // Store in batches
+      const storeBatchSize = 50;
       for (let i = 0; i < chunksWithoutEmbeddings.length; i += storeBatchSize) {
         const batch = chunksWithoutEmbeddings.slice(i, i + storeBatchSize);
         console.log(`Storing batch ${Math.floor(i/storeBatchSize) + 1}/${Math.ceil(chunksWithoutEmbeddings.length/storeBatchSize)}`);
@@ -436,110 +370,120 @@ export class RAGSystem {
   
         if (error) {
           console.error(`Error storing batch ${i/storeBatchSize + 1}:`, error);
-        } else {
-          console.log(`Successfully stored batch ${i/storeBatchSize + 1}`);
+          throw error;
         }
+        console.log(`Successfully stored batch ${i/storeBatchSize + 1}`);
+        onProgress?.('chunk', Math.min(1, (i + storeBatchSize) / chunksWithoutEmbeddings.length));
       }
 
-      // Now generate embeddings in the background
+      // Now generate embeddings in the background. Headings are embedded with
+      // the text, since a passage often doesn't name its own subject.
       console.log('Starting background embedding generation...');
-      this.generateEmbeddingsInBackground(documentId, chunks);
-
-      console.log(`Successfully processed ${chunks.length} chunks for document ${documentId}`);
-      
-      // Verify chunks were stored
-      const { data: storedChunks, error: verifyError } = await supabase
-        .from('document_chunks')
-        .select('id')
-        .eq('document_id', documentId);
-
-      if (verifyError) {
-        console.error('Error verifying stored chunks:', verifyError);
-      } else {
-        console.log(`Verified ${storedChunks?.length || 0} chunks stored in database`);
-      }
+      const allowExternal = (await privacyPolicy.filterSendable([documentId])).has(documentId);
+      embedded = this.generateEmbeddingsInBackground(
+        documentId,
+        chunkVersion,
+        chunks.map(chunk => (chunk.sectionPath.length > 0 ? `${chunk.sectionPath.join(' > ')}\n\n${chunk.content}` : chunk.content)),
+        allowExternal,
+        onProgress && (fraction => onProgress('embed', fraction))
+      );
+      console.log(`Stored ${chunks.length} chunks for document ${documentId}`);
     } catch (error) {
       console.error('Error processing document:', error);
-      // Create at least one chunk even if processing fails
+      // Create at least one chunk even if processing fails, in place of any
+      // batches stored before the failure
       try {
+        const { error: clearError } = await supabase
+          .from('document_chunks')
+          .delete()
+          .eq('document_id', documentId)
+          .eq('version', chunkVersion);
+        if (clearError) throw clearError;
+
         const fallbackChunk = {
           document_id: documentId,
           chunk_index: 0,
           content: text.length > 5000 ? text.substring(0, 5000) + '...' : text,
           title: title || 'Document',
+          version: chunkVersion,
           embedding: null
         };
         
-        await supabase
+        const { error: fallbackInsertError } = await supabase
           .from('document_chunks')
           .insert([fallbackChunk]);
+        if (fallbackInsertError) throw fallbackInsertError;
           
         console.log('Created fallback chunk after error');
       } catch (fallbackError) {
         console.error('Failed to create fallback chunk:', fallbackError);
       }
+      // The fallback keeps the document answerable, but it is not indexed
+      throw error;
+    }
+
+    // Without a progress callback nobody is waiting, so failures are only logged
+    if (onProgress) {
+      await embedded;
+    } else {
+      embedded?.catch(error => console.error('Background embedding generation failed:', error));
     }
   }
   
   /**
-   * Generate embeddings in the background after chunks are stored
+   * Generate embeddings in the background after chunks are stored. Every
+   * chunk is attempted; rejects afterwards if any of them failed.
    */
-  private async generateEmbeddingsInBackground(documentId: string, chunks: string[]): Promise<void> {
-    try {
-      // Process in smaller batches to avoid memory issues
-      const batchSize = 3;
-      
-      for (let i = 0; i < chunks.length; i += batchSize) {
-        const batch = chunks.slice(i, i + batchSize);
-        console.log(`Processing embedding batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(chunks.length/batchSize)}`);
+  private async generateEmbeddingsInBackground(
+    documentId: string,
+    version: number,
+    chunks: string[],
+    allowExternal: boolean,
+    onProgress?: (fraction: number) => void
+  ): Promise<void> {
+    let done = 0;
+    let failed = 0;
+    // The request scheduler paces these behind interactive requests and within rate limits
+    await Promise.all(chunks.map(async (chunk, chunkIndex) => {
+      try {
+        console.log(`Generating embedding for chunk ${chunkIndex + 1}/${chunks.length}`);
+        const embedding = await this.generateEmbedding(chunk, { priority: 'background' }, allowExternal);
         
-        for (let j = 0; j < batch.length; j++) {
-          const chunkIndex = i + j;
-          const chunk = batch[j];
+        // Update the chunk with the embedding
+        const { error } = await supabase
+          .from('document_chunks')
+          .update({ embedding })
+          .eq('document_id', documentId)
+          .eq('version', version)
+          .eq('chunk_index', chunkIndex);
           
-          try {
-            console.log(`Generating embedding for chunk ${chunkIndex + 1}/${chunks.length}`);
-            const embedding = await this.generateEmbedding(chunk);
-            
-            // Update the chunk with the embedding
-            const { error } = await supabase
-              .from('document_chunks')
-              .update({ embedding })
-              .eq('document_id', documentId)
-              .eq('chunk_index', chunkIndex);
-              
-            if (error) {
-              console.error(`Error updating embedding for chunk ${chunkIndex}:`, error);
-            } else {
-              console.log(`Successfully updated embedding for chunk ${chunkIndex}`);
-            }
-            
-            // Add a delay between API calls to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 500));
-          } catch (error) {
-            console.error(`Error generating embedding for chunk ${chunkIndex}:`, error);
-          }
-        }
+        if (error) throw error;
+        console.log(`Successfully updated embedding for chunk ${chunkIndex}`);
+      } catch (error) {
+        console.error(`Error generating embedding for chunk ${chunkIndex}:`, error);
+        failed++;
       }
-      
-      console.log('Background embedding generation completed');
-    } catch (error) {
-      console.error('Error in background embedding generation:', error);
+      onProgress?.(++done / chunks.length);
+    }));
+
+    if (failed > 0) {
+      throw new Error(`Embedding failed for ${failed} of ${chunks.length} chunks`);
     }
+    console.log('Background embedding generation completed');
   }
 
   /**
    * Search for relevant documents using semantic similarity
    */
-  async searchDocuments(query: string, limit: number = 5): Promise<SearchResult[]> {
+  async searchDocuments(query: string, limit: number = 5, signal?: AbortSignal): Promise<SearchResult[]> {
     try {
       // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query);
+      const queryEmbedding = await this.generateEmbedding(query, { priority: 'interactive', signal });
 
       // Search using vector similarity
       const { data, error } = await supabase.rpc('match_document_chunks', {
         query_embedding: queryEmbedding,
-        match_threshold: 0.7,
+        match_threshold: RAG_SETTINGS.matchThresholds.library,
         match_count: limit
       });
 
@@ -557,28 +501,23 @@ export class RAGSystem {
   /**
    * Generate AI response with RAG context using local processing
    */
-  async generateResponse(query: string, context: RAGContext): Promise<string> {
+  async generateResponse(query: string, context: RAGContext, signal?: AbortSignal): Promise<string> {
     try {
-      const prompt = this.buildPrompt(query, context);
-      
-      // Use OpenRouter with reliable free model
-      const OPENROUTER_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
+      const provider = getChatProvider();
       
-      if (!OPENROUTER_API_KEY) {
+      if (!provider.isConfigured()) {
         return this.generateLocalRAGResponse(query, context) || 
                "Based on your documents, I can help you find relevant information. The documents have been processed and are ready for search.";
       }
 
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-          "HTTP-Referer": window.location.origin,
-          "X-Title": "Data Invest Genius",
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          model: "qwen/qwen-2.5-72b-instruct:free", // Use the most capable free model
+      const { context: sendable, withheld } = await this.withholdForExternalModels(context);
+      if (withheld > 0 && sendable.relevantDocuments.length === 0) {
+        return WITHHELD_SOURCES_ANSWER;
+      }
+      const prompt = this.buildPrompt(query, sendable, findFlaggedSources(sendable.relevantDocuments));
+
+      try {
+        const completion = await chatWithRoute('rag-answer', {
           messages: [
             {
               role: "user",
@@ -586,25 +525,136 @@ export class RAGSystem {
             }
           ],
           temperature: 0.7,
-          max_tokens: 1024,
-        }),
-      });
-
-      if (!response.ok) {
-        console.log('API failed, using local response');
+          maxTokens: 1024,
+          signal,
+        });
+        return completion.content;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (isQuotaExceeded(error)) return error.message;
+        console.log('API failed, using local response', error);
         return this.generateLocalRAGResponse(query, context) || 
                "I found relevant information in your documents. The content has been processed and indexed for future searches.";
       }
-
-      const data = await response.json();
-      return data.choices[0].message.content;
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error('Error generating response:', error);
       return this.generateLocalRAGResponse(query, context) || 
              "I can help you search through your documents. The content has been processed and is available for queries.";
     }
   }
 
+  /**
+   * Stream an AI response with RAG context, calling onToken as text arrives.
+   * Aborting the signal stops the request and resolves with the partial answer.
+   */
+  async streamResponse(
+    query: string,
+    context: RAGContext,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<RAGAnswer> {
+    const provider = getChatProvider();
+    let content = '';
+    let model: string | undefined;
+
+    const emitFallback = (fallback: string): RAGAnswer => {
+      const text = this.generateLocalRAGResponse(query, context) || fallback;
+      onToken(text);
+      return { content: text };
+    };
+
+    if (!provider.isConfigured()) {
+      return emitFallback("Based on your documents, I can help you find relevant information. The documents have been processed and are ready for search.");
+    }
+
+    const { context: sendable, withheld } = await this.withholdForExternalModels(context);
+    if (withheld > 0 && sendable.relevantDocuments.length === 0) {
+      onToken(WITHHELD_SOURCES_ANSWER);
+      return { content: WITHHELD_SOURCES_ANSWER };
+    }
+    const flaggedSources = findFlaggedSources(sendable.relevantDocuments);
+    if (flaggedSources.length > 0) {
+      console.warn('Retrieved content looks like prompt injection:', flaggedSources);
+    }
+    const prompt = this.buildPrompt(query, sendable, flaggedSources);
+
+    try {
+      const tokens = streamWithRoute('rag-answer', {
+        messages: [
+          {
+            role: "user",
+            content: prompt
+          }
+        ],
+        temperature: 0.7,
+        maxTokens: 1024,
+        signal,
+      }, chosen => {
+        model = chosen;
+      });
+
+      for await (const token of tokens) {
+        content += token;
+        onToken(token);
+      }
+      if (withheld > 0) {
+        const notice = `\n\n_${withheld} matching source${withheld === 1 ? ' was' : 's were'} not sent to the AI model under your team's data policy._`;
+        onToken(notice);
+        content += notice;
+      }
+      return { content, model, flaggedSources };
+    } catch (error) {
+      if (signal?.aborted) {
+        console.log('Response stream stopped by user');
+        return { content, model, flaggedSources };
+      }
+
+      console.error('Error streaming response:', error);
+      if (isQuotaExceeded(error)) {
+        onToken(error.message);
+        return { content: content + error.message, model, flaggedSources };
+      }
+      if (content) {
+        const notice = '\n\n_Response interrupted. Please try again._';
+        onToken(notice);
+        return { content: content + notice, model, flaggedSources };
+      }
+      return emitFallback("I found relevant information in your documents. The content has been processed and indexed for future searches.");
+    }
+  }
+
+  /**
+   * Drop retrieved chunks the team's data policy keeps away from external
+   * models. A local chat model sees everything.
+   */
+  private async withholdForExternalModels(context: RAGContext): Promise<{ context: RAGContext; withheld: number }> {
+    const documentIds = context.relevantDocuments.map(doc => doc.document_id);
+    if (context.annotations) documentIds.push(context.annotations.documentId);
+    if (!isExternalProvider(getChatProvider().name) || documentIds.length === 0) {
+      return { context, withheld: 0 };
+    }
+
+    const sendable = await privacyPolicy.filterSendable(documentIds);
+    const relevantDocuments = context.relevantDocuments.filter(doc => sendable.has(doc.document_id));
+    const withheld = context.relevantDocuments.length - relevantDocuments.length;
+    // Annotations quote the document, so they go wherever its text may go
+    const annotations = context.annotations && sendable.has(context.annotations.documentId) ? context.annotations : undefined;
+    if (withheld === 0 && annotations === context.annotations) {
+      return { context, withheld };
+    }
+
+    return {
+      context: {
+        ...context,
+        relevantDocuments,
+        annotations,
+        context: relevantDocuments.map(doc => `${doc.title}: ${doc.content}`).join('\n\n'),
+      },
+      withheld,
+    };
+  }
+
   /**
    * Generate local RAG response without API calls
    */
@@ -639,10 +689,22 @@ export class RAGSystem {
   /**
    * Build prompt with RAG context
    */
-  private buildPrompt(query: string, context: RAGContext): string {
-    const relevantDocs = context.relevantDocuments
-      .map(doc => `Document: ${doc.title}\nContent: ${doc.content}\nRelevance: ${Math.round(doc.similarity * 100)}%\n`)
-      .join('\n');
+  private buildPrompt(query: string, context: RAGContext, flaggedSources: FlaggedSource[] = []): string {
+    const isFlagged = (doc: SearchResult) =>
+      flaggedSources.some(source => source.documentId === doc.document_id && source.chunkIndex === doc.chunk_index);
+    const relevantDocs = fenceDocuments(context.relevantDocuments.map(doc => ({
+      title: doc.title,
+      content: doc.content,
+      page: doc.page_number,
+      pageEnd: doc.page_end,
+      pageUnit: doc.page_unit,
+      section: doc.section_path,
+      relevance: doc.similarity,
+      flagged: isFlagged(doc),
+    })));
+    const annotationNotes = context.annotations?.notes.length
+      ? `\nAnnotations your team made on this document, with their comment threads:\n${fenceDocuments(context.annotations.notes)}\n`
+      : '';
 
     if (context.relevantDocuments.length === 0) {
       return `You are an AI research assistant helping users analyze their research documents. 
@@ -669,6 +731,8 @@ Please provide a helpful response:`;
 
 Context from relevant documents:
 ${relevantDocs}
+${annotationNotes}
+${UNTRUSTED_CONTENT_RULES}
 
 User Query: ${query}
 
@@ -676,7 +740,7 @@ Instructions for answering:
 1. Structure your response with clear sections using markdown headers (##)
 2. Always include an "Analysis" or "Answer" section at the beginning
 3. When appropriate, include a "Recommendation" or "Conclusion" section
-4. Cite specific documents when making claims
+4. Cite specific documents when making claims, with the page or slide number when a document has one
 5. Be concise but thorough
 6. If you find conflicting information in the documents, acknowledge this and explain the different perspectives
 7. Use bullet points or numbered lists for key points when appropriate
@@ -695,11 +759,25 @@ Instructions for answering:
 Please provide a helpful, well-structured response based on the research context provided:`;
   }
 
+  /**
+   * The answer prompt with placeholders for the query and one document, so
+   * evaluation runs can tell prompt versions apart
+   */
+  getPromptTemplate(): string {
+    return this.buildPrompt('{query}', {
+      query: '{query}',
+      relevantDocuments: [
+        { id: '', title: '{title}', content: '{content}', similarity: 1, document_id: '', chunk_index: 0 },
+      ],
+      context: '',
+    });
+  }
+
   /**
    * Get RAG context for a query
    */
-  async getRAGContext(query: string): Promise<RAGContext> {
-    const relevantDocuments = await this.searchDocuments(query);
+  async getRAGContext(query: string, signal?: AbortSignal): Promise<RAGContext> {
+    const relevantDocuments = await this.searchDocuments(query, 5, signal);
     
     const context = relevantDocuments
       .map(doc => `${doc.title}: ${doc.content}`)
@@ -713,17 +791,26 @@ Please provide a helpful, well-structured response based on the research context
   }
 
   /**
-   * Get context from a specific document
+   * Get context from a specific document, from its current version unless
+   * an earlier `version` is given
    */
-  async getDocumentContext(documentId: string, query: string, limit: number = 3): Promise<RAGContext> {
+  async getDocumentContext(
+    documentId: string,
+    query: string,
+    limit: number = 3,
+    signal?: AbortSignal,
+    version?: number
+  ): Promise<RAGContext> {
     try {
-      console.log(`Getting document context for document ${documentId}`);
+      const targetVersion = version ?? await this.currentVersion(documentId);
+      console.log(`Getting document context for document ${documentId} (version ${targetVersion})`);
       
       // First check if document chunks exist
       const { data: chunks, error: chunksError } = await supabase
         .from('document_chunks')
         .select('*')
         .eq('document_id', documentId)
+        .eq('version', targetVersion)
         .limit(1);
 
       console.log('Chunks check result:', { chunks, error: chunksError });
@@ -734,19 +821,22 @@ Please provide a helpful, well-structured response based on the research context
         // Try to get the document title for better context
         const { data: documentData } = await supabase
           .from('research_documents')
-          .select('title, content')
+          .select('title, content, content_type')
           .eq('id', documentId)
           .single();
           
         const documentTitle = documentData?.title || 'Document';
         
         // No chunks found - document might not be processed yet
-        // Try to process the document now
-        if (documentData?.content) {
+        // Try to process the document now; its content is the current version's
+        if (documentData?.content && version === undefined) {
           // Document exists but hasn't been processed - try to process it now
           console.log('Document found but not processed, attempting to process now...');
           try {
-            await this.processDocument(documentId, documentData.content, documentData.title);
+            await this.processDocument(documentId, documentData.content, documentData.title, pageUnitOf(documentData.content_type), {
+              version: targetVersion,
+              chunking: chunkingProfileFor(documentData.content_type),
+            });
             console.log('Document processing initiated');
             
             // Check if processing succeeded
@@ -754,12 +844,13 @@ Please provide a helpful, well-structured response based on the research context
               .from('document_chunks')
               .select('*')
               .eq('document_id', documentId)
+              .eq('version', targetVersion)
               .limit(1);
               
             if (newChunks && newChunks.length > 0) {
               console.log('Document successfully processed, retrying context fetch');
               // Recursively call this method now that chunks exist
-              return this.getDocumentContext(documentId, query, limit);
+              return this.getDocumentContext(documentId, query, limit, signal, version);
             }
           } catch (processError) {
             console.error('Error processing document:', processError);
@@ -779,6 +870,7 @@ Please provide a helpful, well-structured response based on the research context
         .from('document_chunks')
         .select('*')
         .eq('document_id', documentId)
+        .eq('version', targetVersion)
         .not('embedding', 'is', null)
         .limit(10);
         
@@ -789,14 +881,15 @@ Please provide a helpful, well-structured response based on the research context
         try {
           // Generate embedding for the query
           console.log('Generating query embedding...');
-          const queryEmbedding = await this.generateEmbedding(query);
+          const queryEmbedding = await this.generateEmbedding(query, { priority: 'interactive', signal });
           
           // Try to use the RPC function for vector search
           console.log('Attempting to use RPC function for similarity search...');
           const { data, error } = await supabase.rpc('match_document_chunks', {
             query_embedding: queryEmbedding,
-            document_id: documentId,
-            match_threshold: 0.5, // Lower threshold to get more results
+            target_document_id: documentId,
+            target_version: targetVersion,
+            match_threshold: RAG_SETTINGS.matchThresholds.document,
             match_count: limit
           });
 
@@ -837,6 +930,7 @@ Please provide a helpful, well-structured response based on the research context
         .from('document_chunks')
         .select('*')
         .eq('document_id', documentId)
+        .eq('version', targetVersion)
         .order('chunk_index', { ascending: true });
 
       if (allChunksError || !allChunks || allChunks.length === 0) {
@@ -886,7 +980,12 @@ Please provide a helpful, well-structured response based on the research context
         content: chunk.content,
         similarity: chunk.score > 0 ? chunk.score / 10 : 0.6, // Normalize score
         document_id: chunk.document_id,
-        chunk_index: chunk.chunk_index
+        chunk_index: chunk.chunk_index,
+        page_number: chunk.page_number,
+        page_end: chunk.page_end,
+        page_unit: chunk.page_unit,
+        section_path: chunk.section_path,
+        version: chunk.version
       }));
       
       // Create context from relevant chunks
@@ -912,7 +1011,12 @@ Please provide a helpful, well-structured response based on the research context
   /**
    * Get context from all documents in a project
    */
-  async getProjectContext(projectId: string, query: string, limit: number = 5): Promise<RAGContext> {
+  async getProjectContext(
+    projectId: string,
+    query: string,
+    limit: number = 5,
+    signal?: AbortSignal
+  ): Promise<RAGContext> {
     try {
       // First, get all documents associated with this project
       const { data: projectDocs, error: projectError } = await supabase
@@ -934,12 +1038,12 @@ Please provide a helpful, well-structured response based on the research context
       const documentIds = projectDocs.map(doc => doc.document_id);
 
       // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query);
+      const queryEmbedding = await this.generateEmbedding(query, { priority: 'interactive', signal });
       
       // Search for similar chunks across all project documents
       const { data, error } = await supabase.rpc('match_document_chunks', {
         query_embedding: queryEmbedding,
-        match_threshold: 0.6,
+        match_threshold: RAG_SETTINGS.matchThresholds.project,
         match_count: limit
       });
 
@@ -1023,6 +1127,8 @@ Please provide a helpful, well-structured response based on the research context
     keyInsights: string[];
     relatedTopics: string[];
     sources: SearchResult[];
+    model?: string;
+    flaggedSources?: FlaggedSource[];
   }> {
     try {
       const relevantDocs = await this.searchDocuments(topic, 10);
@@ -1036,68 +1142,60 @@ Please provide a helpful, well-structured response based on the research context
         };
       }
 
-      const context = relevantDocs
-        .map(doc => `${doc.title}: ${doc.content}`)
-        .join('\n\n');
+      const { context: sendable } = await this.withholdForExternalModels({ query: topic, relevantDocuments: relevantDocs, context: '' });
+      if (sendable.relevantDocuments.length === 0) {
+        return {
+          summary: WITHHELD_SOURCES_ANSWER,
+          keyInsights: [],
+          relatedTopics: [],
+          sources: relevantDocs
+        };
+      }
+
+      const flaggedSources = findFlaggedSources(sendable.relevantDocuments);
+      const context = fenceDocuments(sendable.relevantDocuments.map(doc => ({
+        title: doc.title,
+        content: doc.content,
+        page: doc.page_number,
+        pageEnd: doc.page_end,
+        pageUnit: doc.page_unit,
+        section: doc.section_path,
+        flagged: flaggedSources.some(source => source.documentId === doc.document_id && source.chunkIndex === doc.chunk_index),
+      })));
 
       const summaryPrompt = `Based on the following research documents, provide a comprehensive summary of "${topic}":
 
 ${context}
 
+${UNTRUSTED_CONTENT_RULES}
+
 Please provide:
 1. A concise summary of the main findings
 2. 3-5 key insights
 3. Related topics for further research
 4. List of source documents used
 
-Format your response as JSON with keys: summary, keyInsights (array), relatedTopics (array), sources (array of document titles)`;
+Return sources as the titles of the documents used.`;
 
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${this.geminiApiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      let model: string | undefined;
+      const parsed = await generateStructured(researchSummaryTask, summaryPrompt, {
+        cache: { task: 'research-summary' },
+        onModel: chosen => {
+          model = chosen;
         },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: summaryPrompt
-            }]
-          }]
-        }),
       });
-
-      if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const responseText = data.candidates[0].content.parts[0].text;
-      
-      try {
-        const parsed = JSON.parse(responseText);
-        return {
-          summary: parsed.summary,
-          keyInsights: parsed.keyInsights || [],
-          relatedTopics: parsed.relatedTopics || [],
-          sources: relevantDocs
-        };
-      } catch {
-        // Fallback if JSON parsing fails
-        return {
-          summary: responseText,
-          keyInsights: [],
-          relatedTopics: [],
-          sources: relevantDocs
-        };
-      }
-    } catch (error) {
-      console.error('Error generating research summary:', error);
       return {
-        summary: "Unable to generate summary at this time.",
-        keyInsights: [],
-        relatedTopics: [],
-        sources: []
+        summary: parsed.summary,
+        keyInsights: parsed.keyInsights,
+        relatedTopics: parsed.relatedTopics,
+        sources: sendable.relevantDocuments,
+        model,
+        flaggedSources
       };
+    } catch (error) {
+      console.error('Error generating research summary:', error);
+      // Let callers show why the summary failed instead of a placeholder
+      throw error;
     }
   }
 } 
\ No newline at end of file
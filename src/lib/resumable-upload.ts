@@ -0,0 +1,309 @@
+import { supabase } from './supabase';
+
+/**
+ * Resumable uploads to Supabase Storage over the TUS protocol
+ * (https://tus.io/protocols/resumable-upload). Files go up in chunks; a
+ * dropped connection is retried from the last chunk the server confirmed,
+ * and an upload that was paused or cut off by a page reload picks up where
+ * it stopped when the same file is uploaded again.
+ */
+
+// Supabase Storage takes TUS chunks of exactly this size, bar the last
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// The server forgets unfinished uploads after a day
+const UPLOAD_URL_LIFETIME = 24 * 60 * 60 * 1000;
+
+// Wait before each retry of a failed request; the upload fails once they run out
+const RETRY_DELAYS = [1000, 3000, 5000, 10000, 20000];
+
+const STORAGE_KEY_PREFIX = 'resumable-upload:';
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  // Where to store the file; a resumed upload keeps the path it started with
+  objectName: string;
+  contentType: string;
+  // Identifies the file across page reloads, e.g. its owner, name, size and modification time
+  fingerprint: string;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  // Aborting pauses the upload; uploading the same file again resumes it
+  signal?: AbortSignal;
+}
+
+interface StoredUpload {
+  url: string;
+  objectName: string;
+  createdAt: number;
+}
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'UploadError';
+  }
+
+  /**
+   * Network failures, server errors, offset conflicts and locked uploads are worth retrying
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 409 || this.status === 423 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+  Boolean(signal?.aborted) || (error instanceof DOMException && error.name === 'AbortError');
+
+const pausedError = () => new DOMException('Upload paused', 'AbortError');
+
+const endpoint = () => `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+async function requestHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new UploadError('Sign in to upload documents', 401);
+  return {
+    'Authorization': `Bearer ${session.access_token}`,
+    'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+    'Tus-Resumable': '1.0.0',
+  };
+}
+
+const loadStored = (key: string): StoredUpload | null => {
+  try {
+    const stored: StoredUpload | null = JSON.parse(localStorage.getItem(key) || 'null');
+    return stored && Date.now() - stored.createdAt < UPLOAD_URL_LIFETIME ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveStored = (key: string, upload: StoredUpload) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(upload));
+  } catch (error) {
+    // Private browsing or a full quota; the upload still works, it just won't survive a reload
+    console.warn('Could not save upload for resuming:', error);
+  }
+};
+
+const forgetStored = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing was saved
+  }
+};
+
+const base64 = (value: string) => btoa(Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join(''));
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata).map(([key, value]) => `${key} ${base64(value)}`).join(',');
+
+async function errorFrom(response: Response, fallback: string): Promise<UploadError> {
+  let message = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(message);
+    message = body.message || body.error || message;
+  } catch {
+    // Plain-text error
+  }
+  return new UploadError(message || `${fallback} (${response.status})`, response.status);
+}
+
+async function send(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal });
+  } catch (error) {
+    if (isAbortError(error, signal)) throw pausedError();
+    throw new UploadError(`Network error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Register an upload with the server and get the URL its chunks go to
+ */
+async function createUpload(file: Blob, options: ResumableUploadOptions): Promise<string> {
+  const response = await send(endpoint(), {
+    method: 'POST',
+    headers: {
+      ...(await requestHeaders()),
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: options.bucket,
+        objectName: options.objectName,
+        contentType: options.contentType,
+        cacheControl: '3600',
+      }),
+      'x-upsert': 'false',
+    },
+  }, options.signal);
+
+  const location = response.headers.get('Location');
+  if (response.status !== 201 || !location) throw await errorFrom(response, 'Upload could not be started');
+  return new URL(location, endpoint()).toString();
+}
+
+/**
+ * How much of an upload the server has, or null if it no longer knows the upload
+ */
+async function uploadedOffset(url: string, signal?: AbortSignal): Promise<number | null> {
+  const response = await send(url, { method: 'HEAD', headers: await requestHeaders() }, signal);
+  if (response.status === 403 || response.status === 404 || response.status === 410) return null;
+  const offset = Number(response.headers.get('Upload-Offset'));
+  if (!response.ok || !Number.isFinite(offset)) throw new UploadError('Upload progress could not be read', response.status);
+  return offset;
+}
+
+/**
+ * Send one chunk, reporting bytes as they go out, and resolve with the new offset.
+ * XMLHttpRequest rather than fetch, since fetch reports no upload progress.
+ */
+async function sendChunk(
+  url: string,
+  offset: number,
+  chunk: Blob,
+  signal: AbortSignal | undefined,
+  onSent: (bytes: number) => void
+): Promise<number> {
+  const headers = await requestHeaders();
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('PATCH', url);
+    for (const [name, value] of Object.entries(headers)) request.setRequestHeader(name, value);
+    request.setRequestHeader('Upload-Offset', String(offset));
+    request.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    const abort = () => request.abort();
+    signal?.addEventListener('abort', abort);
+    const settle = () => signal?.removeEventListener('abort', abort);
+
+    request.upload.onprogress = event => onSent(event.loaded);
+    request.onload = () => {
+      settle();
+      const newOffset = Number(request.getResponseHeader('Upload-Offset'));
+      if (request.status === 204 && Number.isFinite(newOffset)) {
+        resolve(newOffset);
+      } else {
+        reject(new UploadError(request.responseText || `Chunk upload failed (${request.status})`, request.status));
+      }
+    };
+    request.onerror = () => {
+      settle();
+      reject(new UploadError('Network error while uploading'));
+    };
+    request.onabort = () => {
+      settle();
+      reject(pausedError());
+    };
+
+    if (signal?.aborted) {
+      settle();
+      reject(pausedError());
+      return;
+    }
+    request.send(chunk);
+  });
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(pausedError());
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+/**
+ * Upload a file, resuming an earlier attempt at the same file if the server
+ * still has it, and resolve with the path it was stored under. Rejects with
+ * an AbortError when paused through the signal.
+ */
+export async function uploadResumable(file: Blob, options: ResumableUploadOptions): Promise<string> {
+  const key = STORAGE_KEY_PREFIX + options.fingerprint;
+  let upload = loadStored(key);
+  // Unknown until the server is asked
+  let offset: number | null = upload ? null : 0;
+  let attempt = 0;
+
+  while (true) {
+    try {
+      if (options.signal?.aborted) throw pausedError();
+
+      if (!upload) {
+        upload = { url: await createUpload(file, options), objectName: options.objectName, createdAt: Date.now() };
+        saveStored(key, upload);
+        offset = 0;
+      }
+      if (offset === null) {
+        offset = await uploadedOffset(upload.url, options.signal);
+        if (offset === null) {
+          // Expired or removed on the server; start again
+          forgetStored(key);
+          upload = null;
+          continue;
+        }
+      }
+
+      options.onProgress?.(offset, file.size);
+      if (offset >= file.size) break;
+
+      const start = offset;
+      offset = await sendChunk(upload.url, start, file.slice(start, start + RESUMABLE_CHUNK_SIZE), options.signal, sent =>
+        options.onProgress?.(Math.min(start + sent, file.size), file.size)
+      );
+      attempt = 0;
+    } catch (error) {
+      if (isAbortError(error, options.signal)) throw pausedError();
+      if (!(error instanceof UploadError) || !error.retryable || attempt >= RETRY_DELAYS.length) throw error;
+
+      console.warn(`Upload interrupted, retrying in ${RETRY_DELAYS[attempt] / 1000}s:`, error.message);
+      await wait(RETRY_DELAYS[attempt++], options.signal);
+      // Ask the server how much arrived before carrying on
+      offset = upload ? null : 0;
+    }
+  }
+
+  forgetStored(key);
+  return upload.objectName;
+}
+
+/**
+ * Transfer speed over the last few seconds, and the time left at that speed
+ */
+export class TransferRate {
+  private samples: { at: number; bytes: number }[] = [];
+
+  constructor(private readonly windowMs = 5000) {}
+
+  record(bytes: number, at = Date.now()) {
+    this.samples.push({ at, bytes });
+    while (this.samples.length > 2 && at - this.samples[0].at > this.windowMs) this.samples.shift();
+  }
+
+  // Speed is measured afresh after a pause
+  reset() {
+    this.samples = [];
+  }
+
+  get bytesPerSecond(): number | null {
+    if (this.samples.length < 2) return null;
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const seconds = (last.at - first.at) / 1000;
+    return seconds > 0 ? Math.max(0, last.bytes - first.bytes) / seconds : null;
+  }
+
+  secondsLeft(bytesTotal: number): number | null {
+    const rate = this.bytesPerSecond;
+    if (!rate) return null;
+    return (bytesTotal - this.samples[this.samples.length - 1].bytes) / rate;
+  }
+}
@@ -0,0 +1,568 @@
+import {
+  childElements,
+  DocumentExtractionError,
+  ExtractedDocument,
+  ExtractedTable,
+  formatTable,
+  isEncryptedPackage,
+  isOleFile,
+  parseXml,
+  readZipText,
+  relsPath,
+  resolvePart,
+  TableCellValue,
+  TableColumnType,
+} from './document-extraction';
+
+/**
+ * Spreadsheet extraction for .xlsx, .ods and legacy .xls workbooks. Each
+ * format is read into the same grid of typed cells, formulas contributing the
+ * value last computed by the spreadsheet application. Every sheet is then
+ * returned as a structured table and rendered as | rows for search.
+ */
+
+export type SheetCell =
+  | { type: 'number'; value: number; percent?: boolean }
+  | { type: 'date'; value: Date }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'string'; value: string }
+  | { type: 'error'; value: string };
+
+export type SheetRow = (SheetCell | null)[];
+
+export interface Sheet {
+  name: string;
+  hidden: boolean;
+  rows: SheetRow[];
+}
+
+export interface Workbook {
+  sheets: Sheet[];
+  // Formula cells saved without a computed value, which read as empty
+  uncachedFormulas: number;
+}
+
+// Rows of each sheet rendered into the searchable text
+const MAX_TEXT_ROWS = 1000;
+// Rows of each sheet kept in its stored table
+const MAX_TABLE_ROWS = 10000;
+// Limits on repeated rows and columns, which ODS uses to fill whole sheets
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+export const XLS_CONTENT_TYPE = 'application/vnd.ms-excel';
+export const ODS_CONTENT_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+export const isSpreadsheet = (contentType: string): boolean =>
+  [XLSX_CONTENT_TYPE, XLS_CONTENT_TYPE, ODS_CONTENT_TYPE].includes(contentType);
+
+const DAY_MS = 86400000;
+
+/**
+ * A spreadsheet date serial as a cell: days since 1899-12-30, or since
+ * 1904-01-01 in workbooks using the 1904 date system. Serials below 1 are
+ * times of day.
+ */
+export const serialToCell = (serial: number, date1904 = false): SheetCell => {
+  const ms = Math.round(serial * DAY_MS / 1000) * 1000;
+  if (serial >= 0 && serial < 1) {
+    return { type: 'string', value: new Date(ms).toISOString().slice(11, 19) };
+  }
+  // Excel counts a 29 February 1900 that never existed
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, serial < 60 ? 31 : 30);
+  return { type: 'date', value: new Date(epoch + ms) };
+};
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+const PERCENT_FORMAT_IDS = new Set([9, 10]);
+
+export type NumberFormatKind = 'date' | 'percent' | 'number';
+
+/**
+ * What a number format displays, from its built-in id or its format code
+ */
+export const numberFormatKind = (id: number, code?: string): NumberFormatKind => {
+  if (DATE_FORMAT_IDS.has(id)) return 'date';
+  if (PERCENT_FORMAT_IDS.has(id)) return 'percent';
+  if (!code) return 'number';
+
+  // Ignore quoted text, escaped characters, colours and locales
+  const bare = code.replace(/"[^"]*"/g, '').replace(/\\./g, '').replace(/_.|\*./g, '').replace(/\[[^\]]*\]/g, '').replace(/General/gi, '');
+  if (/[dmyhs]/i.test(bare)) return 'date';
+  if (bare.includes('%')) return 'percent';
+  return 'number';
+};
+
+export const numberCell = (value: number, kind: NumberFormatKind, date1904 = false): SheetCell =>
+  kind === 'date' ? serialToCell(value, date1904) : { type: 'number', value, ...(kind === 'percent' ? { percent: true } : {}) };
+
+/**
+ * Place a cell in a sheet grid, ignoring cells beyond the format limits
+ */
+export const setCell = (rows: SheetRow[], row: number, column: number, cell: SheetCell | null) => {
+  if (row < 0 || row >= MAX_ROWS || column < 0 || column >= MAX_COLUMNS) return;
+  if (!rows[row]) rows[row] = [];
+  rows[row][column] = cell;
+};
+
+/**
+ * Column number for a letter reference: A is 0, AA is 26
+ */
+const columnIndex = (letters: string): number =>
+  [...letters.toUpperCase()].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+/**
+ * An ISO 8601 date or date-time, read as UTC when it has no offset
+ */
+const parseIsoDate = (value: string): Date => {
+  if (/Z|[+-]\d\d:\d\d$/.test(value)) return new Date(value);
+  return new Date(value.includes('T') ? `${value}Z` : `${value}T00:00:00Z`);
+};
+
+// ---------------------------------------------------------------------------
+// Office Open XML (.xlsx)
+
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+/**
+ * Text of a shared or inline string, without phonetic guides
+ */
+const stringItemText = (item: Element): string =>
+  elements(item, 't')
+    .filter(t => t.parentNode && (t.parentNode as Element).localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+/**
+ * Number format kind by cell style index
+ */
+const parseCellFormats = (xml: string | undefined): NumberFormatKind[] => {
+  if (!xml) return [];
+  const doc = parseXml(xml);
+  const codes = new Map(elements(doc, 'numFmt').map(format => [Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') ?? '']));
+  const cellXfs = elements(doc, 'cellXfs')[0];
+  return cellXfs
+    ? childElements(cellXfs, 'xf').map(xf => {
+        const id = Number(xf.getAttribute('numFmtId') ?? 0);
+        return numberFormatKind(id, codes.get(id));
+      })
+    : [];
+};
+
+const ERROR_VALUES = new Set(['#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#GETTING_DATA']);
+
+const xlsxCell = (
+  c: Element,
+  sharedStrings: string[],
+  formats: NumberFormatKind[],
+  date1904: boolean
+): { cell: SheetCell | null; uncachedFormula: boolean } => {
+  const type = c.getAttribute('t') ?? 'n';
+  const v = childElements(c, 'v')[0]?.textContent ?? null;
+  const uncachedFormula = childElements(c, 'f').length > 0 && v === null;
+
+  if (type === 'inlineStr') {
+    const inline = childElements(c, 'is')[0];
+    return { cell: inline ? { type: 'string', value: stringItemText(inline) } : null, uncachedFormula };
+  }
+  if (v === null) return { cell: null, uncachedFormula };
+
+  switch (type) {
+    case 's':
+      return { cell: { type: 'string', value: sharedStrings[Number(v)] ?? '' }, uncachedFormula };
+    case 'str':
+      return { cell: { type: 'string', value: v }, uncachedFormula };
+    case 'b':
+      return { cell: { type: 'boolean', value: v === '1' }, uncachedFormula };
+    case 'e':
+      return { cell: { type: 'error', value: ERROR_VALUES.has(v) ? v : '#ERROR' }, uncachedFormula };
+    case 'd': {
+      const date = parseIsoDate(v);
+      return { cell: isNaN(date.getTime()) ? { type: 'string', value: v } : { type: 'date', value: date }, uncachedFormula };
+    }
+    default: {
+      const value = Number(v);
+      if (!isFinite(value)) return { cell: null, uncachedFormula };
+      const kind = formats[Number(c.getAttribute('s') ?? 0)] ?? 'number';
+      return { cell: numberCell(value, kind, date1904), uncachedFormula };
+    }
+  }
+};
+
+async function readXlsx(data: ArrayBuffer): Promise<Workbook> {
+  let parts: Map<string, string>;
+  try {
+    parts = await readZipText(data, name => name.endsWith('.xml') || name.endsWith('.rels'));
+  } catch (error) {
+    throw new DocumentExtractionError('invalid', `This file could not be read as an Excel workbook${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  // The workbook part is named by the package relationships
+  const packageRels = parts.get('_rels/.rels');
+  const officeDocument = packageRels && elements(parseXml(packageRels), 'Relationship')
+    .find(rel => rel.getAttribute('Type')?.endsWith('/officeDocument'));
+  const workbookPart = officeDocument ? resolvePart('', officeDocument.getAttribute('Target') ?? '') : 'xl/workbook.xml';
+
+  const workbookXml = parts.get(workbookPart);
+  if (!workbookXml) {
+    throw new DocumentExtractionError('invalid', 'This file could not be read as an Excel workbook: the workbook part is missing.');
+  }
+  const workbook = parseXml(workbookXml);
+
+  const targets = new Map<string, string>();
+  const workbookRels = parts.get(relsPath(workbookPart));
+  const relationships = workbookRels ? elements(parseXml(workbookRels), 'Relationship') : [];
+  for (const rel of relationships) {
+    targets.set(rel.getAttribute('Id') ?? '', resolvePart(workbookPart, rel.getAttribute('Target') ?? ''));
+  }
+  const partOfType = (type: string) => {
+    const rel = relationships.find(candidate => candidate.getAttribute('Type')?.endsWith(`/${type}`));
+    return rel ? parts.get(resolvePart(workbookPart, rel.getAttribute('Target') ?? '')) : undefined;
+  };
+
+  const sharedStringsXml = partOfType('sharedStrings');
+  const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), 'si').map(stringItemText) : [];
+  const formats = parseCellFormats(partOfType('styles'));
+  const workbookPr = elements(workbook, 'workbookPr')[0]?.getAttribute('date1904');
+  const date1904 = workbookPr === '1' || workbookPr === 'true';
+
+  let uncachedFormulas = 0;
+  const sheets: Sheet[] = [];
+  for (const sheet of elements(workbook, 'sheet')) {
+    const id = Array.from(sheet.attributes).find(attribute => attribute.localName === 'id' && attribute.prefix)?.value ?? '';
+    const sheetXml = parts.get(targets.get(id) ?? '');
+    // Chart sheets and dialog sheets have no cells
+    if (!sheetXml || !sheetXml.includes('sheetData')) continue;
+
+    const rows: SheetRow[] = [];
+    let nextRow = 0;
+    for (const row of elements(parseXml(sheetXml), 'row')) {
+      const rowIndex = row.hasAttribute('r') ? Number(row.getAttribute('r')) - 1 : nextRow;
+      nextRow = rowIndex + 1;
+      let nextColumn = 0;
+      for (const c of childElements(row, 'c')) {
+        const reference = /^([A-Z]+)\d*$/i.exec(c.getAttribute('r') ?? '');
+        const column = reference ? columnIndex(reference[1]) : nextColumn;
+        nextColumn = column + 1;
+        const { cell, uncachedFormula } = xlsxCell(c, sharedStrings, formats, date1904);
+        if (uncachedFormula) uncachedFormulas++;
+        if (cell) setCell(rows, rowIndex, column, cell);
+      }
+    }
+
+    const state = sheet.getAttribute('state');
+    sheets.push({ name: sheet.getAttribute('name') ?? `Sheet${sheets.length + 1}`, hidden: state === 'hidden' || state === 'veryHidden', rows });
+  }
+
+  return { sheets, uncachedFormulas };
+}
+
+// ---------------------------------------------------------------------------
+// OpenDocument (.ods)
+
+const TABLE = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const OFFICE = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const TEXT = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const STYLE = 'urn:oasis:names:tc:opendocument:xmlns:style:1.0';
+
+const odsAttr = (element: Element, namespace: string, name: string): string | null =>
+  element.getAttributeNS(namespace, name);
+
+/**
+ * Text of a paragraph, expanding the elements ODF uses for runs of spaces,
+ * tabs and line breaks
+ */
+const odsParagraphText = (node: Node): string =>
+  Array.from(node.childNodes).map(child => {
+    if (child.nodeType === 3) return child.nodeValue ?? '';
+    if (child.nodeType !== 1) return '';
+    const element = child as Element;
+    if (element.namespaceURI === TEXT) {
+      if (element.localName === 's') return ' '.repeat(Number(odsAttr(element, TEXT, 'c') ?? 1));
+      if (element.localName === 'tab') return '\t';
+      if (element.localName === 'line-break') return '\n';
+    }
+    // Cell comments are not part of the value
+    if (element.namespaceURI === OFFICE && element.localName === 'annotation') return '';
+    return odsParagraphText(element);
+  }).join('');
+
+const odsCell = (cell: Element): SheetCell | null => {
+  const type = odsAttr(cell, OFFICE, 'value-type');
+  const text = childElements(cell).filter(child => child.namespaceURI === TEXT).map(odsParagraphText).join('\n');
+
+  switch (type) {
+    case 'float':
+    case 'currency':
+    case 'percentage': {
+      const value = Number(odsAttr(cell, OFFICE, 'value'));
+      if (!isFinite(value)) return text ? { type: 'string', value: text } : null;
+      return type === 'percentage' ? { type: 'number', value, percent: true } : { type: 'number', value };
+    }
+    case 'date': {
+      const value = odsAttr(cell, OFFICE, 'date-value') ?? '';
+      const date = parseIsoDate(value);
+      return isNaN(date.getTime()) ? { type: 'string', value: text || value } : { type: 'date', value: date };
+    }
+    case 'boolean':
+      return { type: 'boolean', value: odsAttr(cell, OFFICE, 'boolean-value') === 'true' };
+    case 'time':
+    case 'string':
+    default:
+      if (text.startsWith('#') && ERROR_VALUES.has(text) && odsAttr(cell, TABLE, 'formula')) {
+        return { type: 'error', value: text };
+      }
+      return text ? { type: 'string', value: text } : null;
+  }
+};
+
+/**
+ * Rows of a table, including those inside header-row and row-group wrappers
+ */
+const odsRows = (parent: Element): Element[] =>
+  childElements(parent).flatMap(child => {
+    if (child.namespaceURI !== TABLE) return [];
+    if (child.localName === 'table-row') return [child];
+    if (['table-header-rows', 'table-row-group', 'table-rows'].includes(child.localName)) return odsRows(child);
+    return [];
+  });
+
+async function readOds(data: ArrayBuffer): Promise<Workbook> {
+  let parts: Map<string, string>;
+  try {
+    parts = await readZipText(data, name => name === 'content.xml' || name === 'META-INF/manifest.xml');
+  } catch (error) {
+    throw new DocumentExtractionError('invalid', `This file could not be read as an OpenDocument spreadsheet${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  // Password-protected files keep their manifest readable but encrypt content.xml
+  const manifest = parts.get('META-INF/manifest.xml');
+  if (manifest && elements(parseXml(manifest), 'encryption-data').length > 0) {
+    throw new DocumentExtractionError('encrypted', 'This spreadsheet is password-protected. Remove the password and upload it again.');
+  }
+
+  const content = parts.get('content.xml');
+  const doc = content ? parseXml(content) : undefined;
+  const spreadsheet = doc?.getElementsByTagNameNS(OFFICE, 'spreadsheet')[0];
+  if (!spreadsheet) {
+    throw new DocumentExtractionError('invalid', 'This file could not be read as an OpenDocument spreadsheet: the spreadsheet content is missing.');
+  }
+
+  // Hidden sheets are tables whose style turns display off
+  const hiddenStyles = new Set(
+    Array.from(doc.getElementsByTagNameNS(STYLE, 'table-properties'))
+      .filter(properties => odsAttr(properties, TABLE, 'display') === 'false')
+      .map(properties => odsAttr(properties.parentNode as Element, STYLE, 'name'))
+  );
+
+  let uncachedFormulas = 0;
+  const sheets = childElements(spreadsheet, 'table').filter(table => table.namespaceURI === TABLE).map((table, index): Sheet => {
+    const rows: SheetRow[] = [];
+    let rowIndex = 0;
+    for (const row of odsRows(table)) {
+      const rowRepeat = Number(odsAttr(row, TABLE, 'number-rows-repeated') ?? 1);
+      const cells: SheetRow = [];
+      let column = 0;
+      for (const cell of childElements(row).filter(child => child.namespaceURI === TABLE)) {
+        if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') continue;
+        const columnRepeat = Number(odsAttr(cell, TABLE, 'number-columns-repeated') ?? 1);
+        const value = odsCell(cell);
+        if (!value && odsAttr(cell, TABLE, 'formula')) uncachedFormulas++;
+        // Trailing empty cells are repeated to the edge of the sheet; only
+        // cells with values are stored
+        if (value) {
+          for (let i = 0; i < columnRepeat && column + i < MAX_COLUMNS; i++) cells[column + i] = value;
+        }
+        column += columnRepeat;
+      }
+      if (cells.length > 0) {
+        for (let i = 0; i < rowRepeat && rowIndex + i < MAX_ROWS; i++) rows[rowIndex + i] = [...cells];
+      }
+      rowIndex += rowRepeat;
+    }
+    return { name: odsAttr(table, TABLE, 'name') ?? `Sheet${index + 1}`, hidden: hiddenStyles.has(odsAttr(table, TABLE, 'style-name')), rows };
+  });
+
+  return { sheets, uncachedFormulas };
+}
+
+// ---------------------------------------------------------------------------
+// Typing and rendering
+
+const isFilled = (cell: SheetCell | null | undefined): cell is SheetCell =>
+  !!cell && !(cell.type === 'string' && !cell.value.trim());
+
+const formatNumber = (value: number): string => String(Number(value.toPrecision(12)));
+
+const formatDate = (date: Date): string => {
+  const iso = date.toISOString();
+  return iso.slice(11, 19) === '00:00:00' ? iso.slice(0, 10) : iso.slice(0, 19);
+};
+
+const displayValue = (cell: SheetCell | null | undefined): string => {
+  if (!cell) return '';
+  switch (cell.type) {
+    case 'number':
+      return cell.percent ? `${formatNumber(cell.value * 100)}%` : formatNumber(cell.value);
+    case 'date':
+      return formatDate(cell.value);
+    case 'boolean':
+      return cell.value ? 'TRUE' : 'FALSE';
+    default:
+      return cell.value;
+  }
+};
+
+const storedValue = (cell: SheetCell | null | undefined): TableCellValue => {
+  if (!isFilled(cell)) return null;
+  return cell.type === 'date' ? formatDate(cell.value) : cell.value;
+};
+
+const columnType = (cells: (SheetCell | null | undefined)[]): TableColumnType => {
+  const filled = cells.filter(isFilled);
+  // Error values such as #DIV/0! do not change the type of a column of results
+  const types = new Set(filled.filter(cell => cell.type !== 'error').map(cell => cell.type));
+  if (types.size === 0) return filled.length > 0 ? 'string' : 'empty';
+  if (types.size > 1) return 'mixed';
+  return [...types][0] as TableColumnType;
+};
+
+interface SheetLayout {
+  // Short rows above the table, such as a title
+  caption: SheetRow[];
+  header: SheetRow | null;
+  headerRow: number | null;
+  data: SheetRow[];
+  firstColumn: number;
+  width: number;
+}
+
+/**
+ * Find where a sheet's table starts and whether its first row is a header:
+ * the first row filling most of the used columns, if all of its cells are
+ * distinct text and rows follow it
+ */
+const layoutOf = (sheet: Sheet): SheetLayout => {
+  const used = sheet.rows.map((row, index) => ({ row: row ?? [], index })).filter(({ row }) => row.some(isFilled));
+  // A loop rather than Math.min(...), which runs out of stack on large sheets
+  let firstColumn = Infinity;
+  let lastColumn = -1;
+  for (const { row } of used) {
+    row.forEach((cell, column) => {
+      if (!isFilled(cell)) return;
+      firstColumn = Math.min(firstColumn, column);
+      lastColumn = Math.max(lastColumn, column);
+    });
+  }
+  if (lastColumn === -1) {
+    return { caption: [], header: null, headerRow: null, data: [], firstColumn: 0, width: 0 };
+  }
+
+  const width = lastColumn - firstColumn + 1;
+  const trimmed = used.map(({ row, index }) => ({ row: Array.from({ length: width }, (_, i) => row[firstColumn + i] ?? null), index }));
+
+  const wide = Math.max(Math.min(2, width), Math.ceil(width / 2));
+  const start = Math.max(0, trimmed.slice(0, 10).findIndex(({ row }) => row.filter(isFilled).length >= wide));
+  const candidate = trimmed[start].row.filter(isFilled);
+  const isHeader = start < trimmed.length - 1
+    && candidate.every(cell => cell.type === 'string')
+    && new Set(candidate.map(cell => String(cell.value).trim().toLowerCase())).size === candidate.length;
+
+  return {
+    caption: trimmed.slice(0, start).map(({ row }) => row),
+    header: isHeader ? trimmed[start].row : null,
+    headerRow: isHeader ? trimmed[start].index + 1 : null,
+    data: trimmed.slice(isHeader ? start + 1 : start).map(({ row }) => row),
+    firstColumn,
+    width,
+  };
+};
+
+const sheetTable = (sheet: Sheet, index: number, layout: SheetLayout): ExtractedTable => ({
+  name: sheet.name,
+  index,
+  hidden: sheet.hidden,
+  columns: Array.from({ length: layout.width }, (_, column) => ({
+    name: (layout.header && displayValue(layout.header[column]).trim()) || `Column ${columnLetter(layout.firstColumn + column)}`,
+    type: columnType(layout.data.map(row => row[column])),
+  })),
+  headerRow: layout.headerRow,
+  rows: layout.data.slice(0, MAX_TABLE_ROWS).map(row => row.map(storedValue)),
+  rowCount: layout.data.length,
+});
+
+const renderSheet = (sheet: Sheet, table: ExtractedTable, layout: SheetLayout): string => {
+  const blocks = [`## Sheet: ${sheet.name}${sheet.hidden ? ' (hidden)' : ''}`];
+  const caption = layout.caption.map(row => row.filter(isFilled).map(displayValue).join(' ')).join('\n');
+  if (caption) blocks.push(caption);
+
+  const rows = layout.data.slice(0, MAX_TEXT_ROWS).map(row => row.map(displayValue));
+  blocks.push(formatTable([table.columns.map(column => column.name), ...rows]));
+  if (layout.data.length > MAX_TEXT_ROWS) {
+    blocks.push(`(First ${MAX_TEXT_ROWS.toLocaleString()} of ${layout.data.length.toLocaleString()} rows)`);
+  }
+  return blocks.join('\n\n');
+};
+
+/**
+ * Extract every sheet as a typed table plus a text rendering for search.
+ * Throws DocumentExtractionError for password-protected, damaged or empty
+ * workbooks.
+ */
+export async function extractSpreadsheet(data: ArrayBuffer, contentType: string): Promise<ExtractedDocument> {
+  let workbook: Workbook;
+  // Legacy .xls files and password-protected files of any format are OLE
+  // compound files, whatever their extension says
+  if (isOleFile(data)) {
+    if (isEncryptedPackage(data)) {
+      throw new DocumentExtractionError('encrypted', 'This spreadsheet is password-protected. Remove the password and upload it again.');
+    }
+    const { readXls } = await import('./xls-extraction');
+    workbook = readXls(data);
+  } else if (contentType === ODS_CONTENT_TYPE) {
+    workbook = await readOds(data);
+  } else {
+    workbook = await readXlsx(data);
+  }
+
+  const warnings: string[] = [];
+  const tables: ExtractedTable[] = [];
+  const sections: string[] = [];
+  workbook.sheets.forEach(sheet => {
+    const layout = layoutOf(sheet);
+    if (layout.width === 0) return;
+
+    const table = sheetTable(sheet, tables.length, layout);
+    tables.push(table);
+    sections.push(renderSheet(sheet, table, layout));
+    if (table.rowCount > MAX_TEXT_ROWS) {
+      warnings.push(
+        `Sheet "${sheet.name}" has ${table.rowCount.toLocaleString()} rows; only the first ${MAX_TEXT_ROWS.toLocaleString()} are searchable` +
+          (table.rowCount > MAX_TABLE_ROWS ? ` and the first ${MAX_TABLE_ROWS.toLocaleString()} are stored.` : '.')
+      );
+    }
+  });
+
+  if (tables.length === 0) {
+    throw new DocumentExtractionError('empty', 'This spreadsheet contains no data.');
+  }
+  if (workbook.uncachedFormulas > 0) {
+    warnings.push(
+      `${workbook.uncachedFormulas} formula${workbook.uncachedFormulas === 1 ? ' was' : 's were'} saved without a calculated value ` +
+        'and read as empty. Open and re-save the file in a spreadsheet application to include them.'
+    );
+  }
+
+  return { text: sections.join('\n\n'), warnings, tables };
+}
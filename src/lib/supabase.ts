@@ -258,4 +258,45 @@ export const db = {
       return data;
     }
   }
-}; 
\ No newline at end of file
+};
+
+let currentTeamIdPromise: Promise<string | null> | null = null;
+
+// Team-scoped AI state (cache, usage, settings) follows whoever is signed in
+supabase.auth.onAuthStateChange(() => {
+  currentTeamIdPromise = null;
+});
+
+/**
+ * Team of the signed-in user, or null when signed out or not on a team
+ */
+export function getCurrentTeamId(): Promise<string | null> {
+  if (!currentTeamIdPromise) {
+    currentTeamIdPromise = (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data } = await supabase
+        .from('profiles')
+        .select('team_id')
+        .eq('id', user.id)
+        .single();
+
+      return data?.team_id ?? null;
+    })().catch(error => {
+      console.warn('Could not resolve current team:', error);
+      currentTeamIdPromise = null;
+      return null;
+    });
+  }
+  return currentTeamIdPromise;
+}
+
+/**
+ * The message of something thrown. Supabase returns its errors as plain
+ * objects with a message rather than Error instances.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  const message = typeof error === 'object' && error !== null ? (error as { message?: unknown }).message : error;
+  return typeof message === 'string' && message ? message : fallback;
+}
@@ -1,5 +1,6 @@
 import { AIService } from './ai';
 import { RAGSystem } from './rag';
+import { isAIConfigured } from './ai-providers';
 
 export async function testOpenRouterIntegration() {
   console.log('🧪 Testing OpenRouter Integration...');
@@ -12,13 +13,12 @@ export async function testOpenRouterIntegration() {
     
     // Test 2: Embedding generation
     console.log('🔗 Testing embedding generation...');
-    const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (geminiApiKey) {
-      const ragSystem = RAGSystem.getInstance(geminiApiKey);
+    if (isAIConfigured()) {
+      const ragSystem = RAGSystem.getInstance();
       const embedding = await ragSystem.generateEmbedding('This is a test text for embedding generation.');
       console.log('✅ Embedding generated, length:', embedding.length);
     } else {
-      console.log('⚠️ No Gemini API key found, skipping embedding test');
+      console.log('⚠️ AI proxy not configured, skipping embedding test');
     }
     
     // Test 3: Document analysis
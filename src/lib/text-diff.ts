@@ -0,0 +1,150 @@
+/**
+ * Redline diff of two texts. Lines are compared first (Myers' O(ND)
+ * algorithm), then each run of changed lines word by word, so an edited
+ * sentence shows the words that changed rather than the whole paragraph.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface DiffStats {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+// Past this many edits a block is shown as replaced outright
+const MAX_EDITS = 2000;
+
+/**
+ * Shortest edit script between two token lists, as operations in order.
+ * Null when it needs more than `maxEdits` insertions and deletions.
+ */
+function myers(a: number[], b: number[], maxEdits: number): DiffOperation[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // v at the start of each round, over diagonals -d-1..d+1
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        // Walk back through the rounds to recover the path
+        const operations: DiffOperation[] = [];
+        let px = n;
+        let py = m;
+        for (let round = d; round >= 0; round--) {
+          const saved = trace[round];
+          const at = (diagonal: number) => saved[diagonal + round + 1];
+          const pk = px - py;
+          const prevK = pk === -round || (pk !== round && at(pk - 1) < at(pk + 1)) ? pk + 1 : pk - 1;
+          const prevX = round === 0 ? 0 : at(prevK);
+          const prevY = round === 0 ? 0 : prevX - prevK;
+          while (px > prevX && py > prevY) {
+            operations.push('equal');
+            px--;
+            py--;
+          }
+          if (round > 0) operations.push(px === prevX ? 'insert' : 'delete');
+          px = prevX;
+          py = prevY;
+        }
+        return operations.reverse();
+      }
+    }
+  }
+  return null;
+}
+
+// Tokens as numbers, so comparisons are cheap
+const tokenIds = (tokens: string[], ids: Map<string, number>): number[] =>
+  tokens.map(token => {
+    let id = ids.get(token);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(token, id);
+    }
+    return id;
+  });
+
+function diffTokens(a: string[], b: string[], maxEdits = MAX_EDITS): DiffPart[] {
+  const ids = new Map<string, number>();
+  const operations = myers(tokenIds(a, ids), tokenIds(b, ids), maxEdits);
+  if (!operations) {
+    return [
+      ...(a.length > 0 ? [{ type: 'delete' as const, text: a.join('') }] : []),
+      ...(b.length > 0 ? [{ type: 'insert' as const, text: b.join('') }] : []),
+    ];
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  for (const type of operations) {
+    const text = type === 'insert' ? b[j++] : a[i++];
+    if (type === 'equal') j++;
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  }
+  return parts;
+}
+
+const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const splitWords = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+/**
+ * Diff two texts into equal, inserted and deleted runs, which concatenate
+ * back to `before` (equal and deleted) and `after` (equal and inserted)
+ */
+export function diffTexts(before: string, after: string): DiffPart[] {
+  const lineParts = diffTokens(splitLines(before), splitLines(after));
+  const parts: DiffPart[] = [];
+  const push = (part: DiffPart) => {
+    if (!part.text) return;
+    const last = parts[parts.length - 1];
+    if (last?.type === part.type) last.text += part.text;
+    else parts.push({ ...part });
+  };
+
+  for (let index = 0; index < lineParts.length; index++) {
+    const part = lineParts[index];
+    const next = lineParts[index + 1];
+    // A deleted run followed by an inserted one is an edit; redline its words
+    if (part.type === 'delete' && next?.type === 'insert') {
+      diffTokens(splitWords(part.text), splitWords(next.text)).forEach(push);
+      index++;
+    } else {
+      push(part);
+    }
+  }
+  return parts;
+}
+
+const countWords = (text: string): number => text.match(/[^\s]+/g)?.length ?? 0;
+
+export function diffStats(parts: DiffPart[]): DiffStats {
+  return parts.reduce(
+    (stats, part) => ({
+      insertedWords: stats.insertedWords + (part.type === 'insert' ? countWords(part.text) : 0),
+      deletedWords: stats.deletedWords + (part.type === 'delete' ? countWords(part.text) : 0),
+    }),
+    { insertedWords: 0, deletedWords: 0 }
+  );
+}
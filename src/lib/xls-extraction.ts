@@ -0,0 +1,414 @@
+import { DocumentExtractionError } from './document-extraction';
+import { numberCell, NumberFormatKind, numberFormatKind, setCell, Sheet, SheetCell, SheetRow, Workbook } from './spreadsheet-extraction';
+
+/**
+ * Reader for legacy Excel 97-2003 (.xls) workbooks: the BIFF8 record stream
+ * inside an OLE compound file. Only cell values are read; formulas carry the
+ * result Excel stored with them, as in every BIFF8 file.
+ */
+
+// ---------------------------------------------------------------------------
+// OLE compound file
+
+const MAX_REGULAR_SECTOR = 0xfffffffa;
+
+/**
+ * Streams of a compound file by name. Storage nesting is ignored; the
+ * workbook stream sits at the root.
+ */
+function readCompoundFile(data: ArrayBuffer): Map<string, Uint8Array> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  if (data.byteLength < 512) throw new Error('the file is truncated');
+
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const u32s = (chunk: Uint8Array) => {
+    const chunkView = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    return Array.from({ length: Math.floor(chunk.byteLength / 4) }, (_, i) => chunkView.getUint32(i * 4, true));
+  };
+
+  // The FAT is listed in the header, then in a chain of DIFAT sectors
+  const fatSectors = u32s(bytes.subarray(0x4c, 0x4c + 109 * 4));
+  const perDifatSector = sectorSize / 4 - 1;
+  for (let sector = view.getUint32(0x44, true), n = 0; sector < MAX_REGULAR_SECTOR && n < view.getUint32(0x48, true); n++) {
+    const entries = u32s(bytes.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize));
+    fatSectors.push(...entries.slice(0, perDifatSector));
+    sector = entries[perDifatSector] ?? MAX_REGULAR_SECTOR;
+  }
+  const fat = fatSectors
+    .filter(sector => sector < MAX_REGULAR_SECTOR)
+    .flatMap(sector => u32s(bytes.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize)));
+
+  const chainOf = (start: number, table: number[]): number[] => {
+    const chain: number[] = [];
+    for (let sector = start; sector < MAX_REGULAR_SECTOR; sector = table[sector]) {
+      if (sector >= table.length || chain.length > table.length) throw new Error('a sector chain is damaged');
+      chain.push(sector);
+    }
+    return chain;
+  };
+  const readChain = (start: number, size?: number): Uint8Array => {
+    const chain = chainOf(start, fat);
+    const out = new Uint8Array(chain.length * sectorSize);
+    chain.forEach((sector, i) => out.set(bytes.subarray(sectorOffset(sector), sectorOffset(sector) + sectorSize), i * sectorSize));
+    return size === undefined ? out : out.subarray(0, size);
+  };
+
+  const directory = readChain(view.getUint32(0x30, true));
+  const directoryView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const entries = Array.from({ length: Math.floor(directory.length / 128) }, (_, i) => {
+    const offset = i * 128;
+    const nameLength = Math.max(0, Math.min(64, directoryView.getUint16(offset + 64, true)) - 2);
+    return {
+      name: new TextDecoder('utf-16le').decode(directory.subarray(offset, offset + nameLength)),
+      type: directory[offset + 66],
+      start: directoryView.getUint32(offset + 116, true),
+      size: directoryView.getUint32(offset + 120, true),
+    };
+  });
+
+  const root = entries.find(entry => entry.type === 5);
+  const miniStream = root && root.start < MAX_REGULAR_SECTOR ? readChain(root.start, root.size) : new Uint8Array(0);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  const miniFat = firstMiniFatSector < MAX_REGULAR_SECTOR ? u32s(readChain(firstMiniFatSector)) : [];
+
+  const streams = new Map<string, Uint8Array>();
+  for (const entry of entries) {
+    if (entry.type !== 2) continue;
+    if (entry.size >= miniStreamCutoff) {
+      streams.set(entry.name, readChain(entry.start, entry.size));
+      continue;
+    }
+    const chain = chainOf(entry.start, miniFat);
+    const out = new Uint8Array(chain.length * miniSectorSize);
+    chain.forEach((sector, i) => out.set(miniStream.subarray(sector * miniSectorSize, (sector + 1) * miniSectorSize), i * miniSectorSize));
+    streams.set(entry.name, out.subarray(0, entry.size));
+  }
+  return streams;
+}
+
+// ---------------------------------------------------------------------------
+// BIFF8 records
+
+const BOF = 0x0809;
+const EOF = 0x000a;
+const FILEPASS = 0x002f;
+const DATEMODE = 0x0022;
+const BOUNDSHEET = 0x0085;
+const SST = 0x00fc;
+const CONTINUE = 0x003c;
+const FORMAT = 0x041e;
+const XF = 0x00e0;
+const NUMBER = 0x0203;
+const RK = 0x027e;
+const MULRK = 0x00bd;
+const LABELSST = 0x00fd;
+const LABEL = 0x0204;
+const BOOLERR = 0x0205;
+const FORMULA = 0x0006;
+const STRING = 0x0207;
+// Records that can sit between a FORMULA and its STRING result
+const FORMULA_PARTS = new Set([0x04bc, 0x0221, 0x0236, CONTINUE]);
+
+const BIFF8 = 0x0600;
+
+const ERROR_CODES: Record<number, string> = {
+  0x00: '#NULL!',
+  0x07: '#DIV/0!',
+  0x0f: '#VALUE!',
+  0x17: '#REF!',
+  0x1d: '#NAME?',
+  0x24: '#NUM!',
+  0x2a: '#N/A',
+};
+
+interface BiffRecord {
+  type: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+const readRecords = (stream: Uint8Array): BiffRecord[] => {
+  const records: BiffRecord[] = [];
+  for (let offset = 0; offset + 4 <= stream.length; ) {
+    const type = stream[offset] | (stream[offset + 1] << 8);
+    const length = stream[offset + 2] | (stream[offset + 3] << 8);
+    records.push({ type, offset, data: stream.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+  return records;
+};
+
+const viewOf = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+/**
+ * Reads a record and the CONTINUE records after it as one stream. A string
+ * split across records restarts with an option byte saying whether its
+ * remaining characters are one or two bytes wide.
+ */
+class RecordReader {
+  private segment = 0;
+  private position = 0;
+
+  constructor(private readonly segments: Uint8Array[]) {}
+
+  private byte(): number {
+    while (this.segment < this.segments.length && this.position >= this.segments[this.segment].length) {
+      this.segment++;
+      this.position = 0;
+    }
+    if (this.segment >= this.segments.length) throw new Error('record ended early');
+    return this.segments[this.segment][this.position++];
+  }
+
+  u8(): number {
+    return this.byte();
+  }
+
+  u16(): number {
+    return this.byte() | (this.byte() << 8);
+  }
+
+  u32(): number {
+    return (this.u16() | (this.u16() << 16)) >>> 0;
+  }
+
+  skip(count: number) {
+    for (let i = 0; i < count; i++) this.byte();
+  }
+
+  /**
+   * An XLUnicodeString body: `count` characters after the option byte
+   */
+  characters(count: number, wide: boolean): string {
+    const codes: number[] = [];
+    while (codes.length < count) {
+      const current = this.segments[this.segment];
+      if (!current) throw new Error('record ended early');
+      if (this.position >= current.length) {
+        this.segment++;
+        this.position = 0;
+        wide = (this.byte() & 0x01) === 1;
+        continue;
+      }
+      if (wide) {
+        if (this.position + 1 >= current.length) throw new Error('a string is damaged');
+        codes.push(current[this.position] | (current[this.position + 1] << 8));
+        this.position += 2;
+      } else {
+        codes.push(current[this.position++]);
+      }
+    }
+    let text = '';
+    for (let i = 0; i < codes.length; i += 8192) {
+      text += String.fromCharCode(...codes.slice(i, i + 8192));
+    }
+    return text;
+  }
+
+  /**
+   * A string with a 16-bit character count, optionally followed by rich
+   * text runs and phonetic data, which are skipped
+   */
+  unicodeString(): string {
+    const count = this.u16();
+    const options = this.u8();
+    const runs = options & 0x08 ? this.u16() : 0;
+    const extended = options & 0x04 ? this.u32() : 0;
+    const text = this.characters(count, (options & 0x01) === 1);
+    this.skip(runs * 4 + extended);
+    return text;
+  }
+
+  shortUnicodeString(): string {
+    const count = this.u8();
+    return this.characters(count, (this.u8() & 0x01) === 1);
+  }
+}
+
+const withContinues = (records: BiffRecord[], index: number, skip = 0): Uint8Array[] => {
+  const segments = [records[index].data.subarray(skip)];
+  for (let i = index + 1; i < records.length && records[i].type === CONTINUE; i++) {
+    segments.push(records[i].data);
+  }
+  return segments;
+};
+
+/**
+ * An RK value: a 30-bit integer or the top 30 bits of a double, optionally
+ * multiplied by 100
+ */
+const decodeRk = (rk: number): number => {
+  let value: number;
+  if (rk & 0x02) {
+    value = rk >> 2;
+  } else {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setUint32(4, rk & 0xfffffffc, true);
+    value = buffer.getFloat64(0, true);
+  }
+  return rk & 0x01 ? value / 100 : value;
+};
+
+interface Globals {
+  date1904: boolean;
+  sharedStrings: string[];
+  // Number format kind by XF (cell format) index
+  cellFormats: NumberFormatKind[];
+  sheets: { name: string; hidden: boolean; offset: number }[];
+}
+
+const readGlobals = (records: BiffRecord[]): Globals => {
+  const globals: Globals = { date1904: false, sharedStrings: [], cellFormats: [], sheets: [] };
+  const formatCodes = new Map<number, string>();
+  const formatIds: number[] = [];
+
+  for (let i = 0; i < records.length && records[i].type !== EOF; i++) {
+    const { type, data } = records[i];
+    switch (type) {
+      case FILEPASS:
+        throw new DocumentExtractionError('encrypted', 'This spreadsheet is password-protected. Remove the password and upload it again.');
+      case DATEMODE:
+        globals.date1904 = viewOf(data).getUint16(0, true) === 1;
+        break;
+      case FORMAT: {
+        const reader = new RecordReader([data]);
+        const id = reader.u16();
+        formatCodes.set(id, reader.unicodeString());
+        break;
+      }
+      case XF:
+        formatIds.push(viewOf(data).getUint16(2, true));
+        break;
+      case BOUNDSHEET: {
+        const view = viewOf(data);
+        // Chart, macro and dialog sheets have no cells to read
+        if (data[5] !== 0) break;
+        const reader = new RecordReader([data.subarray(6)]);
+        globals.sheets.push({ name: reader.shortUnicodeString(), hidden: (data[4] & 0x03) !== 0, offset: view.getUint32(0, true) });
+        break;
+      }
+      case SST: {
+        const reader = new RecordReader(withContinues(records, i, 8));
+        const count = viewOf(data).getUint32(4, true);
+        try {
+          for (let n = 0; n < count; n++) globals.sharedStrings.push(reader.unicodeString());
+        } catch {
+          // Keep the strings read before a damaged entry
+        }
+        break;
+      }
+    }
+  }
+
+  globals.cellFormats = formatIds.map(id => numberFormatKind(id, formatCodes.get(id)));
+  return globals;
+};
+
+const readSheet = (records: BiffRecord[], start: number, globals: Globals): SheetRow[] => {
+  const rows: SheetRow[] = [];
+  const number = (value: number, xf: number): SheetCell => numberCell(value, globals.cellFormats[xf] ?? 'number', globals.date1904);
+
+  for (let i = start + 1; i < records.length && records[i].type !== EOF; i++) {
+    const { type, data } = records[i];
+    if (data.length < 6) continue;
+    const view = viewOf(data);
+    const row = view.getUint16(0, true);
+    const column = view.getUint16(2, true);
+    const xf = view.getUint16(4, true);
+
+    switch (type) {
+      case NUMBER:
+        setCell(rows, row, column, number(view.getFloat64(6, true), xf));
+        break;
+      case RK:
+        setCell(rows, row, column, number(decodeRk(view.getUint32(6, true)), xf));
+        break;
+      case MULRK: {
+        const count = Math.floor((data.length - 6) / 6);
+        for (let n = 0; n < count; n++) {
+          const offset = 4 + n * 6;
+          setCell(rows, row, column + n, number(decodeRk(view.getUint32(offset + 2, true)), view.getUint16(offset, true)));
+        }
+        break;
+      }
+      case LABELSST:
+        setCell(rows, row, column, { type: 'string', value: globals.sharedStrings[view.getUint32(6, true)] ?? '' });
+        break;
+      case LABEL:
+        setCell(rows, row, column, { type: 'string', value: new RecordReader([data.subarray(6)]).unicodeString() });
+        break;
+      case BOOLERR:
+        setCell(
+          rows,
+          row,
+          column,
+          data[7] ? { type: 'error', value: ERROR_CODES[data[6]] ?? '#ERROR' } : { type: 'boolean', value: data[6] === 1 }
+        );
+        break;
+      case FORMULA: {
+        // Results that are not numbers are flagged by 0xFFFF in the top bytes
+        if (view.getUint16(12, true) !== 0xffff) {
+          setCell(rows, row, column, number(view.getFloat64(6, true), xf));
+          break;
+        }
+        const resultType = data[6];
+        if (resultType === 0) {
+          // The string result follows in its own record, after any shared formula
+          let next = i + 1;
+          while (next < records.length && FORMULA_PARTS.has(records[next].type)) next++;
+          if (records[next]?.type === STRING) {
+            setCell(rows, row, column, { type: 'string', value: new RecordReader(withContinues(records, next)).unicodeString() });
+          }
+        } else if (resultType === 1) {
+          setCell(rows, row, column, { type: 'boolean', value: data[8] === 1 });
+        } else if (resultType === 2) {
+          setCell(rows, row, column, { type: 'error', value: ERROR_CODES[data[8]] ?? '#ERROR' });
+        }
+        break;
+      }
+    }
+  }
+  return rows;
+};
+
+/**
+ * Read a legacy .xls workbook. Throws DocumentExtractionError for files
+ * protected with a password, from Excel 95 or earlier, or damaged.
+ */
+export function readXls(data: ArrayBuffer): Workbook {
+  let streams: Map<string, Uint8Array>;
+  try {
+    streams = readCompoundFile(data);
+  } catch (error) {
+    throw new DocumentExtractionError('invalid', `This file could not be read as an Excel workbook${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  const stream = streams.get('Workbook');
+  if (!stream) {
+    throw new DocumentExtractionError(
+      'invalid',
+      streams.has('Book')
+        ? 'This workbook is from Excel 95 or earlier. Save it as .xlsx and upload it again.'
+        : 'This file could not be read as an Excel workbook.'
+    );
+  }
+
+  const records = readRecords(stream);
+  if (records[0]?.type !== BOF || records[0].data.length < 2 || viewOf(records[0].data).getUint16(0, true) !== BIFF8) {
+    throw new DocumentExtractionError('invalid', 'This workbook is from Excel 95 or earlier. Save it as .xlsx and upload it again.');
+  }
+
+  const globals = readGlobals(records);
+  const indexByOffset = new Map(records.map((record, index) => [record.offset, index]));
+  const sheets = globals.sheets.flatMap((sheet): Sheet[] => {
+    const start = indexByOffset.get(sheet.offset);
+    if (start === undefined || records[start].type !== BOF) return [];
+    return [{ name: sheet.name, hidden: sheet.hidden, rows: readSheet(records, start, globals) }];
+  });
+
+  return { sheets, uncachedFormulas: 0 };
+}
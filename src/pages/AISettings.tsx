@@ -0,0 +1,785 @@
+import { useState, useEffect } from 'react';
+import { Database, Trash2, RefreshCw, HardDrive, Users, Target, Save, RotateCcw, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/lib/supabase';
+import { aiCache, CacheStats, SharedCacheEntry } from '@/lib/ai-cache';
+import { getQuotaStatus, saveTeamQuota, QuotaStatus } from '@/lib/ai-usage';
+import { modelRouter, ROUTED_TASKS, RoutedTask, TaskRoute } from '@/lib/ai-routing';
+import {
+  BUILT_IN_DETECTORS,
+  DEFAULT_PRIVACY_POLICY,
+  ExternalDocumentPolicy,
+  PrivacyPolicy,
+  privacyPolicy,
+  Redactor,
+} from '@/lib/ai-privacy';
+
+interface RouteDraft {
+  model: string;
+  fallbacks: string;
+}
+
+export default function AISettings() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [entries, setEntries] = useState<SharedCacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isTeamAdmin, setIsTeamAdmin] = useState(false);
+  const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
+  const [tokenLimit, setTokenLimit] = useState('');
+  const [requestLimit, setRequestLimit] = useState('');
+  const [savingQuota, setSavingQuota] = useState(false);
+  const [routes, setRoutes] = useState<TaskRoute[]>([]);
+  const [routeDrafts, setRouteDrafts] = useState<Record<string, RouteDraft>>({});
+  const [savingRoute, setSavingRoute] = useState<RoutedTask | null>(null);
+  const [policy, setPolicy] = useState<PrivacyPolicy>(DEFAULT_PRIVACY_POLICY);
+  const [dictionaryText, setDictionaryText] = useState('');
+  const [redactionSample, setRedactionSample] = useState('');
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchCacheData();
+    }
+  }, [user, profile?.team_id]);
+
+  useEffect(() => {
+    const checkTeamRole = async () => {
+      if (!user || !profile?.team_id) {
+        setIsTeamAdmin(false);
+        return;
+      }
+
+      const { data } = await supabase
+        .from('team_members')
+        .select('role')
+        .eq('team_id', profile.team_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      setIsTeamAdmin(data?.role === 'owner' || data?.role === 'admin');
+    };
+
+    checkTeamRole();
+  }, [user, profile?.team_id]);
+
+  useEffect(() => {
+    if (user && profile?.team_id) {
+      fetchQuota(profile.team_id);
+    }
+  }, [user, profile?.team_id]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRoutes();
+    }
+  }, [user, profile?.team_id]);
+
+  useEffect(() => {
+    if (user) {
+      fetchPolicy();
+    }
+  }, [user, profile?.team_id]);
+
+  const fetchPolicy = async () => {
+    try {
+      const teamPolicy = await privacyPolicy.get();
+      setPolicy(teamPolicy);
+      setDictionaryText(teamPolicy.dictionaryTerms.join('\n'));
+    } catch (error) {
+      console.error('Error loading AI privacy policy:', error);
+    }
+  };
+
+  // The draft as it would be saved, so the preview matches what Save stores
+  const policyDraft = (): PrivacyPolicy => ({
+    ...policy,
+    customPatterns: policy.customPatterns.filter(custom => custom.pattern.trim()),
+    dictionaryTerms: dictionaryText.split('\n').map(term => term.trim()).filter(Boolean),
+  });
+
+  const updateCustomPattern = (index: number, changes: Partial<PrivacyPolicy['customPatterns'][number]>) => {
+    setPolicy(prev => ({
+      ...prev,
+      customPatterns: prev.customPatterns.map((custom, i) => (i === index ? { ...custom, ...changes } : custom)),
+    }));
+  };
+
+  const handleSavePolicy = async () => {
+    try {
+      setSavingPolicy(true);
+      await privacyPolicy.save(policyDraft());
+      toast({
+        title: "Success",
+        description: "Data privacy policy saved",
+      });
+      await fetchPolicy();
+    } catch (error) {
+      console.error('Error saving AI privacy policy:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save data privacy policy",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const previewRedaction = () => {
+    try {
+      return new Redactor(policyDraft()).redact(redactionSample);
+    } catch {
+      return redactionSample;
+    }
+  };
+
+  const fetchRoutes = async () => {
+    try {
+      const taskRoutes = await modelRouter.listRoutes();
+      setRoutes(taskRoutes);
+      setRouteDrafts(Object.fromEntries(taskRoutes.map(route => [route.task, {
+        model: route.model ?? '',
+        fallbacks: route.fallbacks.join(', '),
+      }])));
+    } catch (error) {
+      console.error('Error loading model routes:', error);
+    }
+  };
+
+  const updateRouteDraft = (task: RoutedTask, changes: Partial<RouteDraft>) => {
+    setRouteDrafts(prev => ({ ...prev, [task]: { ...prev[task], ...changes } }));
+  };
+
+  const handleRouteAction = async (task: RoutedTask, action: () => Promise<void>, successMessage: string) => {
+    try {
+      setSavingRoute(task);
+      await action();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      await fetchRoutes();
+    } catch (error) {
+      console.error('Error updating model route:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update model route",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRoute(null);
+    }
+  };
+
+  const handleSaveRoute = (task: RoutedTask) => {
+    const draft = routeDrafts[task];
+    return handleRouteAction(task, () => modelRouter.saveRoute(task, {
+      model: draft.model.trim() || null,
+      fallbacks: draft.fallbacks.split(',').map(model => model.trim()).filter(Boolean),
+    }), "Model route saved");
+  };
+
+  const handleResetRoute = (task: RoutedTask) =>
+    handleRouteAction(task, () => modelRouter.resetRoute(task), "Model route reset to default");
+
+  const fetchQuota = async (teamId: string) => {
+    try {
+      const status = await getQuotaStatus(teamId);
+      setQuotaStatus(status);
+      setTokenLimit(status.quota?.monthly_token_limit?.toString() ?? '');
+      setRequestLimit(status.quota?.monthly_request_limit?.toString() ?? '');
+    } catch (error) {
+      console.error('Error loading AI quota:', error);
+    }
+  };
+
+  // Blank means unlimited
+  const parseLimit = (value: string): number | null => {
+    if (!value.trim()) return null;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error('Limits must be whole numbers of zero or more');
+    }
+    return limit;
+  };
+
+  const handleSaveQuota = async () => {
+    if (!profile?.team_id) return;
+
+    try {
+      setSavingQuota(true);
+      await saveTeamQuota(profile.team_id, {
+        monthly_token_limit: parseLimit(tokenLimit),
+        monthly_request_limit: parseLimit(requestLimit),
+      });
+      toast({
+        title: "Success",
+        description: "Team AI quota saved",
+      });
+      await fetchQuota(profile.team_id);
+    } catch (error) {
+      console.error('Error saving AI quota:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save AI quota",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingQuota(false);
+    }
+  };
+
+  const fetchCacheData = async () => {
+    try {
+      setLoading(true);
+      const [cacheStats, sharedEntries] = await Promise.all([
+        aiCache.getStats(),
+        aiCache.listSharedEntries(),
+      ]);
+      setStats(cacheStats);
+      setEntries(sharedEntries);
+    } catch (error) {
+      console.error('Error loading AI cache:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load AI cache entries",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void> | void, successMessage: string) => {
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      await fetchCacheData();
+    } catch (error) {
+      console.error('AI cache action failed:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "AI cache action failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isExpired = (entry: SharedCacheEntry) => new Date(entry.expires_at).getTime() <= Date.now();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">AI Settings</h1>
+        <p className="text-gray-600 mt-2">
+          Inspect and manage how AI features run for your team
+        </p>
+      </div>
+
+      <Tabs defaultValue="cache" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="cache">Response Cache</TabsTrigger>
+          <TabsTrigger value="quotas">Usage Quotas</TabsTrigger>
+          <TabsTrigger value="routing">Model Routing</TabsTrigger>
+          <TabsTrigger value="privacy">Data Privacy</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="cache" className="space-y-6">
+          {/* Metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Hit Rate</CardTitle>
+                <Target className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {stats ? `${Math.round(stats.hitRate * 100)}%` : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {stats ? `${stats.localHits + stats.sharedHits + stats.misses} lookups in this browser` : 'Loading...'}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Browser Hits</CardTitle>
+                <HardDrive className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats?.localHits ?? 0}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats?.localEntries ?? 0} entries stored locally
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Team Hits</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats?.sharedHits ?? 0}</div>
+                <p className="text-xs text-muted-foreground">
+                  {entries.length} shared entries
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Misses</CardTitle>
+                <Database className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats?.misses ?? 0}</div>
+                <p className="text-xs text-muted-foreground">Requests sent to the model</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Local cache */}
+          <Card>
+            <CardHeader>
+              <CardTitle>This Browser</CardTitle>
+              <CardDescription>
+                Responses cached in IndexedDB on this device
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => runAction(() => aiCache.clear(), "Local AI cache cleared")}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear Local Cache
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => runAction(() => aiCache.resetStats(), "Cache metrics reset")}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset Metrics
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Shared cache */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Team Cache</CardTitle>
+                  <CardDescription>
+                    {profile?.team_id
+                      ? 'Responses shared with everyone on your team'
+                      : 'Join a team to share cached responses'}
+                  </CardDescription>
+                </div>
+                {isTeamAdmin && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runAction(() => aiCache.purgeShared({ expiredOnly: true }), "Expired entries purged")}
+                    >
+                      Purge Expired
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => runAction(() => aiCache.purgeShared(), "Team cache purged")}
+                    >
+                      Purge All
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-sm text-gray-600 text-center py-8">No shared cache entries</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Task</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Response</TableHead>
+                      <TableHead className="text-right">Hits</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Expires</TableHead>
+                      {isTeamAdmin && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <Badge variant="secondary">{entry.task}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-600">{entry.model}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <p className="text-xs text-gray-600 truncate" title={entry.response}>
+                            {entry.response}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right">{entry.hit_count}</TableCell>
+                        <TableCell className="text-xs">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell className="text-xs">
+                          {isExpired(entry) ? (
+                            <Badge variant="outline">Expired</Badge>
+                          ) : (
+                            new Date(entry.expires_at).toLocaleString()
+                          )}
+                        </TableCell>
+                        {isTeamAdmin && (
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => runAction(() => aiCache.deleteSharedEntry(entry.id), "Cache entry deleted")}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="quotas" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Monthly Team Quota</CardTitle>
+              <CardDescription>
+                {profile?.team_id
+                  ? 'AI requests from your team are refused once either limit is reached for the calendar month (UTC). Cache hits do not count.'
+                  : 'Join a team to manage AI usage quotas'}
+              </CardDescription>
+            </CardHeader>
+            {profile?.team_id && (
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="token-limit">Monthly token limit</Label>
+                    <Input
+                      id="token-limit"
+                      type="number"
+                      min={0}
+                      placeholder="Unlimited"
+                      value={tokenLimit}
+                      onChange={(e) => setTokenLimit(e.target.value)}
+                      disabled={!isTeamAdmin}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {quotaStatus ? `${quotaStatus.tokensUsed.toLocaleString()} used this month` : 'Loading...'}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="request-limit">Monthly request limit</Label>
+                    <Input
+                      id="request-limit"
+                      type="number"
+                      min={0}
+                      placeholder="Unlimited"
+                      value={requestLimit}
+                      onChange={(e) => setRequestLimit(e.target.value)}
+                      disabled={!isTeamAdmin}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {quotaStatus ? `${quotaStatus.requestsUsed.toLocaleString()} used this month` : 'Loading...'}
+                    </p>
+                  </div>
+                </div>
+                {isTeamAdmin ? (
+                  <Button onClick={handleSaveQuota} disabled={savingQuota}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {savingQuota ? 'Saving...' : 'Save Quota'}
+                  </Button>
+                ) : (
+                  <p className="text-sm text-gray-600">Only team owners and admins can change quotas.</p>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="routing" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Model per Task</CardTitle>
+              <CardDescription>
+                {profile?.team_id
+                  ? 'Each AI task uses its primary model and tries the fallbacks in order if that model fails. Leave the model blank to use the provider default.'
+                  : 'Join a team to configure model routing. Default models are shown below.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Primary Model</TableHead>
+                    <TableHead>Fallbacks</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {routes.map((route) => {
+                    const info = ROUTED_TASKS.find(task => task.task === route.task);
+                    const draft = routeDrafts[route.task] ?? { model: '', fallbacks: '' };
+                    const editable = isTeamAdmin && !!profile?.team_id;
+                    return (
+                      <TableRow key={route.task}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{info?.label ?? route.task}</span>
+                            <Badge variant={route.custom ? 'default' : 'secondary'}>
+                              {route.custom ? 'Custom' : 'Default'}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">{info?.description}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            aria-label={`Primary model for ${info?.label ?? route.task}`}
+                            placeholder="Provider default"
+                            value={draft.model}
+                            onChange={(e) => updateRouteDraft(route.task, { model: e.target.value })}
+                            disabled={!editable}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            aria-label={`Fallback models for ${info?.label ?? route.task}`}
+                            placeholder="model-a, model-b"
+                            value={draft.fallbacks}
+                            onChange={(e) => updateRouteDraft(route.task, { fallbacks: e.target.value })}
+                            disabled={!editable}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {editable && (
+                            <div className="flex gap-2 justify-end">
+                              <Button
+                                size="sm"
+                                onClick={() => handleSaveRoute(route.task)}
+                                disabled={savingRoute === route.task}
+                              >
+                                <Save className="h-4 w-4" />
+                              </Button>
+                              {route.custom && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleResetRoute(route.task)}
+                                  disabled={savingRoute === route.task}
+                                  title="Reset to default"
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {profile?.team_id && !isTeamAdmin && (
+                <p className="text-sm text-gray-600">Only team owners and admins can change model routing.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="privacy" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Redaction</CardTitle>
+              <CardDescription>
+                Matching values are replaced with placeholders such as [EMAIL_1] before prompts and embedding inputs
+                leave for an external model, and put back into the answers locally. Local models see the original text.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="redaction-enabled"
+                  checked={policy.redactionEnabled}
+                  onCheckedChange={(checked) => setPolicy(prev => ({ ...prev, redactionEnabled: checked }))}
+                  disabled={!isTeamAdmin}
+                />
+                <Label htmlFor="redaction-enabled">Redact data sent to external models</Label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {BUILT_IN_DETECTORS.map(({ detector, label, description }) => (
+                  <div key={detector} className="flex items-start gap-2">
+                    <Switch
+                      id={`detector-${detector}`}
+                      checked={policy.detectors.includes(detector)}
+                      onCheckedChange={(checked) => setPolicy(prev => ({
+                        ...prev,
+                        detectors: checked
+                          ? [...prev.detectors, detector]
+                          : prev.detectors.filter(enabled => enabled !== detector),
+                      }))}
+                      disabled={!isTeamAdmin || !policy.redactionEnabled}
+                    />
+                    <div>
+                      <Label htmlFor={`detector-${detector}`}>{label}</Label>
+                      <p className="text-xs text-muted-foreground">{description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dictionary-terms">Confidential terms</Label>
+                <Textarea
+                  id="dictionary-terms"
+                  value={dictionaryText}
+                  onChange={(e) => setDictionaryText(e.target.value)}
+                  placeholder={'Project Falcon\nAcme Holdings'}
+                  rows={4}
+                  disabled={!isTeamAdmin || !policy.redactionEnabled}
+                />
+                <p className="text-xs text-muted-foreground">One per line: codenames, client or target company names. Matched whole-word, ignoring case.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Custom patterns</Label>
+                {policy.customPatterns.map((custom, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      aria-label="Pattern label"
+                      className="w-48"
+                      placeholder="Label"
+                      value={custom.label}
+                      onChange={(e) => updateCustomPattern(index, { label: e.target.value })}
+                      disabled={!isTeamAdmin || !policy.redactionEnabled}
+                    />
+                    <Input
+                      aria-label="Regular expression"
+                      className="font-mono"
+                      placeholder="e.g. DEAL-\d{4}"
+                      value={custom.pattern}
+                      onChange={(e) => updateCustomPattern(index, { pattern: e.target.value })}
+                      disabled={!isTeamAdmin || !policy.redactionEnabled}
+                    />
+                    {isTeamAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPolicy(prev => ({
+                          ...prev,
+                          customPatterns: prev.customPatterns.filter((_, i) => i !== index),
+                        }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {isTeamAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPolicy(prev => ({
+                      ...prev,
+                      customPatterns: [...prev.customPatterns, { label: '', pattern: '' }],
+                    }))}
+                    disabled={!policy.redactionEnabled}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Pattern
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="redaction-sample">Try it</Label>
+                <Textarea
+                  id="redaction-sample"
+                  value={redactionSample}
+                  onChange={(e) => setRedactionSample(e.target.value)}
+                  placeholder="Paste text to see what an external model would receive"
+                  rows={3}
+                />
+                {redactionSample && (
+                  <pre className="text-sm bg-muted rounded-md p-3 whitespace-pre-wrap">{previewRedaction()}</pre>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>External Models</CardTitle>
+              <CardDescription>
+                Which documents may be sent to external models at all. Withheld documents are still stored and
+                searchable, but are not analyzed and are left out of answers. Mark individual documents as confidential
+                or approved from the Documents page.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Select
+                value={policy.externalDocuments}
+                onValueChange={(value) => setPolicy(prev => ({ ...prev, externalDocuments: value as ExternalDocumentPolicy }))}
+                disabled={!isTeamAdmin}
+              >
+                <SelectTrigger className="max-w-md">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All documents except those marked confidential</SelectItem>
+                  <SelectItem value="approved">Only documents approved for external AI</SelectItem>
+                  <SelectItem value="none">No document content</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {!profile?.team_id ? (
+                <p className="text-sm text-gray-600">Join a team to change the data privacy policy. The defaults shown apply meanwhile.</p>
+              ) : isTeamAdmin ? (
+                <Button onClick={handleSavePolicy} disabled={savingPolicy}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {savingPolicy ? 'Saving...' : 'Save Policy'}
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-600">Only team owners and admins can change the data privacy policy.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
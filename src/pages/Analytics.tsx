@@ -5,6 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/lib/supabase';
+import { getUsage, getQuotaStatus, QuotaStatus } from '@/lib/ai-usage';
 import { useToast } from '@/hooks/use-toast';
 import { 
   BarChart3, 
@@ -19,7 +20,9 @@ import {
   Tag, 
   RefreshCw,
   Clock,
-  Download
+  Download,
+  Cpu,
+  Zap
 } from 'lucide-react';
 
 interface AnalyticsData {
@@ -50,11 +53,30 @@ interface AnalyticsData {
   }[];
 }
 
+interface AIUsageData {
+  totalTokens: number;
+  totalRequests: number;
+  cacheHits: number;
+  blockedRequests: number;
+  averageLatency: number;
+  tokensByDay: {
+    day: string;
+    tokens: number;
+  }[];
+  byFeature: {
+    feature: string;
+    requests: number;
+    tokens: number;
+  }[];
+}
+
 const Analytics = () => {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
+  const [aiUsage, setAIUsage] = useState<AIUsageData | null>(null);
+  const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
   const [timeRange, setTimeRange] = useState('30days');
   const [loading, setLoading] = useState(true);
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -87,6 +109,8 @@ const Analytics = () => {
           startDate.setDate(endDate.getDate() - 30);
       }
 
+      fetchAIUsage(startDate);
+
       // First check if research_documents table exists
       const { error: tableCheckError } = await supabase
         .from('research_documents')
@@ -334,6 +358,63 @@ const Analytics = () => {
     }
   };
 
+  const fetchAIUsage = async (startDate: Date) => {
+    try {
+      const [entries, quota] = await Promise.all([
+        getUsage(startDate),
+        profile?.team_id ? getQuotaStatus(profile.team_id) : Promise.resolve(null),
+      ]);
+
+      // Cache hits and blocked requests never reached a model
+      const billable = entries.filter(entry => !entry.cache_hit && entry.status !== 'blocked');
+      const tokensOf = (entry: typeof entries[number]) => entry.tokens_in + entry.tokens_out;
+
+      const tokensByDay = billable.reduce((acc, entry) => {
+        const day = new Date(entry.created_at).toLocaleDateString('default', { month: 'short', day: 'numeric' });
+        const existingDay = acc.find(item => item.day === day);
+        if (existingDay) {
+          existingDay.tokens += tokensOf(entry);
+        } else {
+          acc.push({ day, tokens: tokensOf(entry) });
+        }
+        return acc;
+      }, [] as { day: string; tokens: number }[]);
+
+      const byFeature = entries.reduce((acc, entry) => {
+        const existingFeature = acc.find(item => item.feature === entry.feature);
+        const tokens = entry.cache_hit ? 0 : tokensOf(entry);
+        if (existingFeature) {
+          existingFeature.requests += 1;
+          existingFeature.tokens += tokens;
+        } else {
+          acc.push({ feature: entry.feature, requests: 1, tokens });
+        }
+        return acc;
+      }, [] as { feature: string; requests: number; tokens: number }[])
+        .sort((a, b) => b.tokens - a.tokens);
+
+      setAIUsage({
+        totalTokens: billable.reduce((sum, entry) => sum + tokensOf(entry), 0),
+        totalRequests: billable.length,
+        cacheHits: entries.filter(entry => entry.cache_hit).length,
+        blockedRequests: entries.filter(entry => entry.status === 'blocked').length,
+        averageLatency: billable.length > 0
+          ? Math.round(billable.reduce((sum, entry) => sum + entry.latency_ms, 0) / billable.length)
+          : 0,
+        tokensByDay,
+        byFeature,
+      });
+      setQuotaStatus(quota);
+    } catch (err) {
+      console.error('Error fetching AI usage:', err);
+      setAIUsage(null);
+      setQuotaStatus(null);
+    }
+  };
+
+  const quotaPercent = (used: number, limit: number | null) =>
+    limit ? Math.min(100, Math.round((used / limit) * 100)) : 0;
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'processed': return 'bg-green-100 text-green-800';
@@ -451,6 +532,7 @@ const Analytics = () => {
           <TabsTrigger value="documents">Documents</TabsTrigger>
           <TabsTrigger value="projects">Projects</TabsTrigger>
           <TabsTrigger value="activity">Activity</TabsTrigger>
+          <TabsTrigger value="ai-usage">AI Usage</TabsTrigger>
         </TabsList>
         
         <TabsContent value="overview" className="space-y-4">
@@ -665,6 +747,189 @@ const Analytics = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="ai-usage" className="space-y-4">
+          {!aiUsage ? (
+            <Card>
+              <CardContent>
+                <p className="text-center py-8 text-gray-500">
+                  AI usage data is not available
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-500">Tokens</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center">
+                      <Cpu className="h-5 w-5 text-blue-500 mr-2" />
+                      <div className="text-2xl font-bold">{aiUsage.totalTokens.toLocaleString()}</div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Across {aiUsage.totalRequests} model requests
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-500">Cache Hit Rate</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center">
+                      <Zap className="h-5 w-5 text-green-500 mr-2" />
+                      <div className="text-2xl font-bold">
+                        {aiUsage.totalRequests + aiUsage.cacheHits > 0
+                          ? `${Math.round((aiUsage.cacheHits / (aiUsage.totalRequests + aiUsage.cacheHits)) * 100)}%`
+                          : '—'}
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {aiUsage.cacheHits} responses served from cache
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-500">Average Latency</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center">
+                      <Clock className="h-5 w-5 text-purple-500 mr-2" />
+                      <div className="text-2xl font-bold">{aiUsage.averageLatency} ms</div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Per model request
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-500">Blocked</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center">
+                      <TrendingUp className="h-5 w-5 text-red-500 mr-2" />
+                      <div className="text-2xl font-bold">{aiUsage.blockedRequests}</div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Requests refused by the team quota
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Tokens by Day */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Tokens Over Time</CardTitle>
+                    <CardDescription>Tokens sent to and generated by models per day</CardDescription>
+                  </CardHeader>
+                  <CardContent className="h-80">
+                    <div className="h-full flex flex-col justify-between">
+                      <div className="flex-1 flex items-end overflow-x-auto">
+                        {aiUsage.tokensByDay.length > 0 ? (
+                          aiUsage.tokensByDay.map((item, index) => (
+                            <div key={index} className="flex flex-col items-center flex-1 min-w-[32px]">
+                              <div
+                                className="w-full max-w-[40px] bg-blue-500 rounded-t"
+                                style={{
+                                  height: `${Math.max(
+                                    5,
+                                    (item.tokens / Math.max(...aiUsage.tokensByDay.map(i => i.tokens))) * 200
+                                  )}px`
+                                }}
+                                title={`${item.tokens.toLocaleString()} tokens`}
+                              />
+                              <div className="text-xs font-medium mt-2 whitespace-nowrap">{item.day}</div>
+                            </div>
+                          ))
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center text-gray-500">
+                            No AI usage in this period
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Usage by Feature */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Usage by Feature</CardTitle>
+                    <CardDescription>Requests and tokens per AI feature</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {aiUsage.byFeature.length > 0 ? (
+                      aiUsage.byFeature.map((item, index) => (
+                        <div key={index} className="mb-3">
+                          <div className="flex justify-between text-sm mb-1">
+                            <span>{item.feature}</span>
+                            <span className="text-gray-600">
+                              {item.requests} requests · {item.tokens.toLocaleString()} tokens
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-100 rounded-full h-2">
+                            <div
+                              className="bg-blue-500 h-2 rounded-full"
+                              style={{ width: `${aiUsage.totalTokens > 0 ? (item.tokens / aiUsage.totalTokens) * 100 : 0}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-center text-gray-500">
+                        No AI usage in this period
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Team Quota */}
+              {quotaStatus && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Monthly Team Quota</CardTitle>
+                    <CardDescription>
+                      Usage this calendar month (UTC); requests are blocked once a limit is reached
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {[
+                      { label: 'Tokens', used: quotaStatus.tokensUsed, limit: quotaStatus.quota?.monthly_token_limit ?? null },
+                      { label: 'Requests', used: quotaStatus.requestsUsed, limit: quotaStatus.quota?.monthly_request_limit ?? null },
+                    ].map(({ label, used, limit }) => (
+                      <div key={label}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-medium">{label}</span>
+                          <span className="text-gray-600">
+                            {used.toLocaleString()} / {limit !== null ? limit.toLocaleString() : 'Unlimited'}
+                          </span>
+                        </div>
+                        <div className="w-full bg-gray-100 rounded-full h-2.5">
+                          <div
+                            className={`h-2.5 rounded-full ${
+                              quotaPercent(used, limit) >= 100 ? 'bg-red-500' :
+                              quotaPercent(used, limit) >= 80 ? 'bg-yellow-500' :
+                              'bg-green-500'
+                            }`}
+                            style={{ width: `${quotaPercent(used, limit)}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Bot, CheckCircle, AlertCircle } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { isAIConfigured } from "@/lib/ai-providers";
 
 export default function Chat() {
   // Disable AI chat feature - Coming Soon
@@ -14,20 +15,13 @@ export default function Chat() {
   const [isKeyValid, setIsKeyValid] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Check if Gemini API key is available in environment
+  // Check that the AI proxy is configured for this build
   useEffect(() => {
     if (isComingSoon) {
       setIsLoading(false);
       return;
     }
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    console.log('API Key check:', {
-      hasKey: !!apiKey,
-      keyLength: apiKey?.length,
-      startsWithAIza: apiKey?.startsWith('AIza'),
-      keyPreview: apiKey ? `${apiKey.substring(0, 10)}...` : 'undefined'
-    });
-    setIsKeyValid(!!apiKey && apiKey.startsWith('AIza'));
+    setIsKeyValid(isAIConfigured());
     setIsLoading(false);
   }, [isComingSoon]);
 
@@ -120,8 +114,8 @@ export default function Chat() {
             )}
             <AlertDescription className={isKeyValid ? "text-success" : "text-destructive"}>
               {isKeyValid 
-                ? "Gemini API key configured successfully! Full AI capabilities are available."
-                : "Gemini API key not found. Please add VITE_GEMINI_API_KEY to your .env file."
+                ? "AI proxy configured successfully! Full AI capabilities are available."
+                : "AI proxy not configured. Please set VITE_SUPABASE_URL and deploy the ai-proxy function."
               }
             </AlertDescription>
           </div>
@@ -133,11 +127,11 @@ export default function Chat() {
         <div className="flex items-center gap-3">
           <Badge variant={isKeyValid ? "default" : "secondary"} className="gap-2">
             <Bot className="h-3 w-3" />
-            {isKeyValid ? "AI Assistant Ready" : "API Key Required"}
+            {isKeyValid ? "AI Assistant Ready" : "AI Proxy Required"}
           </Badge>
           {!isKeyValid && (
             <p className="text-sm text-muted-foreground">
-              Add VITE_GEMINI_API_KEY to your .env file to enable AI chat capabilities
+              Deploy the ai-proxy edge function to enable AI chat capabilities
             </p>
           )}
         </div>
@@ -177,14 +171,14 @@ export default function Chat() {
             {/* Chat Interface */}
             <div className="lg:col-span-3">
               <div className="h-[700px]">
-                <ChatInterface geminiApiKey={isKeyValid ? import.meta.env.VITE_GEMINI_API_KEY : undefined} />
+                <ChatInterface aiEnabled={isKeyValid} />
               </div>
             </div>
           </div>
         </TabsContent>
         
         <TabsContent value="summary" className="mt-6">
-          <ResearchSummary geminiApiKey={isKeyValid ? import.meta.env.VITE_GEMINI_API_KEY : undefined} />
+          <ResearchSummary aiEnabled={isKeyValid} />
         </TabsContent>
       </Tabs>
 
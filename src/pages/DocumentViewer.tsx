@@ -0,0 +1,485 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ChevronDown, ChevronUp, Download, FileText, Highlighter, Loader2, MessageSquarePlus, Quote, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { pageReference } from '@/lib/document-extraction';
+import {
+  CitedChunk,
+  downloadOriginal,
+  findMatches,
+  getCitedChunk,
+  getDownloadUrl,
+  loadViewerDocument,
+  locatePassage,
+  MAX_SEARCH_MATCHES,
+  pageAt,
+  selectedRange,
+  splitPages,
+  TextRange,
+  ViewerDocument,
+} from '@/lib/document-viewer';
+import { createAnnotation, DocumentAnnotation, listAnnotations, listTeamMembers, TeamMember } from '@/lib/annotations';
+import { DocumentText } from '@/components/documents/DocumentText';
+import { PdfPageView } from '@/components/documents/PdfPageView';
+import { AnnotationsPanel } from '@/components/documents/AnnotationsPanel';
+
+// Browsers cannot show TIFF scans, so those are read as extracted text only
+const hasOriginalView = (contentType: string | null) =>
+  contentType === 'application/pdf' || contentType === 'image/png' || contentType === 'image/jpeg';
+
+const DocumentViewer = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const chunkParam = searchParams.get('chunk');
+  const versionParam = searchParams.get('version');
+  const pageParam = searchParams.get('page');
+  const annotationParam = searchParams.get('annotation');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const [document, setDocument] = useState<ViewerDocument | null>(null);
+  const [citedChunk, setCitedChunk] = useState<CitedChunk | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const deferredQuery = useDeferredValue(query);
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [view, setView] = useState('text');
+  const [original, setOriginal] = useState<{ data: ArrayBuffer; url: string } | null>(null);
+  const [originalError, setOriginalError] = useState<string | null>(null);
+  const [originalPage, setOriginalPage] = useState(1);
+  const [annotations, setAnnotations] = useState<DocumentAnnotation[]>([]);
+  const [annotationsLoading, setAnnotationsLoading] = useState(false);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [activeAnnotation, setActiveAnnotation] = useState<string | null>(null);
+  // Text just selected, with where to float the highlight and comment buttons
+  const [selection, setSelection] = useState<{ range: TextRange; top: number; left: number } | null>(null);
+  const [draft, setDraft] = useState<{ range: TextRange; quote: string } | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const scrolledToCitation = useRef(false);
+  const openedAnnotation = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      setLoadError(null);
+      try {
+        const loaded = await loadViewerDocument(id, versionParam ? Number(versionParam) : undefined);
+        const chunk = chunkParam !== null ? await getCitedChunk(id, Number(chunkParam), loaded.version) : null;
+        if (cancelled) return;
+        setDocument(loaded);
+        setCitedChunk(chunk);
+        scrolledToCitation.current = false;
+      } catch (error) {
+        console.error('Error loading document:', error);
+        if (!cancelled) setLoadError('This document could not be loaded. It may have been deleted.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, chunkParam, versionParam]);
+
+  const text = document?.text ?? '';
+  const pages = useMemo(() => splitPages(text), [text]);
+  const cited = useMemo(() => (citedChunk && text ? locatePassage(text, citedChunk.content) : null), [citedChunk, text]);
+  const citedPages = useMemo(() => {
+    const start = citedChunk?.page_number ?? (pageParam ? Number(pageParam) : null);
+    return start ? { start, end: citedChunk?.page_end ?? start } : null;
+  }, [citedChunk, pageParam]);
+  const matches = useMemo(() => findMatches(text, deferredQuery), [text, deferredQuery]);
+  const annotatedRanges = useMemo(
+    () =>
+      annotations
+        .filter(annotation => showResolved || !annotation.resolved_at)
+        .map(annotation => ({ id: annotation.id, start: annotation.start_offset, end: Math.min(annotation.end_offset, text.length) }))
+        .filter(range => range.start < range.end),
+    [annotations, showResolved, text]
+  );
+
+  useEffect(() => {
+    listTeamMembers()
+      .then(setMembers)
+      .catch(error => console.error('Error loading team members:', error));
+  }, []);
+
+  const documentId = document?.id;
+  const documentVersion = document?.version;
+  useEffect(() => {
+    if (!documentId || !documentVersion) return;
+    let cancelled = false;
+    setAnnotationsLoading(true);
+    listAnnotations(documentId, documentVersion)
+      .then(loaded => {
+        if (!cancelled) setAnnotations(loaded);
+      })
+      .catch(error => console.error('Error loading annotations:', error))
+      .finally(() => {
+        if (!cancelled) setAnnotationsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, documentVersion]);
+
+  // The floating buttons go once the selection does, or the page moves under them
+  useEffect(() => {
+    if (!selection) return;
+    const clear = () => {
+      if (!window.getSelection()?.toString()) setSelection(null);
+    };
+    const dismiss = () => setSelection(null);
+    window.document.addEventListener('selectionchange', clear);
+    window.addEventListener('scroll', dismiss, true);
+    return () => {
+      window.document.removeEventListener('selectionchange', clear);
+      window.removeEventListener('scroll', dismiss, true);
+    };
+  }, [selection]);
+
+  useEffect(() => {
+    if (citedPages) setOriginalPage(citedPages.start);
+  }, [citedPages]);
+
+  useEffect(() => {
+    setActiveMatch(0);
+  }, [matches]);
+
+  const scrollToCitation = () => {
+    const target = contentRef.current?.querySelector('[data-cited]') ?? contentRef.current?.querySelector(`[data-page="${citedPages?.start}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Open at the citation once the text is on screen
+  useEffect(() => {
+    if (!document || scrolledToCitation.current || (!cited && !citedPages)) return;
+    scrolledToCitation.current = true;
+    const target = contentRef.current?.querySelector('[data-cited]') ?? contentRef.current?.querySelector(`[data-page="${citedPages?.start}"]`);
+    target?.scrollIntoView({ block: 'center' });
+  }, [document, cited, citedPages]);
+
+  useEffect(() => {
+    if (matches.length === 0) return;
+    contentRef.current?.querySelector(`[data-match="${activeMatch}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeMatch, matches]);
+
+  // The original is only fetched when asked for
+  useEffect(() => {
+    if (view !== 'original' || !document || original) return;
+    let cancelled = false;
+    downloadOriginal(document.filePath)
+      .then(async blob => {
+        if (!cancelled) setOriginal({ data: await blob.arrayBuffer(), url: URL.createObjectURL(blob) });
+      })
+      .catch(error => {
+        console.error('Error downloading original:', error);
+        if (!cancelled) setOriginalError('The original file could not be loaded');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, document, original]);
+
+  useEffect(() => () => {
+    if (original) URL.revokeObjectURL(original.url);
+  }, [original]);
+
+  const focusAnnotation = (id: string) => {
+    setActiveAnnotation(id);
+    setView('text');
+    const annotation = annotations.find(candidate => candidate.id === id);
+    if (annotation?.resolved_at) setShowResolved(true);
+    requestAnimationFrame(() => {
+      contentRef.current?.querySelector(`[data-annotation="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      window.document.querySelector(`[data-thread="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  };
+
+  // Open at the thread a link points to, once annotations are in
+  useEffect(() => {
+    if (!annotationParam || openedAnnotation.current === annotationParam) return;
+    const annotation = annotations.find(candidate => candidate.id === annotationParam);
+    if (!annotation) return;
+    openedAnnotation.current = annotationParam;
+    setActiveAnnotation(annotation.id);
+    if (annotation.resolved_at) setShowResolved(true);
+    requestAnimationFrame(() => {
+      contentRef.current?.querySelector(`[data-annotation="${annotation.id}"]`)?.scrollIntoView({ block: 'center' });
+      window.document.querySelector(`[data-thread="${annotation.id}"]`)?.scrollIntoView({ block: 'nearest' });
+    });
+  }, [annotationParam, annotations]);
+
+  const handleTextMouseUp = () => {
+    const range = contentRef.current ? selectedRange(contentRef.current) : null;
+    if (!range || !text.slice(range.start, range.end).trim()) {
+      setSelection(null);
+      return;
+    }
+    const rect = window.getSelection()!.getRangeAt(0).getBoundingClientRect();
+    setSelection({ range, top: rect.bottom + 6, left: rect.left + rect.width / 2 });
+  };
+
+  const saveAnnotation = async (range: TextRange, comment?: string) => {
+    if (!document) return;
+    try {
+      const created = await createAnnotation(
+        {
+          documentId: document.id,
+          version: document.version,
+          range,
+          quote: text.slice(range.start, range.end).trim(),
+          pageNumber: pageAt(pages, range.start)?.number ?? null,
+        },
+        comment,
+        members
+      );
+      setAnnotations(current => [...current, created].sort((a, b) => a.start_offset - b.start_offset));
+      setActiveAnnotation(created.id);
+      setDraft(null);
+      window.getSelection()?.removeAllRanges();
+    } catch (error) {
+      console.error('Error saving annotation:', error);
+      toast({
+        title: "Annotation Failed",
+        description: "The highlight could not be saved. Please try again.",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleHighlight = () => {
+    if (!selection) return;
+    setSelection(null);
+    saveAnnotation(selection.range).catch(() => undefined);
+  };
+
+  const handleStartComment = () => {
+    if (!selection) return;
+    setDraft({ range: selection.range, quote: text.slice(selection.range.start, selection.range.end).trim() });
+    setSelection(null);
+  };
+
+  const stepMatch = (step: number) => {
+    if (matches.length === 0) return;
+    setActiveMatch(current => (current + step + matches.length) % matches.length);
+  };
+
+  const handleDownload = async () => {
+    if (!document) return;
+    try {
+      window.location.assign(await getDownloadUrl(document.filePath));
+    } catch (error) {
+      console.error('Error creating download link:', error);
+      toast({
+        title: "Download Failed",
+        description: "The original file could not be downloaded.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (loadError || !document) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 mb-4">{loadError}</p>
+          <Button variant="outline" onClick={() => navigate('/documents')}>Back to My Documents</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const citationLabel = [
+    citedPages && pageReference(citedPages.start, document.pageUnit, 'long', citedPages.end),
+    citedChunk?.section_path?.length && citedChunk.section_path.join(' › '),
+  ].filter(Boolean).join(' · ');
+
+  const textView = document.text === null ? (
+    <Card>
+      <CardContent className="text-center py-12 text-gray-600">
+        The text of this version has not been extracted yet. It appears here once processing finishes.
+      </CardContent>
+    </Card>
+  ) : (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            className="pl-8"
+            placeholder="Search in document"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                stepMatch(e.shiftKey ? -1 : 1);
+              }
+            }}
+            aria-label="Search in document"
+          />
+        </div>
+        {deferredQuery.trim() && (
+          <span className="text-sm text-gray-500 tabular-nums">
+            {matches.length > 0
+              ? `${activeMatch + 1} of ${matches.length}${matches.length >= MAX_SEARCH_MATCHES ? '+' : ''}`
+              : 'No matches'}
+          </span>
+        )}
+        <Button variant="outline" size="icon" onClick={() => stepMatch(-1)} disabled={matches.length === 0} aria-label="Previous match">
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => stepMatch(1)} disabled={matches.length === 0} aria-label="Next match">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div ref={contentRef} onMouseUp={handleTextMouseUp}>
+        <DocumentText
+          text={text}
+          pages={pages}
+          pageUnit={document.pageUnit}
+          cited={cited}
+          citedPages={citedPages}
+          matches={matches}
+          activeMatch={activeMatch}
+          annotations={annotatedRanges}
+          activeAnnotation={activeAnnotation}
+          onAnnotationClick={focusAnnotation}
+        />
+      </div>
+
+      {selection && (
+        <div
+          className="fixed z-40 flex -translate-x-1/2 gap-1 rounded-md border bg-white p-1 shadow-md"
+          style={{ top: selection.top, left: selection.left }}
+          // Keep the selection while a button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleHighlight}>
+            <Highlighter className="h-4 w-4 mr-1" />
+            Highlight
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleStartComment}>
+            <MessageSquarePlus className="h-4 w-4 mr-1" />
+            Comment
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  const mainView = hasOriginalView(document.contentType) ? (
+    <Tabs value={view} onValueChange={setView}>
+      <TabsList>
+        <TabsTrigger value="text">Extracted text</TabsTrigger>
+        <TabsTrigger value="original">Original</TabsTrigger>
+      </TabsList>
+      <TabsContent value="text">{textView}</TabsContent>
+      <TabsContent value="original">
+        {originalError ? (
+          <p className="text-sm text-red-600">{originalError}</p>
+        ) : !original ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : document.contentType === 'application/pdf' ? (
+          <PdfPageView data={original.data} page={originalPage} onPageChange={setOriginalPage} citedPages={citedPages} />
+        ) : (
+          <img src={original.url} alt={document.title} className="mx-auto max-w-full rounded border" />
+        )}
+      </TabsContent>
+    </Tabs>
+  ) : (
+    textView
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold text-gray-900 truncate">{document.title}</h1>
+          {document.version !== document.currentVersion && (
+            <Badge variant="outline">Version {document.version} of {document.currentVersion}</Badge>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+      </div>
+
+      {(citedChunk || citedPages) && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-900">
+          <Quote className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Cited passage{citationLabel && `: ${citationLabel}`}
+            {!cited && document.text !== null && ` (the exact passage was not found in this text, so its ${document.pageUnit} is marked)`}
+          </span>
+          {view === 'text' && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-yellow-900" onClick={scrollToCitation}>
+              Show
+            </Button>
+          )}
+        </div>
+      )}
+
+      {document.text === null ? (
+        mainView
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_20rem]">
+          <div className="min-w-0">{mainView}</div>
+          <div className="lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] lg:self-start lg:overflow-y-auto">
+            <AnnotationsPanel
+              annotations={annotations}
+              loading={annotationsLoading}
+              members={members}
+              currentUserId={user?.id}
+              pageUnit={document.pageUnit}
+              isDocumentOwner={user?.id === document.ownerId}
+              showResolved={showResolved}
+              onShowResolvedChange={setShowResolved}
+              draft={draft}
+              onCreate={(comment) => saveAnnotation(draft!.range, comment)}
+              onCancelDraft={() => setDraft(null)}
+              activeId={activeAnnotation}
+              onSelect={focusAnnotation}
+              onChange={(updated) => setAnnotations(current => current.map(annotation => (annotation.id === updated.id ? updated : annotation)))}
+              onDelete={(id) => setAnnotations(current => current.filter(annotation => annotation.id !== id))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -1,19 +1,34 @@
 import { useState, useEffect } from 'react';
-import { FileText, Search, Filter, Eye, MessageSquare, Calendar, Tag, Brain, RefreshCw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { FileText, Search, Filter, Eye, MessageSquare, Calendar, Tag, Brain, RefreshCw, AlertTriangle, ShieldCheck, Table2, ScanText, Copy, History, Folder, AtSign } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { useProcessingJobs } from '@/hooks/useProcessingJobs';
 import { DocumentChat } from '@/components/chat/DocumentChat';
-import { AIProcessingService } from '@/lib/ai';
+import { DuplicatesDialog } from '@/components/documents/DuplicatesDialog';
+import { FolderTree } from '@/components/documents/FolderTree';
+import { OcrDialog } from '@/components/documents/OcrDialog';
+import { VersionsDialog } from '@/components/documents/VersionsDialog';
+import { MentionsDialog } from '@/components/documents/MentionsDialog';
+import { SheetTablesDialog } from '@/components/documents/SheetTablesDialog';
+import { ExtractionFailureReason, ExtractionOptions, OcrPage } from '@/lib/document-extraction';
+import { documentViewerPath } from '@/lib/document-viewer';
+import { AnnotationMention, getMentions } from '@/lib/annotations';
+import { isImage } from '@/lib/image-extraction';
+import { isActiveJob, PROCESSING_STAGE_LABELS, ProcessingJob, queueDocumentProcessing } from '@/lib/processing-jobs';
+import { isSpreadsheet } from '@/lib/spreadsheet-extraction';
 
 interface Document {
   id: string;
+  user_id: string;
   title: string;
   description: string;
   file_path: string;
@@ -22,6 +37,15 @@ interface Document {
   category: string;
   status: 'processing' | 'completed' | 'error';
   ai_summary?: string;
+  processing_error?: string | null;
+  extraction_issue?: ExtractionFailureReason | null;
+  ai_models?: Record<string, string> | null;
+  external_ai_allowed?: boolean | null;
+  ocr_language?: string | null;
+  ocr_pages?: OcrPage[] | null;
+  content_hash?: string | null;
+  current_version?: number;
+  folder_path?: string | null;
   created_at: string;
   tags?: { name: string }[];
   project?: {
@@ -31,13 +55,48 @@ interface Document {
   };
 }
 
+const EXTRACTION_ISSUE_LABELS: Record<ExtractionFailureReason, string> = {
+  encrypted: 'Password-protected',
+  scanned: 'Scanned, no text layer',
+  invalid: 'Unreadable file',
+  empty: 'No text found',
+};
+
+// Stage, progress and retries of a document's queued or running job
+const JobStatus = ({ job }: { job: ProcessingJob }) => {
+  const attempt = job.status === 'queued' ? job.attempts + 1 : job.attempts;
+  return (
+    <div className="space-y-1 text-xs text-gray-600">
+      <div className="flex items-center justify-between">
+        <span>{job.status === 'queued' ? (attempt > 1 ? 'Waiting to retry' : 'Queued') : PROCESSING_STAGE_LABELS[job.stage]}</span>
+        <span className="tabular-nums">
+          {attempt > 1 && `Attempt ${attempt} of ${job.max_attempts} · `}
+          {job.progress}%
+        </span>
+      </div>
+      <Progress value={job.progress} className="h-1.5" />
+      {job.last_error && (
+        <p className="line-clamp-2 text-amber-700" title={job.last_error}>Last attempt failed: {job.last_error}</p>
+      )}
+    </div>
+  );
+};
+
 const Documents = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
+  // null shows every folder, '' documents outside any folder
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
+  const [sheetsDocument, setSheetsDocument] = useState<Document | null>(null);
+  const [ocrDocument, setOcrDocument] = useState<Document | null>(null);
+  const [versionsDocument, setVersionsDocument] = useState<Document | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [mentions, setMentions] = useState<AnnotationMention[]>([]);
+  const [showMentions, setShowMentions] = useState(false);
   const [processingDocuments, setProcessingDocuments] = useState<Set<string>>(new Set());
   const { user } = useAuth();
   const { toast } = useToast();
@@ -48,9 +107,36 @@ const Documents = () => {
     }
   }, [user]);
 
-  const fetchDocuments = async () => {
+  useEffect(() => {
+    if (!user) return;
+    getMentions()
+      .then(setMentions)
+      .catch(error => console.error('Error loading mentions:', error));
+  }, [user]);
+
+  const openMentions = mentions.filter(mention => !mention.resolved_at).length;
+
+  // Pick up a finished job's results without blanking the page
+  const jobs = useProcessingJobs(user?.id, (job: ProcessingJob) => {
+    fetchDocuments(false);
+    if (job.status === 'failed') {
+      const title = documents.find(doc => doc.id === job.document_id)?.title ?? 'A document';
+      toast({
+        title: "Processing Failed",
+        description: `${title} could not be processed after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}: ${job.last_error}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const activeJob = (documentId: string): ProcessingJob | null => {
+    const job = jobs.get(documentId);
+    return job && isActiveJob(job) ? job : null;
+  };
+
+  const fetchDocuments = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       
       const { data, error } = await supabase
         .from('research_documents')
@@ -99,8 +185,13 @@ const Documents = () => {
     
     const matchesCategory = categoryFilter === 'all' || doc.category === categoryFilter;
     const matchesStatus = statusFilter === 'all' || doc.status === statusFilter;
+    const matchesFolder =
+      folderFilter === null ||
+      (folderFilter === ''
+        ? !doc.folder_path
+        : doc.folder_path === folderFilter || doc.folder_path?.startsWith(`${folderFilter}/`));
 
-    return matchesSearch && matchesCategory && matchesStatus;
+    return matchesSearch && matchesCategory && matchesStatus && matchesFolder;
   });
 
   const formatFileSize = (bytes: number): string => {
@@ -141,22 +232,22 @@ const Documents = () => {
     }
   };
 
-  const handleReprocessDocument = async (documentId: string) => {
+  const handleReprocessDocument = async (documentId: string, options?: ExtractionOptions) => {
     setProcessingDocuments(prev => new Set(prev).add(documentId));
     
     try {
-      console.log(`Reprocessing document ${documentId}...`);
-      await AIProcessingService.processDocument(documentId);
+      console.log(`Queueing document ${documentId} for processing...`);
+      await queueDocumentProcessing(documentId, options);
+      setDocuments(prev => prev.map(doc => (doc.id === documentId ? { ...doc, status: 'processing' } : doc)));
       toast({
-        title: "Success",
-        description: "Document processed successfully",
+        title: "Queued",
+        description: "The document will be processed in the background",
       });
-      fetchDocuments(); // Refresh the list
     } catch (error) {
-      console.error('Error reprocessing document:', error);
+      console.error('Error queueing document:', error);
       toast({
         title: "Error",
-        description: `Failed to process document: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Failed to queue document: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
     } finally {
@@ -168,37 +259,61 @@ const Documents = () => {
     }
   };
 
+  // Documents with pages that OCR read, or could read in another language
+  const hasOcr = (doc: Document) =>
+    (doc.ocr_pages?.length ?? 0) > 0 || isImage(doc.content_type)
+    || (doc.content_type === 'application/pdf' && doc.extraction_issue === 'scanned');
+
+  // Select values for the per-document external AI override
+  const externalAIValue = (doc: Document) =>
+    doc.external_ai_allowed === true ? 'approved' : doc.external_ai_allowed === false ? 'confidential' : 'policy';
+
+  const handleExternalAIChange = async (documentId: string, value: string) => {
+    const external_ai_allowed = value === 'approved' ? true : value === 'confidential' ? false : null;
+    try {
+      const { error } = await supabase
+        .from('research_documents')
+        .update({ external_ai_allowed })
+        .eq('id', documentId);
+
+      if (error) throw error;
+      setDocuments(prev => prev.map(doc => (doc.id === documentId ? { ...doc, external_ai_allowed } : doc)));
+    } catch (error) {
+      console.error('Error updating external AI setting:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the document's external AI setting",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Processing documents without a queued or running job, such as those left by a closed tab
+  const stuckDocuments = documents.filter(doc => doc.status === 'processing' && !activeJob(doc.id));
+
   const handleReprocessAllStuckDocuments = async () => {
-    const stuckDocuments = documents.filter(doc => doc.status === 'processing');
     if (stuckDocuments.length === 0) {
       toast({
         title: "No Documents to Process",
-        description: "All documents are already processed or failed.",
+        description: "All documents are already processed, failed or queued.",
       });
       return;
     }
 
-    toast({
-      title: "Processing Started",
-      description: `Reprocessing ${stuckDocuments.length} documents...`,
-    });
-
+    let queued = 0;
     for (const doc of stuckDocuments) {
       try {
-        console.log(`Reprocessing document ${doc.id} (${doc.title})...`);
-        await AIProcessingService.processDocument(doc.id);
-        console.log(`Successfully processed ${doc.title}`);
+        await queueDocumentProcessing(doc.id);
+        queued++;
       } catch (error) {
-        console.error(`Failed to process ${doc.title}:`, error);
+        console.error(`Failed to queue ${doc.title}:`, error);
       }
     }
 
     toast({
-      title: "Processing Complete",
-      description: "All documents have been reprocessed. Check the list for updated status.",
+      title: "Processing Queued",
+      description: `${queued} of ${stuckDocuments.length} documents queued for processing.`,
     });
-    
-    fetchDocuments(); // Refresh the list
   };
 
   if (loading) {
@@ -223,14 +338,27 @@ const Documents = () => {
           </p>
         </div>
         <div className="flex gap-2">
-          {documents.filter(doc => doc.status === 'processing').length > 0 && (
+          {stuckDocuments.length > 0 && (
             <Button 
               variant="outline" 
               onClick={handleReprocessAllStuckDocuments}
               className="flex items-center gap-2"
             >
               <RefreshCw className="h-4 w-4" />
-              Reprocess All ({documents.filter(doc => doc.status === 'processing').length})
+              Reprocess All ({stuckDocuments.length})
+            </Button>
+          )}
+          {mentions.length > 0 && (
+            <Button variant="outline" onClick={() => setShowMentions(true)} className="flex items-center gap-2">
+              <AtSign className="h-4 w-4" />
+              Mentions
+              {openMentions > 0 && <Badge className="ml-1 px-1.5">{openMentions}</Badge>}
+            </Button>
+          )}
+          {documents.length > 1 && (
+            <Button variant="outline" onClick={() => setShowDuplicates(true)} className="flex items-center gap-2">
+              <Copy className="h-4 w-4" />
+              Possible Duplicates
             </Button>
           )}
           <Button onClick={() => window.location.href = '/upload'}>
@@ -284,159 +412,246 @@ const Documents = () => {
         </CardContent>
       </Card>
 
-      {/* Documents Grid */}
-      {filteredDocuments.length === 0 ? (
-        <Card>
-          <CardContent className="pt-6">
-            <div className="text-center py-12">
-              <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {documents.length === 0 ? 'No documents yet' : 'No documents found'}
-              </h3>
-              <p className="text-gray-600 mb-4">
-                {documents.length === 0 
-                  ? 'Upload your first research document to get started with AI analysis.'
-                  : 'Try adjusting your search or filters.'
-                }
-              </p>
-              {documents.length === 0 && (
-                <Button onClick={() => window.location.href = '/upload'}>
-                  Upload Your First Document
-                </Button>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredDocuments.map((doc) => (
-            <Card key={doc.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center gap-3">
-                    <span className="text-2xl">{getCategoryIcon(doc.category)}</span>
-                    <div className="flex-1 min-w-0">
-                      <CardTitle className="text-lg truncate">{doc.title}</CardTitle>
-                      <CardDescription className="truncate">
-                        {doc.description}
-                      </CardDescription>
-                    </div>
-                  </div>
-                  <Badge className={getStatusColor(doc.status)}>
-                    {doc.status}
-                  </Badge>
+      <div className="flex gap-6">
+        {/* Folders, for imported data rooms */}
+        {documents.some(doc => doc.folder_path) && (
+          <Card className="hidden md:block w-64 flex-shrink-0 self-start">
+            <CardContent className="pt-4">
+              <FolderTree
+                folderPaths={documents.map(doc => doc.folder_path ?? null)}
+                selected={folderFilter}
+                onSelect={setFolderFilter}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex-1 min-w-0">
+          {/* Documents Grid */}
+          {filteredDocuments.length === 0 ? (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-center py-12">
+                  <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">
+                    {documents.length === 0 ? 'No documents yet' : 'No documents found'}
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    {documents.length === 0 
+                      ? 'Upload your first research document to get started with AI analysis.'
+                      : 'Try adjusting your search or filters.'
+                    }
+                  </p>
+                  {documents.length === 0 && (
+                    <Button onClick={() => window.location.href = '/upload'}>
+                      Upload Your First Document
+                    </Button>
+                  )}
                 </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {/* AI Summary */}
-                {doc.ai_summary && (
-                  <div>
-                    <h4 className="font-medium text-sm text-gray-700 mb-2 flex items-center gap-1">
-                      <Brain className="h-3 w-3" />
-                      AI Summary
-                    </h4>
-                    <p className="text-sm text-gray-600 line-clamp-3">
-                      {doc.ai_summary}
-                    </p>
-                  </div>
-                )}
-
-                {/* AI Analysis Details - Removed since ai_analysis column doesn't exist */}
-
-                {/* Project Association */}
-                {doc.project && (
-                  <div className="flex items-center gap-2">
-                    <Badge variant="outline" className="text-xs">
-                      <FileText className="h-3 w-3 mr-1" />
-                      {doc.project.title}
-                    </Badge>
-                    <Badge variant="secondary" className="text-xs">
-                      {doc.project.category}
-                    </Badge>
-                  </div>
-                )}
-
-                {/* Tags with View All */}
-                {doc.tags && doc.tags.length > 0 && (
-                  <div>
-                    <div className="flex flex-wrap gap-1 mb-2">
-                      {doc.tags.slice(0, 3).map((tag, index) => (
-                        <Badge key={index} variant="secondary" className="text-xs">
-                          <Tag className="h-3 w-3 mr-1" />
-                          {tag.name}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {filteredDocuments.map((doc) => (
+                <Card key={doc.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl">{getCategoryIcon(doc.category)}</span>
+                        <div className="flex-1 min-w-0">
+                          <CardTitle className="text-lg truncate">{doc.title}</CardTitle>
+                          <CardDescription className="truncate">
+                            {doc.description}
+                          </CardDescription>
+                          {doc.folder_path && (
+                            <button
+                              type="button"
+                              className="flex max-w-full items-center gap-1 text-xs text-gray-500 hover:text-blue-600"
+                              onClick={() => setFolderFilter(doc.folder_path)}
+                              title={doc.folder_path}
+                            >
+                              <Folder className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">{doc.folder_path}</span>
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <Badge className={getStatusColor(doc.status)}>
+                        {doc.status}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {/* AI Summary */}
+                    {doc.ai_summary && (
+                      <div>
+                        <h4 className="font-medium text-sm text-gray-700 mb-2 flex items-center gap-1">
+                          <Brain className="h-3 w-3" />
+                          AI Summary
+                          {doc.ai_models?.summary && (
+                            <span className="font-normal text-xs text-gray-500">· {doc.ai_models.summary}</span>
+                          )}
+                        </h4>
+                        <p className="text-sm text-gray-600 line-clamp-3">
+                          {doc.ai_summary}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Processing Job */}
+                    {activeJob(doc.id) && (
+                      <JobStatus job={activeJob(doc.id)} />
+                    )}
+
+                    {/* AI Processing Failures */}
+                    {doc.processing_error && (
+                      <div className="flex items-start gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-800">
+                        <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                        <div>
+                          {doc.extraction_issue && (
+                            <p className="font-medium">{EXTRACTION_ISSUE_LABELS[doc.extraction_issue]}</p>
+                          )}
+                          <p className="line-clamp-3 whitespace-pre-line" title={doc.processing_error}>
+                            {doc.processing_error}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* AI Analysis Details - Removed since ai_analysis column doesn't exist */}
+
+                    {/* Project Association */}
+                    {doc.project && (
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">
+                          <FileText className="h-3 w-3 mr-1" />
+                          {doc.project.title}
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs">
+                          {doc.project.category}
                         </Badge>
-                      ))}
-                      {doc.tags.length > 3 && (
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Badge variant="outline" className="text-xs cursor-pointer hover:bg-gray-100">
-                              +{doc.tags.length - 3} more
+                      </div>
+                    )}
+
+                    {/* Tags with View All */}
+                    {doc.tags && doc.tags.length > 0 && (
+                      <div>
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {doc.tags.slice(0, 3).map((tag, index) => (
+                            <Badge key={index} variant="secondary" className="text-xs">
+                              <Tag className="h-3 w-3 mr-1" />
+                              {tag.name}
                             </Badge>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>All Tags for "{doc.title}"</DialogTitle>
-                            </DialogHeader>
-                            <div className="flex flex-wrap gap-2">
-                              {doc.tags.map((tag, index) => (
-                                <Badge key={index} variant="secondary">
-                                  <Tag className="h-3 w-3 mr-1" />
-                                  {tag.name}
+                          ))}
+                          {doc.tags.length > 3 && (
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Badge variant="outline" className="text-xs cursor-pointer hover:bg-gray-100">
+                                  +{doc.tags.length - 3} more
                                 </Badge>
-                              ))}
-                            </div>
-                          </DialogContent>
-                        </Dialog>
-                      )}
+                              </DialogTrigger>
+                              <DialogContent>
+                                <DialogHeader>
+                                  <DialogTitle>All Tags for "{doc.title}"</DialogTitle>
+                                </DialogHeader>
+                                <div className="flex flex-wrap gap-2">
+                                  {doc.tags.map((tag, index) => (
+                                    <Badge key={index} variant="secondary">
+                                      <Tag className="h-3 w-3 mr-1" />
+                                      {tag.name}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              </DialogContent>
+                            </Dialog>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Document Info */}
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(doc.created_at)}
+                      </div>
+                      <span>
+                        {(doc.current_version ?? 1) > 1 && `v${doc.current_version} · `}
+                        {formatFileSize(doc.file_size)}
+                      </span>
                     </div>
-                  </div>
-                )}
-
-                {/* Document Info */}
-                <div className="flex items-center justify-between text-xs text-gray-500">
-                  <div className="flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(doc.created_at)}
-                  </div>
-                  <span>{formatFileSize(doc.file_size)}</span>
-                </div>
 
-                {/* Actions */}
-                <div className="flex gap-2 pt-2">
-                  <Button variant="outline" size="sm" className="flex-1">
-                    <Eye className="h-4 w-4 mr-1" />
-                    View
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    className="flex-1"
-                    onClick={() => setSelectedDocument(doc)}
-                    disabled={false}
-                  >
-                    <MessageSquare className="h-4 w-4 mr-1" />
-                    Chat
-                  </Button>
-                  {doc.status === 'processing' && (
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleReprocessDocument(doc.id)}
-                      disabled={processingDocuments.has(doc.id)}
-                    >
-                      {processingDocuments.has(doc.id) ? (
-                        <RefreshCw className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <RefreshCw className="h-4 w-4" />
+                    {/* Actions */}
+                    {/* External AI override */}
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="h-4 w-4 text-gray-500" />
+                      <Select value={externalAIValue(doc)} onValueChange={(value) => handleExternalAIChange(doc.id, value)}>
+                        <SelectTrigger className="h-8 text-xs" aria-label="External AI models">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="policy">External AI: team policy</SelectItem>
+                          <SelectItem value="approved">External AI: approved</SelectItem>
+                          <SelectItem value="confidential">Confidential: local AI only</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex gap-2 pt-2">
+                      <Button variant="outline" size="sm" className="flex-1" asChild>
+                        <Link to={documentViewerPath({ document_id: doc.id })}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          View
+                        </Link>
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        className="flex-1"
+                        onClick={() => setSelectedDocument(doc)}
+                        disabled={false}
+                      >
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Chat
+                      </Button>
+                      {isSpreadsheet(doc.content_type) && doc.status === 'completed' && (
+                        <Button variant="outline" size="sm" className="flex-1" onClick={() => setSheetsDocument(doc)}>
+                          <Table2 className="h-4 w-4 mr-1" />
+                          Sheets
+                        </Button>
                       )}
-                    </Button>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                      {hasOcr(doc) && doc.status !== 'processing' && (
+                        <Button variant="outline" size="sm" className="flex-1" onClick={() => setOcrDocument(doc)}>
+                          <ScanText className="h-4 w-4 mr-1" />
+                          OCR
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" title="Versions" onClick={() => setVersionsDocument(doc)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {((doc.status === 'processing' && !activeJob(doc.id)) || doc.status === 'error') && (
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          title="Process again"
+                          onClick={() => handleReprocessDocument(doc.id)}
+                          disabled={processingDocuments.has(doc.id)}
+                        >
+                          {processingDocuments.has(doc.id) ? (
+                            <RefreshCw className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {/* Stats */}
       {documents.length > 0 && (
@@ -476,7 +691,56 @@ const Documents = () => {
           documentId={selectedDocument.id}
           documentTitle={selectedDocument.title}
           onClose={() => setSelectedDocument(null)}
-          geminiApiKey={import.meta.env.VITE_GEMINI_API_KEY}
+        />
+      )}
+
+      {/* Spreadsheet Sheets Modal */}
+      {sheetsDocument && (
+        <SheetTablesDialog
+          documentId={sheetsDocument.id}
+          documentTitle={sheetsDocument.title}
+          onClose={() => setSheetsDocument(null)}
+        />
+      )}
+
+      {/* Duplicates Modal */}
+      {showMentions && user && (
+        <MentionsDialog
+          userId={user.id}
+          mentions={mentions}
+          ownedDocumentIds={new Set(documents.map(doc => doc.id))}
+          onClose={() => setShowMentions(false)}
+        />
+      )}
+
+      {showDuplicates && user && (
+        <DuplicatesDialog
+          userId={user.id}
+          onMerged={() => fetchDocuments(false)}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {/* Versions Modal */}
+      {versionsDocument && (
+        <VersionsDialog
+          document={versionsDocument}
+          onVersionUploaded={() => fetchDocuments(false)}
+          onClose={() => setVersionsDocument(null)}
+        />
+      )}
+
+      {/* OCR Confidence Modal */}
+      {ocrDocument && (
+        <OcrDialog
+          documentTitle={ocrDocument.title}
+          language={ocrDocument.ocr_language ?? null}
+          pages={ocrDocument.ocr_pages ?? null}
+          onRerun={async ocrLanguage => {
+            await handleReprocessDocument(ocrDocument.id, { ocrLanguage });
+            setOcrDocument(null);
+          }}
+          onClose={() => setOcrDocument(null)}
         />
       )}
     </div>
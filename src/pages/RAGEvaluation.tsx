@@ -0,0 +1,260 @@
+import { useState, useEffect, useRef } from 'react';
+import { Plus, Upload, Download, Pencil, Trash2, FlaskConical } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import {
+  deleteEvalSet,
+  EvalSet,
+  EvalSetDraft,
+  exportGoldenSet,
+  listEvalSets,
+  parseGoldenSetFile,
+  saveEvalSet,
+} from '@/lib/rag-eval';
+import { EvalSetEditor, NamedItem } from '@/components/evaluation/EvalSetEditor';
+import { EvalRunsPanel } from '@/components/evaluation/EvalRunsPanel';
+import { InjectionChecksPanel } from '@/components/evaluation/InjectionChecksPanel';
+
+const newDraft = (): EvalSetDraft => ({ name: '', description: '', project_id: null, cases: [] });
+
+export default function RAGEvaluation() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sets, setSets] = useState<EvalSet[]>([]);
+  const [documents, setDocuments] = useState<NamedItem[]>([]);
+  const [projects, setProjects] = useState<NamedItem[]>([]);
+  const [selectedSetId, setSelectedSetId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EvalSetDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [evalSets, { data: docs }, { data: projectRows }] = await Promise.all([
+        listEvalSets(),
+        supabase.from('research_documents').select('id, title').order('title'),
+        supabase.from('research_projects').select('id, title').order('title'),
+      ]);
+      setSets(evalSets);
+      setDocuments(docs || []);
+      setProjects(projectRows || []);
+      setSelectedSetId(current => current ?? evalSets[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading evaluation sets:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load evaluation sets",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (draft: EvalSetDraft) => {
+    try {
+      setSaving(true);
+      const setId = await saveEvalSet(draft);
+      setEditing(null);
+      setSelectedSetId(setId);
+      await fetchData();
+      toast({
+        title: "Success",
+        description: "Golden set saved",
+      });
+    } catch (error) {
+      console.error('Error saving evaluation set:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save golden set",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (set: EvalSet) => {
+    if (!confirm(`Delete "${set.name}" and all of its runs?`)) return;
+
+    try {
+      await deleteEvalSet(set.id);
+      setSelectedSetId(null);
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting evaluation set:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete golden set",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      // Imported sets open in the editor so the corpus can be chosen before saving
+      setEditing(await parseGoldenSetFile(await file.text(), null));
+    } catch (error) {
+      console.error('Error importing golden set:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the golden set file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = async (set: EvalSet) => {
+    try {
+      const blob = new Blob([await exportGoldenSet(set)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${set.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting golden set:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export golden set",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedSet = sets.find(set => set.id === selectedSetId);
+  const documentTitles = new Map(documents.map(doc => [doc.id, doc.title]));
+  const corpusName = (set: EvalSet) =>
+    set.project_id ? projects.find(project => project.id === set.project_id)?.title ?? 'Project' : 'All documents';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">RAG Evaluation</h1>
+          <p className="text-gray-600 mt-2">
+            Score retrieval and answers against golden question sets, and compare runs across changes
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={() => setEditing(newDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Set
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Golden sets */}
+        <div className="space-y-3">
+          {loading && <p className="text-sm text-gray-600">Loading...</p>}
+          {!loading && sets.length === 0 && (
+            <Card>
+              <CardContent className="pt-6 text-center text-sm text-gray-600">
+                <FlaskConical className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                No golden sets yet. Create one or import a JSON file.
+              </CardContent>
+            </Card>
+          )}
+          {sets.map(set => (
+            <Card
+              key={set.id}
+              className={cn('cursor-pointer transition-colors', set.id === selectedSetId && 'border-primary')}
+              onClick={() => {
+                setSelectedSetId(set.id);
+                setEditing(null);
+              }}
+            >
+              <CardHeader className="p-4">
+                <CardTitle className="text-base">{set.name}</CardTitle>
+                <CardDescription className="flex items-center gap-2">
+                  <Badge variant="secondary">{set.cases.length} questions</Badge>
+                  <span className="truncate">{corpusName(set)}</span>
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {editing ? (
+            <EvalSetEditor
+              draft={editing}
+              documents={documents}
+              projects={projects}
+              saving={saving}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : selectedSet ? (
+            <>
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold">{selectedSet.name}</h2>
+                  {selectedSet.description && <p className="text-sm text-gray-600">{selectedSet.description}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditing({
+                      id: selectedSet.id,
+                      name: selectedSet.name,
+                      description: selectedSet.description,
+                      project_id: selectedSet.project_id,
+                      cases: selectedSet.cases,
+                    })}
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExport(selectedSet)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(selectedSet)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <EvalRunsPanel set={selectedSet} documentTitles={documentTitles} />
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      <InjectionChecksPanel />
+    </div>
+  );
+}
@@ -364,7 +364,6 @@ const Research = () => {
           projectTitle={selectedProjectForChat.title}
           isOpen={!!selectedProjectForChat}
           onClose={() => setSelectedProjectForChat(null)}
-          geminiApiKey={import.meta.env.VITE_GEMINI_API_KEY}
         />
       )}
     </div>
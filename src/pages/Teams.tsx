@@ -12,6 +12,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/lib/supabase';
+import {
+  DEFAULT_UPLOAD_LIMITS,
+  formatSizeLimit,
+  getTeamUploadLimits,
+  MAX_UPLOAD_LIMIT,
+  saveTeamUploadLimits,
+} from '@/lib/document-upload';
 import { useToast } from '@/hooks/use-toast';
 
 interface Team {
@@ -50,6 +57,8 @@ interface TeamInvitation {
   };
 }
 
+const MB = 1024 * 1024;
+
 const Teams = () => {
   const { user, profile } = useAuth();
   const { toast } = useToast();
@@ -73,6 +82,13 @@ const Teams = () => {
     role: 'member'
   });
 
+  // Upload limits, in MB
+  const [limitsForm, setLimitsForm] = useState({
+    maxFileSize: '',
+    maxArchiveSize: ''
+  });
+  const [savingLimits, setSavingLimits] = useState(false);
+
   useEffect(() => {
     if (user) {
       fetchTeams();
@@ -297,6 +313,44 @@ const Teams = () => {
     }
   };
 
+  const fetchUploadLimits = async (teamId: string) => {
+    try {
+      const limits = (await getTeamUploadLimits(teamId)) ?? DEFAULT_UPLOAD_LIMITS;
+      setLimitsForm({
+        maxFileSize: String(Math.round(limits.maxFileSize / MB)),
+        maxArchiveSize: String(Math.round(limits.maxArchiveSize / MB)),
+      });
+    } catch (error) {
+      console.error('Error fetching upload limits:', error);
+    }
+  };
+
+  const handleSaveUploadLimits = async () => {
+    if (!selectedTeam) return;
+
+    try {
+      setSavingLimits(true);
+      await saveTeamUploadLimits(selectedTeam.id, {
+        maxFileSize: Number(limitsForm.maxFileSize) * MB,
+        maxArchiveSize: Number(limitsForm.maxArchiveSize) * MB,
+      });
+
+      toast({
+        title: "Success",
+        description: "Upload limits updated",
+      });
+    } catch (error) {
+      console.error('Error saving upload limits:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update upload limits",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingLimits(false);
+    }
+  };
+
   const handleUpdateMemberRole = async (memberId: string, newRole: string) => {
     try {
       const { error } = await supabase
@@ -371,6 +425,8 @@ const Teams = () => {
     }
   };
 
+  const canManageTeam = selectedTeam?.user_role === 'owner' || selectedTeam?.user_role === 'admin';
+
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -470,6 +526,7 @@ const Teams = () => {
                       setSelectedTeam(team);
                       fetchTeamMembers(team.id);
                       fetchTeamInvitations(team.id);
+                      fetchUploadLimits(team.id);
                     }}
                   >
                     <Settings className="h-4 w-4 mr-1" />
@@ -538,9 +595,10 @@ const Teams = () => {
             </DialogHeader>
             
             <Tabs defaultValue="members" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="members">Members</TabsTrigger>
                 <TabsTrigger value="invite">Invite</TabsTrigger>
+                <TabsTrigger value="uploads">Uploads</TabsTrigger>
               </TabsList>
               
               <TabsContent value="members" className="space-y-4">
@@ -646,6 +704,47 @@ const Teams = () => {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="uploads" className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium">Upload Limits</h3>
+                  <p className="text-sm text-gray-600">
+                    The largest files team members may upload. Storage allows up to {formatSizeLimit(MAX_UPLOAD_LIMIT)}.
+                  </p>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="max_file_size">Largest document (MB)</Label>
+                    <Input
+                      id="max_file_size"
+                      type="number"
+                      min={1}
+                      max={MAX_UPLOAD_LIMIT / MB}
+                      value={limitsForm.maxFileSize}
+                      onChange={(e) => setLimitsForm(prev => ({ ...prev, maxFileSize: e.target.value }))}
+                      disabled={!canManageTeam}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="max_archive_size">Largest data room archive (MB)</Label>
+                    <Input
+                      id="max_archive_size"
+                      type="number"
+                      min={1}
+                      max={MAX_UPLOAD_LIMIT / MB}
+                      value={limitsForm.maxArchiveSize}
+                      onChange={(e) => setLimitsForm(prev => ({ ...prev, maxArchiveSize: e.target.value }))}
+                      disabled={!canManageTeam}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Archives are unpacked in the browser, so very large ones need a lot of memory.</p>
+                  </div>
+                </div>
+                {canManageTeam && (
+                  <Button onClick={handleSaveUploadLimits} disabled={savingLimits}>
+                    Save Limits
+                  </Button>
+                )}
+              </TabsContent>
             </Tabs>
           </DialogContent>
         </Dialog>
@@ -3,7 +3,17 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
-  readonly VITE_GEMINI_API_KEY?: string
+  readonly VITE_AI_PROXY_URL?: string
+  readonly VITE_AI_CHAT_PROVIDER?: 'proxy' | 'openai-compatible' | 'mock'
+  readonly VITE_AI_CHAT_MODEL?: string
+  readonly VITE_AI_RAG_MODEL?: string
+  readonly VITE_AI_EMBEDDING_PROVIDERS?: string
+  readonly VITE_AI_EMBEDDING_MODEL?: string
+  readonly VITE_AI_BASE_URL?: string
+  readonly VITE_AI_MOCK?: 'true' | 'record'
+  readonly VITE_OCR_CORE_PATH?: string
+  readonly VITE_OCR_LANG_PATH?: string
+  readonly VITE_PROCESS_IN_BROWSER?: 'true'
 }
 
 interface ImportMeta {
@@ -0,0 +1,340 @@
+// AI proxy: brokers chat and embedding requests for signed-in users so model
+// API keys stay server-side.
+//
+// POST { action: 'chat' | 'stream', messages, model?, temperature?, maxTokens?, jsonMode?, feature? }
+// POST { action: 'embed', text, model?, dimensions?, feature? }
+//
+// Every request is written to the ai_usage ledger and checked against the
+// caller's team quota in team_ai_quotas.
+//
+// Run locally with `supabase functions serve ai-proxy --env-file supabase/.env.local`
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  getUpstream,
+  proxyConfig,
+  ProxyChatRequest,
+  UpstreamError,
+} from './providers.ts';
+
+type ProxyAction = 'chat' | 'stream' | 'embed';
+
+interface UsageRow {
+  user_id: string;
+  team_id: string | null;
+  feature: string;
+  provider: string;
+  model: string;
+  tokens_in?: number;
+  tokens_out?: number;
+  latency_ms?: number;
+  status?: 'success' | 'error' | 'blocked';
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const intFromEnv = (name: string, fallback: number) => {
+  const value = parseInt(Deno.env.get(name) || '', 10);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+// Per-user request limits; embeddings are cheap and requested in bulk during ingestion
+const LIMITS = {
+  chatPerMinute: intFromEnv('AI_PROXY_CHAT_PER_MINUTE', 20),
+  embedPerMinute: intFromEnv('AI_PROXY_EMBED_PER_MINUTE', 300),
+  perDay: intFromEnv('AI_PROXY_REQUESTS_PER_DAY', 2000),
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
+
+const adminClient = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/**
+ * Record the request and return how many seconds the caller must wait, or null when allowed
+ */
+const checkRateLimit = async (userId: string, action: ProxyAction): Promise<number | null> => {
+  const kind = action === 'embed' ? 'embed' : 'chat';
+  const perMinute = kind === 'embed' ? LIMITS.embedPerMinute : LIMITS.chatPerMinute;
+  const minuteAgo = new Date(Date.now() - 60 * 1000).toISOString();
+  const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+  const [{ count: minuteCount }, { count: dayCount }] = await Promise.all([
+    adminClient
+      .from('ai_proxy_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .gte('created_at', minuteAgo),
+    adminClient
+      .from('ai_proxy_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', dayAgo),
+  ]);
+
+  if ((dayCount ?? 0) >= LIMITS.perDay) return 60 * 60;
+  if ((minuteCount ?? 0) >= perMinute) return 60;
+
+  await adminClient.from('ai_proxy_requests').insert({ user_id: userId, kind });
+  return null;
+};
+
+// Rough count for upstreams that do not report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const recordUsage = async (row: UsageRow) => {
+  const { error } = await adminClient.from('ai_usage').insert(row);
+  if (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+};
+
+const getTeamId = async (userId: string): Promise<string | null> => {
+  const { data } = await adminClient
+    .from('profiles')
+    .select('team_id')
+    .eq('id', userId)
+    .maybeSingle();
+  return data?.team_id ?? null;
+};
+
+/**
+ * Return a message when the team has used up this month's quota, or null when allowed
+ */
+const checkQuota = async (teamId: string | null): Promise<string | null> => {
+  if (!teamId) return null;
+
+  const { data: quota } = await adminClient
+    .from('team_ai_quotas')
+    .select('monthly_token_limit, monthly_request_limit')
+    .eq('team_id', teamId)
+    .maybeSingle();
+  if (!quota || (quota.monthly_token_limit === null && quota.monthly_request_limit === null)) {
+    return null;
+  }
+
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const { data, error } = await adminClient.rpc('get_team_ai_usage', {
+    team_uuid: teamId,
+    since: monthStart.toISOString(),
+  });
+  if (error) {
+    // Fail open: a ledger outage should not take AI features down with it
+    console.error('Failed to read team AI usage:', error);
+    return null;
+  }
+
+  const usage = data?.[0] ?? { tokens: 0, requests: 0 };
+  if (quota.monthly_token_limit !== null && Number(usage.tokens) >= quota.monthly_token_limit) {
+    return 'Your team has used its monthly AI token quota. Ask a team admin to raise the limit.';
+  }
+  if (quota.monthly_request_limit !== null && Number(usage.requests) >= quota.monthly_request_limit) {
+    return 'Your team has used its monthly AI request quota. Ask a team admin to raise the limit.';
+  }
+  return null;
+};
+
+const chatRequestFrom = (body: Record<string, unknown>): ProxyChatRequest => ({
+  messages: Array.isArray(body.messages) ? body.messages : [],
+  model: typeof body.model === 'string' ? body.model : undefined,
+  temperature: typeof body.temperature === 'number' ? body.temperature : undefined,
+  maxTokens: typeof body.maxTokens === 'number' ? Math.min(body.maxTokens, 8192) : undefined,
+  jsonMode: body.jsonMode === true,
+});
+
+const promptTokens = (request: ProxyChatRequest) =>
+  estimateTokens(request.messages.map(message => message.content).join('\n'));
+
+const streamResponse = (
+  request: ProxyChatRequest,
+  signal: AbortSignal,
+  usage: Pick<UsageRow, 'user_id' | 'team_id' | 'feature'>
+) => {
+  const upstream = getUpstream(proxyConfig.chatProvider);
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (payload: unknown) =>
+        controller.enqueue(encoder.encode(`data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`));
+
+      let output = '';
+      let status: UsageRow['status'] = 'success';
+      try {
+        for await (const token of upstream.stream(request, signal)) {
+          output += token;
+          send({ token });
+        }
+        send('[DONE]');
+      } catch (error) {
+        if (!signal.aborted) {
+          status = 'error';
+          send({ error: error instanceof Error ? error.message : String(error) });
+        }
+      } finally {
+        controller.close();
+        await recordUsage({
+          ...usage,
+          provider: upstream.name,
+          model: request.model || upstream.defaultChatModel,
+          tokens_in: promptTokens(request),
+          tokens_out: estimateTokens(output),
+          latency_ms: Date.now() - startTime,
+          status,
+        });
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
+
+const embed = async (
+  body: Record<string, unknown>,
+  signal: AbortSignal,
+  usage: Pick<UsageRow, 'user_id' | 'team_id' | 'feature'>
+) => {
+  const text = typeof body.text === 'string' ? body.text : '';
+  const model = typeof body.model === 'string' ? body.model : undefined;
+  const dimensions = typeof body.dimensions === 'number' ? body.dimensions : 768;
+  const startTime = Date.now();
+
+  let lastError: unknown = null;
+  for (const name of proxyConfig.embeddingProviders) {
+    const upstream = getUpstream(name);
+    if (!upstream.isConfigured()) continue;
+    try {
+      const embedding = await upstream.embed(text, model, dimensions, signal);
+      await recordUsage({
+        ...usage,
+        provider: name,
+        model: model || upstream.defaultEmbeddingModel,
+        tokens_in: estimateTokens(text),
+        latency_ms: Date.now() - startTime,
+      });
+      return json({ embedding, provider: name });
+    } catch (error) {
+      console.error(`Embedding with ${name} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new UpstreamError('No embedding provider configured', proxyConfig.embeddingProviders[0], 503);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // Verify the caller's JWT with Supabase Auth
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: 'Invalid or expired session' }, 401);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const action = body.action as ProxyAction;
+  if (!['chat', 'stream', 'embed'].includes(action)) {
+    return json({ error: `Unknown action: ${String(body.action)}` }, 400);
+  }
+  if (
+    typeof body.model === 'string' &&
+    proxyConfig.allowedModels.length > 0 &&
+    !proxyConfig.allowedModels.includes(body.model)
+  ) {
+    return json({ error: `Model not allowed: ${body.model}` }, 400);
+  }
+
+  const retryAfter = await checkRateLimit(user.id, action);
+  if (retryAfter !== null) {
+    return json(
+      { error: 'AI request limit reached, please wait before trying again' },
+      429,
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
+
+  const usage = {
+    user_id: user.id,
+    team_id: await getTeamId(user.id),
+    feature: typeof body.feature === 'string' ? body.feature : action === 'embed' ? 'embedding' : 'chat',
+  };
+
+  const quotaMessage = await checkQuota(usage.team_id);
+  if (quotaMessage) {
+    await recordUsage({ ...usage, provider: 'proxy', model: String(body.model || 'default'), status: 'blocked' });
+    return json({ error: quotaMessage, code: 'quota_exceeded' }, 403);
+  }
+
+  const startTime = Date.now();
+  try {
+    switch (action) {
+      case 'chat': {
+        const upstream = getUpstream(proxyConfig.chatProvider);
+        const request = chatRequestFrom(body);
+        const completion = await upstream.chat(request, req.signal);
+        await recordUsage({
+          ...usage,
+          provider: completion.provider,
+          model: completion.model,
+          tokens_in: completion.usage?.promptTokens ?? promptTokens(request),
+          tokens_out: completion.usage?.completionTokens ?? estimateTokens(completion.content),
+          latency_ms: Date.now() - startTime,
+        });
+        return json(completion);
+      }
+      case 'stream':
+        return streamResponse(chatRequestFrom(body), req.signal, usage);
+      case 'embed':
+        return await embed(body, req.signal, usage);
+    }
+  } catch (error) {
+    console.error(`AI proxy ${action} failed:`, error);
+    await recordUsage({
+      ...usage,
+      provider: error instanceof UpstreamError ? error.provider : 'proxy',
+      model: String(body.model || 'default'),
+      latency_ms: Date.now() - startTime,
+      status: 'error',
+    });
+    if (error instanceof UpstreamError) {
+      return json(
+        { error: error.message, provider: error.provider },
+        error.status,
+        error.retryAfter ? { 'Retry-After': error.retryAfter } : {}
+      );
+    }
+    return json({ error: error instanceof Error ? error.message : 'AI proxy request failed' }, 500);
+  }
+});
@@ -0,0 +1,312 @@
+// Upstream model providers for the AI proxy. API keys are read from the
+// function's environment and never reach the browser.
+
+export type UpstreamName = 'openrouter' | 'gemini' | 'openai-compatible';
+
+export interface ProxyMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProxyChatRequest {
+  messages: ProxyMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+}
+
+export interface ProxyChatCompletion {
+  content: string;
+  model: string;
+  provider: UpstreamName;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: UpstreamName,
+    public readonly status = 502,
+    public readonly retryAfter?: string | null
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+interface Upstream {
+  name: UpstreamName;
+  defaultChatModel: string;
+  defaultEmbeddingModel: string;
+  isConfigured(): boolean;
+  chat(request: ProxyChatRequest, signal?: AbortSignal): Promise<ProxyChatCompletion>;
+  stream(request: ProxyChatRequest, signal?: AbortSignal): AsyncGenerator<string>;
+  embed(text: string, model: string | undefined, dimensions: number, signal?: AbortSignal): Promise<number[]>;
+}
+
+const env = (name: string) => Deno.env.get(name) || undefined;
+
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const postJson = async (
+  provider: UpstreamName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    throw new UpstreamError(`Network error: ${error instanceof Error ? error.message : String(error)}`, provider, 503);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new UpstreamError(
+      `${provider} API error: ${response.status} - ${errorText}`,
+      provider,
+      response.status,
+      response.headers.get('Retry-After')
+    );
+  }
+  return response;
+};
+
+const openAICompatible = (
+  name: UpstreamName,
+  baseUrl: string,
+  apiKey: string | undefined,
+  defaults: { chat: string; embedding: string },
+  extraHeaders: Record<string, string> = {}
+): Upstream => {
+  const headers = { ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}), ...extraHeaders };
+  const chatBody = (request: ProxyChatRequest, stream: boolean) => ({
+    model: request.model || defaults.chat,
+    messages: request.messages,
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens ?? 2048,
+    ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    ...(stream ? { stream: true } : {}),
+  });
+
+  return {
+    name,
+    defaultChatModel: defaults.chat,
+    defaultEmbeddingModel: defaults.embedding,
+    isConfigured: () => Boolean(baseUrl) && (name !== 'openrouter' || Boolean(apiKey)),
+
+    async chat(request, signal) {
+      const body = chatBody(request, false);
+      const response = await postJson(name, `${baseUrl}/chat/completions`, headers, body, signal);
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new UpstreamError('Unexpected chat response format', name);
+      }
+      return {
+        content,
+        model: data.model || body.model,
+        provider: name,
+        usage: data.usage
+          ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+          : undefined,
+      };
+    },
+
+    async *stream(request, signal) {
+      const response = await postJson(name, `${baseUrl}/chat/completions`, headers, chatBody(request, true), signal);
+      for await (const payload of readServerSentEvents(response)) {
+        if (payload === '[DONE]') return;
+        try {
+          const token = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (token) yield token;
+        } catch {
+          // Keep-alive comments and partial payloads carry no tokens
+        }
+      }
+    },
+
+    async embed(text, model, _dimensions, signal) {
+      const response = await postJson(name, `${baseUrl}/embeddings`, headers, {
+        model: model || defaults.embedding,
+        input: text,
+      }, signal);
+      const data = await response.json();
+      const embedding = data?.data?.[0]?.embedding;
+      if (!Array.isArray(embedding)) {
+        throw new UpstreamError('Unexpected embedding response format', name);
+      }
+      return embedding;
+    },
+  };
+};
+
+const gemini = (apiKey: string | undefined): Upstream => {
+  const baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models';
+  const headers = { 'x-goog-api-key': apiKey || '' };
+  const defaults = { chat: 'gemini-2.0-flash-exp', embedding: 'gemini-embedding-001' };
+
+  const generateBody = (request: ProxyChatRequest) => {
+    const systemText = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      ...(systemText ? { systemInstruction: { parts: [{ text: systemText }] } } : {}),
+      contents: request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+      generationConfig: {
+        temperature: request.temperature ?? 0.3,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: request.maxTokens ?? 2048,
+        ...(request.jsonMode ? { responseMimeType: 'application/json' } : {}),
+      },
+    };
+  };
+
+  return {
+    name: 'gemini',
+    defaultChatModel: defaults.chat,
+    defaultEmbeddingModel: defaults.embedding,
+    isConfigured: () => Boolean(apiKey),
+
+    async chat(request, signal) {
+      const model = request.model || defaults.chat;
+      const response = await postJson('gemini', `${baseUrl}/${model}:generateContent`, headers, generateBody(request), signal);
+      const data = await response.json();
+      const content = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof content !== 'string') {
+        throw new UpstreamError('Unexpected Gemini response format', 'gemini');
+      }
+      return {
+        content,
+        model,
+        provider: 'gemini',
+        usage: data.usageMetadata
+          ? {
+              promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+              completionTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(request, signal) {
+      const model = request.model || defaults.chat;
+      const response = await postJson(
+        'gemini',
+        `${baseUrl}/${model}:streamGenerateContent?alt=sse`,
+        headers,
+        generateBody(request),
+        signal
+      );
+      for await (const payload of readServerSentEvents(response)) {
+        try {
+          const token = JSON.parse(payload)?.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (token) yield token;
+        } catch {
+          // Ignore payloads without candidate text
+        }
+      }
+    },
+
+    async embed(text, model, dimensions, signal) {
+      const embeddingModel = model || defaults.embedding;
+      const response = await postJson('gemini', `${baseUrl}/${embeddingModel}:embedContent`, headers, {
+        model: `models/${embeddingModel}`,
+        content: { parts: [{ text }] },
+        outputDimensionality: dimensions,
+      }, signal);
+      const data = await response.json();
+      const values = data?.embedding?.values;
+      if (!Array.isArray(values)) {
+        throw new UpstreamError('Invalid response format from Gemini API', 'gemini');
+      }
+      return values;
+    },
+  };
+};
+
+const upstreams = new Map<UpstreamName, Upstream>();
+
+export function getUpstream(name: UpstreamName): Upstream {
+  if (!upstreams.has(name)) {
+    switch (name) {
+      case 'openrouter':
+        upstreams.set(name, openAICompatible('openrouter', 'https://openrouter.ai/api/v1', env('OPENROUTER_API_KEY'), {
+          chat: 'deepseek/deepseek-chat-v3-0324:free',
+          embedding: 'openai/text-embedding-ada-002',
+        }, {
+          'HTTP-Referer': env('AI_PROXY_SITE_URL') || 'https://data-invest-genius.com',
+          'X-Title': 'Data Invest Genius',
+        }));
+        break;
+      case 'gemini':
+        upstreams.set(name, gemini(env('GEMINI_API_KEY')));
+        break;
+      case 'openai-compatible':
+        upstreams.set(name, openAICompatible(
+          'openai-compatible',
+          (env('AI_BASE_URL') || 'http://host.docker.internal:11434/v1').replace(/\/$/, ''),
+          env('AI_API_KEY'),
+          { chat: 'llama3.1', embedding: 'nomic-embed-text' }
+        ));
+        break;
+      default:
+        throw new Error(`Unknown AI provider: ${name}`);
+    }
+  }
+  return upstreams.get(name)!;
+}
+
+const parseList = (value: string | undefined, fallback: UpstreamName[]): UpstreamName[] =>
+  value ? value.split(',').map(name => name.trim()).filter(Boolean) as UpstreamName[] : fallback;
+
+export const proxyConfig = {
+  chatProvider: (env('AI_CHAT_PROVIDER') || 'openrouter') as UpstreamName,
+  embeddingProviders: parseList(env('AI_EMBEDDING_PROVIDERS'), ['gemini', 'openrouter']),
+  // Optional allowlist so clients cannot pick arbitrarily expensive models
+  allowedModels: env('AI_ALLOWED_MODELS')?.split(',').map(model => model.trim()).filter(Boolean) ?? [],
+};
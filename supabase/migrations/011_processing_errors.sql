@@ -0,0 +1,10 @@
+-- =====================================================
+-- RECORD AI PROCESSING FAILURES ON DOCUMENTS
+-- =====================================================
+
+-- Structured-output validation failures and fatal processing errors are stored
+-- here so the UI can explain why analysis, tags or categories are missing
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS processing_error TEXT;
+
+COMMENT ON COLUMN research_documents.processing_error IS 'Last AI processing failure for the document, NULL when processing succeeded';
@@ -0,0 +1,70 @@
+-- =====================================================
+-- SHARED AI RESPONSE CACHE
+-- =====================================================
+
+-- Cached model responses shared by the members of a team. cache_key is the
+-- SHA-256 of model + prompt + context, computed client-side.
+CREATE TABLE IF NOT EXISTS ai_cache_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cache_key TEXT NOT NULL,
+  task TEXT NOT NULL,
+  model TEXT NOT NULL,
+  response TEXT NOT NULL,
+  document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE,
+  hit_count INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(team_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_cache_entries_team_id ON ai_cache_entries(team_id);
+CREATE INDEX IF NOT EXISTS idx_ai_cache_entries_document_id ON ai_cache_entries(document_id);
+CREATE INDEX IF NOT EXISTS idx_ai_cache_entries_expires_at ON ai_cache_entries(expires_at);
+
+ALTER TABLE ai_cache_entries ENABLE ROW LEVEL SECURITY;
+
+-- Any team member can read and populate the team cache
+CREATE POLICY "ai_cache_entries_select_policy" ON ai_cache_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = ai_cache_entries.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "ai_cache_entries_insert_policy" ON ai_cache_entries
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = ai_cache_entries.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "ai_cache_entries_update_policy" ON ai_cache_entries
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = ai_cache_entries.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+-- Members may drop entries for a document they reprocess; purging anything
+-- else is reserved for team owners and admins
+CREATE POLICY "ai_cache_entries_delete_policy" ON ai_cache_entries
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = ai_cache_entries.team_id
+      AND tm.user_id = auth.uid()
+      AND (tm.role IN ('owner', 'admin') OR ai_cache_entries.document_id IS NOT NULL)
+    )
+  );
+
+COMMENT ON TABLE ai_cache_entries IS 'AI responses cached per team, keyed by a hash of model, prompt and context';
+COMMENT ON COLUMN ai_cache_entries.document_id IS 'Source document; entries are invalidated when it is reprocessed';
@@ -0,0 +1,29 @@
+-- =====================================================
+-- AI PROXY REQUEST LOG FOR PER-USER RATE LIMITS
+-- =====================================================
+
+-- One row per request brokered by the ai-proxy edge function. Written with the
+-- service role key; users can only read their own rows.
+CREATE TABLE IF NOT EXISTS ai_proxy_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('chat', 'embed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_proxy_requests_user_created ON ai_proxy_requests(user_id, kind, created_at);
+
+ALTER TABLE ai_proxy_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI proxy requests" ON ai_proxy_requests
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Rows only matter for the rate-limit windows; prune anything older than a day
+CREATE OR REPLACE FUNCTION prune_ai_proxy_requests()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM ai_proxy_requests WHERE created_at < NOW() - INTERVAL '1 day';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE ai_proxy_requests IS 'Requests brokered by the ai-proxy edge function, used for per-user rate limits';
@@ -0,0 +1,124 @@
+-- =====================================================
+-- AI USAGE LEDGER AND TEAM QUOTAS
+-- =====================================================
+
+-- One row per AI request: written by the ai-proxy edge function for brokered
+-- calls and by the client for cache hits and direct local-model calls.
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  tokens_in INTEGER DEFAULT 0 NOT NULL,
+  tokens_out INTEGER DEFAULT 0 NOT NULL,
+  latency_ms INTEGER DEFAULT 0 NOT NULL,
+  cache_hit BOOLEAN DEFAULT FALSE NOT NULL,
+  status TEXT DEFAULT 'success' NOT NULL CHECK (status IN ('success', 'error', 'blocked')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_team_created ON ai_usage(team_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Users see their own usage and, when on a team, everyone's usage on that team
+CREATE POLICY "ai_usage_select_policy" ON ai_usage
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = ai_usage.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+-- Brokered calls are recorded by the ai-proxy with the service role, so the
+-- browser may only add cache hits and direct calls to a self-hosted model,
+-- and only against a team it belongs to
+CREATE POLICY "ai_usage_insert_policy" ON ai_usage
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      team_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM team_members tm
+        WHERE tm.team_id = ai_usage.team_id
+        AND tm.user_id = auth.uid()
+      )
+    )
+    AND status <> 'blocked'
+    AND (cache_hit OR provider = 'openai-compatible')
+  );
+
+-- Monthly limits per team; a NULL limit means unlimited
+CREATE TABLE IF NOT EXISTS team_ai_quotas (
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE PRIMARY KEY,
+  monthly_token_limit BIGINT CHECK (monthly_token_limit IS NULL OR monthly_token_limit >= 0),
+  monthly_request_limit INTEGER CHECK (monthly_request_limit IS NULL OR monthly_request_limit >= 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE team_ai_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "team_ai_quotas_select_policy" ON team_ai_quotas
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_ai_quotas.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "team_ai_quotas_insert_policy" ON team_ai_quotas
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_ai_quotas.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "team_ai_quotas_update_policy" ON team_ai_quotas
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_ai_quotas.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+-- Billable usage for a team since a point in time. Cache hits and blocked
+-- requests never reached a model and do not count against the quota.
+CREATE OR REPLACE FUNCTION get_team_ai_usage(team_uuid UUID, since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (tokens BIGINT, requests BIGINT) AS $$
+BEGIN
+  -- The edge function calls this with the service role; signed-in callers may
+  -- only read their own team's totals
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.team_id = team_uuid
+    AND tm.user_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(u.tokens_in + u.tokens_out), 0)::BIGINT,
+    COUNT(*)::BIGINT
+  FROM ai_usage u
+  WHERE u.team_id = team_uuid
+  AND u.created_at >= since
+  AND u.cache_hit = FALSE
+  AND u.status <> 'blocked';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE ai_usage IS 'Ledger of AI requests with model, token counts, latency and cache hits';
+COMMENT ON TABLE team_ai_quotas IS 'Monthly AI token and request limits per team, enforced by the ai-proxy edge function';
@@ -0,0 +1,63 @@
+-- =====================================================
+-- TASK-BASED MODEL ROUTING
+-- =====================================================
+
+-- Per-team model choice for each AI task. Tasks without a row use the
+-- deployment's default models; a NULL model means the provider's default.
+CREATE TABLE IF NOT EXISTS team_model_routes (
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  task TEXT NOT NULL,
+  model TEXT,
+  fallback_models TEXT[] DEFAULT '{}' NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (team_id, task)
+);
+
+ALTER TABLE team_model_routes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "team_model_routes_select_policy" ON team_model_routes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_model_routes.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "team_model_routes_insert_policy" ON team_model_routes
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_model_routes.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "team_model_routes_update_policy" ON team_model_routes
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_model_routes.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "team_model_routes_delete_policy" ON team_model_routes
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_model_routes.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+-- Which model produced each stored AI result, keyed by task
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS ai_models JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON TABLE team_model_routes IS 'Primary and fallback model per AI task for each team';
+COMMENT ON COLUMN research_documents.ai_models IS 'Model that produced each AI result on the document, e.g. {"summary": "gpt-4o-mini"}';
@@ -0,0 +1,124 @@
+-- =====================================================
+-- RAG EVALUATION: GOLDEN QUESTION SETS AND RUNS
+-- =====================================================
+
+-- A golden set is a list of questions over one corpus: a research project, or
+-- the whole document library when project_id is NULL. Sets created while on a
+-- team are visible to the team.
+CREATE TABLE IF NOT EXISTS rag_eval_sets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES research_projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Each case names the documents a good retrieval should return and,
+-- optionally, a reference answer
+CREATE TABLE IF NOT EXISTS rag_eval_cases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  set_id UUID REFERENCES rag_eval_sets(id) ON DELETE CASCADE NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  question TEXT NOT NULL,
+  expected_document_ids UUID[] DEFAULT '{}' NOT NULL,
+  expected_answer TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per run of a set: the pipeline configuration it ran with, the
+-- aggregate scores and the per-question results
+CREATE TABLE IF NOT EXISTS rag_eval_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  set_id UUID REFERENCES rag_eval_sets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  label TEXT,
+  config JSONB DEFAULT '{}'::jsonb NOT NULL,
+  metrics JSONB DEFAULT '{}'::jsonb NOT NULL,
+  results JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_eval_sets_team_id ON rag_eval_sets(team_id);
+CREATE INDEX IF NOT EXISTS idx_rag_eval_cases_set_id ON rag_eval_cases(set_id, position);
+CREATE INDEX IF NOT EXISTS idx_rag_eval_runs_set_created ON rag_eval_runs(set_id, created_at);
+
+ALTER TABLE rag_eval_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rag_eval_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rag_eval_runs ENABLE ROW LEVEL SECURITY;
+
+-- Visible to the author and to members of the set's team
+CREATE OR REPLACE FUNCTION can_view_rag_eval_set(set_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rag_eval_sets s
+    WHERE s.id = set_uuid
+    AND (
+      s.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM team_members tm
+        WHERE tm.team_id = s.team_id
+        AND tm.user_id = auth.uid()
+      )
+    )
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Editable by the author and by the team's owners and admins
+CREATE OR REPLACE FUNCTION can_edit_rag_eval_set(set_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rag_eval_sets s
+    WHERE s.id = set_uuid
+    AND (
+      s.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM team_members tm
+        WHERE tm.team_id = s.team_id
+        AND tm.user_id = auth.uid()
+        AND tm.role IN ('owner', 'admin')
+      )
+    )
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+CREATE POLICY "rag_eval_sets_select_policy" ON rag_eval_sets
+  FOR SELECT USING (can_view_rag_eval_set(id));
+
+CREATE POLICY "rag_eval_sets_insert_policy" ON rag_eval_sets
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "rag_eval_sets_update_policy" ON rag_eval_sets
+  FOR UPDATE USING (can_edit_rag_eval_set(id));
+
+CREATE POLICY "rag_eval_sets_delete_policy" ON rag_eval_sets
+  FOR DELETE USING (can_edit_rag_eval_set(id));
+
+CREATE POLICY "rag_eval_cases_select_policy" ON rag_eval_cases
+  FOR SELECT USING (can_view_rag_eval_set(set_id));
+
+CREATE POLICY "rag_eval_cases_insert_policy" ON rag_eval_cases
+  FOR INSERT WITH CHECK (can_edit_rag_eval_set(set_id));
+
+CREATE POLICY "rag_eval_cases_update_policy" ON rag_eval_cases
+  FOR UPDATE USING (can_edit_rag_eval_set(set_id));
+
+CREATE POLICY "rag_eval_cases_delete_policy" ON rag_eval_cases
+  FOR DELETE USING (can_edit_rag_eval_set(set_id));
+
+-- Anyone who can see a set may run it; runs are removed with the set
+CREATE POLICY "rag_eval_runs_select_policy" ON rag_eval_runs
+  FOR SELECT USING (can_view_rag_eval_set(set_id));
+
+CREATE POLICY "rag_eval_runs_insert_policy" ON rag_eval_runs
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND can_view_rag_eval_set(set_id));
+
+CREATE POLICY "rag_eval_runs_delete_policy" ON rag_eval_runs
+  FOR DELETE USING (auth.uid() = user_id OR can_edit_rag_eval_set(set_id));
+
+COMMENT ON TABLE rag_eval_sets IS 'Golden question sets for evaluating retrieval and answers over a corpus';
+COMMENT ON TABLE rag_eval_cases IS 'Golden questions with expected source documents and reference answers';
+COMMENT ON TABLE rag_eval_runs IS 'Evaluation runs with pipeline configuration, aggregate metrics and per-question results';
+COMMENT ON COLUMN rag_eval_sets.project_id IS 'Corpus the questions are asked against; NULL for the whole document library';
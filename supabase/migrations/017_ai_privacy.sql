@@ -0,0 +1,57 @@
+-- =====================================================
+-- AI DATA PRIVACY: REDACTION AND EXTERNAL-SEND POLICY
+-- =====================================================
+
+-- What is redacted from prompts and embedding inputs before they reach an
+-- external model, and which documents may be sent out at all. Teams without a
+-- row get the client defaults: every detector on, all documents allowed.
+CREATE TABLE IF NOT EXISTS team_ai_privacy_policies (
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE PRIMARY KEY,
+  redaction_enabled BOOLEAN DEFAULT TRUE NOT NULL,
+  detectors TEXT[] DEFAULT '{email,phone,national_id,bank_account}' NOT NULL,
+  custom_patterns JSONB DEFAULT '[]'::jsonb NOT NULL,
+  dictionary_terms TEXT[] DEFAULT '{}' NOT NULL,
+  external_documents TEXT DEFAULT 'all' NOT NULL CHECK (external_documents IN ('all', 'approved', 'none')),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE team_ai_privacy_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "team_ai_privacy_policies_select_policy" ON team_ai_privacy_policies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_ai_privacy_policies.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "team_ai_privacy_policies_insert_policy" ON team_ai_privacy_policies
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_ai_privacy_policies.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "team_ai_privacy_policies_update_policy" ON team_ai_privacy_policies
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_ai_privacy_policies.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+-- Per-document override of the team policy
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS external_ai_allowed BOOLEAN;
+
+COMMENT ON TABLE team_ai_privacy_policies IS 'Per-team redaction rules and external AI send policy';
+COMMENT ON COLUMN team_ai_privacy_policies.custom_patterns IS 'Extra redaction rules as [{"label": "...", "pattern": "<regex>"}]';
+COMMENT ON COLUMN team_ai_privacy_policies.external_documents IS 'all: any document not marked confidential; approved: only approved documents; none: no document content';
+COMMENT ON COLUMN research_documents.external_ai_allowed IS 'TRUE approved for external AI models, FALSE confidential, NULL follows the team policy';
@@ -0,0 +1,54 @@
+-- =====================================================
+-- PAGE NUMBERS AND EXTRACTION ISSUES
+-- =====================================================
+
+-- Page each chunk starts on, so answers can cite pages. NULL for formats
+-- without pages and for chunks stored before this migration.
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS page_number INTEGER;
+
+-- Why a file yielded no text, so the UI can say so instead of a generic failure
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS extraction_issue TEXT CHECK (extraction_issue IN ('encrypted', 'scanned', 'invalid', 'empty'));
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int, uuid);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5,
+  target_document_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  content TEXT,
+  similarity float,
+  document_id UUID,
+  chunk_index INTEGER,
+  page_number INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.title,
+    dc.content,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    dc.document_id,
+    dc.chunk_index,
+    dc.page_number
+  FROM document_chunks dc
+  WHERE dc.embedding IS NOT NULL
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    AND (target_document_id IS NULL OR dc.document_id = target_document_id)
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN document_chunks.page_number IS 'Page the chunk starts on; NULL for unpaginated sources';
+COMMENT ON COLUMN research_documents.extraction_issue IS 'encrypted, scanned, invalid or empty when no text could be extracted';
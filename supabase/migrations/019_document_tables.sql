@@ -0,0 +1,59 @@
+-- =====================================================
+-- SPREADSHEET TABLES
+-- =====================================================
+
+-- One row per sheet of an uploaded spreadsheet, with typed cell values, so
+-- sheets can be shown and queried as tables rather than only as text
+CREATE TABLE IF NOT EXISTS document_tables (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE NOT NULL,
+  sheet_index INTEGER NOT NULL,
+  sheet_name TEXT NOT NULL,
+  hidden BOOLEAN DEFAULT FALSE NOT NULL,
+  -- [{ "name": "Revenue", "type": "number" }, ...]
+  columns JSONB DEFAULT '[]'::jsonb NOT NULL,
+  header_row INTEGER,
+  -- Arrays of cell values in column order; dates as ISO 8601 strings
+  rows JSONB DEFAULT '[]'::jsonb NOT NULL,
+  row_count INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (document_id, sheet_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_tables_document_id ON document_tables(document_id);
+
+ALTER TABLE document_tables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their document tables" ON document_tables;
+CREATE POLICY "Users can view their document tables" ON document_tables
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE research_documents.id = document_tables.document_id
+      AND research_documents.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert their document tables" ON document_tables;
+CREATE POLICY "Users can insert their document tables" ON document_tables
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE research_documents.id = document_tables.document_id
+      AND research_documents.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete their document tables" ON document_tables;
+CREATE POLICY "Users can delete their document tables" ON document_tables
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE research_documents.id = document_tables.document_id
+      AND research_documents.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE document_tables IS 'Sheets of spreadsheet documents as typed tables';
+COMMENT ON COLUMN document_tables.header_row IS '1-based sheet row the column names came from; NULL when the sheet has no header row';
+COMMENT ON COLUMN document_tables.row_count IS 'Data rows in the sheet; rows holds at most the first 10,000';
@@ -0,0 +1,58 @@
+-- =====================================================
+-- SLIDE NUMBERS
+-- =====================================================
+
+-- Presentations are split into slides rather than pages, so citations say
+-- "slide 7". page_number holds the slide number for those chunks.
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS page_unit TEXT NOT NULL DEFAULT 'page' CHECK (page_unit IN ('page', 'slide'));
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int, uuid);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5,
+  target_document_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  content TEXT,
+  similarity float,
+  document_id UUID,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  page_unit TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.title,
+    dc.content,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    dc.document_id,
+    dc.chunk_index,
+    dc.page_number,
+    dc.page_unit
+  FROM document_chunks dc
+  WHERE dc.embedding IS NOT NULL
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    AND (target_document_id IS NULL OR dc.document_id = target_document_id)
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Let existing buckets accept PowerPoint uploads
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'application/vnd.openxmlformats-officedocument.presentationml.presentation')
+WHERE id = 'research-documents'
+  AND allowed_mime_types IS NOT NULL
+  AND NOT ('application/vnd.openxmlformats-officedocument.presentationml.presentation' = ANY (allowed_mime_types));
+
+COMMENT ON COLUMN document_chunks.page_unit IS 'What page_number counts: page, or slide for presentations';
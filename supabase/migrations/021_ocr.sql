@@ -0,0 +1,24 @@
+-- =====================================================
+-- OCR FOR SCANNED PAGES AND IMAGES
+-- =====================================================
+
+-- Language pack the document was last read with, reused when it is reprocessed
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS ocr_language TEXT;
+
+-- Pages read with OCR and their mean confidence, as [{"page": 3, "confidence": 87}]
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS ocr_pages JSONB;
+
+-- Let existing buckets accept scans and screenshots
+UPDATE storage.buckets
+SET allowed_mime_types = allowed_mime_types || ARRAY(
+  SELECT mime_type
+  FROM unnest(ARRAY['image/png', 'image/jpeg', 'image/tiff']) AS mime_type
+  WHERE NOT (mime_type = ANY (allowed_mime_types))
+)
+WHERE id = 'research-documents'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMENT ON COLUMN research_documents.ocr_language IS 'tesseract language code used for OCR, such as eng';
+COMMENT ON COLUMN research_documents.ocr_pages IS 'Pages read with OCR and their mean confidence (0-100)';
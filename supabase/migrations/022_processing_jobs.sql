@@ -0,0 +1,274 @@
+-- =====================================================
+-- DOCUMENT PROCESSING JOBS
+-- =====================================================
+
+-- Durable queue for document processing. Uploads enqueue a job and an
+-- ingestion worker claims it, so processing no longer depends on the
+-- uploader's browser tab staying open.
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT DEFAULT 'extract' NOT NULL CHECK (stage IN ('extract', 'analyse', 'chunk', 'embed', 'tag')),
+  progress INTEGER DEFAULT 0 NOT NULL CHECK (progress BETWEEN 0 AND 100),
+  -- Extraction options, such as { "ocrLanguage": "deu" }
+  options JSONB DEFAULT '{}'::jsonb NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  max_attempts INTEGER DEFAULT 3 NOT NULL,
+  last_error TEXT,
+  -- Retries wait for their backoff to pass
+  run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- The worker holding the job and until when; an expired lease is reclaimed
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_document_id ON processing_jobs(document_id);
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_claimable ON processing_jobs(run_after) WHERE status IN ('queued', 'running');
+-- At most one queued or running job per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_active_document
+  ON processing_jobs(document_id) WHERE status IN ('queued', 'running');
+
+ALTER TABLE processing_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their processing jobs" ON processing_jobs;
+CREATE POLICY "Users can view their processing jobs" ON processing_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Jobs change state only through the functions below, so the lease, the
+-- attempt count and the retry backoff cannot be rewritten from a client
+DROP POLICY IF EXISTS "Users can update their processing jobs" ON processing_jobs;
+
+-- Queue a document for processing. Returns its queued or running job if it
+-- already has one.
+CREATE OR REPLACE FUNCTION enqueue_processing_job(target_document_id UUID, job_options JSONB DEFAULT '{}'::jsonb)
+RETURNS processing_jobs AS $$
+DECLARE
+  job processing_jobs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM research_documents
+    WHERE id = target_document_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  SELECT * INTO job FROM processing_jobs
+  WHERE document_id = target_document_id
+  AND status IN ('queued', 'running');
+  IF FOUND THEN
+    RETURN job;
+  END IF;
+
+  UPDATE research_documents SET status = 'processing' WHERE id = target_document_id;
+
+  INSERT INTO processing_jobs (document_id, user_id, options)
+  VALUES (target_document_id, auth.uid(), COALESCE(job_options, '{}'::jsonb))
+  RETURNING * INTO job;
+  RETURN job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Claim the next due job, or a running job whose worker's lease expired.
+-- The service role claims any user's job; signed-in users (processing in
+-- their own tab) only their own, optionally a specific one.
+CREATE OR REPLACE FUNCTION claim_processing_job(
+  worker_id TEXT,
+  lease_seconds INTEGER DEFAULT 300,
+  target_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF processing_jobs AS $$
+BEGIN
+  -- A job that lost its worker on its last attempt has failed
+  WITH abandoned AS (
+    UPDATE processing_jobs
+    SET status = 'failed',
+        last_error = 'The ingestion worker stopped responding',
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = NOW()
+    WHERE status = 'running'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts
+    AND (auth.uid() IS NULL OR user_id = auth.uid())
+    RETURNING document_id
+  )
+  UPDATE research_documents
+  SET status = 'error', processing_error = 'Processing stopped responding and was abandoned after repeated attempts'
+  WHERE id IN (SELECT document_id FROM abandoned);
+
+  RETURN QUERY
+  UPDATE processing_jobs AS job
+  SET status = 'running',
+      attempts = job.attempts + 1,
+      locked_by = worker_id,
+      locked_until = NOW() + make_interval(secs => lease_seconds),
+      started_at = COALESCE(job.started_at, NOW()),
+      updated_at = NOW()
+  WHERE job.id = (
+    SELECT candidate.id FROM processing_jobs AS candidate
+    WHERE (
+      (candidate.status = 'queued' AND candidate.run_after <= NOW())
+      OR (candidate.status = 'running' AND candidate.locked_until < NOW())
+    )
+    AND (target_job_id IS NULL OR candidate.id = target_job_id)
+    AND (auth.uid() IS NULL OR candidate.user_id = auth.uid())
+    ORDER BY candidate.run_after, candidate.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Renew the lease on a job the worker holds, with its current stage and
+-- progress. Returns false once the job is no longer the worker's.
+CREATE OR REPLACE FUNCTION report_processing_job(
+  target_job_id UUID,
+  worker_id TEXT,
+  lease_seconds INTEGER DEFAULT 300,
+  job_stage TEXT DEFAULT NULL,
+  job_progress INTEGER DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE processing_jobs
+  SET stage = COALESCE(job_stage, stage),
+      progress = COALESCE(job_progress, progress),
+      locked_until = NOW() + make_interval(secs => LEAST(lease_seconds, 3600)),
+      updated_at = NOW()
+  WHERE id = target_job_id
+  AND status = 'running'
+  AND locked_by = worker_id
+  AND (auth.uid() IS NULL OR user_id = auth.uid());
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record how a worker's run of a job ended, and return the job's new status.
+-- A run that processed an outdated version goes round again for the current
+-- one. A failure is retried after 30s, 2min, 8min, ... unless it is not
+-- retryable or the job is out of attempts.
+CREATE OR REPLACE FUNCTION finish_processing_job(
+  target_job_id UUID,
+  worker_id TEXT,
+  processed_version INTEGER DEFAULT NULL,
+  error_message TEXT DEFAULT NULL,
+  retryable BOOLEAN DEFAULT TRUE
+)
+RETURNS TEXT AS $$
+DECLARE
+  job processing_jobs;
+  next_status TEXT;
+BEGIN
+  SELECT * INTO job FROM processing_jobs
+  WHERE id = target_job_id
+  AND status = 'running'
+  AND locked_by = worker_id
+  AND (auth.uid() IS NULL OR user_id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Processing job not found';
+  END IF;
+
+  IF error_message IS NULL THEN
+    -- A version uploaded while the job ran found it active and did not queue another
+    IF EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE id = job.document_id
+      AND COALESCE(current_version, 1) <> processed_version
+    ) THEN
+      UPDATE processing_jobs
+      SET status = 'queued',
+          stage = 'extract',
+          progress = 0,
+          attempts = 0,
+          last_error = NULL,
+          locked_by = NULL,
+          locked_until = NULL,
+          run_after = NOW(),
+          updated_at = NOW()
+      WHERE id = job.id;
+
+      UPDATE research_documents SET status = 'processing', processing_error = NULL WHERE id = job.document_id;
+      RETURN 'queued';
+    END IF;
+
+    UPDATE processing_jobs
+    SET status = 'completed',
+        stage = 'tag',
+        progress = 100,
+        last_error = NULL,
+        locked_by = NULL,
+        locked_until = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = job.id;
+    RETURN 'completed';
+  END IF;
+
+  next_status := CASE WHEN retryable AND job.attempts < job.max_attempts THEN 'queued' ELSE 'failed' END;
+
+  UPDATE processing_jobs
+  SET status = next_status,
+      last_error = error_message,
+      locked_by = NULL,
+      locked_until = NULL,
+      run_after = CASE
+        WHEN next_status = 'queued' THEN NOW() + make_interval(secs => 30 * power(4, GREATEST(job.attempts - 1, 0)))
+        ELSE run_after
+      END,
+      updated_at = NOW()
+  WHERE id = job.id;
+
+  -- The pipeline marked the document as failed; it stays processing until the last attempt
+  IF next_status = 'queued' THEN
+    UPDATE research_documents SET status = 'processing', processing_error = NULL WHERE id = job.document_id;
+  END IF;
+  RETURN next_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enqueue_processing_job(UUID, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION claim_processing_job(TEXT, INTEGER, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION report_processing_job(UUID, TEXT, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION finish_processing_job(UUID, TEXT, INTEGER, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_processing_job(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_processing_job(TEXT, INTEGER, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION report_processing_job(UUID, TEXT, INTEGER, TEXT, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION finish_processing_job(UUID, TEXT, INTEGER, TEXT, BOOLEAN) TO authenticated, service_role;
+
+-- The Documents page follows job progress live
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+  AND NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'processing_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE processing_jobs;
+  END IF;
+END $$;
+
+-- Documents left in processing by a closed tab get a job
+INSERT INTO processing_jobs (document_id, user_id)
+SELECT id, user_id FROM research_documents
+WHERE status = 'processing'
+AND NOT EXISTS (
+  SELECT 1 FROM processing_jobs
+  WHERE processing_jobs.document_id = research_documents.id
+  AND processing_jobs.status IN ('queued', 'running')
+);
+
+COMMENT ON TABLE processing_jobs IS 'Durable queue of document processing work, claimed by ingestion workers';
+COMMENT ON COLUMN processing_jobs.stage IS 'Current step: extract, analyse, chunk, embed or tag';
+COMMENT ON COLUMN processing_jobs.locked_until IS 'Lease expiry; workers renew it as they report progress';
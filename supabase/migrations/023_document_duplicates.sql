@@ -0,0 +1,108 @@
+-- =====================================================
+-- DUPLICATE DOCUMENT DETECTION
+-- =====================================================
+
+-- SHA-256 of the uploaded file, hex encoded; identical files share it
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- MinHash signature of the extracted text, for finding lightly edited copies
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS text_minhash INTEGER[];
+
+CREATE INDEX IF NOT EXISTS idx_research_documents_content_hash ON research_documents(user_id, content_hash);
+
+-- Pairs of documents a user marked as not duplicates, smaller id first
+CREATE TABLE IF NOT EXISTS document_duplicate_dismissals (
+  document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE NOT NULL,
+  other_document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (document_id, other_document_id),
+  CHECK (document_id < other_document_id)
+);
+
+ALTER TABLE document_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their duplicate dismissals" ON document_duplicate_dismissals;
+CREATE POLICY "Users can view their duplicate dismissals" ON document_duplicate_dismissals
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can dismiss duplicates of their documents" ON document_duplicate_dismissals;
+CREATE POLICY "Users can dismiss duplicates of their documents" ON document_duplicate_dismissals
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM research_documents WHERE id = document_id AND user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM research_documents WHERE id = other_document_id AND user_id = auth.uid())
+  );
+
+-- Merge duplicates into the document to keep: their tags, project and deal
+-- links and RAG evaluation references move to it, and a confidential
+-- duplicate keeps the merged document confidential. The duplicates are then
+-- deleted; their storage paths are returned so the caller can remove the files.
+CREATE OR REPLACE FUNCTION merge_documents(keep_document_id UUID, duplicate_document_ids UUID[])
+RETURNS SETOF TEXT AS $$
+DECLARE
+  duplicates UUID[];
+BEGIN
+  duplicates := array_remove(duplicate_document_ids, keep_document_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM research_documents
+    WHERE id = keep_document_id
+    AND user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM unnest(duplicates) AS duplicate_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE id = duplicate_id
+      AND user_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  INSERT INTO document_tags (document_id, tag_id)
+  SELECT keep_document_id, tag_id FROM document_tags
+  WHERE document_id = ANY (duplicates)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO project_documents (project_id, document_id)
+  SELECT project_id, keep_document_id FROM project_documents
+  WHERE document_id = ANY (duplicates)
+  ON CONFLICT (project_id, document_id) DO NOTHING;
+
+  INSERT INTO deal_documents (deal_id, document_id, document_type)
+  SELECT DISTINCT ON (deal_id) deal_id, keep_document_id, document_type FROM deal_documents
+  WHERE document_id = ANY (duplicates)
+  ON CONFLICT (deal_id, document_id) DO NOTHING;
+
+  UPDATE rag_eval_cases
+  SET expected_document_ids = ARRAY(
+    SELECT DISTINCT CASE WHEN expected_id = ANY (duplicates) THEN keep_document_id ELSE expected_id END
+    FROM unnest(expected_document_ids) AS expected_id
+  )
+  WHERE expected_document_ids && duplicates;
+
+  UPDATE research_documents
+  SET external_ai_allowed = FALSE
+  WHERE id = keep_document_id
+  AND EXISTS (
+    SELECT 1 FROM research_documents
+    WHERE id = ANY (duplicates)
+    AND external_ai_allowed = FALSE
+  );
+
+  RETURN QUERY
+  DELETE FROM research_documents
+  WHERE id = ANY (duplicates)
+  RETURNING file_path;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_documents(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_documents(UUID, UUID[]) TO authenticated;
+
+COMMENT ON COLUMN research_documents.content_hash IS 'SHA-256 of the uploaded file, hex encoded';
+COMMENT ON COLUMN research_documents.text_minhash IS 'MinHash signature of the extracted text (128 word 5-shingle hashes)';
+COMMENT ON TABLE document_duplicate_dismissals IS 'Document pairs a user marked as not duplicates';
@@ -0,0 +1,247 @@
+-- =====================================================
+-- DOCUMENT VERSIONS
+-- =====================================================
+
+-- A research document is the logical document; each uploaded file is one
+-- of its versions. research_documents keeps the file, text and analysis of
+-- the current version, and document_versions keeps every version's file
+-- and extracted text for comparison.
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS current_version INTEGER DEFAULT 1 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE NOT NULL,
+  version_number INTEGER NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size BIGINT,
+  content_type TEXT,
+  content_hash TEXT,
+  -- Extracted text, filled in when the version is processed
+  content TEXT,
+  note TEXT,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON document_versions(document_id);
+
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view versions of their documents" ON document_versions;
+CREATE POLICY "Users can view versions of their documents" ON document_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE research_documents.id = document_versions.document_id
+      AND research_documents.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update versions of their documents" ON document_versions;
+CREATE POLICY "Users can update versions of their documents" ON document_versions
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE research_documents.id = document_versions.document_id
+      AND research_documents.user_id = auth.uid()
+    )
+  );
+
+-- Chunks belong to a version; searches use the current one unless asked otherwise
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_version ON document_chunks(document_id, version);
+
+-- Every document starts with version 1
+CREATE OR REPLACE FUNCTION create_initial_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO document_versions (document_id, version_number, file_path, file_size, content_type, content_hash, uploaded_by)
+  VALUES (NEW.id, NEW.current_version, NEW.file_path, NEW.file_size, NEW.content_type, NEW.content_hash, NEW.user_id)
+  ON CONFLICT (document_id, version_number) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_initial_document_version ON research_documents;
+CREATE TRIGGER create_initial_document_version
+  AFTER INSERT ON research_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION create_initial_document_version();
+
+INSERT INTO document_versions (document_id, version_number, file_path, file_size, content_type, content_hash, content, uploaded_by, created_at)
+SELECT id, current_version, file_path, file_size, content_type, content_hash, content, user_id, created_at
+FROM research_documents
+ON CONFLICT (document_id, version_number) DO NOTHING;
+
+-- Make an uploaded file the document's new current version. The caller
+-- queues the document for processing, which extracts only this version.
+CREATE OR REPLACE FUNCTION add_document_version(
+  target_document_id UUID,
+  new_file_path TEXT,
+  new_file_size BIGINT,
+  new_content_type TEXT,
+  new_content_hash TEXT,
+  version_note TEXT DEFAULT NULL
+)
+RETURNS document_versions AS $$
+DECLARE
+  next_version INTEGER;
+  version document_versions;
+BEGIN
+  SELECT current_version + 1 INTO next_version
+  FROM research_documents
+  WHERE id = target_document_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  -- Versions are never renumbered, even if a later one was removed
+  SELECT GREATEST(next_version, COALESCE(MAX(version_number), 0) + 1) INTO next_version
+  FROM document_versions
+  WHERE document_id = target_document_id;
+
+  INSERT INTO document_versions (document_id, version_number, file_path, file_size, content_type, content_hash, note, uploaded_by)
+  VALUES (target_document_id, next_version, new_file_path, new_file_size, new_content_type, new_content_hash, version_note, auth.uid())
+  RETURNING * INTO version;
+
+  UPDATE research_documents
+  SET current_version = next_version,
+      file_path = new_file_path,
+      file_size = new_file_size,
+      content_type = new_content_type,
+      content_hash = new_content_hash,
+      text_minhash = NULL,
+      status = 'processing',
+      processing_error = NULL,
+      extraction_issue = NULL,
+      updated_at = NOW()
+  WHERE id = target_document_id;
+
+  RETURN version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION add_document_version(UUID, TEXT, BIGINT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_document_version(UUID, TEXT, BIGINT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int, uuid);
+
+-- Search the current version of each document, or one version of
+-- target_document_id
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5,
+  target_document_id uuid DEFAULT NULL,
+  target_version int DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  content TEXT,
+  similarity float,
+  document_id UUID,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  page_unit TEXT,
+  version INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.title,
+    dc.content,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    dc.document_id,
+    dc.chunk_index,
+    dc.page_number,
+    dc.page_unit,
+    dc.version
+  FROM document_chunks dc
+  JOIN research_documents rd ON rd.id = dc.document_id
+  WHERE dc.embedding IS NOT NULL
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    AND (target_document_id IS NULL OR dc.document_id = target_document_id)
+    AND dc.version = COALESCE(target_version, rd.current_version)
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Merging duplicates also removes the files of their earlier versions
+CREATE OR REPLACE FUNCTION merge_documents(keep_document_id UUID, duplicate_document_ids UUID[])
+RETURNS SETOF TEXT AS $$
+DECLARE
+  duplicates UUID[];
+BEGIN
+  duplicates := array_remove(duplicate_document_ids, keep_document_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM research_documents
+    WHERE id = keep_document_id
+    AND user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM unnest(duplicates) AS duplicate_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM research_documents
+      WHERE id = duplicate_id
+      AND user_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  INSERT INTO document_tags (document_id, tag_id)
+  SELECT keep_document_id, tag_id FROM document_tags
+  WHERE document_id = ANY (duplicates)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO project_documents (project_id, document_id)
+  SELECT project_id, keep_document_id FROM project_documents
+  WHERE document_id = ANY (duplicates)
+  ON CONFLICT (project_id, document_id) DO NOTHING;
+
+  INSERT INTO deal_documents (deal_id, document_id, document_type)
+  SELECT DISTINCT ON (deal_id) deal_id, keep_document_id, document_type FROM deal_documents
+  WHERE document_id = ANY (duplicates)
+  ON CONFLICT (deal_id, document_id) DO NOTHING;
+
+  UPDATE rag_eval_cases
+  SET expected_document_ids = ARRAY(
+    SELECT DISTINCT CASE WHEN expected_id = ANY (duplicates) THEN keep_document_id ELSE expected_id END
+    FROM unnest(expected_document_ids) AS expected_id
+  )
+  WHERE expected_document_ids && duplicates;
+
+  UPDATE research_documents
+  SET external_ai_allowed = FALSE
+  WHERE id = keep_document_id
+  AND EXISTS (
+    SELECT 1 FROM research_documents
+    WHERE id = ANY (duplicates)
+    AND external_ai_allowed = FALSE
+  );
+
+  RETURN QUERY
+  SELECT DISTINCT document_versions.file_path FROM document_versions
+  WHERE document_id = ANY (duplicates);
+
+  DELETE FROM research_documents
+  WHERE id = ANY (duplicates);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON TABLE document_versions IS 'Uploaded files of each research document, numbered from 1';
+COMMENT ON COLUMN research_documents.current_version IS 'Version whose file, text and chunks the document currently uses';
+COMMENT ON COLUMN document_chunks.version IS 'Document version the chunk was cut from';
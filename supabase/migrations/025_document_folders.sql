@@ -0,0 +1,13 @@
+-- =====================================================
+-- DOCUMENT FOLDERS
+-- =====================================================
+
+-- Folder a document was imported from, such as a data room's
+-- "1. Financial/1.3 Audited Accounts". Segments are separated by "/";
+-- NULL means the top level.
+ALTER TABLE research_documents
+ADD COLUMN IF NOT EXISTS folder_path TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_research_documents_folder_path ON research_documents(user_id, folder_path);
+
+COMMENT ON COLUMN research_documents.folder_path IS 'Slash-separated folder the document belongs to, NULL at the top level';
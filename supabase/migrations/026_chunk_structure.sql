@@ -0,0 +1,72 @@
+-- =====================================================
+-- STRUCTURE-AWARE CHUNKS
+-- =====================================================
+
+-- Chunks follow the document's headings and may run over a page break, so
+-- each records the headings it sits under and the page it ends on
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS section_path TEXT[];
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS page_end INTEGER;
+
+-- Chunks cut before this migration sit on one page as far as is known
+UPDATE document_chunks
+SET page_end = page_number
+WHERE page_end IS NULL
+AND page_number IS NOT NULL;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int, uuid, int);
+
+-- Search the current version of each document, or one version of
+-- target_document_id
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector(768),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5,
+  target_document_id uuid DEFAULT NULL,
+  target_version int DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  content TEXT,
+  similarity float,
+  document_id UUID,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  page_end INTEGER,
+  page_unit TEXT,
+  section_path TEXT[],
+  version INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.title,
+    dc.content,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    dc.document_id,
+    dc.chunk_index,
+    dc.page_number,
+    dc.page_end,
+    dc.page_unit,
+    dc.section_path,
+    dc.version
+  FROM document_chunks dc
+  JOIN research_documents rd ON rd.id = dc.document_id
+  WHERE dc.embedding IS NOT NULL
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    AND (target_document_id IS NULL OR dc.document_id = target_document_id)
+    AND dc.version = COALESCE(target_version, rd.current_version)
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN document_chunks.section_path IS 'Headings the chunk sits under, outermost first; NULL before the first heading';
+COMMENT ON COLUMN document_chunks.page_end IS 'Page the chunk ends on; NULL for unpaginated sources';
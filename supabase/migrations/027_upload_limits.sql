@@ -0,0 +1,87 @@
+-- =====================================================
+-- RESUMABLE UPLOADS AND PER-TEAM SIZE LIMITS
+-- =====================================================
+
+-- Files over one upload chunk go through the storage TUS endpoint, so the
+-- bucket no longer needs the 50MB cap from storage_setup.sql. 5GB is the
+-- ceiling for any team limit below.
+UPDATE storage.buckets
+SET file_size_limit = 5368709120
+WHERE id = 'research-documents';
+
+-- Largest document and data room archive a team's members may upload.
+-- Teams without a row get the client defaults: 500MB files, 1GB archives.
+CREATE TABLE IF NOT EXISTS team_upload_limits (
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE PRIMARY KEY,
+  max_file_size BIGINT NOT NULL CHECK (max_file_size > 0 AND max_file_size <= 5368709120),
+  max_archive_size BIGINT NOT NULL CHECK (max_archive_size > 0 AND max_archive_size <= 5368709120),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE team_upload_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "team_upload_limits_select_policy" ON team_upload_limits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_upload_limits.team_id
+      AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "team_upload_limits_insert_policy" ON team_upload_limits
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_upload_limits.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "team_upload_limits_update_policy" ON team_upload_limits
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_upload_limits.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+    )
+  );
+
+-- The upload page checks the limit before sending anything; this catches
+-- documents created any other way, and new versions, which
+-- add_document_version writes over the document's file_size
+CREATE OR REPLACE FUNCTION check_document_upload_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  limit_bytes BIGINT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.file_size IS NOT DISTINCT FROM OLD.file_size THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT tul.max_file_size INTO limit_bytes
+  FROM profiles p
+  JOIN team_upload_limits tul ON tul.team_id = p.team_id
+  WHERE p.id = NEW.user_id;
+
+  IF limit_bytes IS NOT NULL AND NEW.file_size > limit_bytes THEN
+    RAISE EXCEPTION 'File is larger than your team''s upload limit of % bytes', limit_bytes
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_document_upload_limit ON research_documents;
+CREATE TRIGGER check_document_upload_limit
+  BEFORE INSERT OR UPDATE OF file_size ON research_documents
+  FOR EACH ROW EXECUTE FUNCTION check_document_upload_limit();
+
+COMMENT ON TABLE team_upload_limits IS 'Largest document and data room archive, in bytes, that a team''s members may upload';
@@ -0,0 +1,219 @@
+-- =====================================================
+-- DOCUMENT ANNOTATIONS AND COMMENT THREADS
+-- =====================================================
+
+-- Documents stay private to their owner, but the notes on them are shared
+-- with the owner's team. Only the owner can open the document to highlight
+-- it; anyone on the team can read the threads, reply and resolve.
+CREATE OR REPLACE FUNCTION can_annotate_document(document_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM research_documents d
+    WHERE d.id = document_uuid
+    AND (
+      d.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM profiles p
+        JOIN team_members tm ON tm.team_id = p.team_id
+        WHERE p.id = d.user_id
+        AND tm.user_id = auth.uid()
+      )
+    )
+  );
+$$;
+
+-- A highlighted range of one version's extracted text. Offsets are
+-- characters into that text, as the document viewer lays it out.
+CREATE TABLE IF NOT EXISTS document_annotations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES research_documents(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER DEFAULT 1 NOT NULL,
+  start_offset INTEGER NOT NULL CHECK (start_offset >= 0),
+  end_offset INTEGER NOT NULL,
+  -- The highlighted text, so a thread reads on its own
+  quote TEXT NOT NULL,
+  page_number INTEGER,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_offset > start_offset)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_annotations_document ON document_annotations(document_id, version, start_offset);
+
+-- Comments on a highlight, oldest first. The first one is the note made
+-- with the highlight; the rest are replies.
+CREATE TABLE IF NOT EXISTS annotation_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  annotation_id UUID REFERENCES document_annotations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  -- Team members @mentioned in the body
+  mentions UUID[] DEFAULT '{}' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_annotation_comments_annotation ON annotation_comments(annotation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_annotation_comments_mentions ON annotation_comments USING GIN (mentions);
+
+ALTER TABLE document_annotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE annotation_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "document_annotations_select_policy" ON document_annotations
+  FOR SELECT USING (can_annotate_document(document_id));
+
+-- Highlights are made in the document viewer, which only the owner can open
+CREATE POLICY "document_annotations_insert_policy" ON document_annotations
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM research_documents d
+      WHERE d.id = document_annotations.document_id
+      AND d.user_id = auth.uid()
+    )
+  );
+
+-- Only the author edits a highlight. Teammates resolve and reopen threads
+-- through set_annotation_resolved, which changes nothing else.
+CREATE POLICY "document_annotations_update_policy" ON document_annotations
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND can_annotate_document(document_id));
+
+CREATE POLICY "document_annotations_delete_policy" ON document_annotations
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM research_documents d
+      WHERE d.id = document_annotations.document_id
+      AND d.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "annotation_comments_select_policy" ON annotation_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM document_annotations a
+      WHERE a.id = annotation_comments.annotation_id
+      AND can_annotate_document(a.document_id)
+    )
+  );
+
+CREATE POLICY "annotation_comments_insert_policy" ON annotation_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM document_annotations a
+      WHERE a.id = annotation_comments.annotation_id
+      AND can_annotate_document(a.document_id)
+    )
+  );
+
+CREATE POLICY "annotation_comments_update_policy" ON annotation_comments
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "annotation_comments_delete_policy" ON annotation_comments
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION update_document_annotations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_document_annotations_updated_at ON document_annotations;
+CREATE TRIGGER update_document_annotations_updated_at
+  BEFORE UPDATE ON document_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_document_annotations_updated_at();
+
+DROP TRIGGER IF EXISTS update_annotation_comments_updated_at ON annotation_comments;
+CREATE TRIGGER update_annotation_comments_updated_at
+  BEFORE UPDATE ON annotation_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_document_annotations_updated_at();
+
+-- Resolve a thread, or reopen it. Open to everyone who can see the thread.
+CREATE OR REPLACE FUNCTION set_annotation_resolved(target_annotation_id UUID, resolved BOOLEAN)
+RETURNS document_annotations AS $$
+DECLARE
+  annotation document_annotations;
+BEGIN
+  UPDATE document_annotations
+  SET resolved_at = CASE WHEN resolved THEN NOW() END,
+      resolved_by = CASE WHEN resolved THEN auth.uid() END
+  WHERE id = target_annotation_id
+  AND can_annotate_document(document_id)
+  RETURNING * INTO annotation;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Annotation not found';
+  END IF;
+
+  RETURN annotation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_annotation_resolved(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_annotation_resolved(UUID, BOOLEAN) TO authenticated;
+
+-- Names for comment authors and @mentions. Profiles were only visible to
+-- their owner, so teammates showed up without names.
+DROP POLICY IF EXISTS "Team members can view each other's profiles" ON profiles;
+CREATE POLICY "Team members can view each other's profiles" ON profiles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM team_members mine
+      JOIN team_members theirs ON theirs.team_id = mine.team_id
+      WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = profiles.id
+    )
+  );
+
+-- Comments that mention the caller, newest first, with the title and type
+-- of the document they are on. Teammates cannot read the document itself, so this
+-- is how a mention reaches them.
+CREATE OR REPLACE FUNCTION get_annotation_mentions(max_results INTEGER DEFAULT 50)
+RETURNS TABLE (
+  comment_id UUID,
+  annotation_id UUID,
+  document_id UUID,
+  document_title TEXT,
+  content_type TEXT,
+  version INTEGER,
+  quote TEXT,
+  page_number INTEGER,
+  body TEXT,
+  author_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.id, a.id, d.id, d.title, d.content_type, a.version, a.quote, a.page_number, c.body, c.user_id, c.created_at, a.resolved_at
+  FROM annotation_comments c
+  JOIN document_annotations a ON a.id = c.annotation_id
+  JOIN research_documents d ON d.id = a.document_id
+  WHERE auth.uid() = ANY(c.mentions)
+  AND can_annotate_document(d.id)
+  ORDER BY c.created_at DESC
+  LIMIT max_results;
+END;
+$$;
+
+COMMENT ON TABLE document_annotations IS 'Highlighted text ranges on a document version, shared with the document owner''s team';
+COMMENT ON TABLE annotation_comments IS 'Comment threads on document annotations, with @mentioned team members';